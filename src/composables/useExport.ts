@@ -1,20 +1,69 @@
 import type {
   PhotoEntity,
+  CanvasPreset,
   ExportFormat,
   ExportResolutionPreset,
+  RasterExportFormat,
+  PosterExportSettings,
+  TextLayer,
+  CustomFont,
+  CanvasBackground,
+  PhotoFrameStyle,
 } from "@/types";
+import { zipSync } from "fflate";
 import { canvasToBlob, downloadBlob } from "@/utils/image";
-import { buildCanvasFilter } from "@/utils/filters";
 import { getAssetBlob } from "@/project/assets";
 import { translate } from "@/locales";
-
-interface ExportStore {
+import {
+  boundsIntersect,
+  drawRenderItem,
+  getRenderItemBounds,
+  hasTileGaps,
+  toRenderPhotoItem,
+  type RenderPhotoItem,
+} from "@/export/renderComposition";
+import { renderInExportWorker, supportsWorkerExport } from "@/export/exportClient";
+import { JPEG_MAX_DIMENSION } from "@/export/jpegEncoder";
+import type { ExportWorkerFont, ExportWorkerPhoto } from "@/workers/exportWorker";
+import { drawTextLayer, ensureTextLayerFonts } from "@/export/renderText";
+import { drawCanvasBackground } from "@/export/renderBackground";
+import { needsAdjustedSource, prepareAdjustedItem } from "@/export/renderAdjust";
+import type { CanvasBackgroundImage } from "@/utils/canvasBackground";
+import { buildPrintPdf, buildPrintPdfPages, type PrintPdfPage } from "@/export/pdf";
+import { MM_PER_INCH, resolvePhysicalSize, type PhysicalSize } from "@/export/printSize";
+import { embedExportMetadata, resolveExportDpi } from "@/export/metadata";
+import { getActiveProjectId } from "@/project/persistence";
+import {
+  buildPosterPageMarks,
+  buildPosterPdf,
+  drawPosterMarks,
+  planPosterTiles,
+  type PosterPlan,
+  type PosterTile,
+} from "@/export/poster";
+
+export interface ExportStore {
+  presets: CanvasPreset[];
+  currentPresetId: string;
   canvasWidth: number;
   canvasHeight: number;
   sortedPhotos: PhotoEntity[];
   exportFormat: ExportFormat;
   exportQuality: number;
   exportResolution: ExportResolutionPreset;
+  exportPdfBleedMm: number;
+  exportPdfPrintMarks: boolean;
+  exportPoster: PosterExportSettings;
+  /** 形状遮罩覆盖层（遮罩外为底色），绘制在照片之上 */
+  maskOverlay: HTMLCanvasElement | null;
+  /** 文字图层，绘制在遮罩之上 */
+  textLayers: TextLayer[];
+  customFonts: CustomFont[];
+  /** 画布背景，绘制在照片之下；图片 / 模糊照片背景附带已加载的位图 */
+  canvasBackground: CanvasBackground | null;
+  canvasBackgroundSource: CanvasBackgroundImage | null;
+  /** 全局相框样式，照片自身的 frame 优先 */
+  photoFrame: PhotoFrameStyle | null;
 }
 
 export interface ExportProgress {
@@ -56,7 +105,7 @@ async function blobToImageBitmap(
   }
 }
 
-function resolveExportSize(
+export function resolveExportSize(
   canvasWidth: number,
   canvasHeight: number,
   preset: ExportResolutionPreset,
@@ -76,17 +125,231 @@ function resolveExportSize(
   };
 }
 
+// Soft limits for a single <canvas>: browsers vary by platform/GPU.
+// 超出时走 worker 分带渲染，不再受单张画布限制。
+const NATIVE_CANVAS_MAX_DIM = 16384;
+const NATIVE_CANVAS_MAX_PIXELS = 120_000_000;
+
+export function exceedsNativeCanvasLimits(width: number, height: number): boolean {
+  return (
+    width > NATIVE_CANVAS_MAX_DIM ||
+    height > NATIVE_CANVAS_MAX_DIM ||
+    width * height > NATIVE_CANVAS_MAX_PIXELS
+  );
+}
+
+export function buildExportFilename(
+  format: string,
+  resolution: ExportResolutionPreset,
+  tag?: string,
+): string {
+  const timestamp = new Date().toISOString().slice(0, 10);
+  const suffix = resolution === "original" ? "" : `-${resolution}`;
+  const tagSuffix = tag ? `-${tag}` : "";
+  return `mosaic-${timestamp}${suffix}${tagSuffix}.${format}`;
+}
+
+function toRasterFormat(format: ExportFormat): RasterExportFormat {
+  // PDF 内嵌 JPEG（DCTDecode）
+  return format === "pdf" ? "jpeg" : format;
+}
+
+/** JPEG 不支持透明；铺满布局的间距留白、画布背景之下按白色输出（与预览一致） */
+function resolveExportBackground(
+  store: ExportStore,
+  rasterFormat: RasterExportFormat,
+): string | undefined {
+  if (rasterFormat === "jpeg" || store.canvasBackground) return "#ffffff";
+  return hasTileGaps(store.sortedPhotos, store.canvasWidth, store.canvasHeight)
+    ? "#ffffff"
+    : undefined;
+}
+
+type PdfLayout = { physical: PhysicalSize; bleedPx: number };
+
+function resolveStorePhysicalSize(store: ExportStore): PhysicalSize {
+  return resolvePhysicalSize({
+    presets: store.presets,
+    presetId: store.currentPresetId,
+    canvasWidth: store.canvasWidth,
+    canvasHeight: store.canvasHeight,
+  });
+}
+
+/**
+ * PDF 页面的成品尺寸，以及出血在输出位图中对应的像素数。
+ */
+function resolvePdfLayout(store: ExportStore, outW: number): PdfLayout | null {
+  if (store.exportFormat !== "pdf") return null;
+  const physical = resolveStorePhysicalSize(store);
+  const bleedPx = Math.round((store.exportPdfBleedMm * outW) / physical.widthMm);
+  return { physical, bleedPx: Math.max(0, bleedPx) };
+}
+
+/**
+ * 位图导出写入 DPI 与预设/物理尺寸/项目信息，避免印厂按 72DPI 误缩放。
+ */
+async function finalizeRasterBlob(
+  store: ExportStore,
+  blob: Blob,
+  outW: number,
+): Promise<Blob> {
+  if (store.exportFormat === "pdf") return blob;
+  const physical = resolveStorePhysicalSize(store);
+  return await embedExportMetadata(blob, store.exportFormat, {
+    dpi: resolveExportDpi(outW, physical.widthMm),
+    presetId: store.currentPresetId,
+    widthMm: physical.widthMm,
+    heightMm: physical.heightMm,
+    projectId: getActiveProjectId(),
+  });
+}
+
+function wrapPdf(
+  store: ExportStore,
+  layout: PdfLayout,
+  jpeg: Blob,
+  width: number,
+  height: number,
+): Blob {
+  return buildPrintPdf({
+    image: { data: jpeg, width, height },
+    widthMm: layout.physical.widthMm,
+    heightMm: layout.physical.heightMm,
+    settings: {
+      bleedMm: store.exportPdfBleedMm,
+      printMarks: store.exportPdfPrintMarks,
+    },
+  });
+}
+
+/**
+ * 复制边缘像素把画布四周各扩展 pad 像素（主线程导出 PDF 出血用）。
+ */
+function extendCanvasEdges(
+  canvas: HTMLCanvasElement,
+  pad: number,
+): HTMLCanvasElement {
+  if (pad <= 0) return canvas;
+  const { width: w, height: h } = canvas;
+  const out = document.createElement("canvas");
+  out.width = w + pad * 2;
+  out.height = h + pad * 2;
+  const ctx = out.getContext("2d");
+  if (!ctx) throw new Error(translate("export.errors.contextUnavailable"));
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(canvas, pad, pad);
+  // 四边：把 1px 边缘拉伸到出血宽度
+  ctx.drawImage(canvas, 0, 0, w, 1, pad, 0, w, pad);
+  ctx.drawImage(canvas, 0, h - 1, w, 1, pad, h + pad, w, pad);
+  ctx.drawImage(out, pad, 0, 1, out.height, 0, 0, pad, out.height);
+  ctx.drawImage(out, pad + w - 1, 0, 1, out.height, w + pad, 0, pad, out.height);
+  return out;
+}
+
+function drawExportBackground(
+  ctx: CanvasRenderingContext2D,
+  store: ExportStore,
+  outW: number,
+  outH: number,
+  outScale: number,
+) {
+  if (!store.canvasBackground) return;
+  drawCanvasBackground(ctx, store.canvasBackground, store.canvasBackgroundSource, outW, outH, outScale);
+}
+
+/** 文字图层画在最上层；调用前需已等待字体加载 */
+function drawExportTexts(
+  ctx: CanvasRenderingContext2D,
+  store: ExportStore,
+  outScale: number,
+) {
+  for (const layer of store.textLayers) drawTextLayer(ctx, layer, outScale);
+}
+
+/** worker 导出只带上文字图层实际用到的上传字体 */
+async function collectExportFonts(store: ExportStore): Promise<ExportWorkerFont[]> {
+  const used = new Set(store.textLayers.map(layer => layer.fontFamily));
+  const fonts: ExportWorkerFont[] = [];
+  for (const font of store.customFonts) {
+    if (!used.has(font.family)) continue;
+    const data = await getAssetBlob(font.assetId);
+    if (data) fonts.push({ family: font.family, data });
+  }
+  return fonts;
+}
+
+function assertRenderablePhoto(photo: PhotoEntity) {
+  if (!photo.image) {
+    throw new Error(translate("export.errors.incompletePhoto", { name: photo.name ?? photo.id }));
+  }
+  const crop = photo.layoutCrop ?? photo.crop;
+  if (!crop || crop.width <= 0 || crop.height <= 0) {
+    throw new Error(translate("export.errors.invalidCrop", { name: photo.name ?? photo.id }));
+  }
+}
+
+function getSourceScale(photo: PhotoEntity): { srcScaleX: number; srcScaleY: number } {
+  const sw = photo.sourceWidth ?? photo.imageWidth;
+  const sh = photo.sourceHeight ?? photo.imageHeight;
+  return {
+    srcScaleX: sw / Math.max(1, photo.imageWidth),
+    srcScaleY: sh / Math.max(1, photo.imageHeight),
+  };
+}
+
+/** 渲染好的整张画面；PDF 导出时为含出血的 JPEG，尚未封装 */
+type RenderedExport = {
+  blob: Blob;
+  width: number;
+  height: number;
+  outW: number;
+  pdfLayout: PdfLayout | null;
+};
+
+async function finalizeRenderedExport(
+  store: ExportStore,
+  rendered: RenderedExport,
+): Promise<Blob> {
+  return rendered.pdfLayout
+    ? wrapPdf(store, rendered.pdfLayout, rendered.blob, rendered.width, rendered.height)
+    : await finalizeRasterBlob(store, rendered.blob, rendered.outW);
+}
+
 /**
  * 导出拼图为图片
  */
 export async function exportMosaic(store: ExportStore): Promise<void> {
-  return await exportMosaicWithOptions(store, {});
+  return await exportMosaicWithWorker(store, {});
 }
 
+/**
+ * 主线程单画布导出；尺寸超出浏览器画布限制时转交 worker 分带渲染。
+ */
 export async function exportMosaicWithOptions(
   store: ExportStore,
   opts: ExportOptions,
 ): Promise<void> {
+  const { width, height } = resolveExportSize(
+    store.canvasWidth,
+    store.canvasHeight,
+    store.exportResolution,
+  );
+  if (exceedsNativeCanvasLimits(width, height) && supportsWorkerExport()) {
+    return await exportMosaicWithWorker(store, opts);
+  }
+  const rendered = await renderOnMainThread(store, opts);
+  downloadBlob(
+    await finalizeRenderedExport(store, rendered),
+    buildExportFilename(store.exportFormat, store.exportResolution),
+  );
+}
+
+/** 主线程单张画布渲染，尺寸受浏览器画布上限约束 */
+async function renderOnMainThread(
+  store: ExportStore,
+  opts: ExportOptions,
+): Promise<RenderedExport> {
   const {
     canvasWidth,
     canvasHeight,
@@ -103,15 +366,12 @@ export async function exportMosaicWithOptions(
     scale: outScale,
   } = resolveExportSize(canvasWidth, canvasHeight, exportResolution);
 
-  // Soft limits: browsers vary by platform/GPU, keep it generous but safe.
-  const maxPixels = 120_000_000;
-  const maxDim = 16384;
-  if (outW > maxDim || outH > maxDim) {
-    throw new Error(
-      translate("export.errors.dimensionTooLarge", { width: outW, height: outH }),
-    );
-  }
-  if (outW * outH > maxPixels) {
+  if (exceedsNativeCanvasLimits(outW, outH)) {
+    if (outW > NATIVE_CANVAS_MAX_DIM || outH > NATIVE_CANVAS_MAX_DIM) {
+      throw new Error(
+        translate("export.errors.dimensionTooLarge", { width: outW, height: outH }),
+      );
+    }
     throw new Error(
       translate("export.errors.pixelsTooLarge", { width: outW, height: outH }),
     );
@@ -127,11 +387,16 @@ export async function exportMosaicWithOptions(
     throw new Error(translate("export.errors.contextUnavailable"));
   }
 
-  // 填充白色背景 (JPEG 需要)
-  if (exportFormat === "jpeg") {
-    ctx.fillStyle = "#ffffff";
+  const rasterFormat = toRasterFormat(exportFormat);
+  const pdfLayout = resolvePdfLayout(store, outW);
+
+  // 填充白色背景 (JPEG / 布局留白需要)
+  const background = resolveExportBackground(store, rasterFormat);
+  if (background) {
+    ctx.fillStyle = background;
     ctx.fillRect(0, 0, outW, outH);
   }
+  drawExportBackground(ctx, store, outW, outH, outScale);
 
   const total = sortedPhotos.length;
   opts.onProgress?.({ done: 0, total, label: translate("export.progress.preparing") });
@@ -141,104 +406,398 @@ export async function exportMosaicWithOptions(
     if (opts.signal?.aborted) throw new Error(translate("export.errors.cancelled"));
 
     const photo = sortedPhotos[i];
-    if (!photo.image) {
-      throw new Error(translate("export.errors.incompletePhoto", { name: photo.name ?? photo.id }));
-    }
-
-    const crop = photo.layoutCrop ?? photo.crop;
-    if (!crop || crop.width <= 0 || crop.height <= 0) {
-      throw new Error(translate("export.errors.invalidCrop", { name: photo.name ?? photo.id }));
-    }
+    assertRenderablePhoto(photo);
 
     opts.onProgress?.({ done: i, total, label: photo.name });
 
     // Resolve source image (original asset preferred)
     let source: CanvasImageSource = photo.image;
-    let srcScaleX = 1;
-    let srcScaleY = 1;
+    let srcScale = { srcScaleX: 1, srcScaleY: 1 };
 
     if (qualityMode === "original" && photo.assetId) {
       const blob = await getAssetBlob(photo.assetId);
       if (blob) {
-        const bmpOrImg = await blobToImageBitmap(blob);
-        source = bmpOrImg as any;
-
-        const sw = photo.sourceWidth ?? photo.imageWidth;
-        const sh = photo.sourceHeight ?? photo.imageHeight;
-        srcScaleX = sw / Math.max(1, photo.imageWidth);
-        srcScaleY = sh / Math.max(1, photo.imageHeight);
+        source = await blobToImageBitmap(blob);
+        srcScale = getSourceScale(photo);
       }
     }
 
-    ctx.save();
-    // Per-tile clip: prevent cover-mode overflow from overlapping adjacent photos
-    if (photo.tileRect) {
-      ctx.beginPath();
-      ctx.rect(
-        photo.tileRect.x * outScale,
-        photo.tileRect.y * outScale,
-        photo.tileRect.w * outScale,
-        photo.tileRect.h * outScale,
-      );
-      ctx.clip();
+    const item = toRenderPhotoItem(photo, srcScale.srcScaleX, srcScale.srcScaleY, store.photoFrame);
+    if (needsAdjustedSource(item.adjustments)) {
+      const adjusted = prepareAdjustedItem(item, source, outScale);
+      drawRenderItem(ctx, adjusted.item, adjusted.canvas, outScale);
+    } else {
+      drawRenderItem(ctx, item, source, outScale);
     }
-    ctx.translate(photo.cx * outScale, photo.cy * outScale);
-    ctx.rotate(photo.rotation);
-    ctx.filter = buildCanvasFilter(photo.adjustments);
-
-    const hw = (crop.width * photo.scale * outScale) / 2;
-    const hh = (crop.height * photo.scale * outScale) / 2;
-
-    const sx = crop.x * srcScaleX;
-    const sy = crop.y * srcScaleY;
-    const sWidth = crop.width * srcScaleX;
-    const sHeight = crop.height * srcScaleY;
-
-    ctx.drawImage(source, sx, sy, sWidth, sHeight, -hw, -hh, hw * 2, hh * 2);
-
-    ctx.restore();
 
     // Free bitmap resources when possible
-    if (typeof (source as any)?.close === "function") {
-      try {
-        (source as any).close();
-      } catch {
-        // ignore
-      }
+    if (typeof ImageBitmap !== "undefined" && source instanceof ImageBitmap) {
+      source.close();
     }
   }
 
+  if (store.maskOverlay) ctx.drawImage(store.maskOverlay, 0, 0, outW, outH);
+  await ensureTextLayerFonts(store.textLayers);
+  drawExportTexts(ctx, store, outScale);
+
   opts.onProgress?.({ done: total, total, label: translate("export.progress.encoding") });
 
-  // 转换为 Blob 并下载
+  const output = pdfLayout ? extendCanvasEdges(canvas, pdfLayout.bleedPx) : canvas;
   let blob: Blob;
   try {
-    blob = await canvasToBlob(canvas, exportFormat, exportQuality);
+    blob = await canvasToBlob(output, rasterFormat, exportQuality);
   } catch (e) {
     if (exportFormat === "webp") {
       throw new Error(translate("export.errors.webpUnsupported"));
     }
     throw e;
   }
-  const timestamp = new Date().toISOString().slice(0, 10);
-  const suffix = exportResolution === "original" ? "" : `-${exportResolution}`;
-  const filename = `mosaic-${timestamp}${suffix}.${exportFormat}`;
-
-  downloadBlob(blob, filename);
+  return { blob, width: output.width, height: output.height, outW, pdfLayout };
 }
 
 /**
- * 使用 Web Worker 导出（用于大尺寸图片）
+ * 使用 Web Worker 分带渲染导出：OffscreenCanvas 逐条带绘制并流式编码，
+ * 输出尺寸不受单张画布限制。不支持 OffscreenCanvas 的环境退回主线程导出。
  */
 export async function exportMosaicWithWorker(
   store: ExportStore,
+  opts: ExportOptions = {},
 ): Promise<void> {
-  // 对于普通尺寸，直接使用主线程
-  if (store.canvasWidth * store.canvasHeight < 30000000) {
-    return exportMosaic(store);
+  if (!supportsWorkerExport()) return await exportMosaicWithOptions(store, opts);
+  const rendered = await renderInWorker(store, opts);
+  downloadBlob(
+    await finalizeRenderedExport(store, rendered),
+    buildExportFilename(store.exportFormat, store.exportResolution),
+  );
+}
+
+async function renderInWorker(
+  store: ExportStore,
+  opts: ExportOptions,
+): Promise<RenderedExport> {
+  const {
+    canvasWidth,
+    canvasHeight,
+    sortedPhotos,
+    exportFormat,
+    exportQuality,
+    exportResolution,
+  } = store;
+  const qualityMode = opts.qualityMode ?? "original";
+  const {
+    width: outW,
+    height: outH,
+    scale: outScale,
+  } = resolveExportSize(canvasWidth, canvasHeight, exportResolution);
+
+  const rasterFormat = toRasterFormat(exportFormat);
+  const pdfLayout = resolvePdfLayout(store, outW);
+  const pad = pdfLayout?.bleedPx ?? 0;
+  const rasterW = outW + pad * 2;
+  const rasterH = outH + pad * 2;
+
+  if (rasterFormat === "webp" && exceedsNativeCanvasLimits(outW, outH)) {
+    throw new Error(translate("export.errors.webpTooLarge", { width: outW, height: outH }));
+  }
+  if (rasterFormat === "jpeg" && Math.max(rasterW, rasterH) > JPEG_MAX_DIMENSION) {
+    throw new Error(
+      translate("export.errors.jpegTooLarge", { width: rasterW, height: rasterH, max: JPEG_MAX_DIMENSION }),
+    );
+  }
+
+  const total = sortedPhotos.length;
+  const photos: ExportWorkerPhoto[] = [];
+  try {
+    for (let i = 0; i < sortedPhotos.length; i++) {
+      if (opts.signal?.aborted) throw new Error(translate("export.errors.cancelled"));
+
+      const photo = sortedPhotos[i];
+      assertRenderablePhoto(photo);
+      opts.onProgress?.({ done: i, total, label: translate("export.progress.preparing") });
+
+      // 原图 blob 交给 worker 按需解码；没有资源时退回预览图
+      const blob =
+        qualityMode === "original" && photo.assetId
+          ? await getAssetBlob(photo.assetId)
+          : null;
+      if (blob) {
+        const { srcScaleX, srcScaleY } = getSourceScale(photo);
+        photos.push({
+          item: toRenderPhotoItem(photo, srcScaleX, srcScaleY, store.photoFrame),
+          source: blob,
+        });
+      } else {
+        photos.push({
+          item: toRenderPhotoItem(photo, 1, 1, store.photoFrame),
+          source: await createImageBitmap(photo.image),
+        });
+      }
+    }
+  } catch (err) {
+    for (const p of photos) {
+      if (!(p.source instanceof Blob)) p.source.close();
+    }
+    throw err;
+  }
+
+  const overlay = store.maskOverlay ? await createImageBitmap(store.maskOverlay) : undefined;
+  const backgroundSource = store.canvasBackgroundSource
+    ? await createImageBitmap(store.canvasBackgroundSource)
+    : undefined;
+  const rendered = await renderInExportWorker(
+    {
+      width: outW,
+      height: outH,
+      outScale,
+      format: rasterFormat,
+      quality: exportQuality,
+      background: resolveExportBackground(store, rasterFormat),
+      edgeExtend: pad,
+      photos,
+      overlay,
+      canvasBackground: store.canvasBackground
+        ? { background: { ...store.canvasBackground }, source: backgroundSource }
+        : undefined,
+      texts: store.textLayers.map(layer => ({ ...layer })),
+      fonts: await collectExportFonts(store),
+    },
+    {
+      signal: opts.signal,
+      onBandProgress: (done, bands) =>
+        opts.onProgress?.({ done, total: bands, label: translate("export.progress.rendering") }),
+    },
+  );
+
+  return { blob: rendered, width: rasterW, height: rasterH, outW, pdfLayout };
+}
+
+/**
+ * 相册导出：逐页渲染。PDF 合成一个多页文件（每页保留各自的成品尺寸），
+ * 其他格式每页一张图片打包为 ZIP。
+ */
+export async function exportPhotoBook(
+  pages: ExportStore[],
+  opts: ExportOptions = {},
+): Promise<void> {
+  if (pages.length === 0) return;
+  const { exportFormat, exportResolution } = pages[0];
+  const total = pages.length;
+  const digits = String(total).length;
+  const pdfPages: PrintPdfPage[] = [];
+  const zipEntries: Record<string, Uint8Array> = {};
+
+  for (let i = 0; i < total; i++) {
+    if (opts.signal?.aborted) throw new Error(translate("export.errors.cancelled"));
+    const page = pages[i];
+    const label = translate("export.progress.bookPage", { page: i + 1, total });
+    opts.onProgress?.({ done: i, total, label });
+
+    const pageOpts: ExportOptions = { signal: opts.signal, qualityMode: opts.qualityMode };
+    const rendered = supportsWorkerExport()
+      ? await renderInWorker(page, pageOpts)
+      : await renderOnMainThread(page, pageOpts);
+    if (rendered.pdfLayout) {
+      pdfPages.push({
+        image: { data: rendered.blob, width: rendered.width, height: rendered.height },
+        widthMm: rendered.pdfLayout.physical.widthMm,
+        heightMm: rendered.pdfLayout.physical.heightMm,
+      });
+      continue;
+    }
+    const blob = await finalizeRasterBlob(page, rendered.blob, rendered.outW);
+    const ext = exportFormat === "jpeg" ? "jpg" : exportFormat;
+    zipEntries[`page-${String(i + 1).padStart(digits, "0")}.${ext}`] = new Uint8Array(
+      await blob.arrayBuffer(),
+    );
   }
 
-  // 大尺寸图片使用分块渲染
-  // 这里可以实现 OffscreenCanvas 或分块渲染
-  return exportMosaic(store);
+  opts.onProgress?.({ done: total, total, label: translate("export.progress.encoding") });
+
+  if (exportFormat === "pdf") {
+    const pdf = buildPrintPdfPages({
+      pages: pdfPages,
+      settings: {
+        bleedMm: pages[0].exportPdfBleedMm,
+        printMarks: pages[0].exportPdfPrintMarks,
+      },
+    });
+    downloadBlob(pdf, buildExportFilename("pdf", exportResolution, "book"));
+    return;
+  }
+  // 页面图片已压缩，ZIP 只做存储
+  const zipped = new Uint8Array(zipSync(zipEntries, { level: 0 }));
+  downloadBlob(
+    new Blob([zipped], { type: "application/zip" }),
+    buildExportFilename("zip", exportResolution, "book"),
+  );
+}
+
+/**
+ * 为海报分页计算打印计划（页数、每页在导出位图中的区域）。
+ */
+export function planStorePoster(store: ExportStore): PosterPlan {
+  const { width, height } = resolveExportSize(
+    store.canvasWidth,
+    store.canvasHeight,
+    store.exportResolution,
+  );
+  const physical = resolveStorePhysicalSize(store);
+  return planPosterTiles({
+    outWidth: width,
+    outHeight: height,
+    widthMm: physical.widthMm,
+    heightMm: physical.heightMm,
+    settings: store.exportPoster,
+  });
+}
+
+/**
+ * 海报分页导出：把画布按纸张切成 N×M 页，每页单独渲染（单页尺寸远小于画布限制），
+ * 输出多页 PDF 或每页一张图片的 ZIP。照片在首次用到时解码，最后一页用完后释放。
+ */
+export async function exportPosterTiles(
+  store: ExportStore,
+  opts: ExportOptions = {},
+): Promise<void> {
+  const { sortedPhotos, exportFormat, exportQuality, exportResolution } = store;
+  const settings = store.exportPoster;
+  const qualityMode = opts.qualityMode ?? "original";
+  const {
+    width: outW,
+    height: outH,
+    scale: outScale,
+  } = resolveExportSize(
+    store.canvasWidth,
+    store.canvasHeight,
+    exportResolution,
+  );
+  const plan = planStorePoster(store);
+  const asPdf = settings.output === "pdf";
+  const rasterFormat = asPdf ? "jpeg" : toRasterFormat(exportFormat);
+
+  type PosterSlot = {
+    photo: PhotoEntity;
+    item: RenderPhotoItem;
+    tiles: PosterTile[];
+    source: CanvasImageSource | null;
+  };
+  const slots: PosterSlot[] = sortedPhotos.map((photo) => {
+    assertRenderablePhoto(photo);
+    const item = toRenderPhotoItem(photo, 1, 1, store.photoFrame);
+    const bounds = getRenderItemBounds(item, outScale);
+    const tiles = plan.tiles.filter((tile) =>
+      boundsIntersect(bounds, {
+        left: tile.px.x,
+        top: tile.px.y,
+        right: tile.px.x + tile.px.width,
+        bottom: tile.px.y + tile.px.height,
+      }),
+    );
+    return { photo, item, tiles, source: null };
+  });
+
+  const ensureSource = async (slot: PosterSlot): Promise<CanvasImageSource> => {
+    if (slot.source) return slot.source;
+    const blob =
+      qualityMode === "original" && slot.photo.assetId
+        ? await getAssetBlob(slot.photo.assetId)
+        : null;
+    if (blob) {
+      slot.source = await blobToImageBitmap(blob);
+      const { srcScaleX, srcScaleY } = getSourceScale(slot.photo);
+      slot.item = { ...slot.item, srcScaleX, srcScaleY };
+    } else {
+      slot.source = slot.photo.image;
+    }
+    // 跨多页的照片只调整一次
+    if (needsAdjustedSource(slot.item.adjustments)) {
+      const adjusted = prepareAdjustedItem(slot.item, slot.source, outScale);
+      releaseSource(slot);
+      slot.item = adjusted.item;
+      slot.source = adjusted.canvas;
+    }
+    return slot.source;
+  };
+  const releaseSource = (slot: PosterSlot) => {
+    if (typeof ImageBitmap !== "undefined" && slot.source instanceof ImageBitmap) {
+      slot.source.close();
+    }
+    slot.source = null;
+  };
+
+  await ensureTextLayerFonts(store.textLayers);
+  const total = plan.tiles.length;
+  const pdfImages: Array<{ data: Blob; width: number; height: number }> = [];
+  const zipEntries: Record<string, Uint8Array> = {};
+  const dpi = plan.pxPerMm * MM_PER_INCH;
+
+  try {
+    for (const tile of plan.tiles) {
+      if (opts.signal?.aborted) throw new Error(translate("export.errors.cancelled"));
+      opts.onProgress?.({
+        done: tile.index,
+        total,
+        label: translate("export.progress.posterPage", { label: tile.label }),
+      });
+
+      // PDF 每页只需画面位图（标记为矢量）；ZIP 每页为整张纸的图片
+      const marks = buildPosterPageMarks(plan, tile);
+      const offsetX = asPdf ? 0 : Math.round(marks.content.x * plan.pxPerMm);
+      const offsetY = asPdf ? 0 : Math.round(marks.content.y * plan.pxPerMm);
+      const canvas = document.createElement("canvas");
+      canvas.width = asPdf ? tile.px.width : Math.round(plan.paper.widthMm * plan.pxPerMm);
+      canvas.height = asPdf ? tile.px.height : Math.round(plan.paper.heightMm * plan.pxPerMm);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error(translate("export.errors.contextUnavailable"));
+
+      ctx.fillStyle = "#ffffff";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(offsetX, offsetY, tile.px.width, tile.px.height);
+      ctx.clip();
+      ctx.translate(offsetX - tile.px.x, offsetY - tile.px.y);
+      drawExportBackground(ctx, store, outW, outH, outScale);
+      for (const slot of slots) {
+        if (!slot.tiles.includes(tile)) continue;
+        drawRenderItem(ctx, slot.item, await ensureSource(slot), outScale);
+        if (slot.tiles[slot.tiles.length - 1] === tile) releaseSource(slot);
+      }
+      if (store.maskOverlay) ctx.drawImage(store.maskOverlay, 0, 0, outW, outH);
+      drawExportTexts(ctx, store, outScale);
+      ctx.restore();
+      if (!asPdf) drawPosterMarks(ctx, marks, plan.pxPerMm);
+
+      const blob = await canvasToBlob(canvas, rasterFormat, exportQuality);
+      if (asPdf) {
+        pdfImages.push({ data: blob, width: canvas.width, height: canvas.height });
+        continue;
+      }
+      const page = await embedExportMetadata(blob, rasterFormat, {
+        dpi,
+        presetId: store.currentPresetId,
+        widthMm: plan.paper.widthMm,
+        heightMm: plan.paper.heightMm,
+        projectId: getActiveProjectId(),
+      });
+      const ext = rasterFormat === "jpeg" ? "jpg" : rasterFormat;
+      zipEntries[`poster-${tile.label}.${ext}`] = new Uint8Array(await page.arrayBuffer());
+    }
+  } finally {
+    for (const slot of slots) releaseSource(slot);
+  }
+
+  opts.onProgress?.({ done: total, total, label: translate("export.progress.encoding") });
+
+  const tag = `poster-${settings.paper}`;
+  if (asPdf) {
+    downloadBlob(buildPosterPdf({ plan, images: pdfImages }), buildExportFilename("pdf", exportResolution, tag));
+    return;
+  }
+  // 页面图片已压缩，ZIP 只做存储
+  const zipped = new Uint8Array(zipSync(zipEntries, { level: 0 }));
+  downloadBlob(
+    new Blob([zipped], { type: "application/zip" }),
+    buildExportFilename("zip", exportResolution, tag),
+  );
 }
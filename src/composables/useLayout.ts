@@ -1,15 +1,21 @@
-import type { PhotoEntity, ArrangeOptions, Placement } from "@/types";
+import type { PhotoEntity, ArrangeOptions, Placement, PhotoFrameStyle } from "@/types";
 import { getSmartDetections } from "@/utils/smartCrop";
 import {
   randomInRange,
   degreesToRadians,
   clamp,
   rotatedAABBHalf,
-  photoToOBB,
   obbIntersects,
 } from "@/utils/math";
+import {
+  expandOBBByInsets,
+  photoFrameOBB,
+  resolveFrameInsets,
+  resolvePhotoFrame,
+} from "@/utils/photoFrame";
 import {
   fillArrangePhotosShared,
+  resolvePinnedInput,
   type FillArrangeOptions,
   type FillArrangePhotoInput,
 } from "@/utils/fillArrangeShared";
@@ -22,16 +28,17 @@ function area(photo: PhotoEntity): number {
 }
 
 /**
- * 检测候选照片是否与已放置的照片碰撞
+ * 检测候选照片是否与已放置的照片碰撞（按加上相框后的外框计算）
  */
 function collides(
   candidate: PhotoEntity,
   placed: PhotoEntity[],
   padding: number,
+  frame: PhotoFrameStyle | null,
 ): boolean {
-  const a = photoToOBB(candidate);
+  const a = photoFrameOBB(candidate, frame);
   for (const p of placed) {
-    if (obbIntersects(a, photoToOBB(p), padding)) return true;
+    if (obbIntersects(a, photoFrameOBB(p, frame), padding)) return true;
   }
   return false;
 }
@@ -98,6 +105,7 @@ export function autoArrangePhotos(
   const randomScaleMin = options.randomScaleMin ?? 0.25;
   const randomScaleMax = options.randomScaleMax ?? 0.75;
   const rotationDeg = options.rotationDeg ?? 5;
+  const frame = options.frame ?? null;
 
   // 按面积从大到小排序
   const sorted = [...photos].sort((a, b) => area(b) - area(a));
@@ -126,7 +134,12 @@ export function autoArrangePhotos(
       for (let shrinkTry = 0; shrinkTry < 8 && !placedOk; shrinkTry++) {
         const hw = (p.crop.width * s) / 2;
         const hh = (p.crop.height * s) / 2;
-        const { ex, ey } = rotatedAABBHalf(hw, hh, rot);
+        // 相框外框相对照片中心的偏移（拍立得底边更宽）与半尺寸
+        const framed = expandOBBByInsets(
+          { cx: 0, cy: 0, hw, hh, rotation: rot },
+          resolveFrameInsets(resolvePhotoFrame(p, frame), Math.min(hw, hh) * 2),
+        );
+        const { ex, ey } = rotatedAABBHalf(framed.hw, framed.hh, rot);
 
         // 检查是否太大
         if (ex * 2 > canvasW || ey * 2 > canvasH) {
@@ -144,8 +157,8 @@ export function autoArrangePhotos(
         ];
 
         for (const sample of samples) {
-          const cx = clamp(sample.x, ex, canvasW - ex);
-          const cy = clamp(sample.y, ey, canvasH - ey);
+          const cx = clamp(sample.x, ex, canvasW - ex) - framed.cx;
+          const cy = clamp(sample.y, ey, canvasH - ey) - framed.cy;
 
           const candidate: PhotoEntity = {
             ...p,
@@ -155,7 +168,7 @@ export function autoArrangePhotos(
             rotation: rot,
           };
 
-          if (!collides(candidate, placed, padding)) {
+          if (!collides(candidate, placed, padding, frame)) {
             placed.push(candidate);
             placements.push({ id: p.id, cx, cy, scale: s, rotation: rot });
             placedOk = true;
@@ -240,15 +253,25 @@ export function compactArrange(
 }
 
 export type { FillArrangeOptions } from "@/utils/fillArrangeShared";
+export {
+  DEFAULT_LAYOUT_SPACING,
+  MAX_LAYOUT_SPACING,
+  MAX_ORDERING_WEIGHT,
+  MAX_TITLE_BAND_HEIGHT,
+} from "@/utils/fillArrangeShared";
 
 /**
  * 画布“铺满式”自动排版：
  * - 无重叠
- * - 无缝隙（上下左右相邻无间隔）
- * - 所有照片铺满整个画布（无空白区域）
+ * - 默认无缝隙；可通过 gutter / outerMargin 设置照片间距与画布外边距
+ * - 切分后的 tile 铺满整个画布，照片占据 tile 扣除留白后的可见区域
  *
  * 实现策略：递归切分画布为 n 个矩形 tile（整像素边界对齐）。
- * 每张照片会被自动居中裁剪到 tile 的宽高比，避免拉伸变形。
+ * 每张照片会被自动居中裁剪到可见区域的宽高比，避免拉伸变形；
+ * cornerRadius 写入 tileRect.r，渲染与导出时按圆角裁剪。
+ * 锁定（locked）的照片保留原 tileRect，只在剩余区域内重排其他照片；
+ * 设置了星级（priority）时按星级分配 tile 面积；
+ * 设置了排列顺序（ordering）时照片尽量按阅读顺序排列。
  */
 export function fillArrangePhotos(
   photos: PhotoEntity[],
@@ -262,6 +285,11 @@ export function fillArrangePhotos(
     imageWidth: photo.imageWidth,
     imageHeight: photo.imageHeight,
     detections: getSmartDetections(photo.id),
+    priority: photo.priority,
+    name: photo.name,
+    takenAt: photo.takenAt,
+    quality: photo.quality?.score,
+    pinned: resolvePinnedInput(photo),
   }));
   return fillArrangePhotosShared(inputs, canvasW, canvasH, options);
 }
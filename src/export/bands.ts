@@ -0,0 +1,80 @@
+// 单个条带缓冲区的像素预算（RGBA 约 32MB），决定条带高度。
+const BAND_PIXEL_BUDGET = 8 * 1024 * 1024
+// 单块 OffscreenCanvas 的最大边长，超宽画布在条带内再按列切块。
+export const MAX_TILE_EDGE = 8192
+// JPEG MCU 为 8 行，条带高度按 16 对齐也兼容后续的色度抽样。
+const BAND_ALIGN = 16
+const MAX_BAND_HEIGHT = 2048
+
+export interface ExportBand {
+  index: number
+  y: number
+  height: number
+}
+
+export interface ExportColumn {
+  x: number
+  width: number
+}
+
+export interface ExportBandPlan {
+  width: number
+  height: number
+  bandHeight: number
+  bands: ExportBand[]
+  columns: ExportColumn[]
+}
+
+/**
+ * 把输出图按水平条带（以及超宽时的列块）切分，每个条带独立绘制后流式写入编码器，
+ * 内存占用只与画布宽度有关，与总高度无关。
+ */
+export function planExportBands(
+  width: number,
+  height: number,
+  opts?: { pixelBudget?: number; maxTileEdge?: number }
+): ExportBandPlan {
+  const w = Math.max(1, Math.floor(width))
+  const h = Math.max(1, Math.floor(height))
+  const budget = opts?.pixelBudget ?? BAND_PIXEL_BUDGET
+  const maxTileEdge = opts?.maxTileEdge ?? MAX_TILE_EDGE
+
+  const raw = Math.floor(budget / w / BAND_ALIGN) * BAND_ALIGN
+  const bandHeight = Math.min(h, Math.max(BAND_ALIGN, Math.min(MAX_BAND_HEIGHT, maxTileEdge, raw)))
+
+  const bands: ExportBand[] = []
+  for (let y = 0; y < h; y += bandHeight) {
+    bands.push({ index: bands.length, y, height: Math.min(bandHeight, h - y) })
+  }
+
+  const columns: ExportColumn[] = []
+  for (let x = 0; x < w; x += maxTileEdge) {
+    columns.push({ x, width: Math.min(maxTileEdge, w - x) })
+  }
+
+  return { width: w, height: h, bandHeight, bands, columns }
+}
+
+/**
+ * 左右各复制边缘像素 pad 次，返回加宽后的行（用于出血：画面向外延伸）。
+ */
+export function extendRowEdges(
+  rgba: Uint8Array | Uint8ClampedArray,
+  width: number,
+  rows: number,
+  pad: number
+): Uint8Array {
+  const stride = width * 4
+  const outStride = (width + pad * 2) * 4
+  const out = new Uint8Array(outStride * rows)
+  for (let r = 0; r < rows; r++) {
+    const src = r * stride
+    const dst = r * outStride
+    out.set(rgba.subarray(src, src + stride), dst + pad * 4)
+    for (let i = 0; i < pad; i++) {
+      out.copyWithin(dst + i * 4, dst + pad * 4, dst + pad * 4 + 4)
+      out.copyWithin(dst + (pad + width + i) * 4, dst + (pad + width - 1) * 4, dst + (pad + width) * 4)
+    }
+  }
+  return out
+}
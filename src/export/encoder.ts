@@ -0,0 +1,83 @@
+/**
+ * 流式图像编码器：按行顺序写入 RGBA 像素，结束时得到完整文件。
+ * 输出按块累积为 Blob parts，不需要整幅位图常驻内存。
+ */
+export interface StreamingImageEncoder {
+  readonly mimeType: string
+  /** rgba 按行紧密排列，长度至少 width * rows * 4 */
+  writeRows(rgba: Uint8Array | Uint8ClampedArray, rows: number): void
+  finish(): Blob
+}
+
+const SINK_CHUNK_SIZE = 1 << 16
+
+/**
+ * 追加写字节缓冲：写满一块就转存为 Blob part。
+ */
+export class ByteSink {
+  private parts: Uint8Array<ArrayBuffer>[] = []
+  private buf = new Uint8Array(SINK_CHUNK_SIZE)
+  private pos = 0
+
+  writeByte(b: number): void {
+    if (this.pos === this.buf.length) this.flush()
+    this.buf[this.pos++] = b
+  }
+
+  writeUint16(v: number): void {
+    this.writeByte((v >>> 8) & 0xff)
+    this.writeByte(v & 0xff)
+  }
+
+  writeUint32(v: number): void {
+    this.writeUint16((v >>> 16) & 0xffff)
+    this.writeUint16(v & 0xffff)
+  }
+
+  writeBytes(bytes: ArrayLike<number>): void {
+    if (bytes.length >= SINK_CHUNK_SIZE) {
+      this.flush()
+      this.parts.push(Uint8Array.from(bytes))
+      return
+    }
+    for (let i = 0; i < bytes.length; i++) this.writeByte(bytes[i])
+  }
+
+  flush(): void {
+    if (this.pos === 0) return
+    this.parts.push(this.buf.slice(0, this.pos))
+    this.buf = new Uint8Array(SINK_CHUNK_SIZE)
+    this.pos = 0
+  }
+
+  toBlob(type: string): Blob {
+    this.flush()
+    const blob = new Blob(this.parts, { type })
+    this.parts = []
+    return blob
+  }
+}
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  crcTable = table
+  return table
+}
+
+/**
+ * CRC-32（PNG/zlib 使用的多项式）。可传入上一次的结果继续累计。
+ */
+export function crc32(bytes: ArrayLike<number>, crc = 0): number {
+  const table = getCrcTable()
+  let c = (crc ^ 0xffffffff) >>> 0
+  for (let i = 0; i < bytes.length; i++) c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
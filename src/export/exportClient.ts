@@ -0,0 +1,75 @@
+import type {
+  ExportRenderRequest,
+  ExportWorkerResponse,
+} from '@/workers/exportWorker'
+import { translate } from '@/locales'
+
+export type ExportWorkerJob = Omit<ExportRenderRequest, 'id' | 'type'>
+
+let nextRequestId = 0
+
+export function supportsWorkerExport(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function'
+  )
+}
+
+/**
+ * 在独立 worker 中分带渲染并编码。每次导出使用新的 worker，
+ * 结束或取消时直接 terminate，确保大图占用的内存立即归还。
+ */
+export function renderInExportWorker(
+  job: ExportWorkerJob,
+  opts?: {
+    signal?: AbortSignal
+    onBandProgress?: (done: number, total: number) => void
+  }
+): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    if (opts?.signal?.aborted) {
+      reject(new Error(translate('export.errors.cancelled')))
+      return
+    }
+
+    const id = ++nextRequestId
+    const worker = new Worker(new URL('../workers/exportWorker.ts', import.meta.url), {
+      type: 'module',
+    })
+
+    const cleanup = () => {
+      opts?.signal?.removeEventListener('abort', onAbort)
+      worker.terminate()
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(new Error(translate('export.errors.cancelled')))
+    }
+    opts?.signal?.addEventListener('abort', onAbort, { once: true })
+
+    worker.onmessage = (e: MessageEvent<ExportWorkerResponse>) => {
+      const msg = e.data
+      if (!msg || msg.id !== id) return
+      if (msg.type === 'progress') {
+        opts?.onBandProgress?.(msg.done, msg.total)
+        return
+      }
+      cleanup()
+      if (msg.type === 'done') resolve(msg.blob)
+      else reject(new Error(msg.error))
+    }
+    worker.onerror = () => {
+      cleanup()
+      reject(new Error(translate('export.errors.workerCrashed')))
+    }
+
+    const request: ExportRenderRequest = { ...job, id, type: 'render' }
+    const transfer = job.photos
+      .map((p) => p.source)
+      .filter((s): s is ImageBitmap => !(s instanceof Blob))
+    if (job.overlay) transfer.push(job.overlay)
+    if (job.canvasBackground?.source) transfer.push(job.canvasBackground.source)
+    worker.postMessage(request, transfer)
+  })
+}
@@ -0,0 +1,364 @@
+import { ByteSink, type StreamingImageEncoder } from '@/export/encoder'
+
+// JPEG 尺寸字段为 16 位。
+export const JPEG_MAX_DIMENSION = 65535
+
+// 自然顺序下标 -> zigzag 位置
+const ZIGZAG = [
+  0, 1, 5, 6, 14, 15, 27, 28, 2, 4, 7, 13, 16, 26, 29, 42, 3, 8, 12, 17, 25, 30, 41, 43, 9, 11, 18,
+  24, 31, 40, 44, 53, 10, 19, 23, 32, 39, 45, 52, 54, 20, 22, 33, 38, 46, 51, 55, 60, 21, 34, 37,
+  47, 50, 56, 59, 61, 35, 36, 48, 49, 57, 58, 62, 63,
+]
+
+// ITU T.81 附录 K 的标准量化表（自然顺序）
+const STD_LUMA_QT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113,
+  92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+]
+const STD_CHROMA_QT = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99, 24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+]
+
+// 标准 Huffman 表：每个码长（1..16）的码字数 + 符号
+const DC_LUMA_COUNTS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0]
+const DC_CHROMA_COUNTS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0]
+const DC_SYMBOLS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+
+const AC_LUMA_COUNTS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d]
+const AC_LUMA_SYMBOLS = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+]
+const AC_CHROMA_COUNTS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77]
+const AC_CHROMA_SYMBOLS = [
+  0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+  0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+  0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+  0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+  0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+  0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+  0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+  0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+  0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+  0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+]
+
+// AAN DCT 的行/列缩放因子
+const AAN_SCALE = [
+  1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.5411961, 0.275899379,
+]
+
+type HuffmanCode = [code: number, length: number]
+
+function buildHuffmanTable(counts: number[], symbols: number[]): HuffmanCode[] {
+  const table: HuffmanCode[] = []
+  let code = 0
+  let k = 0
+  for (let len = 1; len <= 16; len++) {
+    for (let i = 0; i < counts[len - 1]; i++) {
+      table[symbols[k++]] = [code, len]
+      code++
+    }
+    code <<= 1
+  }
+  return table
+}
+
+/** IJG 质量缩放：quality 取 0..1，返回 zigzag 顺序的量化表 */
+export function scaleQuantTable(base: number[], quality: number): number[] {
+  const q = Math.max(1, Math.min(100, Math.round(quality * 100)))
+  const factor = q < 50 ? Math.floor(5000 / q) : 200 - q * 2
+  const out = new Array<number>(64)
+  for (let i = 0; i < 64; i++) {
+    out[ZIGZAG[i]] = Math.max(1, Math.min(255, Math.floor((base[i] * factor + 50) / 100)))
+  }
+  return out
+}
+
+function buildDivisors(zigzagTable: number[]): Float64Array {
+  const out = new Float64Array(64)
+  for (let row = 0, k = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++, k++) {
+      out[k] = 1 / (zigzagTable[ZIGZAG[k]] * AAN_SCALE[row] * AAN_SCALE[col] * 8)
+    }
+  }
+  return out
+}
+
+// 就地执行 AAN 前向 DCT（结果未缩放，由 buildDivisors 的除数补偿）
+function forwardDct(d: Float64Array): void {
+  for (let pass = 0; pass < 2; pass++) {
+    const step = pass === 0 ? 1 : 8
+    const lineStep = pass === 0 ? 8 : 1
+    for (let line = 0; line < 8; line++) {
+      const o = line * lineStep
+      const d0 = d[o]
+      const d1 = d[o + step]
+      const d2 = d[o + 2 * step]
+      const d3 = d[o + 3 * step]
+      const d4 = d[o + 4 * step]
+      const d5 = d[o + 5 * step]
+      const d6 = d[o + 6 * step]
+      const d7 = d[o + 7 * step]
+
+      const tmp0 = d0 + d7
+      const tmp7 = d0 - d7
+      const tmp1 = d1 + d6
+      const tmp6 = d1 - d6
+      const tmp2 = d2 + d5
+      const tmp5 = d2 - d5
+      const tmp3 = d3 + d4
+      const tmp4 = d3 - d4
+
+      let tmp10 = tmp0 + tmp3
+      const tmp13 = tmp0 - tmp3
+      let tmp11 = tmp1 + tmp2
+      let tmp12 = tmp1 - tmp2
+
+      d[o] = tmp10 + tmp11
+      d[o + 4 * step] = tmp10 - tmp11
+      const z1 = (tmp12 + tmp13) * 0.707106781
+      d[o + 2 * step] = tmp13 + z1
+      d[o + 6 * step] = tmp13 - z1
+
+      tmp10 = tmp4 + tmp5
+      tmp11 = tmp5 + tmp6
+      tmp12 = tmp6 + tmp7
+      const z5 = (tmp10 - tmp12) * 0.382683433
+      const z2 = 0.5411961 * tmp10 + z5
+      const z4 = 1.306562965 * tmp12 + z5
+      const z3 = tmp11 * 0.707106781
+      const z11 = tmp7 + z3
+      const z13 = tmp7 - z3
+
+      d[o + 5 * step] = z13 + z2
+      d[o + 3 * step] = z13 - z2
+      d[o + step] = z11 + z4
+      d[o + 7 * step] = z11 - z4
+    }
+  }
+}
+
+/**
+ * 基线 JPEG（YCbCr 4:4:4，标准 Huffman 表）的流式编码器。
+ * 每凑满 8 行编码一行 MCU；alpha 通道被忽略，调用方需先铺好背景色。
+ */
+export class JpegStreamEncoder implements StreamingImageEncoder {
+  readonly mimeType = 'image/jpeg'
+  private readonly sink = new ByteSink()
+  private readonly lumaTable: number[]
+  private readonly chromaTable: number[]
+  private readonly lumaDiv: Float64Array
+  private readonly chromaDiv: Float64Array
+  private readonly dcLuma = buildHuffmanTable(DC_LUMA_COUNTS, DC_SYMBOLS)
+  private readonly dcChroma = buildHuffmanTable(DC_CHROMA_COUNTS, DC_SYMBOLS)
+  private readonly acLuma = buildHuffmanTable(AC_LUMA_COUNTS, AC_LUMA_SYMBOLS)
+  private readonly acChroma = buildHuffmanTable(AC_CHROMA_COUNTS, AC_CHROMA_SYMBOLS)
+
+  // 未满 8 行的待编码像素
+  private readonly pending: Uint8Array
+  private pendingRows = 0
+  private rowsWritten = 0
+
+  private readonly yBlock = new Float64Array(64)
+  private readonly cbBlock = new Float64Array(64)
+  private readonly crBlock = new Float64Array(64)
+  private readonly quantized = new Int32Array(64)
+  private dcY = 0
+  private dcCb = 0
+  private dcCr = 0
+  private bitBuffer = 0
+  private bitCount = 0
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    quality = 0.92
+  ) {
+    if (width > JPEG_MAX_DIMENSION || height > JPEG_MAX_DIMENSION) {
+      throw new Error(`JPEG dimensions exceed ${JPEG_MAX_DIMENSION}px`)
+    }
+    this.lumaTable = scaleQuantTable(STD_LUMA_QT, quality)
+    this.chromaTable = scaleQuantTable(STD_CHROMA_QT, quality)
+    this.lumaDiv = buildDivisors(this.lumaTable)
+    this.chromaDiv = buildDivisors(this.chromaTable)
+    this.pending = new Uint8Array(width * 4 * 8)
+    this.writeHeaders()
+  }
+
+  writeRows(rgba: Uint8Array | Uint8ClampedArray, rows: number): void {
+    const stride = this.width * 4
+    const count = Math.min(rows, this.height - this.rowsWritten)
+    for (let r = 0; r < count; r++) {
+      this.pending.set(rgba.subarray(r * stride, (r + 1) * stride), this.pendingRows * stride)
+      this.pendingRows++
+      this.rowsWritten++
+      if (this.pendingRows === 8) this.encodeMcuRow()
+    }
+  }
+
+  finish(): Blob {
+    if (this.rowsWritten < this.height) {
+      throw new Error(`JPEG encoder expected ${this.height} rows, got ${this.rowsWritten}`)
+    }
+    if (this.pendingRows > 0) this.encodeMcuRow()
+    // 用 1 填充最后一个字节
+    if (this.bitCount > 0) this.writeBits((1 << (8 - this.bitCount)) - 1, 8 - this.bitCount)
+    this.sink.writeUint16(0xffd9)
+    return this.sink.toBlob(this.mimeType)
+  }
+
+  private writeHeaders(): void {
+    const s = this.sink
+    s.writeUint16(0xffd8)
+
+    // APP0 / JFIF，密度未知时写 1:1 像素比
+    s.writeUint16(0xffe0)
+    s.writeUint16(16)
+    s.writeBytes([0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0])
+    s.writeUint16(1)
+    s.writeUint16(1)
+    s.writeBytes([0, 0])
+
+    s.writeUint16(0xffdb)
+    s.writeUint16(132)
+    s.writeByte(0)
+    s.writeBytes(this.lumaTable)
+    s.writeByte(1)
+    s.writeBytes(this.chromaTable)
+
+    s.writeUint16(0xffc0)
+    s.writeUint16(17)
+    s.writeByte(8)
+    s.writeUint16(this.height)
+    s.writeUint16(this.width)
+    s.writeByte(3)
+    s.writeBytes([1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1])
+
+    s.writeUint16(0xffc4)
+    s.writeUint16(2 + (17 + 12) * 2 + (17 + 162) * 2)
+    const tables: Array<[number, number[], number[]]> = [
+      [0x00, DC_LUMA_COUNTS, DC_SYMBOLS],
+      [0x10, AC_LUMA_COUNTS, AC_LUMA_SYMBOLS],
+      [0x01, DC_CHROMA_COUNTS, DC_SYMBOLS],
+      [0x11, AC_CHROMA_COUNTS, AC_CHROMA_SYMBOLS],
+    ]
+    for (const [id, counts, symbols] of tables) {
+      s.writeByte(id)
+      s.writeBytes(counts)
+      s.writeBytes(symbols)
+    }
+
+    s.writeUint16(0xffda)
+    s.writeUint16(12)
+    s.writeByte(3)
+    s.writeBytes([1, 0x00, 2, 0x11, 3, 0x11])
+    s.writeBytes([0, 63, 0])
+  }
+
+  private encodeMcuRow(): void {
+    const { width, pending } = this
+    const rows = this.pendingRows
+    const stride = width * 4
+    for (let bx = 0; bx < width; bx += 8) {
+      for (let k = 0; k < 64; k++) {
+        const row = Math.min(k >> 3, rows - 1)
+        const col = Math.min(bx + (k & 7), width - 1)
+        const p = row * stride + col * 4
+        const r = pending[p]
+        const g = pending[p + 1]
+        const b = pending[p + 2]
+        this.yBlock[k] = 0.299 * r + 0.587 * g + 0.114 * b - 128
+        this.cbBlock[k] = -0.1687 * r - 0.3313 * g + 0.5 * b
+        this.crBlock[k] = 0.5 * r - 0.4187 * g - 0.0813 * b
+      }
+      this.dcY = this.encodeBlock(this.yBlock, this.lumaDiv, this.dcY, this.dcLuma, this.acLuma)
+      this.dcCb = this.encodeBlock(this.cbBlock, this.chromaDiv, this.dcCb, this.dcChroma, this.acChroma)
+      this.dcCr = this.encodeBlock(this.crBlock, this.chromaDiv, this.dcCr, this.dcChroma, this.acChroma)
+    }
+    this.pendingRows = 0
+  }
+
+  private encodeBlock(
+    block: Float64Array,
+    divisors: Float64Array,
+    prevDc: number,
+    dcTable: HuffmanCode[],
+    acTable: HuffmanCode[]
+  ): number {
+    forwardDct(block)
+    const q = this.quantized
+    for (let i = 0; i < 64; i++) q[ZIGZAG[i]] = Math.round(block[i] * divisors[i])
+
+    const diff = q[0] - prevDc
+    if (diff === 0) {
+      this.writeCode(dcTable[0])
+    } else {
+      const cat = bitLength(diff)
+      this.writeCode(dcTable[cat])
+      this.writeBits(diff < 0 ? diff + (1 << cat) - 1 : diff, cat)
+    }
+
+    let end = 63
+    while (end > 0 && q[end] === 0) end--
+    let zeros = 0
+    for (let i = 1; i <= end; i++) {
+      const v = q[i]
+      if (v === 0) {
+        zeros++
+        continue
+      }
+      while (zeros >= 16) {
+        this.writeCode(acTable[0xf0])
+        zeros -= 16
+      }
+      const cat = bitLength(v)
+      this.writeCode(acTable[(zeros << 4) + cat])
+      this.writeBits(v < 0 ? v + (1 << cat) - 1 : v, cat)
+      zeros = 0
+    }
+    if (end < 63) this.writeCode(acTable[0x00])
+    return q[0]
+  }
+
+  private writeCode(code: HuffmanCode): void {
+    this.writeBits(code[0], code[1])
+  }
+
+  private writeBits(value: number, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      this.bitBuffer = (this.bitBuffer << 1) | ((value >> i) & 1)
+      this.bitCount++
+      if (this.bitCount === 8) {
+        this.sink.writeByte(this.bitBuffer)
+        // 字节填充：熵编码段内的 0xFF 后补 0x00
+        if (this.bitBuffer === 0xff) this.sink.writeByte(0)
+        this.bitBuffer = 0
+        this.bitCount = 0
+      }
+    }
+  }
+}
+
+function bitLength(v: number): number {
+  let a = Math.abs(v)
+  let n = 0
+  while (a > 0) {
+    n++
+    a >>= 1
+  }
+  return n
+}
@@ -0,0 +1,264 @@
+import type { RasterExportFormat } from '@/types'
+import { ByteSink } from '@/export/encoder'
+import { writePngChunk } from '@/export/pngEncoder'
+import { MM_PER_INCH } from '@/export/printSize'
+
+/**
+ * 写入导出图片的打印元数据：分辨率 + 预设/物理尺寸/项目信息。
+ */
+export interface ExportImageMetadata {
+  dpi: number
+  presetId: string
+  widthMm: number
+  heightMm: number
+  projectId?: string | null
+}
+
+export const XMP_NAMESPACE = 'http://ns.mosaic-photo.app/1.0/'
+const SOFTWARE = 'Mosaic Photo'
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp'
+const JPEG_XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0'
+const JPEG_EXIF_HEADER = 'Exif\0\0'
+
+const utf8 = new TextEncoder()
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await blob.slice(start, end).arrayBuffer())
+}
+
+function ascii(s: string): number[] {
+  return Array.from(s, (c) => c.charCodeAt(0) & 0xff)
+}
+
+function startsWith(bytes: Uint8Array, prefix: string): boolean {
+  if (bytes.length < prefix.length) return false
+  for (let i = 0; i < prefix.length; i++) {
+    if (bytes[i] !== (prefix.charCodeAt(i) & 0xff)) return false
+  }
+  return true
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function formatMm(mm: number): string {
+  return String(Math.round(mm * 100) / 100)
+}
+
+export function buildExportXmp(meta: ExportImageMetadata): string {
+  const dpi = Math.round(meta.dpi * 100) / 100
+  const attrs = [
+    `tiff:XResolution="${Math.round(dpi * 100)}/100"`,
+    `tiff:YResolution="${Math.round(dpi * 100)}/100"`,
+    'tiff:ResolutionUnit="2"',
+    `xmp:CreatorTool="${SOFTWARE}"`,
+    `mosaic:PresetId="${escapeXml(meta.presetId)}"`,
+    `mosaic:WidthMm="${formatMm(meta.widthMm)}"`,
+    `mosaic:HeightMm="${formatMm(meta.heightMm)}"`,
+  ]
+  if (meta.projectId) attrs.push(`mosaic:ProjectId="${escapeXml(meta.projectId)}"`)
+  return (
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n' +
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">\n' +
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n' +
+    '  <rdf:Description rdf:about=""\n' +
+    '    xmlns:tiff="http://ns.adobe.com/tiff/1.0/"\n' +
+    '    xmlns:xmp="http://ns.adobe.com/xap/1.0/"\n' +
+    `    xmlns:mosaic="${XMP_NAMESPACE}"\n` +
+    `    ${attrs.join('\n    ')}/>\n` +
+    ' </rdf:RDF>\n' +
+    '</x:xmpmeta>\n' +
+    '<?xpacket end="w"?>'
+  )
+}
+
+/** 输出像素宽度对应成品宽度的实际 DPI */
+export function resolveExportDpi(outWidth: number, widthMm: number): number {
+  return outWidth / Math.max(1e-6, widthMm / MM_PER_INCH)
+}
+
+// ---- PNG ----
+
+const PNG_REPLACED_TEXT_KEYWORDS = new Set([PNG_XMP_KEYWORD, 'Software'])
+
+function buildPngMetadataChunks(meta: ExportImageMetadata): Blob {
+  const sink = new ByteSink()
+
+  const ppm = Math.round(meta.dpi / (MM_PER_INCH / 1000))
+  const phys = new Uint8Array(9)
+  const view = new DataView(phys.buffer)
+  view.setUint32(0, ppm)
+  view.setUint32(4, ppm)
+  phys[8] = 1 // unit: metre
+  writePngChunk(sink, 'pHYs', phys)
+
+  // iTXt: keyword \0 compression-flag compression-method lang \0 translated \0 text
+  const xmp = utf8.encode(buildExportXmp(meta))
+  const itxt = [...ascii(PNG_XMP_KEYWORD), 0, 0, 0, 0, 0, ...xmp]
+  writePngChunk(sink, 'iTXt', itxt)
+
+  writePngChunk(sink, 'tEXt', [...ascii('Software'), 0, ...ascii(SOFTWARE)])
+  return sink.toBlob('application/octet-stream')
+}
+
+/**
+ * 在 IHDR 之后插入 pHYs / XMP(iTXt) / tEXt，替换同类旧块；像素数据按 Blob 切片原样拼接。
+ */
+export async function embedPngMetadata(blob: Blob, meta: ExportImageMetadata): Promise<Blob> {
+  const sig = await readBytes(blob, 0, 8)
+  if (sig[0] !== 0x89 || !startsWith(sig.subarray(1), 'PNG')) return blob
+
+  let pos = 8
+  let ihdrEnd = -1
+  const kept: Blob[] = []
+  while (pos + 8 <= blob.size) {
+    const head = await readBytes(blob, pos, pos + 8)
+    const len = new DataView(head.buffer).getUint32(0)
+    const type = String.fromCharCode(...head.subarray(4, 8))
+    const end = pos + 12 + len
+    if (type === 'IDAT' || type === 'IEND') break
+    if (type === 'IHDR') {
+      ihdrEnd = end
+    } else if (type === 'tEXt' || type === 'iTXt') {
+      const keyword = await readBytes(blob, pos + 8, pos + 8 + Math.min(len, 80))
+      const nul = keyword.indexOf(0)
+      const name = String.fromCharCode(...keyword.subarray(0, nul < 0 ? keyword.length : nul))
+      if (!PNG_REPLACED_TEXT_KEYWORDS.has(name)) kept.push(blob.slice(pos, end))
+    } else if (type !== 'pHYs') {
+      kept.push(blob.slice(pos, end))
+    }
+    pos = end
+  }
+  if (ihdrEnd < 0) return blob
+
+  return new Blob(
+    [blob.slice(0, ihdrEnd), buildPngMetadataChunks(meta), ...kept, blob.slice(pos)],
+    { type: 'image/png' }
+  )
+}
+
+// ---- JPEG ----
+
+function jpegSegment(marker: number, payload: ArrayLike<number>): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(payload.length + 4)
+  out[0] = 0xff
+  out[1] = marker
+  out[2] = ((payload.length + 2) >> 8) & 0xff
+  out[3] = (payload.length + 2) & 0xff
+  out.set(Array.from(payload), 4)
+  return out
+}
+
+function buildJfifSegment(dpi: number): Uint8Array<ArrayBuffer> {
+  const d = Math.max(1, Math.min(0xffff, Math.round(dpi)))
+  return jpegSegment(0xe0, [
+    ...ascii('JFIF\0'),
+    1,
+    2, // version 1.02
+    1, // units: dots per inch
+    d >> 8,
+    d & 0xff,
+    d >> 8,
+    d & 0xff,
+    0,
+    0,
+  ])
+}
+
+/** 最小 EXIF（大端 TIFF）：IFD0 仅含 XResolution / YResolution / ResolutionUnit / Software */
+function buildExifSegment(dpi: number): Uint8Array<ArrayBuffer> {
+  const software = [...ascii(SOFTWARE), 0]
+  const entryCount = 4
+  const ifdSize = 2 + entryCount * 12 + 4
+  const xResOffset = 8 + ifdSize
+  const yResOffset = xResOffset + 8
+  const softwareOffset = yResOffset + 8
+  const tiff = new Uint8Array(softwareOffset + software.length)
+  const v = new DataView(tiff.buffer)
+
+  tiff.set(ascii('MM'), 0)
+  v.setUint16(2, 42)
+  v.setUint32(4, 8)
+  v.setUint16(8, entryCount)
+  const entry = (i: number, tag: number, type: number, count: number, value: number) => {
+    const o = 10 + i * 12
+    v.setUint16(o, tag)
+    v.setUint16(o + 2, type)
+    v.setUint32(o + 4, count)
+    if (type === 3) v.setUint16(o + 8, value)
+    else v.setUint32(o + 8, value)
+  }
+  entry(0, 0x011a, 5, 1, xResOffset)
+  entry(1, 0x011b, 5, 1, yResOffset)
+  entry(2, 0x0128, 3, 1, 2) // inch
+  entry(3, 0x0131, 2, software.length, softwareOffset)
+  v.setUint32(10 + entryCount * 12, 0)
+
+  const numerator = Math.round(dpi * 100)
+  v.setUint32(xResOffset, numerator)
+  v.setUint32(xResOffset + 4, 100)
+  v.setUint32(yResOffset, numerator)
+  v.setUint32(yResOffset + 4, 100)
+  tiff.set(software, softwareOffset)
+
+  return jpegSegment(0xe1, [...ascii(JPEG_EXIF_HEADER), ...tiff])
+}
+
+function buildJpegXmpSegment(meta: ExportImageMetadata): Uint8Array<ArrayBuffer> {
+  return jpegSegment(0xe1, [...ascii(JPEG_XMP_HEADER), ...utf8.encode(buildExportXmp(meta))])
+}
+
+/**
+ * 在 SOI 之后写入 JFIF(APP0，DPI 密度) + EXIF(APP1) + XMP(APP1)，替换编码器自带的同类段。
+ */
+export async function embedJpegMetadata(blob: Blob, meta: ExportImageMetadata): Promise<Blob> {
+  const soi = await readBytes(blob, 0, 2)
+  if (soi[0] !== 0xff || soi[1] !== 0xd8) return blob
+
+  let pos = 2
+  const kept: Blob[] = []
+  while (pos + 4 <= blob.size) {
+    const head = await readBytes(blob, pos, pos + 4)
+    if (head[0] !== 0xff) break
+    const marker = head[1]
+    const isAppOrComment = (marker >= 0xe0 && marker <= 0xef) || marker === 0xfe
+    if (!isAppOrComment) break
+    const end = pos + 2 + ((head[2] << 8) | head[3])
+    const id = await readBytes(blob, pos + 4, Math.min(end, pos + 4 + JPEG_XMP_HEADER.length))
+    const replaced =
+      (marker === 0xe0 && startsWith(id, 'JFIF\0')) ||
+      (marker === 0xe1 && (startsWith(id, JPEG_EXIF_HEADER) || startsWith(id, JPEG_XMP_HEADER)))
+    if (!replaced) kept.push(blob.slice(pos, end))
+    pos = end
+  }
+
+  return new Blob(
+    [
+      new Uint8Array([0xff, 0xd8]),
+      buildJfifSegment(meta.dpi),
+      buildExifSegment(meta.dpi),
+      buildJpegXmpSegment(meta),
+      ...kept,
+      blob.slice(pos),
+    ],
+    { type: 'image/jpeg' }
+  )
+}
+
+/**
+ * 按格式写入元数据；WebP 暂不处理，原样返回。
+ */
+export async function embedExportMetadata(
+  blob: Blob,
+  format: RasterExportFormat,
+  meta: ExportImageMetadata
+): Promise<Blob> {
+  if (format === 'png') return await embedPngMetadata(blob, meta)
+  if (format === 'jpeg') return await embedJpegMetadata(blob, meta)
+  return blob
+}
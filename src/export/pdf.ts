@@ -0,0 +1,303 @@
+import { mmToPt } from '@/export/printSize'
+
+export interface PdfRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** 已编码的基线 JPEG，按 DCTDecode 原样嵌入 */
+export interface PdfJpegImage {
+  data: Blob
+  width: number
+  height: number
+}
+
+export interface PdfExportSettings {
+  /** 出血（毫米），画面向外延伸的宽度 */
+  bleedMm: number
+  /** 是否绘制裁切线与套准标记 */
+  printMarks: boolean
+}
+
+export const DEFAULT_PDF_EXPORT: PdfExportSettings = { bleedMm: 3, printMarks: false }
+export const MAX_PDF_BLEED_MM = 20
+
+// 裁切线：距成品边至少 3mm，长 5mm；标记外再留 2mm 空白。
+const MARK_MIN_OFFSET_PT = mmToPt(3)
+const MARK_LENGTH_PT = mmToPt(5)
+const MARK_MARGIN_PT = mmToPt(2)
+const MARK_LINE_WIDTH = 0.25
+// Bézier 近似圆的控制点系数
+const CIRCLE_K = 0.5523
+
+type PdfPart = string | Uint8Array<ArrayBuffer> | Blob
+
+export function formatPdfNumber(n: number): string {
+  if (!Number.isFinite(n)) return '0'
+  const s = n.toFixed(3).replace(/\.?0+$/, '')
+  return s === '-0' ? '0' : s
+}
+
+function rectArray(r: PdfRect): string {
+  const f = formatPdfNumber
+  return `[${f(r.x)} ${f(r.y)} ${f(r.x + r.width)} ${f(r.y + r.height)}]`
+}
+
+function latin1(s: string): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(s.length)
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i) & 0xff
+  return out
+}
+
+/** 内容流中的字面量字符串，转义括号与反斜杠 */
+export function pdfLiteralString(s: string): string {
+  return `(${s.replace(/[\\()]/g, (c) => `\\${c}`)})`
+}
+
+/** 任意 Unicode 文本编码为 PDF 十六进制字符串（UTF-16BE + BOM） */
+export function pdfTextString(s: string): string {
+  let hex = 'FEFF'
+  for (let i = 0; i < s.length; i++) hex += s.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase()
+  return `<${hex}>`
+}
+
+function pdfDate(d: Date): string {
+  const p = (n: number) => String(n).padStart(2, '0')
+  return `D:${d.getUTCFullYear()}${p(d.getUTCMonth() + 1)}${p(d.getUTCDate())}${p(d.getUTCHours())}${p(d.getUTCMinutes())}${p(d.getUTCSeconds())}Z`
+}
+
+function partSize(part: PdfPart): number {
+  if (typeof part === 'string') return part.length
+  return part instanceof Blob ? part.size : part.byteLength
+}
+
+/**
+ * 极简 PDF 1.4 写入器：对象按添加顺序直接写出并记录偏移，
+ * 图像数据以 Blob 引用拼接，不需要读入内存。
+ */
+export class PdfDocument {
+  private readonly parts: BlobPart[] = []
+  private readonly offsets: number[] = []
+  private readonly pageIds: number[] = []
+  private size = 0
+  private nextId = 3 // 1: Catalog, 2: Pages
+
+  constructor() {
+    this.push('%PDF-1.4\n')
+    this.push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+  }
+
+  addObject(body: PdfPart[], id = this.nextId++): number {
+    this.offsets[id] = this.size
+    this.push(`${id} 0 obj\n`)
+    for (const part of body) this.push(part)
+    this.push('\nendobj\n')
+    return id
+  }
+
+  addStream(dict: string, data: string | Blob): number {
+    const length = partSize(data)
+    const head = dict ? `${dict} ` : ''
+    return this.addObject([`<< ${head}/Length ${length} >>\nstream\n`, data, '\nendstream'])
+  }
+
+  addJpegImage(image: PdfJpegImage): number {
+    return this.addStream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+      image.data
+    )
+  }
+
+  /** PDF 标准 14 字体之一，无需嵌入字形；仅适合 ASCII 文本 */
+  addStandardFont(baseFont = 'Helvetica'): number {
+    return this.addObject([
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`,
+    ])
+  }
+
+  addPage(params: {
+    mediaBox: PdfRect
+    bleedBox?: PdfRect
+    trimBox?: PdfRect
+    content: string
+    images?: Record<string, number>
+    fonts?: Record<string, number>
+  }): number {
+    const contentId = this.addStream('', params.content)
+    const refs = (entries: Record<string, number>) =>
+      Object.entries(entries)
+        .map(([name, id]) => `/${name} ${id} 0 R`)
+        .join(' ')
+    let resources = `/XObject << ${refs(params.images ?? {})} >>`
+    if (params.fonts) resources += ` /Font << ${refs(params.fonts)} >>`
+    let dict = `<< /Type /Page /Parent 2 0 R /MediaBox ${rectArray(params.mediaBox)}`
+    if (params.bleedBox) dict += ` /BleedBox ${rectArray(params.bleedBox)}`
+    if (params.trimBox) dict += ` /TrimBox ${rectArray(params.trimBox)}`
+    dict += ` /Resources << ${resources} >> /Contents ${contentId} 0 R >>`
+    const id = this.addObject([dict])
+    this.pageIds.push(id)
+    return id
+  }
+
+  finish(info?: { title?: string; producer?: string; createdAt?: Date }): Blob {
+    const kids = this.pageIds.map((id) => `${id} 0 R`).join(' ')
+    this.addObject([`<< /Type /Pages /Kids [${kids}] /Count ${this.pageIds.length} >>`], 2)
+    this.addObject(['<< /Type /Catalog /Pages 2 0 R >>'], 1)
+
+    let infoDict = `/Producer ${pdfTextString(info?.producer ?? 'Mosaic Photo')} /CreationDate (${pdfDate(info?.createdAt ?? new Date())})`
+    if (info?.title) infoDict += ` /Title ${pdfTextString(info.title)}`
+    const infoId = this.addObject([`<< ${infoDict} >>`])
+
+    const count = this.nextId
+    const xrefOffset = this.size
+    let xref = `xref\n0 ${count}\n0000000000 65535 f \n`
+    for (let id = 1; id < count; id++) {
+      xref += `${String(this.offsets[id] ?? 0).padStart(10, '0')} 00000 n \n`
+    }
+    this.push(xref)
+    this.push(`trailer\n<< /Size ${count} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+    return new Blob(this.parts, { type: 'application/pdf' })
+  }
+
+  private push(part: PdfPart) {
+    this.parts.push(typeof part === 'string' ? latin1(part) : part)
+    this.size += partSize(part)
+  }
+}
+
+function line(x1: number, y1: number, x2: number, y2: number): string {
+  const f = formatPdfNumber
+  return `${f(x1)} ${f(y1)} m ${f(x2)} ${f(y2)} l S\n`
+}
+
+function circle(cx: number, cy: number, r: number): string {
+  const f = formatPdfNumber
+  const k = r * CIRCLE_K
+  return (
+    `${f(cx + r)} ${f(cy)} m ` +
+    `${f(cx + r)} ${f(cy + k)} ${f(cx + k)} ${f(cy + r)} ${f(cx)} ${f(cy + r)} c ` +
+    `${f(cx - k)} ${f(cy + r)} ${f(cx - r)} ${f(cy + k)} ${f(cx - r)} ${f(cy)} c ` +
+    `${f(cx - r)} ${f(cy - k)} ${f(cx - k)} ${f(cy - r)} ${f(cx)} ${f(cy - r)} c ` +
+    `${f(cx + k)} ${f(cy - r)} ${f(cx + r)} ${f(cy - k)} ${f(cx + r)} ${f(cy)} c S\n`
+  )
+}
+
+function markOffset(bleedPt: number): number {
+  return Math.max(bleedPt, MARK_MIN_OFFSET_PT)
+}
+
+/** 标记区（裁切线 + 空白）距成品边的总宽度 */
+export function printMarksExtent(bleedPt: number): number {
+  return markOffset(bleedPt) + MARK_LENGTH_PT + MARK_MARGIN_PT
+}
+
+/**
+ * 四角裁切线 + 四边中点的套准标记，位于出血区之外，使用套版色（CMYK 全 100%）。
+ */
+export function drawPrintMarks(trim: PdfRect, bleedPt: number): string {
+  const offset = markOffset(bleedPt)
+  const len = MARK_LENGTH_PT
+  const left = trim.x
+  const right = trim.x + trim.width
+  const bottom = trim.y
+  const top = trim.y + trim.height
+
+  let ops = `q ${MARK_LINE_WIDTH} w 1 1 1 1 K\n`
+  for (const [x, sx] of [
+    [left, -1],
+    [right, 1],
+  ]) {
+    for (const [y, sy] of [
+      [bottom, -1],
+      [top, 1],
+    ]) {
+      ops += line(x + sx * offset, y, x + sx * (offset + len), y)
+      ops += line(x, y + sy * offset, x, y + sy * (offset + len))
+    }
+  }
+
+  const r = len * 0.3
+  const mid = offset + len / 2
+  const cx = left + trim.width / 2
+  const cy = bottom + trim.height / 2
+  for (const [x, y] of [
+    [cx, top + mid],
+    [cx, bottom - mid],
+    [left - mid, cy],
+    [right + mid, cy],
+  ]) {
+    ops += circle(x, y, r)
+    ops += line(x - len / 2, y, x + len / 2, y)
+    ops += line(x, y - len / 2, x, y + len / 2)
+  }
+  return `${ops}Q\n`
+}
+
+/** 将位图绘制到指定矩形 */
+export function drawImageOp(name: string, rect: PdfRect): string {
+  const f = formatPdfNumber
+  return `q ${f(rect.width)} 0 0 ${f(rect.height)} ${f(rect.x)} ${f(rect.y)} cm /${name} Do Q\n`
+}
+
+export interface PrintPdfPage {
+  /** 需已包含出血像素 */
+  image: PdfJpegImage
+  widthMm: number
+  heightMm: number
+}
+
+/** 页面为成品尺寸 + 出血（+ 标记区），图像覆盖整个出血框 */
+function addPrintPage(doc: PdfDocument, page: PrintPdfPage, settings: PdfExportSettings) {
+  const trimW = mmToPt(page.widthMm)
+  const trimH = mmToPt(page.heightMm)
+  const bleed = mmToPt(Math.max(0, settings.bleedMm))
+  const margin = settings.printMarks ? printMarksExtent(bleed) : bleed
+
+  const trimBox: PdfRect = { x: margin, y: margin, width: trimW, height: trimH }
+  const bleedBox: PdfRect = {
+    x: margin - bleed,
+    y: margin - bleed,
+    width: trimW + bleed * 2,
+    height: trimH + bleed * 2,
+  }
+  const mediaBox: PdfRect = { x: 0, y: 0, width: trimW + margin * 2, height: trimH + margin * 2 }
+
+  let content = drawImageOp('Im0', bleedBox)
+  if (settings.printMarks) content += drawPrintMarks(trimBox, bleed)
+
+  const imageId = doc.addJpegImage(page.image)
+  doc.addPage({ mediaBox, bleedBox, trimBox, content, images: { Im0: imageId } })
+}
+
+/**
+ * 单页印刷 PDF：页面为成品尺寸 + 出血（+ 标记区），图像覆盖整个出血框。
+ * image 需已包含出血像素。
+ */
+export function buildPrintPdf(params: {
+  image: PdfJpegImage
+  widthMm: number
+  heightMm: number
+  settings: PdfExportSettings
+  title?: string
+}): Blob {
+  return buildPrintPdfPages({
+    pages: [{ image: params.image, widthMm: params.widthMm, heightMm: params.heightMm }],
+    settings: params.settings,
+    title: params.title,
+  })
+}
+
+/**
+ * 多页印刷 PDF（相册）：每页按各自的成品尺寸排版，出血与印刷标记全书一致。
+ */
+export function buildPrintPdfPages(params: {
+  pages: PrintPdfPage[]
+  settings: PdfExportSettings
+  title?: string
+}): Blob {
+  const doc = new PdfDocument()
+  for (const page of params.pages) addPrintPage(doc, page, params.settings)
+  return doc.finish({ title: params.title })
+}
@@ -0,0 +1,97 @@
+import { Zlib } from 'fflate'
+import { ByteSink, crc32, type StreamingImageEncoder } from '@/export/encoder'
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+// Paeth 对照片类内容压缩率最好，且只依赖上一行，适合流式写入。
+const FILTER_PAETH = 4
+
+function typeBytes(type: string): number[] {
+  return Array.from(type, (c) => c.charCodeAt(0))
+}
+
+export function writePngChunk(sink: ByteSink, type: string, data: ArrayLike<number>): void {
+  const t = typeBytes(type)
+  sink.writeUint32(data.length)
+  sink.writeBytes(t)
+  sink.writeBytes(data)
+  sink.writeUint32(crc32(data, crc32(t)))
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c
+  const pa = Math.abs(p - a)
+  const pb = Math.abs(p - b)
+  const pc = Math.abs(p - c)
+  if (pa <= pb && pa <= pc) return a
+  return pb <= pc ? b : c
+}
+
+/**
+ * 8-bit RGBA 非隔行 PNG 的流式编码器：每批行经 Paeth 过滤后推入 zlib 流，
+ * 压缩输出随到随写为 IDAT 块。
+ */
+export class PngStreamEncoder implements StreamingImageEncoder {
+  readonly mimeType = 'image/png'
+  private readonly sink = new ByteSink()
+  private readonly zlib: Zlib
+  private readonly stride: number
+  private prevRow: Uint8Array
+  private rowsWritten = 0
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    opts?: { level?: 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 }
+  ) {
+    this.stride = width * 4
+    this.prevRow = new Uint8Array(this.stride)
+
+    this.sink.writeBytes(PNG_SIGNATURE)
+    const ihdr = new Uint8Array(13)
+    const view = new DataView(ihdr.buffer)
+    view.setUint32(0, width)
+    view.setUint32(4, height)
+    ihdr[8] = 8 // bit depth
+    ihdr[9] = 6 // color type: RGBA
+    ihdr[10] = 0 // compression
+    ihdr[11] = 0 // filter
+    ihdr[12] = 0 // interlace
+    writePngChunk(this.sink, 'IHDR', ihdr)
+
+    this.zlib = new Zlib({ level: opts?.level ?? 6 }, (data) => {
+      if (data.length > 0) writePngChunk(this.sink, 'IDAT', data)
+    })
+  }
+
+  writeRows(rgba: Uint8Array | Uint8ClampedArray, rows: number): void {
+    const { stride } = this
+    const count = Math.min(rows, this.height - this.rowsWritten)
+    if (count <= 0) return
+
+    const out = new Uint8Array(count * (stride + 1))
+    let prev: ArrayLike<number> = this.prevRow
+    for (let r = 0; r < count; r++) {
+      const src = r * stride
+      const dst = r * (stride + 1)
+      out[dst] = FILTER_PAETH
+      for (let i = 0; i < stride; i++) {
+        const a = i >= 4 ? rgba[src + i - 4] : 0
+        const c = i >= 4 ? prev[i - 4] : 0
+        out[dst + 1 + i] = (rgba[src + i] - paeth(a, prev[i], c)) & 0xff
+      }
+      prev = rgba.subarray(src, src + stride)
+    }
+    this.prevRow = Uint8Array.from(prev)
+    this.rowsWritten += count
+    this.zlib.push(out, false)
+  }
+
+  finish(): Blob {
+    if (this.rowsWritten < this.height) {
+      throw new Error(`PNG encoder expected ${this.height} rows, got ${this.rowsWritten}`)
+    }
+    this.zlib.push(new Uint8Array(0), true)
+    writePngChunk(this.sink, 'IEND', [])
+    return this.sink.toBlob(this.mimeType)
+  }
+}
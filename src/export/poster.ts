@@ -0,0 +1,255 @@
+import type { PosterExportSettings, PosterPaperSize } from '@/types'
+import { drawImageOp, formatPdfNumber, PdfDocument, pdfLiteralString, type PdfJpegImage, type PdfRect } from '@/export/pdf'
+import { mmToPt } from '@/export/printSize'
+import type { RenderContext2D } from '@/export/renderComposition'
+
+export const POSTER_PAPER_MM: Record<PosterPaperSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+}
+
+export const DEFAULT_POSTER_EXPORT: PosterExportSettings = {
+  enabled: false,
+  paper: 'a4',
+  orientation: 'portrait',
+  overlapMm: 10,
+  output: 'pdf',
+}
+export const MAX_POSTER_OVERLAP_MM = 30
+
+// 家用打印机无法印到纸边：四周留白，放裁切线、对齐刻度与页码。
+export const POSTER_PAGE_MARGIN_MM = 12
+const MARK_OFFSET_MM = 1.5
+const MARK_LENGTH_MM = 6
+const TICK_LENGTH_MM = 4
+const LABEL_SIZE_MM = 3.5
+const MARK_LINE_WIDTH_MM = 0.2
+
+export interface PosterTile {
+  index: number
+  row: number
+  col: number
+  /** 行列编号（从 1 开始），如 R1-C2 */
+  label: string
+  /** 在成品上的位置（毫米） */
+  xMm: number
+  yMm: number
+  widthMm: number
+  heightMm: number
+  /** 在导出位图中的像素区域 */
+  px: { x: number; y: number; width: number; height: number }
+}
+
+export interface PosterPlan {
+  paper: { widthMm: number; heightMm: number }
+  marginMm: number
+  overlapMm: number
+  rows: number
+  cols: number
+  /** 导出位图每毫米的像素数 */
+  pxPerMm: number
+  tiles: PosterTile[]
+}
+
+export interface PosterSegment {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+/** 单页的标记，坐标为纸面毫米、原点在左上角 */
+export interface PosterPageMarks {
+  content: { x: number; y: number; width: number; height: number }
+  lines: PosterSegment[]
+  label: { text: string; x: number; y: number; size: number }
+}
+
+export function resolvePosterPaper(settings: Pick<PosterExportSettings, 'paper' | 'orientation'>) {
+  const paper = POSTER_PAPER_MM[settings.paper] ?? POSTER_PAPER_MM.a4
+  return settings.orientation === 'landscape'
+    ? { widthMm: paper.height, heightMm: paper.width }
+    : { widthMm: paper.width, heightMm: paper.height }
+}
+
+function splitAxis(total: number, span: number, overlap: number): Array<{ start: number; size: number }> {
+  if (total <= span) return [{ start: 0, size: total }]
+  const step = span - overlap
+  const count = Math.ceil((total - overlap) / step)
+  const out: Array<{ start: number; size: number }> = []
+  for (let i = 0; i < count; i++) {
+    const start = i * step
+    out.push({ start, size: Math.min(span, total - start) })
+  }
+  return out
+}
+
+/**
+ * 按纸张可打印区域把成品切成 rows × cols 页，相邻页重叠 overlapMm。
+ * 最后一行/列按剩余尺寸裁短，不做缩放，保证打印后与成品 1:1。
+ */
+export function planPosterTiles(params: {
+  outWidth: number
+  outHeight: number
+  widthMm: number
+  heightMm: number
+  settings: Pick<PosterExportSettings, 'paper' | 'orientation' | 'overlapMm'>
+}): PosterPlan {
+  const paper = resolvePosterPaper(params.settings)
+  const spanX = paper.widthMm - POSTER_PAGE_MARGIN_MM * 2
+  const spanY = paper.heightMm - POSTER_PAGE_MARGIN_MM * 2
+  const maxOverlap = Math.min(MAX_POSTER_OVERLAP_MM, spanX / 2, spanY / 2)
+  const overlapMm = Math.max(0, Math.min(maxOverlap, params.settings.overlapMm || 0))
+
+  const xs = splitAxis(params.widthMm, spanX, overlapMm)
+  const ys = splitAxis(params.heightMm, spanY, overlapMm)
+  const pxX = params.outWidth / Math.max(1e-6, params.widthMm)
+  const pxY = params.outHeight / Math.max(1e-6, params.heightMm)
+
+  const tiles: PosterTile[] = []
+  ys.forEach((y, row) => {
+    xs.forEach((x, col) => {
+      const left = Math.round(x.start * pxX)
+      const top = Math.round(y.start * pxY)
+      const right = Math.min(params.outWidth, Math.round((x.start + x.size) * pxX))
+      const bottom = Math.min(params.outHeight, Math.round((y.start + y.size) * pxY))
+      tiles.push({
+        index: tiles.length,
+        row,
+        col,
+        label: `R${row + 1}-C${col + 1}`,
+        xMm: x.start,
+        yMm: y.start,
+        widthMm: x.size,
+        heightMm: y.size,
+        px: { x: left, y: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) },
+      })
+    })
+  })
+
+  return {
+    paper,
+    marginMm: POSTER_PAGE_MARGIN_MM,
+    overlapMm,
+    rows: ys.length,
+    cols: xs.length,
+    pxPerMm: pxX,
+    tiles,
+  }
+}
+
+/**
+ * 页面标记：画面四角的裁切线；与相邻页重叠的边界处在页边画对齐刻度，
+ * 拼贴时把下一页的画面边缘对准刻度即可；底部页边写行列编号与页序。
+ */
+export function buildPosterPageMarks(plan: PosterPlan, tile: PosterTile): PosterPageMarks {
+  const m = plan.marginMm
+  const content = { x: m, y: m, width: tile.widthMm, height: tile.heightMm }
+  const left = content.x
+  const top = content.y
+  const right = content.x + content.width
+  const bottom = content.y + content.height
+  const lines: PosterSegment[] = []
+
+  for (const [x, sx] of [
+    [left, -1],
+    [right, 1],
+  ]) {
+    for (const [y, sy] of [
+      [top, -1],
+      [bottom, 1],
+    ]) {
+      lines.push({ x1: x + sx * MARK_OFFSET_MM, y1: y, x2: x + sx * (MARK_OFFSET_MM + MARK_LENGTH_MM), y2: y })
+      lines.push({ x1: x, y1: y + sy * MARK_OFFSET_MM, x2: x, y2: y + sy * (MARK_OFFSET_MM + MARK_LENGTH_MM) })
+    }
+  }
+
+  const verticalTick = (x: number) => {
+    lines.push({ x1: x, y1: top - MARK_OFFSET_MM, x2: x, y2: top - MARK_OFFSET_MM - TICK_LENGTH_MM })
+    lines.push({ x1: x, y1: bottom + MARK_OFFSET_MM, x2: x, y2: bottom + MARK_OFFSET_MM + TICK_LENGTH_MM })
+  }
+  const horizontalTick = (y: number) => {
+    lines.push({ x1: left - MARK_OFFSET_MM, y1: y, x2: left - MARK_OFFSET_MM - TICK_LENGTH_MM, y2: y })
+    lines.push({ x1: right + MARK_OFFSET_MM, y1: y, x2: right + MARK_OFFSET_MM + TICK_LENGTH_MM, y2: y })
+  }
+  if (plan.overlapMm > 0) {
+    if (tile.col > 0) verticalTick(left + plan.overlapMm)
+    if (tile.col < plan.cols - 1) verticalTick(right - plan.overlapMm)
+    if (tile.row > 0) horizontalTick(top + plan.overlapMm)
+    if (tile.row < plan.rows - 1) horizontalTick(bottom - plan.overlapMm)
+  }
+
+  return {
+    content,
+    lines,
+    label: {
+      text: `${tile.label}  ${tile.index + 1}/${plan.tiles.length}`,
+      x: left,
+      y: bottom + MARK_OFFSET_MM + MARK_LENGTH_MM,
+      size: LABEL_SIZE_MM,
+    },
+  }
+}
+
+/** 把页面标记画到整页画布上（ZIP 输出的每页图片） */
+export function drawPosterMarks(ctx: RenderContext2D, marks: PosterPageMarks, pxPerMm: number) {
+  ctx.save()
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.strokeStyle = '#000000'
+  ctx.fillStyle = '#000000'
+  ctx.lineWidth = Math.max(1, MARK_LINE_WIDTH_MM * pxPerMm)
+  ctx.beginPath()
+  for (const l of marks.lines) {
+    ctx.moveTo(l.x1 * pxPerMm, l.y1 * pxPerMm)
+    ctx.lineTo(l.x2 * pxPerMm, l.y2 * pxPerMm)
+  }
+  ctx.stroke()
+  ctx.font = `${Math.max(8, Math.round(marks.label.size * pxPerMm))}px sans-serif`
+  ctx.textBaseline = 'top'
+  ctx.fillText(marks.label.text, marks.label.x * pxPerMm, marks.label.y * pxPerMm)
+  ctx.restore()
+}
+
+/** 页面标记转为 PDF 内容流（PDF 坐标原点在左下角） */
+export function posterMarksToPdf(marks: PosterPageMarks, pageHeightMm: number, fontName: string): string {
+  const f = formatPdfNumber
+  const x = (mm: number) => f(mmToPt(mm))
+  const y = (mm: number) => f(mmToPt(pageHeightMm - mm))
+  let ops = `q ${f(mmToPt(MARK_LINE_WIDTH_MM))} w 0 G\n`
+  for (const l of marks.lines) ops += `${x(l.x1)} ${y(l.y1)} m ${x(l.x2)} ${y(l.y2)} l S\n`
+  ops += 'Q\n'
+  const size = mmToPt(marks.label.size)
+  ops += `BT /${fontName} ${f(size)} Tf 0 g ${x(marks.label.x)} ${f(mmToPt(pageHeightMm - marks.label.y) - size)} Td ${pdfLiteralString(marks.label.text)} Tj ET\n`
+  return ops
+}
+
+/**
+ * 多页海报 PDF：每页为纸张尺寸，画面按 1:1 放在页边留白内。
+ * images 与 plan.tiles 一一对应。
+ */
+export function buildPosterPdf(params: { plan: PosterPlan; images: PdfJpegImage[]; title?: string }): Blob {
+  const { plan } = params
+  const doc = new PdfDocument()
+  const fontId = doc.addStandardFont()
+  const mediaBox: PdfRect = { x: 0, y: 0, width: mmToPt(plan.paper.widthMm), height: mmToPt(plan.paper.heightMm) }
+
+  plan.tiles.forEach((tile, i) => {
+    const marks = buildPosterPageMarks(plan, tile)
+    const c = marks.content
+    const trimBox: PdfRect = {
+      x: mmToPt(c.x),
+      y: mmToPt(plan.paper.heightMm - c.y - c.height),
+      width: mmToPt(c.width),
+      height: mmToPt(c.height),
+    }
+    const imageId = doc.addJpegImage(params.images[i])
+    doc.addPage({
+      mediaBox,
+      trimBox,
+      content: drawImageOp('Im0', trimBox) + posterMarksToPdf(marks, plan.paper.heightMm, 'F1'),
+      images: { Im0: imageId },
+      fonts: { F1: fontId },
+    })
+  })
+  return doc.finish({ title: params.title })
+}
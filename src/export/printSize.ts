@@ -0,0 +1,41 @@
+import type { CanvasPreset } from '@/types'
+
+/** 画布预设的像素尺寸按 300DPI 定义 */
+export const PRINT_DPI = 300
+export const MM_PER_INCH = 25.4
+export const PT_PER_INCH = 72
+
+export interface PhysicalSize {
+  widthMm: number
+  heightMm: number
+}
+
+export function mmToPt(mm: number): number {
+  return (mm / MM_PER_INCH) * PT_PER_INCH
+}
+
+export function pxToMm(px: number, dpi = PRINT_DPI): number {
+  return (px / dpi) * MM_PER_INCH
+}
+
+/**
+ * 画布对应的成品物理尺寸：仍与预设像素一致时使用预设的整厘米尺寸，
+ * 否则（自定义尺寸、排版时调整过画布）按 300DPI 换算。
+ */
+export function resolvePhysicalSize(params: {
+  presets: CanvasPreset[]
+  presetId: string
+  canvasWidth: number
+  canvasHeight: number
+}): PhysicalSize {
+  const preset = params.presets.find((p) => p.id === params.presetId)
+  if (
+    preset?.widthCm &&
+    preset.heightCm &&
+    preset.width === params.canvasWidth &&
+    preset.height === params.canvasHeight
+  ) {
+    return { widthMm: preset.widthCm * 10, heightMm: preset.heightCm * 10 }
+  }
+  return { widthMm: pxToMm(params.canvasWidth), heightMm: pxToMm(params.canvasHeight) }
+}
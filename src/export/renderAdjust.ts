@@ -0,0 +1,119 @@
+import type { CropRect, PhotoAdjustments } from '@/types'
+import type { RenderPhotoItem } from '@/export/renderComposition'
+import { applyFilterChain, buildFilterChain, type CanvasFilterOp } from '@/utils/filters'
+import {
+  applyPixelAdjustments,
+  hasPixelAdjustments,
+  type PixelAdjustments,
+} from '@/utils/pixelAdjust'
+
+/**
+ * 像素调整的取图与回写：把源图的一块区域缩放到目标尺寸，读出 ImageData 调整后再写回。
+ * 预览 worker、导出 worker 与主线程导出共用，保证同一组参数输出一致。
+ * 浏览器不支持 ctx.filter（如 Safari）时，亮度 / 对比度 / 饱和度与预设也在这里用软件实现。
+ */
+
+export type AdjustedCanvas = OffscreenCanvas | HTMLCanvasElement
+
+function createAdjustCanvas(width: number, height: number): AdjustedCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height)
+  return Object.assign(document.createElement('canvas'), { width, height })
+}
+
+let canvasFilterSupport: boolean | null = null
+
+/**
+ * 检测 ctx.filter 是否真的生效：只有属性不够，Safari 会接受赋值但绘制时忽略，
+ * 所以用 brightness(0) 画一个白点再读回。无法创建画布时按支持处理。
+ */
+export function supportsCanvasFilter(): boolean {
+  if (canvasFilterSupport !== null) return canvasFilterSupport
+  let canvas: AdjustedCanvas
+  try {
+    canvas = createAdjustCanvas(1, 1)
+  } catch {
+    return (canvasFilterSupport = true)
+  }
+  try {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true }) as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null
+    if (!ctx) return (canvasFilterSupport = true)
+    if (!('filter' in ctx)) return (canvasFilterSupport = false)
+    ctx.filter = 'brightness(0)'
+    ctx.fillStyle = '#ffffff'
+    ctx.fillRect(0, 0, 1, 1)
+    canvasFilterSupport = ctx.getImageData(0, 0, 1, 1).data[0] < 128
+  } catch {
+    canvasFilterSupport = false
+  }
+  return canvasFilterSupport
+}
+
+/** 需要软件实现的滤镜链；浏览器支持 ctx.filter 时为空 */
+export function resolveSoftwareFilters(adjustments: PhotoAdjustments): CanvasFilterOp[] {
+  return supportsCanvasFilter() ? [] : buildFilterChain(adjustments)
+}
+
+/** 绘制前是否需要先在像素上处理源图 */
+export function needsAdjustedSource(adjustments: PhotoAdjustments): boolean {
+  return hasPixelAdjustments(adjustments) || resolveSoftwareFilters(adjustments).length > 0
+}
+
+export function renderAdjustedRegion(
+  source: CanvasImageSource,
+  rect: CropRect,
+  width: number,
+  height: number,
+  adjustments: PixelAdjustments,
+  filters: CanvasFilterOp[] = []
+): AdjustedCanvas {
+  const w = Math.max(1, Math.round(width))
+  const h = Math.max(1, Math.round(height))
+  const canvas = createAdjustCanvas(w, h)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null
+  if (!ctx) throw new Error('2D context unavailable')
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, w, h)
+  const image = ctx.getImageData(0, 0, w, h)
+  applyPixelAdjustments(image, adjustments)
+  // 与 ctx.filter 的顺序一致：滤镜作用在像素调整之后
+  applyFilterChain(image, filters)
+  ctx.putImageData(image, 0, 0)
+  return canvas
+}
+
+/**
+ * 导出时按输出尺寸调整照片的裁剪区域（不超过源图分辨率），
+ * 返回的 item 通过 sourceRect 直接绘制整块结果；软件滤镜已经烘焙进去时不再设置 ctx.filter。
+ */
+export function prepareAdjustedItem(
+  item: RenderPhotoItem,
+  source: CanvasImageSource,
+  outScale: number
+): { item: RenderPhotoItem; canvas: AdjustedCanvas } {
+  const rect = {
+    x: item.crop.x * item.srcScaleX,
+    y: item.crop.y * item.srcScaleY,
+    width: item.crop.width * item.srcScaleX,
+    height: item.crop.height * item.srcScaleY,
+  }
+  const width = Math.min(rect.width, item.crop.width * item.scale * outScale)
+  const height = Math.min(rect.height, item.crop.height * item.scale * outScale)
+  const filters = resolveSoftwareFilters(item.adjustments)
+  const canvas = renderAdjustedRegion(source, rect, width, height, item.adjustments, filters)
+  const adjustments: PhotoAdjustments = filters.length
+    ? { ...item.adjustments, brightness: 1, contrast: 1, saturation: 1, preset: 'none' }
+    : item.adjustments
+  return {
+    item: {
+      ...item,
+      adjustments,
+      sourceRect: { x: 0, y: 0, width: canvas.width, height: canvas.height },
+    },
+    canvas,
+  }
+}
@@ -0,0 +1,156 @@
+import type { CanvasBackground, CanvasTexturePattern } from '@/types'
+import type { RenderContext2D } from '@/export/renderComposition'
+import {
+  coverRect,
+  linearGradientPoints,
+  type CanvasBackgroundImage,
+} from '@/utils/canvasBackground'
+
+/**
+ * 画布背景的绘制，画布预览与导出（主线程 / worker）共用。
+ * width/height 为当前 ctx 坐标下的画布大小，scale 把背景里的长度（纹理、平铺尺寸）
+ * 从画布坐标换算过去：预览时为 1，导出时为 outScale。
+ */
+
+/** 单个平铺单元的边长上限，超大输出时图案略有放大但不会占用过多内存 */
+const MAX_TILE_EDGE = 4096
+
+type TileContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+function createTileCanvas(
+  width: number,
+  height: number
+): { canvas: HTMLCanvasElement | OffscreenCanvas; ctx: TileContext } | null {
+  const w = Math.max(1, Math.min(MAX_TILE_EDGE, Math.round(width)))
+  const h = Math.max(1, Math.min(MAX_TILE_EDGE, Math.round(height)))
+  const canvas =
+    typeof OffscreenCanvas !== 'undefined'
+      ? new OffscreenCanvas(w, h)
+      : typeof document !== 'undefined'
+        ? Object.assign(document.createElement('canvas'), { width: w, height: h })
+        : null
+  const ctx = canvas?.getContext('2d') as TileContext | null | undefined
+  return canvas && ctx ? { canvas, ctx } : null
+}
+
+function drawTexturePattern(
+  ctx: TileContext,
+  pattern: CanvasTexturePattern,
+  size: number
+): void {
+  switch (pattern) {
+    case 'dots':
+      ctx.beginPath()
+      ctx.arc(size / 2, size / 2, size * 0.12, 0, Math.PI * 2)
+      ctx.fill()
+      break
+    case 'stripes':
+      // 45° 斜纹：对角线两侧补上相邻单元的部分，平铺后条纹连续
+      ctx.lineWidth = size * 0.18
+      ctx.strokeStyle = ctx.fillStyle
+      ctx.beginPath()
+      for (const offset of [-size, 0, size]) {
+        ctx.moveTo(offset, size)
+        ctx.lineTo(offset + size, 0)
+      }
+      ctx.stroke()
+      break
+    case 'grid': {
+      const line = Math.max(1, size * 0.05)
+      ctx.fillRect(0, 0, size, line)
+      ctx.fillRect(0, 0, line, size)
+      break
+    }
+    case 'checker':
+      ctx.fillRect(0, 0, size / 2, size / 2)
+      ctx.fillRect(size / 2, size / 2, size / 2, size / 2)
+      break
+  }
+}
+
+function fillWithTile(
+  ctx: RenderContext2D,
+  tile: HTMLCanvasElement | OffscreenCanvas,
+  tileW: number,
+  tileH: number,
+  width: number,
+  height: number
+): void {
+  const pattern = ctx.createPattern(tile, 'repeat')
+  if (!pattern) return
+  // 平铺单元被限制了尺寸时按比例放大图案
+  if (tile.width !== tileW || tile.height !== tileH) {
+    pattern.setTransform(new DOMMatrix().scale(tileW / tile.width, tileH / tile.height))
+  }
+  ctx.fillStyle = pattern
+  ctx.fillRect(0, 0, width, height)
+}
+
+/**
+ * 在 (0,0)–(width,height) 内绘制背景。image / photo 背景缺少 source 时不绘制。
+ */
+export function drawCanvasBackground(
+  ctx: RenderContext2D,
+  background: CanvasBackground,
+  source: CanvasBackgroundImage | null,
+  width: number,
+  height: number,
+  scale: number
+): void {
+  ctx.save()
+  switch (background.kind) {
+    case 'solid':
+      ctx.fillStyle = background.color
+      ctx.fillRect(0, 0, width, height)
+      break
+    case 'linear': {
+      const p = linearGradientPoints(width, height, background.angle)
+      const gradient = ctx.createLinearGradient(p.x0, p.y0, p.x1, p.y1)
+      gradient.addColorStop(0, background.from)
+      gradient.addColorStop(1, background.to)
+      ctx.fillStyle = gradient
+      ctx.fillRect(0, 0, width, height)
+      break
+    }
+    case 'radial': {
+      const radius = Math.hypot(width, height) / 2
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, radius)
+      gradient.addColorStop(0, background.inner)
+      gradient.addColorStop(1, background.outer)
+      ctx.fillStyle = gradient
+      ctx.fillRect(0, 0, width, height)
+      break
+    }
+    case 'texture': {
+      ctx.fillStyle = background.base
+      ctx.fillRect(0, 0, width, height)
+      const size = background.size * scale
+      const tile = createTileCanvas(size, size)
+      if (!tile) break
+      const unit = tile.canvas.width
+      tile.ctx.fillStyle = background.color
+      drawTexturePattern(tile.ctx, background.pattern, unit)
+      fillWithTile(ctx, tile.canvas, size, size, width, height)
+      break
+    }
+    case 'image': {
+      if (!source) break
+      if (background.fit === 'cover') {
+        const r = coverRect(source.width, source.height, width, height)
+        ctx.drawImage(source, r.x, r.y, r.w, r.h)
+        break
+      }
+      const tileW = background.tileSize * scale
+      const tileH = (tileW * source.height) / Math.max(1, source.width)
+      const tile = createTileCanvas(tileW, tileH)
+      if (!tile) break
+      tile.ctx.drawImage(source, 0, 0, tile.canvas.width, tile.canvas.height)
+      fillWithTile(ctx, tile.canvas, tileW, tileH, width, height)
+      break
+    }
+    case 'photo':
+      if (source) ctx.drawImage(source, 0, 0, width, height)
+      break
+  }
+  ctx.restore()
+}
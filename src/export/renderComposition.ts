@@ -0,0 +1,194 @@
+import type { CropRect, PhotoAdjustments, PhotoEntity, PhotoFrameStyle, TileRect } from '@/types'
+import {
+  clipToFrameInner,
+  drawPhotoFrameBack,
+  drawPhotoFrameFront,
+  getPhotoFrameBounds,
+  resolvePhotoFrameLayout,
+} from '@/export/renderFrame'
+import { buildCanvasFilter } from '@/utils/filters'
+import { rotatedAABBHalf } from '@/utils/math'
+import { resolvePhotoFrame } from '@/utils/photoFrame'
+
+export type RenderContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+/**
+ * 导出渲染所需的照片快照：只含可结构化克隆的字段，可直接发送给 worker。
+ * 坐标均为画布坐标，绘制时再乘以输出缩放。
+ */
+export interface RenderPhotoItem {
+  id: string
+  name: string
+  crop: CropRect
+  cx: number
+  cy: number
+  scale: number
+  rotation: number
+  tileRect?: TileRect
+  adjustments: PhotoAdjustments
+  /** 绘制源相对 imageWidth/imageHeight 的缩放（使用原图资源时 > 1） */
+  srcScaleX: number
+  srcScaleY: number
+  /** 源图已是调整过像素的裁剪区域时，直接绘制此矩形（忽略 crop 与 srcScale） */
+  sourceRect?: CropRect
+  /** 已合并全局样式的相框，无需绘制时省略 */
+  frame?: PhotoFrameStyle
+  caption?: string
+}
+
+export interface RenderBounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/**
+ * 把 tile 轮廓加入当前路径（有圆角时为圆角矩形），调用方负责 beginPath / clip。
+ */
+export function traceTileRect(ctx: RenderContext2D, rect: TileRect, scale = 1): void {
+  const x = rect.x * scale
+  const y = rect.y * scale
+  const w = rect.w * scale
+  const h = rect.h * scale
+  const r = Math.min(Math.max(0, (rect.r ?? 0) * scale), w / 2, h / 2)
+  if (r <= 0) {
+    ctx.rect(x, y, w, h)
+    return
+  }
+  ctx.moveTo(x + r, y)
+  ctx.arcTo(x + w, y, x + w, y + h, r)
+  ctx.arcTo(x + w, y + h, x, y + h, r)
+  ctx.arcTo(x, y + h, x, y, r)
+  ctx.arcTo(x, y, x + w, y, r)
+  ctx.closePath()
+}
+
+/**
+ * 铺满布局设置了间距/外边距时 tile 不再覆盖整张画布，留白处需要填充底色。
+ */
+export function hasTileGaps(
+  photos: Array<{ tileRect?: TileRect }>,
+  canvasWidth: number,
+  canvasHeight: number
+): boolean {
+  let area = 0
+  for (const p of photos) {
+    if (!p.tileRect) return false
+    area += p.tileRect.w * p.tileRect.h
+  }
+  return photos.length > 0 && area < canvasWidth * canvasHeight - 1
+}
+
+export function toRenderPhotoItem(
+  photo: PhotoEntity,
+  srcScaleX = 1,
+  srcScaleY = 1,
+  defaultFrame: PhotoFrameStyle | null = null
+): RenderPhotoItem {
+  const frame = resolvePhotoFrame(photo, defaultFrame)
+  return {
+    id: photo.id,
+    name: photo.name,
+    crop: { ...(photo.layoutCrop ?? photo.crop) },
+    cx: photo.cx,
+    cy: photo.cy,
+    scale: photo.scale,
+    rotation: photo.rotation,
+    tileRect: photo.tileRect ? { ...photo.tileRect } : undefined,
+    adjustments: { ...photo.adjustments },
+    srcScaleX,
+    srcScaleY,
+    frame: frame ? { ...frame } : undefined,
+    caption: photo.caption,
+  }
+}
+
+/**
+ * 照片在输出像素坐标中的包围盒（已与 tile clip 求交），用于分带渲染时跳过不相交的照片。
+ * 四周各留 1px 给抗锯齿边缘；有相框时再并上相框与投影的范围。
+ */
+export function getRenderItemBounds(item: RenderPhotoItem, outScale: number): RenderBounds {
+  const { ex, ey } = rotatedAABBHalf(
+    (item.crop.width * item.scale) / 2,
+    (item.crop.height * item.scale) / 2,
+    item.rotation
+  )
+  let left = item.cx - ex
+  let top = item.cy - ey
+  let right = item.cx + ex
+  let bottom = item.cy + ey
+  if (item.tileRect) {
+    left = Math.max(left, item.tileRect.x)
+    top = Math.max(top, item.tileRect.y)
+    right = Math.min(right, item.tileRect.x + item.tileRect.w)
+    bottom = Math.min(bottom, item.tileRect.y + item.tileRect.h)
+  }
+  if (item.frame) {
+    const frameBounds = getPhotoFrameBounds(resolvePhotoFrameLayout(item, item.frame))
+    left = Math.min(left, frameBounds.left)
+    top = Math.min(top, frameBounds.top)
+    right = Math.max(right, frameBounds.right)
+    bottom = Math.max(bottom, frameBounds.bottom)
+  }
+  return {
+    left: left * outScale - 1,
+    top: top * outScale - 1,
+    right: right * outScale + 1,
+    bottom: bottom * outScale + 1,
+  }
+}
+
+export function boundsIntersect(a: RenderBounds, b: RenderBounds): boolean {
+  return a.left < b.right && a.right > b.left && a.top < b.bottom && a.bottom > b.top
+}
+
+/**
+ * 以输出像素坐标绘制一张照片；调用方可预先平移 ctx 实现分带/分块渲染。
+ * shadowScale 为画布坐标到设备像素的比例，只影响相框投影（预览时 ctx 已带缩放）。
+ */
+export function drawRenderItem(
+  ctx: RenderContext2D,
+  item: RenderPhotoItem,
+  source: CanvasImageSource,
+  outScale: number,
+  shadowScale = outScale
+): void {
+  const { crop } = item
+  const frameLayout = item.frame ? resolvePhotoFrameLayout(item, item.frame) : null
+  if (frameLayout) drawPhotoFrameBack(ctx, frameLayout, outScale, shadowScale)
+  ctx.save()
+  // Per-tile clip: prevent cover-mode overflow from overlapping adjacent photos
+  if (frameLayout && item.tileRect) {
+    clipToFrameInner(ctx, frameLayout, outScale)
+  } else if (item.tileRect) {
+    ctx.beginPath()
+    traceTileRect(ctx, item.tileRect, outScale)
+    ctx.clip()
+  }
+  ctx.translate(item.cx * outScale, item.cy * outScale)
+  ctx.rotate(item.rotation)
+  ctx.filter = buildCanvasFilter(item.adjustments)
+
+  const hw = (crop.width * item.scale * outScale) / 2
+  const hh = (crop.height * item.scale * outScale) / 2
+  const src = item.sourceRect ?? {
+    x: crop.x * item.srcScaleX,
+    y: crop.y * item.srcScaleY,
+    width: crop.width * item.srcScaleX,
+    height: crop.height * item.srcScaleY,
+  }
+  ctx.drawImage(
+    source,
+    src.x,
+    src.y,
+    src.width,
+    src.height,
+    -hw,
+    -hh,
+    hw * 2,
+    hh * 2
+  )
+  ctx.restore()
+  if (frameLayout) drawPhotoFrameFront(ctx, frameLayout, item.caption, outScale)
+}
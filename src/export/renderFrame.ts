@@ -0,0 +1,235 @@
+import type { PhotoFrameStyle, TileRect } from '@/types'
+import type { RenderBounds, RenderContext2D } from '@/export/renderComposition'
+import { rotatedAABBHalf } from '@/utils/math'
+import {
+  FRAME_SHADOW_BLUR,
+  FRAME_SHADOW_OFFSET,
+  FRAME_TAPE_HEIGHT,
+  resolveFrameInsets,
+  resolveFrameOverflow,
+} from '@/utils/photoFrame'
+
+/**
+ * 相框绘制，画布预览与导出（主线程 / worker）共用。
+ * 分两步：照片之前画投影与边框底色，照片之后画题字和胶带 / 角贴。
+ * 自由排列时相框包在照片外；铺满布局时相框占满 tile，照片缩进到内框。
+ */
+
+interface LocalRect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface PhotoFrameLayout {
+  frame: PhotoFrameStyle
+  /** 相框中心与旋转（画布坐标） */
+  cx: number
+  cy: number
+  rotation: number
+  /** 以中心为原点的外沿与照片区域 */
+  outer: LocalRect
+  inner: LocalRect
+  radius: number
+  shortSide: number
+}
+
+interface FramedItem {
+  crop: { width: number; height: number }
+  cx: number
+  cy: number
+  scale: number
+  rotation: number
+  tileRect?: TileRect
+}
+
+const CAPTION_COLOR = '#333333'
+const CAPTION_FONT = '"Segoe Print", "Bradley Hand", "Comic Sans MS", cursive'
+const SHADOW_COLOR = 'rgba(0, 0, 0, 0.35)'
+const TAPE_COLOR = 'rgba(236, 224, 190, 0.82)'
+const CORNER_COLOR = 'rgba(40, 40, 40, 0.85)'
+const CORNER_SIZE = 0.12
+
+export function resolvePhotoFrameLayout(item: FramedItem, frame: PhotoFrameStyle): PhotoFrameLayout {
+  if (item.tileRect) {
+    const { x, y, w, h } = item.tileRect
+    const shortSide = Math.min(w, h)
+    const insets = resolveFrameInsets(frame, shortSide)
+    const outer = { x: -w / 2, y: -h / 2, w, h }
+    return {
+      frame,
+      cx: x + w / 2,
+      cy: y + h / 2,
+      rotation: 0,
+      outer,
+      inner: {
+        x: outer.x + insets.left,
+        y: outer.y + insets.top,
+        w: Math.max(0, w - insets.left - insets.right),
+        h: Math.max(0, h - insets.top - insets.bottom),
+      },
+      radius: Math.max(0, item.tileRect.r ?? 0),
+      shortSide,
+    }
+  }
+  const pw = item.crop.width * item.scale
+  const ph = item.crop.height * item.scale
+  const shortSide = Math.min(pw, ph)
+  const insets = resolveFrameInsets(frame, shortSide)
+  return {
+    frame,
+    cx: item.cx,
+    cy: item.cy,
+    rotation: item.rotation,
+    outer: {
+      x: -pw / 2 - insets.left,
+      y: -ph / 2 - insets.top,
+      w: pw + insets.left + insets.right,
+      h: ph + insets.top + insets.bottom,
+    },
+    inner: { x: -pw / 2, y: -ph / 2, w: pw, h: ph },
+    radius: 0,
+    shortSide,
+  }
+}
+
+function traceRect(ctx: RenderContext2D, rect: LocalRect, radius: number, s: number): void {
+  const x = rect.x * s
+  const y = rect.y * s
+  const w = rect.w * s
+  const h = rect.h * s
+  const r = Math.min(Math.max(0, radius * s), w / 2, h / 2)
+  if (r <= 0) {
+    ctx.rect(x, y, w, h)
+    return
+  }
+  ctx.moveTo(x + r, y)
+  ctx.arcTo(x + w, y, x + w, y + h, r)
+  ctx.arcTo(x + w, y + h, x, y + h, r)
+  ctx.arcTo(x, y + h, x, y, r)
+  ctx.arcTo(x, y, x + w, y, r)
+  ctx.closePath()
+}
+
+function enterFrameSpace(ctx: RenderContext2D, layout: PhotoFrameLayout, outScale: number): void {
+  ctx.translate(layout.cx * outScale, layout.cy * outScale)
+  ctx.rotate(layout.rotation)
+}
+
+/** 内框的圆角：外圆角减去边框宽度 */
+function innerRadius(layout: PhotoFrameLayout): number {
+  return Math.max(0, layout.radius - (layout.inner.x - layout.outer.x))
+}
+
+/**
+ * 照片之前：投影与边框底色。
+ * shadowScale 为画布坐标到设备像素的比例（shadowBlur 不受变换影响），导出时等于 outScale。
+ */
+export function drawPhotoFrameBack(
+  ctx: RenderContext2D,
+  layout: PhotoFrameLayout,
+  outScale: number,
+  shadowScale = outScale
+): void {
+  const { frame } = layout
+  const hasBorder = frame.kind !== 'none'
+  if (!hasBorder && !frame.shadow) return
+  ctx.save()
+  enterFrameSpace(ctx, layout, outScale)
+  if (frame.shadow) {
+    ctx.shadowColor = SHADOW_COLOR
+    ctx.shadowBlur = FRAME_SHADOW_BLUR * layout.shortSide * shadowScale
+    ctx.shadowOffsetX = 0
+    ctx.shadowOffsetY = FRAME_SHADOW_OFFSET * layout.shortSide * shadowScale
+  }
+  ctx.fillStyle = hasBorder ? frame.color : '#ffffff'
+  ctx.beginPath()
+  if (hasBorder) traceRect(ctx, layout.outer, layout.radius, outScale)
+  else traceRect(ctx, layout.inner, innerRadius(layout), outScale)
+  ctx.fill()
+  ctx.restore()
+}
+
+/** 铺满布局有边框时，照片只画在内框里 */
+export function clipToFrameInner(ctx: RenderContext2D, layout: PhotoFrameLayout, outScale: number): void {
+  ctx.translate(layout.cx * outScale, layout.cy * outScale)
+  ctx.rotate(layout.rotation)
+  ctx.beginPath()
+  traceRect(ctx, layout.inner, innerRadius(layout), outScale)
+  ctx.rotate(-layout.rotation)
+  ctx.translate(-layout.cx * outScale, -layout.cy * outScale)
+  ctx.clip()
+}
+
+/** 照片之后：拍立得题字、胶带与角贴 */
+export function drawPhotoFrameFront(
+  ctx: RenderContext2D,
+  layout: PhotoFrameLayout,
+  caption: string | undefined,
+  outScale: number
+): void {
+  const { frame, outer, inner, shortSide } = layout
+  const text = caption?.trim()
+  const hasCaption = frame.kind === 'polaroid' && !!text
+  if (!hasCaption && frame.sticker === 'none') return
+  const s = outScale
+  ctx.save()
+  enterFrameSpace(ctx, layout, outScale)
+
+  if (hasCaption) {
+    const band = outer.y + outer.h - (inner.y + inner.h)
+    const side = inner.x - outer.x
+    ctx.fillStyle = CAPTION_COLOR
+    ctx.font = `${band * 0.42 * s}px ${CAPTION_FONT}`
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(text!, 0, (inner.y + inner.h + band / 2) * s, Math.max(1, (outer.w - side * 2) * s))
+  }
+
+  if (frame.sticker === 'tape') {
+    const tapeW = Math.min(outer.w * 0.4, shortSide * 0.6)
+    const tapeH = FRAME_TAPE_HEIGHT * shortSide
+    ctx.save()
+    ctx.translate(0, outer.y * s)
+    ctx.rotate(-0.06)
+    ctx.fillStyle = TAPE_COLOR
+    ctx.fillRect((-tapeW / 2) * s, (-tapeH / 2) * s, tapeW * s, tapeH * s)
+    ctx.restore()
+  } else if (frame.sticker === 'corners') {
+    const size = CORNER_SIZE * shortSide * s
+    const corners: Array<[number, number, number, number]> = [
+      [inner.x, inner.y, 1, 1],
+      [inner.x + inner.w, inner.y, -1, 1],
+      [inner.x + inner.w, inner.y + inner.h, -1, -1],
+      [inner.x, inner.y + inner.h, 1, -1],
+    ]
+    ctx.fillStyle = CORNER_COLOR
+    for (const [x, y, dx, dy] of corners) {
+      ctx.beginPath()
+      ctx.moveTo(x * s, y * s)
+      ctx.lineTo(x * s + dx * size, y * s)
+      ctx.lineTo(x * s, y * s + dy * size)
+      ctx.closePath()
+      ctx.fill()
+    }
+  }
+  ctx.restore()
+}
+
+/** 相框（含投影与胶带）在画布坐标中的包围盒 */
+export function getPhotoFrameBounds(layout: PhotoFrameLayout): RenderBounds {
+  const { outer, rotation } = layout
+  const { ex, ey } = rotatedAABBHalf(outer.w / 2, outer.h / 2, rotation)
+  const offsetX = outer.x + outer.w / 2
+  const offsetY = outer.y + outer.h / 2
+  const cx = layout.cx + offsetX * Math.cos(rotation) - offsetY * Math.sin(rotation)
+  const cy = layout.cy + offsetX * Math.sin(rotation) + offsetY * Math.cos(rotation)
+  const pad = resolveFrameOverflow(layout.frame, layout.shortSide)
+  return {
+    left: cx - ex - pad,
+    top: cy - ey - pad,
+    right: cx + ex + pad,
+    bottom: cy + ey + pad,
+  }
+}
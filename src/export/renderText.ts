@@ -0,0 +1,174 @@
+import type { TextLayer } from '@/types'
+import type { RenderContext2D } from '@/export/renderComposition'
+
+/**
+ * 文字图层的排版与绘制，画布预览与导出（主线程 / worker）共用同一套逻辑，
+ * 保证两边输出一致。坐标为画布坐标，绘制时乘以 outScale。
+ */
+
+export interface TextLineLayout {
+  text: string
+  width: number
+}
+
+export interface TextLayout {
+  lines: TextLineLayout[]
+  /** 文字块宽高（输出像素） */
+  width: number
+  height: number
+  lineHeight: number
+}
+
+const GENERIC_FAMILIES = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+])
+
+export function buildTextFont(layer: TextLayer, scale = 1): string {
+  const family = GENERIC_FAMILIES.has(layer.fontFamily)
+    ? layer.fontFamily
+    : `"${layer.fontFamily.replace(/"/g, '')}", sans-serif`
+  return `${layer.fontWeight} ${layer.fontSize * scale}px ${family}`
+}
+
+function measureLine(ctx: RenderContext2D, text: string, spacing: number): number {
+  if (spacing === 0) return ctx.measureText(text).width
+  const chars = Array.from(text)
+  let width = 0
+  for (const ch of chars) width += ctx.measureText(ch).width
+  return width + spacing * Math.max(0, chars.length - 1)
+}
+
+/**
+ * 按 "\n" 分行并测量；调用后 ctx.font 已设为对应字体。
+ * 有字间距时逐字测量，与 drawTextLayer 的逐字绘制一致。
+ */
+export function layoutTextLayer(ctx: RenderContext2D, layer: TextLayer, scale = 1): TextLayout {
+  ctx.font = buildTextFont(layer, scale)
+  const spacing = layer.letterSpacing * scale
+  const lines = layer.text.split('\n').map(text => ({ text, width: measureLine(ctx, text, spacing) }))
+  const lineHeight = layer.fontSize * layer.lineHeight * scale
+  return {
+    lines,
+    width: Math.max(0, ...lines.map(line => line.width)),
+    height: lineHeight * lines.length,
+    lineHeight,
+  }
+}
+
+type TextPainter = (text: string, x: number, y: number) => void
+
+function paintLine(
+  ctx: RenderContext2D,
+  line: TextLineLayout,
+  x: number,
+  y: number,
+  spacing: number,
+  paint: TextPainter
+): void {
+  if (spacing === 0) {
+    paint(line.text, x, y)
+    return
+  }
+  let cursor = x
+  for (const ch of Array.from(line.text)) {
+    paint(ch, cursor, y)
+    cursor += ctx.measureText(ch).width + spacing
+  }
+}
+
+/**
+ * 绘制一个文字图层。shadowScale 用于阴影：shadowBlur / shadowOffset 不受
+ * ctx 变换影响，预览时 ctx 已按视口缩放（outScale 为 1），需单独传入。
+ */
+export function drawTextLayer(
+  ctx: RenderContext2D,
+  layer: TextLayer,
+  outScale: number,
+  shadowScale = outScale
+): void {
+  if (!layer.text.trim()) return
+  ctx.save()
+  ctx.translate(layer.cx * outScale, layer.cy * outScale)
+  ctx.rotate(layer.rotation)
+  const layout = layoutTextLayer(ctx, layer, outScale)
+  const spacing = layer.letterSpacing * outScale
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'middle'
+
+  const each = (paint: TextPainter) => {
+    layout.lines.forEach((line, idx) => {
+      const y = -layout.height / 2 + layout.lineHeight * (idx + 0.5)
+      const x =
+        layer.align === 'left'
+          ? -layout.width / 2
+          : layer.align === 'right'
+            ? layout.width / 2 - line.width
+            : -line.width / 2
+      paintLine(ctx, line, x, y, spacing, paint)
+    })
+  }
+
+  if (layer.shadow) {
+    ctx.shadowColor = layer.shadow.color
+    ctx.shadowBlur = layer.shadow.blur * shadowScale
+    ctx.shadowOffsetX = layer.shadow.offsetX * shadowScale
+    ctx.shadowOffsetY = layer.shadow.offsetY * shadowScale
+  }
+  // 描边画在填充之下，宽度取两倍让露出的部分等于设定宽度；阴影只投在第一遍
+  if (layer.outline && layer.outline.width > 0) {
+    ctx.strokeStyle = layer.outline.color
+    ctx.lineWidth = layer.outline.width * 2 * outScale
+    ctx.lineJoin = 'round'
+    each((text, x, y) => ctx.strokeText(text, x, y))
+    ctx.shadowColor = 'transparent'
+    ctx.shadowBlur = 0
+    ctx.shadowOffsetX = 0
+    ctx.shadowOffsetY = 0
+  }
+  ctx.fillStyle = layer.color
+  each((text, x, y) => ctx.fillText(text, x, y))
+  ctx.restore()
+}
+
+function getFontSet(): FontFaceSet | null {
+  if (typeof document !== 'undefined' && document.fonts) return document.fonts
+  const scope = globalThis as { fonts?: FontFaceSet }
+  return scope.fonts ?? null
+}
+
+/** 绘制前等待文字用到的字体加载完成，否则 canvas 会先用回退字体绘制 */
+export async function ensureTextLayerFonts(layers: TextLayer[]): Promise<void> {
+  const fonts = getFontSet()
+  if (!fonts || layers.length === 0) return
+  const specs = new Set(layers.map(layer => buildTextFont(layer, 1)))
+  await Promise.all(
+    [...specs].map(spec => fonts.load(spec).catch(() => undefined))
+  )
+}
+
+const registeredFonts = new Map<string, FontFace>()
+
+/**
+ * 注册用户上传的字体；同名字体只注册一次。
+ * 主线程与导出 worker 各有自己的 FontFaceSet，需要分别注册。
+ */
+export async function registerFontFace(family: string, data: ArrayBuffer): Promise<boolean> {
+  const fonts = getFontSet()
+  if (!fonts || typeof FontFace === 'undefined') return false
+  if (registeredFonts.has(family)) return true
+  try {
+    const face = new FontFace(family, data)
+    await face.load()
+    fonts.add(face)
+    registeredFonts.set(family, face)
+    return true
+  } catch (err) {
+    console.warn('[text] failed to load font', family, err)
+    return false
+  }
+}
@@ -31,15 +31,23 @@ export const i18n = createI18n({
   datetimeFormats: {
     'zh-CN': {
       timeShort: { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false },
+      dateTimeShort: { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false },
+      dateTimeFull: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false },
     },
     'en-US': {
       timeShort: { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: true },
+      dateTimeShort: { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: true },
+      dateTimeFull: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: true },
     },
     'ja-JP': {
       timeShort: { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false },
+      dateTimeShort: { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false },
+      dateTimeFull: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false },
     },
     'ko-KR': {
       timeShort: { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false },
+      dateTimeShort: { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false },
+      dateTimeFull: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hour12: false },
     },
   },
   numberFormats: {
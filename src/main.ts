@@ -11,8 +11,8 @@ import { injectSpeedInsights } from '@vercel/speed-insights'
 import { useThemeStore } from '@/stores/theme'
 import { useUiStore } from '@/stores/ui'
 import { useMosaicStore } from '@/stores/mosaic'
-import { loadLatestProject, scheduleAutosave } from '@/project/persistence'
-import { hydratePhotosFromProject } from '@/project/applyProject'
+import { useProjectLibraryStore } from '@/stores/projects'
+import { scheduleAutosave } from '@/project/persistence'
 
 // Initialize Vercel Analytics
 inject()
@@ -40,28 +40,10 @@ watch(
 	{ flush: 'post' }
 )
 
-// Restore latest project (best-effort) and set up autosave
+// Restore last-opened project (best-effort) and set up autosave
 const mosaicStore = useMosaicStore(pinia)
 try {
-	const latest = await loadLatestProject()
-	if (latest) {
-		mosaicStore.clearAllPhotos()
-		mosaicStore.setExportFormat(latest.export.format)
-		mosaicStore.setExportQuality(latest.export.quality)
-		mosaicStore.setExportResolution(latest.export.resolution)
-		// Restore without triggering auto-layout during hydration.
-		mosaicStore.currentPresetId = latest.canvas.presetId
-		mosaicStore.canvasWidth = latest.canvas.width
-		mosaicStore.canvasHeight = latest.canvas.height
-
-		const hydrated = await hydratePhotosFromProject({
-			project: latest,
-			canvasWidth: mosaicStore.canvasWidth,
-			canvasHeight: mosaicStore.canvasHeight,
-		})
-		mosaicStore.photos = hydrated
-		mosaicStore.selectPhoto(hydrated[0]?.id ?? null)
-	}
+	await useProjectLibraryStore(pinia).restoreLastOpened()
 } catch (e) {
 	// Best-effort restore: ignore failures to avoid blocking app.
 	console.warn('Project restore failed:', e)
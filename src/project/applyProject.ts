@@ -1,18 +1,55 @@
-import type { ProjectV1 } from "@/project/schema";
-import type { PhotoEntity } from "@/types";
+import type { ProjectPageV2, ProjectPhotoV2, ProjectV2 } from "@/project/schema";
+import type {
+  CanvasBackground,
+  CanvasMask,
+  CustomFont,
+  LayoutOrdering,
+  LayoutSpacing,
+  PhotoBookPage,
+  PhotoEntity,
+  PhotoFrameStyle,
+  PosterExportSettings,
+  TextLayer,
+} from "@/types";
 import { createPhotoFromFile } from "@/utils/image";
 import { getAsset } from "@/project/assets";
+import {
+  prefetchSmartDetections,
+  restoreSmartDetections,
+} from "@/utils/smartCrop";
 import { translate } from "@/locales";
+import { DEFAULT_PDF_EXPORT } from "@/export/pdf";
+import { DEFAULT_POSTER_EXPORT } from "@/export/poster";
+import {
+  DEFAULT_LAYOUT_ORDERING,
+  DEFAULT_LAYOUT_SPACING,
+  clampPhotoPriority,
+} from "@/utils/fillArrangeShared";
+import { normalizeCanvasMask } from "@/utils/canvasMask";
+import { normalizeCanvasBackground } from "@/utils/canvasBackground";
+import { normalizePhotoAdjustments } from "@/utils/pixelAdjust";
+import { normalizeCustomFonts, normalizeTextLayers } from "@/utils/textLayer";
+import {
+  DEFAULT_PHOTO_FRAME,
+  normalizePhotoCaption,
+  normalizePhotoFrame,
+} from "@/utils/photoFrame";
 
 export async function hydratePhotosFromProject(params: {
-  project: ProjectV1;
+  project: ProjectV2;
   canvasWidth: number;
   canvasHeight: number;
 }): Promise<PhotoEntity[]> {
-  const { project, canvasWidth, canvasHeight } = params;
+  return await hydratePhotos(params.project.photos, params.canvasWidth, params.canvasHeight);
+}
 
+async function hydratePhotos(
+  photos: ProjectPhotoV2[],
+  canvasWidth: number,
+  canvasHeight: number,
+): Promise<PhotoEntity[]> {
   const result: PhotoEntity[] = [];
-  for (const p of project.photos) {
+  for (const p of photos) {
     const asset = await getAsset(p.assetId);
     if (!asset) {
       throw new Error(
@@ -30,9 +67,20 @@ export async function hydratePhotosFromProject(params: {
 
     const base = await createPhotoFromFile(file, canvasWidth, canvasHeight, {
       id: p.id,
-      prefetchSmartCrop: true,
+      prefetchSmartCrop: false,
+      // 与保存时的预览尺寸一致，crop / 检测坐标才能直接复用
+      maxImageEdge: Math.max(p.imageWidth, p.imageHeight),
     });
 
+    // 检测器版本一致时直接种入保存的结果；之后只补跑缺失的部分（如未完成的人脸检测）
+    const restored = restoreSmartDetections(p.id, p.detections, {
+      x: base.imageWidth / Math.max(1, p.imageWidth),
+      y: base.imageHeight / Math.max(1, p.imageHeight),
+    });
+    if (!restored || !p.detections?.hasFaces) {
+      prefetchSmartDetections(p.id, base.image);
+    }
+
     // Apply persisted transforms/params
     base.assetId = p.assetId;
     base.name = p.name;
@@ -40,16 +88,142 @@ export async function hydratePhotosFromProject(params: {
     base.sourceHeight = p.sourceHeight;
     base.crop = { ...p.crop };
     base.layoutCrop = p.layoutCrop ? { ...p.layoutCrop } : undefined;
-    base.adjustments = { ...p.adjustments };
+    base.adjustments = normalizePhotoAdjustments({ ...p.adjustments });
     base.cx = p.cx;
     base.cy = p.cy;
     base.scale = p.scale;
     base.rotation = p.rotation;
     base.zIndex = p.zIndex;
     base.tileRect = p.tileRect ? { ...p.tileRect } : undefined;
+    base.locked = p.locked === true ? true : undefined;
+    base.priority = p.priority === undefined ? undefined : clampPhotoPriority(p.priority);
+    base.duplicateClusterId =
+      typeof p.duplicateClusterId === "string" ? p.duplicateClusterId : undefined;
+    base.frame = normalizePhotoFrame(p.frame);
+    base.caption = normalizePhotoCaption(p.caption);
 
     result.push(base);
   }
 
   return result;
 }
+
+export interface ProjectTargetStore {
+  currentPresetId: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  photos: PhotoEntity[];
+
+  clearAllPhotos: () => void;
+  selectPhoto: (id: string | null) => void;
+  setExportFormat: (v: ProjectV2["export"]["format"]) => void;
+  setExportQuality: (v: number) => void;
+  setExportResolution: (v: ProjectV2["export"]["resolution"]) => void;
+  setExportPdfBleed: (mm: number) => void;
+  setExportPdfPrintMarks: (v: boolean) => void;
+  setExportPoster: (v: Partial<PosterExportSettings>) => void;
+  setLayoutSpacing: (v: Partial<LayoutSpacing>) => void;
+  setLayoutOrdering: (v: Partial<LayoutOrdering>) => void;
+  setPhotoFrame: (v: Partial<PhotoFrameStyle>) => void;
+  setCanvasMask: (mask: CanvasMask | null) => Promise<void>;
+  setCanvasBackground: (background: CanvasBackground | null) => Promise<void>;
+  setBookPages: (pages: PhotoBookPage[], activePageId: string) => void;
+  setTextLayers: (layers: TextLayer[]) => void;
+  restoreCustomFonts: (fonts: CustomFont[]) => Promise<void>;
+}
+
+function isValidPage(page: unknown): page is ProjectPageV2 {
+  if (!page || typeof page !== "object") return false;
+  const p = page as Partial<ProjectPageV2>;
+  return (
+    typeof p.id === "string" &&
+    Array.isArray(p.photos) &&
+    !!p.canvas &&
+    Number.isFinite(Number(p.canvas.width)) &&
+    Number.isFinite(Number(p.canvas.height))
+  );
+}
+
+/** 校验相册页面；结构损坏时按单画布项目打开（顶层即当前页） */
+function resolveProjectPages(project: ProjectV2): ProjectPageV2[] | null {
+  const book = project.book;
+  if (!book || !Array.isArray(book.pages) || book.pages.length <= 1) return null;
+  if (!book.pages.every(isValidPage)) return null;
+  if (!book.pages.some(page => page.id === book.activePageId)) return null;
+  return book.pages;
+}
+
+/**
+ * 将项目设置与照片应用到 store（不触发自动排版）。
+ */
+export async function applyProjectToStore(params: {
+  project: ProjectV2;
+  store: ProjectTargetStore;
+}): Promise<void> {
+  const { project, store } = params;
+  // 先完成解码，失败时不清空当前画布。
+  const hydrated = await hydratePhotosFromProject({
+    project,
+    canvasWidth: project.canvas.width,
+    canvasHeight: project.canvas.height,
+  });
+  // 其他页面同样先解码；当前页的内容以顶层 canvas / photos 为准
+  const projectPages = resolveProjectPages(project);
+  const activePageId = project.book?.activePageId ?? "";
+  const pages: PhotoBookPage[] = [];
+  for (const page of projectPages ?? []) {
+    const width = Number(page.canvas.width);
+    const height = Number(page.canvas.height);
+    pages.push({
+      id: page.id,
+      spread: page.spread === true,
+      presetId: typeof page.canvas.presetId === "string" ? page.canvas.presetId : "custom",
+      canvasWidth: width,
+      canvasHeight: height,
+      layoutSpacing: { ...DEFAULT_LAYOUT_SPACING, ...page.canvas.spacing },
+      canvasMask: normalizeCanvasMask(page.canvas.mask),
+      canvasBackground: normalizeCanvasBackground(page.canvas.background),
+      photos: page.id === activePageId ? [] : await hydratePhotos(page.photos, width, height),
+      texts: normalizeTextLayers(page.texts),
+    });
+  }
+
+  store.clearAllPhotos();
+  store.currentPresetId = project.canvas.presetId;
+  store.canvasWidth = project.canvas.width;
+  store.canvasHeight = project.canvas.height;
+  // 旧项目没有标题横条字段，显式清零，避免沿用上一个项目的设置
+  store.setLayoutSpacing({
+    ...DEFAULT_LAYOUT_SPACING,
+    titleBandHeight: 0,
+    titleBandEdge: "top",
+    ...project.canvas.spacing,
+  });
+  store.setLayoutOrdering({ ...DEFAULT_LAYOUT_ORDERING, ...project.canvas.ordering });
+  store.setPhotoFrame(normalizePhotoFrame(project.canvas.frame) ?? DEFAULT_PHOTO_FRAME);
+  store.setExportFormat(project.export.format);
+  store.setExportQuality(project.export.quality);
+  store.setExportResolution(project.export.resolution);
+  const pdf = project.export.pdf ?? DEFAULT_PDF_EXPORT;
+  store.setExportPdfBleed(pdf.bleedMm);
+  store.setExportPdfPrintMarks(pdf.printMarks);
+  store.setExportPoster({ ...DEFAULT_POSTER_EXPORT, ...project.export.poster });
+  store.photos = hydrated;
+  store.setTextLayers(normalizeTextLayers(project.texts));
+  if (pages.length > 1) store.setBookPages(pages, activePageId);
+  store.selectPhoto(hydrated[0]?.id ?? null);
+  // 遮罩无法还原（如图片损坏）时按无遮罩打开，不影响照片
+  try {
+    await store.setCanvasMask(normalizeCanvasMask(project.canvas.mask));
+  } catch {
+    await store.setCanvasMask(null);
+  }
+  // 照片与页面写入后再加载背景，照片背景需要找到对应照片
+  await store.setCanvasBackground(normalizeCanvasBackground(project.canvas.background));
+  // 字体文件缺失时文字按回退字体显示
+  try {
+    await store.restoreCustomFonts(normalizeCustomFonts(project.fonts));
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,68 @@
+import { reqToPromise, txStore } from '@/project/idb'
+import { deleteAssets, listStoredAssets } from '@/project/assets'
+
+// 刚写入的资源可能还在导入流程中、尚未进入任何项目，GC 时跳过。
+const DEFAULT_GRACE_MS = 60_000
+
+export interface AssetGcResult {
+  removedCount: number
+  reclaimedBytes: number
+}
+
+function addId(out: Set<string>, id: unknown) {
+  if (typeof id === 'string' && id) out.add(id)
+}
+
+function collectIdsFromRawProject(project: unknown, out: Set<string>) {
+  if (!project || typeof project !== 'object') return
+  const { photos, assets } = project as { photos?: unknown; assets?: unknown }
+  if (Array.isArray(photos)) {
+    for (const p of photos) addId(out, (p as { assetId?: unknown } | null)?.assetId)
+  }
+  if (Array.isArray(assets)) {
+    for (const a of assets) addId(out, (a as { id?: unknown } | null)?.id)
+  }
+}
+
+/**
+ * 统计每个资源被多少个项目引用（同一项目内多张照片共用一份内容只计 1 次）。
+ * 直接读取原始记录而非迁移后的结构：即使某条记录无法解析，也不会误判其资源为未引用。
+ */
+export async function countAssetReferences(): Promise<Map<string, number>> {
+  const records = await txStore('projects', 'readonly', async (store) => {
+    return await reqToPromise<Array<{ project?: unknown }>>(store.getAll())
+  })
+  const counts = new Map<string, number>()
+  for (const r of records) {
+    const ids = new Set<string>()
+    collectIdsFromRawProject(r?.project, ids)
+    for (const id of ids) counts.set(id, (counts.get(id) ?? 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * 删除没有任何项目引用的资源。
+ * keep：当前会话仍在使用的资源（未保存的照片、撤销历史中的快照等）。
+ */
+export async function collectUnusedAssets(opts?: {
+  keep?: Iterable<string>
+  graceMs?: number
+}): Promise<AssetGcResult> {
+  const counts = await countAssetReferences()
+  const keep = new Set(opts?.keep ?? [])
+  const graceMs = opts?.graceMs ?? DEFAULT_GRACE_MS
+  const now = Date.now()
+
+  const stored = await listStoredAssets()
+  const unused = stored.filter((a) => {
+    if ((counts.get(a.id) ?? 0) > 0 || keep.has(a.id)) return false
+    return a.storedAt == null || now - a.storedAt >= graceMs
+  })
+
+  await deleteAssets(unused.map((a) => a.id))
+  return {
+    removedCount: unused.length,
+    reclaimedBytes: unused.reduce((sum, a) => sum + a.size, 0),
+  }
+}
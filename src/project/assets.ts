@@ -5,8 +5,12 @@ export interface StoredAsset {
   id: string
   meta: ProjectAssetMeta
   blob: Blob
+  /** 首次写入时间，用于 GC 时跳过刚导入、尚未被项目引用的资源 */
+  storedAt?: number
 }
 
+const CONTENT_ID_PREFIX = 'sha256-'
+
 export function createAssetId(): string {
   if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
     return crypto.randomUUID()
@@ -14,16 +18,49 @@ export function createAssetId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
 }
 
+export function isContentAssetId(id: string): boolean {
+  return id.startsWith(CONTENT_ID_PREFIX)
+}
+
+export async function hashBlobSha256(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 按内容生成资源 id（sha256-<hex>）；非安全上下文没有 crypto.subtle 时退回随机 id。
+ */
+export async function createContentAssetId(blob: Blob): Promise<string> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return createAssetId()
+  return `${CONTENT_ID_PREFIX}${await hashBlobSha256(blob)}`
+}
+
 export async function putAsset(meta: ProjectAssetMeta, blob: Blob): Promise<void> {
   await txStore('assets', 'readwrite', async (store) => {
-    store.put({ id: meta.id, meta, blob })
+    store.put({ id: meta.id, meta, blob, storedAt: Date.now() } satisfies StoredAsset)
   })
 }
 
+/**
+ * 内容寻址写入：相同内容只保存一份 blob，返回（可能已存在的）资源元信息。
+ */
+export async function storeAsset(
+  blob: Blob,
+  info: Omit<ProjectAssetMeta, 'id' | 'size'>
+): Promise<ProjectAssetMeta> {
+  const id = await createContentAssetId(blob)
+  const existing = await getAsset(id)
+  if (existing) return existing.meta
+
+  const meta: ProjectAssetMeta = { ...info, id, size: blob.size }
+  await putAsset(meta, blob)
+  return meta
+}
+
 export async function getAsset(id: string): Promise<StoredAsset | null> {
   return await txStore('assets', 'readonly', async (store) => {
-    const result = await reqToPromise<any>(store.get(id))
-    return result ? (result as StoredAsset) : null
+    const result = await reqToPromise<StoredAsset | undefined>(store.get(id))
+    return result ?? null
   })
 }
 
@@ -37,8 +74,37 @@ export async function hasAsset(id: string): Promise<boolean> {
   return Boolean(asset)
 }
 
+export async function listStoredAssets(): Promise<Array<Omit<StoredAsset, 'blob'> & { size: number }>> {
+  return await txStore('assets', 'readonly', async (store) => {
+    const all = await reqToPromise<StoredAsset[]>(store.getAll())
+    return all.map((a) => ({
+      id: a.id,
+      meta: a.meta,
+      storedAt: a.storedAt,
+      size: a.blob?.size ?? a.meta?.size ?? 0,
+    }))
+  })
+}
+
+export async function deleteAssets(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  await txStore('assets', 'readwrite', async (store) => {
+    for (const id of ids) store.delete(id)
+  })
+}
+
 export async function clearAllAssets(): Promise<void> {
   await txStore('assets', 'readwrite', async (store) => {
     store.clear()
   })
 }
+
+export async function getStorageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  try {
+    const est = await navigator.storage.estimate()
+    return { usage: est.usage ?? 0, quota: est.quota ?? 0 }
+  } catch {
+    return null
+  }
+}
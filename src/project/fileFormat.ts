@@ -1,9 +1,10 @@
 import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
-import type { ProjectV1 } from '@/project/schema'
+import type { ProjectV2 } from '@/project/schema'
+import { migrateProject } from '@/project/migrations'
 import { translate } from '@/locales'
 
 export interface ProjectArchive {
-  project: ProjectV1
+  project: ProjectV2
   assets: Array<{ id: string; blob: Blob }>
 }
 
@@ -32,7 +33,8 @@ export async function parseProjectArchiveBlob(blob: Blob): Promise<ProjectArchiv
   if (!projectRaw) {
     throw new Error(translate('project.errors.missingProjectJson'))
   }
-  const project = JSON.parse(strFromU8(projectRaw)) as ProjectV1
+  // 旧版本存档按迁移链逐步升级到当前结构
+  const project = migrateProject(JSON.parse(strFromU8(projectRaw)))
 
   const assets: Array<{ id: string; blob: Blob }> = []
   for (const [path, bytes] of Object.entries(unzipped)) {
@@ -0,0 +1,178 @@
+import type {
+  ProjectAssetMeta,
+  ProjectPhotoV2,
+  ProjectV1,
+  ProjectV2,
+} from "@/project/schema";
+import { translate } from "@/locales";
+
+export const CURRENT_PROJECT_VERSION: ProjectV2["version"] = 2;
+
+type UnknownRecord = Record<string, unknown>;
+
+/**
+ * 单步迁移：把 from 版本的原始 JSON 升级到 to 版本。
+ * 迁移函数只做结构转换，不访问 IndexedDB 或资源文件。
+ */
+export interface ProjectMigration {
+  from: number;
+  to: number;
+  migrate: (input: UnknownRecord) => UnknownRecord;
+}
+
+function isRecord(v: unknown): v is UnknownRecord {
+  return Boolean(v) && typeof v === "object" && !Array.isArray(v);
+}
+
+function num(v: unknown, fallback: number): number {
+  return typeof v === "number" && isFinite(v) ? v : fallback;
+}
+
+function invalidProject(): Error {
+  return new Error(translate("project.errors.invalidProject"));
+}
+
+/**
+ * 早期 V1 存档的字段并不齐全（如缺 sourceWidth / adjustments / zIndex），
+ * 升级时统一补齐为当前 V1 结构。
+ */
+function normalizeV1(input: UnknownRecord): ProjectV1 {
+  if (typeof input.id !== "string" || !Array.isArray(input.photos)) {
+    throw invalidProject();
+  }
+  const canvas = isRecord(input.canvas) ? input.canvas : null;
+  if (!canvas || !isFinite(Number(canvas.width)) || !isFinite(Number(canvas.height))) {
+    throw invalidProject();
+  }
+  const exp = isRecord(input.export) ? input.export : {};
+  const now = Date.now();
+  const createdAt = num(input.createdAt, now);
+
+  const photos = input.photos.filter(isRecord).map((p, idx) => {
+    if (typeof p.id !== "string" || typeof p.assetId !== "string" || !isRecord(p.crop)) {
+      throw invalidProject();
+    }
+    const imageWidth = num(p.imageWidth, 1);
+    const imageHeight = num(p.imageHeight, 1);
+    const adj = isRecord(p.adjustments) ? p.adjustments : {};
+    return {
+      ...p,
+      name: typeof p.name === "string" ? p.name : p.id,
+      sourceWidth: num(p.sourceWidth, imageWidth),
+      sourceHeight: num(p.sourceHeight, imageHeight),
+      imageWidth,
+      imageHeight,
+      adjustments: {
+        brightness: num(adj.brightness, 1),
+        contrast: num(adj.contrast, 1),
+        saturation: num(adj.saturation, 1),
+        preset: typeof adj.preset === "string" ? adj.preset : "none",
+      },
+      cx: num(p.cx, 0),
+      cy: num(p.cy, 0),
+      scale: num(p.scale, 1),
+      rotation: num(p.rotation, 0),
+      zIndex: num(p.zIndex, idx + 1),
+    } as ProjectV1["photos"][number];
+  });
+
+  const assets = (Array.isArray(input.assets) ? input.assets : [])
+    .filter(isRecord)
+    .filter(a => typeof a.id === "string")
+    .map(a => ({
+      id: a.id as string,
+      name: typeof a.name === "string" ? a.name : (a.id as string),
+      type: typeof a.type === "string" ? a.type : "",
+      size: num(a.size, 0),
+      lastModified: num(a.lastModified, createdAt),
+    })) satisfies ProjectAssetMeta[];
+
+  return {
+    version: 1,
+    id: input.id,
+    name: typeof input.name === "string" ? input.name : undefined,
+    createdAt,
+    updatedAt: num(input.updatedAt, createdAt),
+    canvas: {
+      presetId: typeof canvas.presetId === "string" ? canvas.presetId : "custom",
+      width: Number(canvas.width),
+      height: Number(canvas.height),
+    },
+    export: {
+      format: (typeof exp.format === "string" ? exp.format : "png") as ProjectV1["export"]["format"],
+      quality: num(exp.quality, 0.95),
+      resolution: (typeof exp.resolution === "string"
+        ? exp.resolution
+        : "original") as ProjectV1["export"]["resolution"],
+    },
+    photos,
+    assets,
+  };
+}
+
+function migrateV1ToV2(input: UnknownRecord): UnknownRecord {
+  const v1 = normalizeV1(input);
+  const v2: ProjectV2 = {
+    ...v1,
+    version: 2,
+    photos: v1.photos.map(p => ({ ...p }) as ProjectPhotoV2),
+  };
+  return v2 as unknown as UnknownRecord;
+}
+
+/** 按 from 版本升序排列；新增版本时在末尾追加一步即可 */
+export const PROJECT_MIGRATIONS: readonly ProjectMigration[] = [
+  { from: 1, to: 2, migrate: migrateV1ToV2 },
+];
+
+export function readProjectVersion(input: unknown): number | null {
+  if (!isRecord(input)) return null;
+  const v = input.version;
+  return typeof v === "number" && Number.isInteger(v) && v > 0 ? v : null;
+}
+
+function assertProjectV2(input: UnknownRecord): ProjectV2 {
+  if (
+    input.version !== CURRENT_PROJECT_VERSION ||
+    typeof input.id !== "string" ||
+    !Array.isArray(input.photos) ||
+    !Array.isArray(input.assets) ||
+    !isRecord(input.canvas) ||
+    !isRecord(input.export)
+  ) {
+    throw invalidProject();
+  }
+  return input as unknown as ProjectV2;
+}
+
+/**
+ * 将任意已知版本的项目 JSON 逐步升级到当前版本。
+ * - 版本高于当前版本：提示升级应用
+ * - 缺少迁移步骤或结构损坏：抛出可读错误
+ */
+export function migrateProject(
+  input: unknown,
+  migrations: readonly ProjectMigration[] = PROJECT_MIGRATIONS,
+): ProjectV2 {
+  const version = readProjectVersion(input);
+  if (version == null || !isRecord(input)) throw invalidProject();
+  if (version > CURRENT_PROJECT_VERSION) {
+    throw new Error(
+      translate("project.errors.unsupportedVersion", { version }),
+    );
+  }
+
+  let current: UnknownRecord = input;
+  let currentVersion = version;
+  while (currentVersion < CURRENT_PROJECT_VERSION) {
+    const step = migrations.find(m => m.from === currentVersion);
+    if (!step || step.to <= currentVersion) {
+      throw new Error(
+        translate("project.errors.unsupportedVersion", { version }),
+      );
+    }
+    current = step.migrate(current);
+    currentVersion = step.to;
+  }
+  return assertProjectV2(current);
+}
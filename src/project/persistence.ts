@@ -1,25 +1,106 @@
-import type { PhotoEntity } from '@/types'
-import type { ProjectAssetMeta, ProjectV1 } from '@/project/schema'
-import { buildProjectV1 } from '@/project/serialize'
-import { getLatestProject, putLatestProject } from '@/project/projects'
+import type {
+  CanvasBackground,
+  CanvasMask,
+  CustomFont,
+  LayoutOrdering,
+  LayoutSpacing,
+  PhotoBookPage,
+  PhotoEntity,
+  PhotoFrameStyle,
+  PosterExportSettings,
+  TextLayer,
+} from '@/types'
+import type { ProjectAssetMeta, ProjectV2 } from '@/project/schema'
+import {
+  buildCanvasSettings,
+  buildExportSettings,
+  buildProjectBook,
+  buildProjectV2,
+  collectBookBackgroundAssetIds,
+  collectBookPhotos,
+} from '@/project/serialize'
+import {
+  getLastOpenedProjectId,
+  getProject,
+  listProjects,
+  putProject,
+  setLastOpenedProjectId,
+} from '@/project/projects'
 import { getAsset } from '@/project/assets'
+import { renderProjectThumbnail } from '@/project/thumbnail'
 
 export interface MosaicStoreLike {
   currentPresetId: string
   canvasWidth: number
   canvasHeight: number
-  exportFormat: ProjectV1['export']['format']
+  layoutSpacing: LayoutSpacing
+  canvasMask: CanvasMask | null
+  canvasBackground: CanvasBackground | null
+  layoutOrdering: LayoutOrdering
+  photoFrame: PhotoFrameStyle
+  exportFormat: ProjectV2['export']['format']
   exportQuality: number
-  exportResolution: ProjectV1['export']['resolution']
+  exportResolution: ProjectV2['export']['resolution']
+  exportPdfBleedMm: number
+  exportPdfPrintMarks: boolean
+  exportPoster: PosterExportSettings
   photos: PhotoEntity[]
+  pages: PhotoBookPage[]
+  activePageId: string
+  textLayers: TextLayer[]
+  customFonts: CustomFont[]
 }
 
 let saveTimer: number | null = null
+let activeProjectId: string | null = null
+// 切换/打开项目期间暂停自动保存，避免把半加载状态写进目标项目。
+let suspendDepth = 0
+// 正在进行的保存；保存按顺序执行，改名等操作需等它写完再读记录。
+let inflightSave: Promise<void> | null = null
+
+type ProjectSavedListener = (project: ProjectV2) => void
+const savedListeners = new Set<ProjectSavedListener>()
+
+export function onProjectSaved(listener: ProjectSavedListener): () => void {
+  savedListeners.add(listener)
+  return () => savedListeners.delete(listener)
+}
+
+export function getActiveProjectId(): string | null {
+  return activeProjectId
+}
+
+export function setActiveProjectId(id: string | null): void {
+  activeProjectId = id
+  setLastOpenedProjectId(id)
+}
+
+export function cancelScheduledAutosave(): void {
+  if (saveTimer != null) window.clearTimeout(saveTimer)
+  saveTimer = null
+}
+
+/** 等待正在进行的自动保存写完（失败也算结束） */
+export async function waitForAutosave(): Promise<void> {
+  while (inflightSave) await inflightSave.catch(() => undefined)
+}
+
+export async function withAutosaveSuspended<T>(fn: () => Promise<T>): Promise<T> {
+  cancelScheduledAutosave()
+  suspendDepth++
+  try {
+    await waitForAutosave()
+    return await fn()
+  } finally {
+    suspendDepth--
+  }
+}
 
 export function scheduleAutosave(params: {
   store: MosaicStoreLike
   delayMs?: number
 }): void {
+  if (suspendDepth > 0) return
   const delayMs = params.delayMs ?? 400
   if (saveTimer != null) window.clearTimeout(saveTimer)
   saveTimer = window.setTimeout(() => {
@@ -28,11 +109,13 @@ export function scheduleAutosave(params: {
   }, delayMs)
 }
 
-async function resolveAssetsForStore(photos: PhotoEntity[]): Promise<ProjectAssetMeta[]> {
+async function resolveAssetsForStore(
+  photos: PhotoEntity[],
+  extraIds: string[] = []
+): Promise<ProjectAssetMeta[]> {
   const ids = Array.from(
     new Set(
-      photos
-        .map((p) => p.assetId)
+      [...photos.map((p) => p.assetId), ...extraIds]
         .filter((id): id is string => typeof id === 'string' && id.length > 0)
     )
   )
@@ -47,19 +130,70 @@ async function resolveAssetsForStore(photos: PhotoEntity[]): Promise<ProjectAsse
   return metas
 }
 
+/**
+ * 立即保存到当前活动项目；尚无活动项目时新建一个并设为活动项目。
+ * 多次调用依次执行，后一次读到的是前一次写入后的记录。
+ */
 export async function autosaveNow(store: MosaicStoreLike): Promise<void> {
-  const existing = await getLatestProject().catch(() => null)
-  const assets = await resolveAssetsForStore(store.photos)
-  const project = buildProjectV1({
+  const previous = inflightSave?.catch(() => undefined) ?? Promise.resolve()
+  const run = previous.then(() => saveActiveProject(store))
+  inflightSave = run
+  try {
+    await run
+  } finally {
+    if (inflightSave === run) inflightSave = null
+  }
+}
+
+async function saveActiveProject(store: MosaicStoreLike): Promise<void> {
+  const targetId = activeProjectId
+  const existing = targetId ? await getProject(targetId).catch(() => null) : null
+  // 上传字体与背景图片也是资源，和照片原图一起保留
+  const assets = await resolveAssetsForStore(collectBookPhotos(store), [
+    ...store.customFonts.map((f) => f.assetId),
+    ...collectBookBackgroundAssetIds(store),
+  ])
+  const project = buildProjectV2({
     existing,
-    canvas: { presetId: store.currentPresetId, width: store.canvasWidth, height: store.canvasHeight },
-    export: { format: store.exportFormat, quality: store.exportQuality, resolution: store.exportResolution },
+    canvas: buildCanvasSettings(store),
+    export: buildExportSettings(store),
     photos: store.photos,
     assets,
+    texts: store.textLayers,
+    fonts: store.customFonts,
+    book: buildProjectBook(store),
   })
-  await putLatestProject(project)
+  if (targetId) project.id = targetId
+  // 保存期间用户切换了项目：丢弃这次写入。
+  if (activeProjectId !== targetId) return
+
+  const thumbnail = renderProjectThumbnail({
+    canvasWidth: store.canvasWidth,
+    canvasHeight: store.canvasHeight,
+    photos: store.photos,
+  })
+  await putProject(project, thumbnail)
+  if (!targetId && activeProjectId == null) setActiveProjectId(project.id)
+
+  for (const l of savedListeners) {
+    try {
+      l(project)
+    } catch {
+      // ignore listener errors
+    }
+  }
 }
 
-export async function loadLatestProject(): Promise<ProjectV1 | null> {
-  return await getLatestProject()
+/**
+ * 读取上次打开的项目（不存在时退回最近更新的项目），并设为活动项目。
+ */
+export async function loadLastOpenedProject(): Promise<ProjectV2 | null> {
+  const lastId = getLastOpenedProjectId()
+  let project = lastId ? await getProject(lastId) : null
+  if (!project) {
+    const [latest] = await listProjects()
+    project = latest ? await getProject(latest.id) : null
+  }
+  setActiveProjectId(project?.id ?? null)
+  return project
 }
@@ -1,20 +1,49 @@
-import type { ProjectV1 } from '@/project/schema'
+import type { ProjectV2 } from '@/project/schema'
 import { buildProjectArchiveBlob, parseProjectArchiveBlob } from '@/project/fileFormat'
-import { buildProjectV1, isProjectV1 } from '@/project/serialize'
-import { getAsset, putAsset } from '@/project/assets'
+import {
+  buildCanvasSettings,
+  buildExportSettings,
+  buildProjectBook,
+  buildProjectV2,
+  collectBookBackgroundAssetIds,
+  collectBookPhotos,
+} from '@/project/serialize'
+import { getAsset, storeAsset } from '@/project/assets'
 import { downloadBlob } from '@/utils/image'
-import type { PhotoEntity } from '@/types'
-import { hydratePhotosFromProject } from '@/project/applyProject'
-import { translate } from '@/locales'
+import type {
+  CanvasBackground,
+  CanvasMask,
+  CustomFont,
+  LayoutOrdering,
+  LayoutSpacing,
+  PhotoBookPage,
+  PhotoEntity,
+  PhotoFrameStyle,
+  PosterExportSettings,
+  TextLayer,
+} from '@/types'
+import { applyProjectToStore, type ProjectTargetStore } from '@/project/applyProject'
 
 export interface ExportableStore {
   currentPresetId: string
   canvasWidth: number
   canvasHeight: number
-  exportFormat: ProjectV1['export']['format']
+  layoutSpacing: LayoutSpacing
+  canvasMask: CanvasMask | null
+  canvasBackground: CanvasBackground | null
+  layoutOrdering: LayoutOrdering
+  photoFrame: PhotoFrameStyle
+  exportFormat: ProjectV2['export']['format']
   exportQuality: number
-  exportResolution: ProjectV1['export']['resolution']
+  exportResolution: ProjectV2['export']['resolution']
+  exportPdfBleedMm: number
+  exportPdfPrintMarks: boolean
+  exportPoster: PosterExportSettings
   photos: PhotoEntity[]
+  pages: PhotoBookPage[]
+  activePageId: string
+  textLayers: TextLayer[]
+  customFonts: CustomFont[]
 }
 
 export async function exportProjectFile(params: {
@@ -23,17 +52,20 @@ export async function exportProjectFile(params: {
 }): Promise<void> {
   const { store } = params
 
-  // Resolve asset metas + blobs for referenced photos
+  // Resolve asset metas + blobs for referenced photos, uploaded fonts and background images
   const ids = Array.from(
     new Set(
-      store.photos
-        .map((p) => p.assetId)
+      [
+        ...collectBookPhotos(store).map((p) => p.assetId),
+        ...store.customFonts.map((f) => f.assetId),
+        ...collectBookBackgroundAssetIds(store),
+      ]
         .filter((id): id is string => typeof id === 'string' && id.length > 0)
     )
   )
 
   const assets: Array<{ id: string; blob: Blob }> = []
-  const metas = [] as ProjectV1['assets']
+  const metas = [] as ProjectV2['assets']
 
   for (const id of ids) {
     const asset = await getAsset(id)
@@ -42,12 +74,15 @@ export async function exportProjectFile(params: {
     assets.push({ id, blob: asset.blob })
   }
 
-  const project = buildProjectV1({
+  const project = buildProjectV2({
     existing: null,
-    canvas: { presetId: store.currentPresetId, width: store.canvasWidth, height: store.canvasHeight },
-    export: { format: store.exportFormat, quality: store.exportQuality, resolution: store.exportResolution },
+    canvas: buildCanvasSettings(store),
+    export: buildExportSettings(store),
     photos: store.photos,
     assets: metas,
+    texts: store.textLayers,
+    fonts: store.customFonts,
+    book: buildProjectBook(store),
   })
 
   const blob = await buildProjectArchiveBlob({ project, assets })
@@ -55,55 +90,69 @@ export async function exportProjectFile(params: {
   downloadBlob(blob, params.filename ?? `mosaic-project-${ts}.mosaicproj`)
 }
 
-export interface ImportableStore {
-  currentPresetId: string
-  canvasWidth: number
-  canvasHeight: number
-  exportFormat: ProjectV1['export']['format']
-  exportQuality: number
-  exportResolution: ProjectV1['export']['resolution']
-  photos: PhotoEntity[]
-
-  clearAllPhotos: () => void
-  selectPhoto: (id: string | null) => void
-  setExportFormat: (v: any) => void
-  setExportQuality: (v: number) => void
-  setExportResolution: (v: any) => void
-}
+export type ImportableStore = ProjectTargetStore
 
+/**
+ * 导入 .mosaicproj：写入资源并应用到 store，返回解析出的项目。
+ */
 export async function importProjectFile(params: {
   file: File
   store: ImportableStore
-}): Promise<void> {
+}): Promise<ProjectV2> {
   const parsed = await parseProjectArchiveBlob(params.file)
-  if (!isProjectV1(parsed.project)) {
-    throw new Error(translate('project.errors.unsupportedVersion'))
-  }
 
-  // Write assets to IndexedDB
+  // Write assets to IndexedDB (content-addressed: 旧存档的随机 id 会被换成内容哈希 id)
   const metaById = new Map(parsed.project.assets.map((m) => [m.id, m]))
+  const idMap = new Map<string, string>()
+  const metas: ProjectV2['assets'] = []
   for (const a of parsed.assets) {
     const meta = metaById.get(a.id)
     if (!meta) continue
     const typed = meta.type ? new Blob([a.blob], { type: meta.type }) : a.blob
-    await putAsset(meta, typed)
+    const stored = await storeAsset(typed, {
+      name: meta.name,
+      type: meta.type,
+      lastModified: meta.lastModified,
+    })
+    idMap.set(a.id, stored.id)
+    if (!metas.some((m) => m.id === stored.id)) metas.push(stored)
   }
 
-  // Apply project to store
-  params.store.clearAllPhotos()
-  params.store.currentPresetId = parsed.project.canvas.presetId
-  params.store.canvasWidth = parsed.project.canvas.width
-  params.store.canvasHeight = parsed.project.canvas.height
-  params.store.setExportFormat(parsed.project.export.format)
-  params.store.setExportQuality(parsed.project.export.quality)
-  params.store.setExportResolution(parsed.project.export.resolution)
-
-  const hydrated = await hydratePhotosFromProject({
-    project: parsed.project,
-    canvasWidth: parsed.project.canvas.width,
-    canvasHeight: parsed.project.canvas.height,
-  })
+  const remapPhotos = (photos: ProjectV2['photos']) =>
+    photos.map((p) => ({ ...p, assetId: idMap.get(p.assetId) ?? p.assetId }))
+  const remapCanvas = (canvas: ProjectV2['canvas']): ProjectV2['canvas'] =>
+    canvas?.background?.kind === 'image'
+      ? {
+          ...canvas,
+          background: {
+            ...canvas.background,
+            assetId: idMap.get(canvas.background.assetId) ?? canvas.background.assetId,
+          },
+        }
+      : canvas
+  const book = parsed.project.book
+  const project: ProjectV2 = {
+    ...parsed.project,
+    canvas: remapCanvas(parsed.project.canvas),
+    photos: remapPhotos(parsed.project.photos),
+    assets: metas,
+    fonts: Array.isArray(parsed.project.fonts)
+      ? parsed.project.fonts.map((f) => ({ ...f, assetId: idMap.get(f.assetId) ?? f.assetId }))
+      : undefined,
+    book:
+      book && Array.isArray(book.pages)
+        ? {
+            ...book,
+            pages: book.pages.map((page) => ({
+              ...page,
+              canvas: remapCanvas(page.canvas),
+              photos: remapPhotos(page.photos ?? []),
+            })),
+          }
+        : undefined,
+  }
 
-  params.store.photos = hydrated
-  params.store.selectPhoto(hydrated[0]?.id ?? null)
+  // Apply project to store
+  await applyProjectToStore({ project, store: params.store })
+  return project
 }
@@ -1,23 +1,194 @@
 import { reqToPromise, txStore } from '@/project/idb'
-import type { ProjectV1 } from '@/project/schema'
+import type { ProjectV2 } from '@/project/schema'
+import { buildProjectV2, createProjectId } from '@/project/serialize'
+import { migrateProject } from '@/project/migrations'
 
-const LATEST_KEY = 'latest'
+// 旧版本只有一个固定槽位，首次访问项目库时迁移为普通项目记录。
+const LEGACY_LATEST_KEY = 'latest'
+const LAST_OPENED_KEY = 'mosaicPhoto:lastProjectId'
 
-export async function putLatestProject(project: ProjectV1): Promise<void> {
+export interface ProjectRecord {
+  id: string
+  /** 旧记录可能仍是低版本结构，读取时经 migrateProject 升级 */
+  project: ProjectV2
+  /** 项目缩略图（JPEG dataURL），由自动保存生成 */
+  thumbnail?: string | null
+}
+
+export interface ProjectSummary {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  photoCount: number
+  thumbnail: string | null
+}
+
+export function resolveProjectName(project: ProjectV2): string {
+  const name = project.name?.trim()
+  if (name) return name
+  return new Date(project.createdAt).toLocaleString()
+}
+
+/** 多页相册统计全部页面的照片 */
+function countProjectPhotos(project: ProjectV2): number {
+  const pages = project.book?.pages
+  if (!Array.isArray(pages) || pages.length === 0) return project.photos.length
+  return pages.reduce((sum, page) => sum + (Array.isArray(page.photos) ? page.photos.length : 0), 0)
+}
+
+function toSummary(record: ProjectRecord): ProjectSummary {
+  return {
+    id: record.id,
+    name: resolveProjectName(record.project),
+    createdAt: record.project.createdAt,
+    updatedAt: record.project.updatedAt,
+    photoCount: countProjectPhotos(record.project),
+    thumbnail: record.thumbnail ?? null,
+  }
+}
+
+let legacyMigration: Promise<void> | null = null
+
+function migrateLegacyLatestProject(): Promise<void> {
+  if (legacyMigration) return legacyMigration
+  legacyMigration = txStore('projects', 'readwrite', async (store) => {
+    const legacy = await reqToPromise<Partial<ProjectRecord> | undefined>(store.get(LEGACY_LATEST_KEY))
+    if (!legacy?.project) return
+    const project = migrateProject(legacy.project)
+    const existing = await reqToPromise<Partial<ProjectRecord> | undefined>(store.get(project.id))
+    if (!existing) store.put({ id: project.id, project } satisfies ProjectRecord)
+    store.delete(LEGACY_LATEST_KEY)
+    if (getLastOpenedProjectId() == null) setLastOpenedProjectId(project.id)
+  }).catch((e) => {
+    legacyMigration = null
+    throw e
+  })
+  return legacyMigration
+}
+
+export function getLastOpenedProjectId(): string | null {
+  try {
+    return localStorage.getItem(LAST_OPENED_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function setLastOpenedProjectId(id: string | null): void {
+  try {
+    if (id) localStorage.setItem(LAST_OPENED_KEY, id)
+    else localStorage.removeItem(LAST_OPENED_KEY)
+  } catch {
+    // ignore
+  }
+}
+
+export async function getProjectRecord(id: string): Promise<ProjectRecord | null> {
+  await migrateLegacyLatestProject()
+  const record = await txStore('projects', 'readonly', async (store) => {
+    return await reqToPromise<Partial<ProjectRecord> | undefined>(store.get(id))
+  })
+  return record?.project ? { ...(record as ProjectRecord), project: migrateProject(record.project) } : null
+}
+
+export async function getProject(id: string): Promise<ProjectV2 | null> {
+  return (await getProjectRecord(id))?.project ?? null
+}
+
+/**
+ * 写入项目；thumbnail 为 undefined 时保留已有缩略图。
+ */
+export async function putProject(project: ProjectV2, thumbnail?: string | null): Promise<void> {
+  await migrateLegacyLatestProject()
   await txStore('projects', 'readwrite', async (store) => {
-    store.put({ id: LATEST_KEY, project })
+    let nextThumbnail = thumbnail
+    if (nextThumbnail === undefined) {
+      const prev = await reqToPromise<Partial<ProjectRecord> | undefined>(store.get(project.id))
+      nextThumbnail = prev?.thumbnail ?? null
+    }
+    store.put({ id: project.id, project, thumbnail: nextThumbnail } satisfies ProjectRecord)
+  })
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const records = await listProjectRecords()
+  return records.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+/**
+ * 读取全部项目（已升级到当前版本）；无法解析的记录会被跳过。
+ */
+export async function listProjectRecords(): Promise<ProjectRecord[]> {
+  await migrateLegacyLatestProject()
+  const records = await txStore('projects', 'readonly', async (store) => {
+    return await reqToPromise<Array<Partial<ProjectRecord>>>(store.getAll())
   })
+  const out: ProjectRecord[] = []
+  for (const r of records) {
+    if (!r?.project) continue
+    try {
+      out.push({ ...(r as ProjectRecord), project: migrateProject(r.project) })
+    } catch (e) {
+      // 损坏或来自更新版本的记录：跳过而不是让整个列表失败
+      console.warn('Skip unreadable project record:', r.id, e)
+    }
+  }
+  return out
 }
 
-export async function getLatestProject(): Promise<ProjectV1 | null> {
-  return await txStore('projects', 'readonly', async (store) => {
-    const result = await reqToPromise<any>(store.get(LATEST_KEY))
-    return result?.project ?? null
+export async function createProject(params: {
+  name?: string
+  canvas: ProjectV2['canvas']
+  export: ProjectV2['export']
+}): Promise<ProjectV2> {
+  const project = buildProjectV2({
+    existing: null,
+    canvas: params.canvas,
+    export: params.export,
+    photos: [],
+    assets: [],
+  })
+  if (params.name?.trim()) project.name = params.name.trim()
+  await putProject(project, null)
+  return project
+}
+
+export async function renameProject(id: string, name: string): Promise<ProjectV2 | null> {
+  const record = await getProjectRecord(id)
+  if (!record) return null
+  const project: ProjectV2 = { ...record.project, name: name.trim() || undefined, updatedAt: Date.now() }
+  await putProject(project, record.thumbnail ?? null)
+  return project
+}
+
+export async function duplicateProject(id: string, name?: string): Promise<ProjectV2 | null> {
+  const record = await getProjectRecord(id)
+  if (!record) return null
+  const now = Date.now()
+  // 资产按 id 共享，复制项目不复制原图 blob。
+  const copy: ProjectV2 = {
+    ...structuredClone(record.project),
+    id: createProjectId(),
+    name: name?.trim() || record.project.name,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await putProject(copy, record.thumbnail ?? null)
+  return copy
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await migrateLegacyLatestProject()
+  await txStore('projects', 'readwrite', async (store) => {
+    store.delete(id)
   })
+  if (getLastOpenedProjectId() === id) setLastOpenedProjectId(null)
 }
 
 export async function clearProjects(): Promise<void> {
   await txStore('projects', 'readwrite', async (store) => {
     store.clear()
   })
+  setLastOpenedProjectId(null)
 }
@@ -1,11 +1,21 @@
 import type {
+  CanvasBackground,
+  CanvasMask,
   CropRect,
   ExportFormat,
   ExportResolutionPreset,
   PhotoAdjustments,
+  LayoutOrdering,
+  PhotoFrameStyle,
+  LayoutSpacing,
+  PhotoExif,
+  PosterExportSettings,
+  TextLayer,
+  CustomFont,
 } from "@/types";
+import type { KeepRegion } from "@/types/vision";
 
-export type ProjectVersion = 1;
+export type ProjectVersion = 1 | 2;
 
 export interface ProjectAssetMeta {
   id: string;
@@ -13,6 +23,8 @@ export interface ProjectAssetMeta {
   type: string;
   size: number;
   lastModified: number;
+  /** 导入时解析的原图 EXIF；旧资源没有此字段 */
+  exif?: PhotoExif;
 }
 
 export interface ProjectPhotoV1 {
@@ -35,7 +47,7 @@ export interface ProjectPhotoV1 {
   scale: number;
   rotation: number;
   zIndex: number;
-  tileRect?: { x: number; y: number; w: number; h: number };
+  tileRect?: { x: number; y: number; w: number; h: number; r?: number };
 }
 
 export interface ProjectCanvasV1 {
@@ -44,15 +56,44 @@ export interface ProjectCanvasV1 {
   height: number;
 }
 
+export interface ProjectCanvasV2 extends ProjectCanvasV1 {
+  /** 铺满布局的间距、外边距与圆角；缺省为无缝铺满 */
+  spacing?: LayoutSpacing;
+  /** 形状遮罩；缺省为铺满整张画布 */
+  mask?: CanvasMask;
+  /** 画布背景；缺省为无背景（白色 / 透明） */
+  background?: CanvasBackground;
+  /** 排列顺序；只写在项目顶层，缺省为自由排列 */
+  ordering?: LayoutOrdering;
+  /** 全局相框样式；只写在项目顶层，缺省为无相框 */
+  frame?: PhotoFrameStyle;
+}
+
 export interface ProjectExportV1 {
   format: ExportFormat;
   quality: number;
   resolution: ExportResolutionPreset;
 }
 
+export interface ProjectExportPdfV2 {
+  bleedMm: number;
+  printMarks: boolean;
+}
+
+export type ProjectExportPosterV2 = PosterExportSettings;
+
+export interface ProjectExportV2 extends ProjectExportV1 {
+  /** PDF 导出的出血与印刷标记设置 */
+  pdf?: ProjectExportPdfV2;
+  /** 海报分页打印设置 */
+  poster?: ProjectExportPosterV2;
+}
+
 export interface ProjectV1 {
-  version: ProjectVersion;
+  version: 1;
   id: string;
+  /** 项目库中显示的名称，缺省时按创建时间显示 */
+  name?: string;
   createdAt: number;
   updatedAt: number;
 
@@ -62,3 +103,111 @@ export interface ProjectV1 {
   photos: ProjectPhotoV1[];
   assets: ProjectAssetMeta[];
 }
+
+/** 持久化的智能裁剪检测结果（坐标系与预览图一致） */
+export interface ProjectPhotoDetectionsV2 {
+  /** 检测器版本标记；与当前版本不一致时需要重新检测 */
+  detectorVersion: string;
+  regions: KeepRegion[];
+  hasFaces: boolean;
+  hasObjects: boolean;
+}
+
+export interface ProjectPhotoV2 extends ProjectPhotoV1 {
+  detections?: ProjectPhotoDetectionsV2;
+  /** 锁定的照片重排时保留 tileRect */
+  locked?: boolean;
+  /** 重要程度（1–5 星）；缺省为 3 星 */
+  priority?: number;
+  /** 所属相似照片组，重新打开后仍可复查 */
+  duplicateClusterId?: string;
+  /** 单张照片的相框；缺省时使用画布的全局相框 */
+  frame?: PhotoFrameStyle;
+  /** 拍立得相框底部的题字 */
+  caption?: string;
+}
+
+export interface ProjectRectV2 {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type ProjectLayoutNodeV2 =
+  | { kind: "leaf"; photoId: string; rect: ProjectRectV2 }
+  | {
+      kind: "split";
+      axis: "vertical" | "horizontal";
+      ratio: number;
+      rect: ProjectRectV2;
+      children: [ProjectLayoutNodeV2, ProjectLayoutNodeV2];
+    };
+
+/** 铺满布局的切分树，用于重新打开后继续微调而不必重新搜索 */
+export interface ProjectLayoutV2 {
+  mode: "fill";
+  canvasWidth: number;
+  canvasHeight: number;
+  seed?: number;
+  root: ProjectLayoutNodeV2;
+}
+
+export interface ProjectHistoryEntryV2 {
+  id: string;
+  at: number;
+  label: string;
+  kind: string;
+}
+
+/** 操作历史摘要（仅记录标签与时间，不含图像快照） */
+export interface ProjectHistoryV2 {
+  entries: ProjectHistoryEntryV2[];
+}
+
+/** 相册中的一页（或跨页） */
+export interface ProjectPageV2 {
+  id: string;
+  /** 跨页：左右两页合成一张画布 */
+  spread?: boolean;
+  canvas: ProjectCanvasV2;
+  photos: ProjectPhotoV2[];
+  texts?: ProjectTextV2[];
+}
+
+/** 画布上的文字图层 */
+export type ProjectTextV2 = TextLayer;
+
+/** 上传的字体；字体文件与照片一样存于 assets */
+export type ProjectFontV2 = CustomFont;
+
+/**
+ * 多页相册。顶层 canvas / photos 始终与当前页一致，
+ * 只认识单画布的读取方（缩略图、旧版本）仍能打开当前页。
+ */
+export interface ProjectBookV2 {
+  activePageId: string;
+  pages: ProjectPageV2[];
+}
+
+export interface ProjectV2 {
+  version: 2;
+  id: string;
+  name?: string;
+  createdAt: number;
+  updatedAt: number;
+
+  canvas: ProjectCanvasV2;
+  export: ProjectExportV2;
+
+  photos: ProjectPhotoV2[];
+  assets: ProjectAssetMeta[];
+  /** 当前页的文字图层；缺省为没有文字 */
+  texts?: ProjectTextV2[];
+  fonts?: ProjectFontV2[];
+
+  layout?: ProjectLayoutV2;
+  history?: ProjectHistoryV2;
+  /** 多页相册；缺省为单画布项目 */
+  book?: ProjectBookV2;
+}
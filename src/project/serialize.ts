@@ -1,8 +1,25 @@
-import type { PhotoEntity } from "@/types";
+import type {
+  CanvasBackground,
+  CanvasMask,
+  CustomFont,
+  LayoutOrdering,
+  LayoutSpacing,
+  PhotoBookPage,
+  PhotoEntity,
+  PhotoFrameStyle,
+  PosterExportSettings,
+  TextLayer,
+} from "@/types";
+import { exportSmartDetections } from "@/utils/smartCrop";
+import { cloneTextLayer } from "@/utils/textLayer";
+import { canvasBackgroundAssetId } from "@/utils/canvasBackground";
 import type {
   ProjectAssetMeta,
-  ProjectPhotoV1,
-  ProjectV1,
+  ProjectBookV2,
+  ProjectHistoryV2,
+  ProjectLayoutV2,
+  ProjectPhotoV2,
+  ProjectV2,
 } from "@/project/schema";
 
 export function createProjectId(): string {
@@ -12,7 +29,7 @@ export function createProjectId(): string {
   return `proj-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
-export function serializePhotos(photos: PhotoEntity[]): ProjectPhotoV1[] {
+export function serializePhotos(photos: PhotoEntity[]): ProjectPhotoV2[] {
   return photos
     .filter(p => typeof p.assetId === "string" && p.assetId.length > 0)
     .map(p => ({
@@ -33,46 +50,152 @@ export function serializePhotos(photos: PhotoEntity[]): ProjectPhotoV1[] {
       rotation: p.rotation,
       zIndex: p.zIndex,
       tileRect: p.tileRect ? { ...p.tileRect } : undefined,
+      locked: p.locked || undefined,
+      priority: p.priority,
+      duplicateClusterId: p.duplicateClusterId,
+      frame: p.frame ? { ...p.frame } : undefined,
+      caption: p.caption,
+      // 保存检测结果，重新打开时无需再跑人脸/显著性检测
+      detections: exportSmartDetections(p.id),
     }));
 }
 
-export function buildProjectV1(params: {
-  existing?: ProjectV1 | null;
-  canvas: { presetId: string; width: number; height: number };
-  export: {
-    format: ProjectV1["export"]["format"];
-    quality: number;
-    resolution: ProjectV1["export"]["resolution"];
+/** 没有文字图层时不写字段 */
+export function serializeTextLayers(texts: TextLayer[]): ProjectV2["texts"] {
+  return texts.length > 0 ? texts.map(cloneTextLayer) : undefined;
+}
+
+export interface CanvasSettingsSource {
+  currentPresetId: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  layoutSpacing: LayoutSpacing;
+  canvasMask: CanvasMask | null;
+  canvasBackground: CanvasBackground | null;
+  layoutOrdering?: LayoutOrdering;
+  photoFrame?: PhotoFrameStyle;
+}
+
+function cloneCanvasMask(mask?: CanvasMask | null): CanvasMask | undefined {
+  if (!mask) return undefined;
+  return mask.kind === "path" ? { ...mask, viewBox: [...mask.viewBox] } : { ...mask };
+}
+
+export function buildCanvasSettings(store: CanvasSettingsSource): ProjectV2["canvas"] {
+  return {
+    presetId: store.currentPresetId,
+    width: store.canvasWidth,
+    height: store.canvasHeight,
+    spacing: { ...store.layoutSpacing },
+    mask: cloneCanvasMask(store.canvasMask),
+    background: store.canvasBackground ? { ...store.canvasBackground } : undefined,
+    ordering: store.layoutOrdering ? { ...store.layoutOrdering } : undefined,
+    frame: store.photoFrame ? { ...store.photoFrame } : undefined,
+  };
+}
+
+export interface BookSource {
+  /** 全部页面（当前页为实时状态） */
+  pages: PhotoBookPage[];
+  activePageId: string;
+}
+
+/** 所有页面中的照片，用于收集需要保存的原图资源 */
+export function collectBookPhotos(store: BookSource): PhotoEntity[] {
+  return store.pages.flatMap(page => page.photos);
+}
+
+/** 所有页面背景引用的上传图片资源 */
+export function collectBookBackgroundAssetIds(store: BookSource): string[] {
+  return store.pages
+    .map(page => canvasBackgroundAssetId(page.canvasBackground))
+    .filter((id): id is string => Boolean(id));
+}
+
+/** 只有一页时不写 book，项目保持单画布结构 */
+export function buildProjectBook(store: BookSource): ProjectBookV2 | undefined {
+  if (store.pages.length <= 1) return undefined;
+  return {
+    activePageId: store.activePageId,
+    pages: store.pages.map(page => ({
+      id: page.id,
+      spread: page.spread || undefined,
+      canvas: buildCanvasSettings({
+        currentPresetId: page.presetId,
+        canvasWidth: page.canvasWidth,
+        canvasHeight: page.canvasHeight,
+        layoutSpacing: page.layoutSpacing,
+        canvasMask: page.canvasMask,
+        canvasBackground: page.canvasBackground,
+      }),
+      photos: serializePhotos(page.photos),
+      texts: serializeTextLayers(page.texts),
+    })),
+  };
+}
+
+export interface ExportSettingsSource {
+  exportFormat: ProjectV2["export"]["format"];
+  exportQuality: number;
+  exportResolution: ProjectV2["export"]["resolution"];
+  exportPdfBleedMm: number;
+  exportPdfPrintMarks: boolean;
+  exportPoster: PosterExportSettings;
+}
+
+export function buildExportSettings(store: ExportSettingsSource): ProjectV2["export"] {
+  return {
+    format: store.exportFormat,
+    quality: store.exportQuality,
+    resolution: store.exportResolution,
+    pdf: { bleedMm: store.exportPdfBleedMm, printMarks: store.exportPdfPrintMarks },
+    poster: { ...store.exportPoster },
   };
+}
+
+export function buildProjectV2(params: {
+  existing?: ProjectV2 | null;
+  canvas: ProjectV2["canvas"];
+  export: ProjectV2["export"];
   photos: PhotoEntity[];
   assets: ProjectAssetMeta[];
-}): ProjectV1 {
+  texts?: TextLayer[];
+  fonts?: CustomFont[];
+  layout?: ProjectLayoutV2;
+  history?: ProjectHistoryV2;
+  book?: ProjectBookV2;
+}): ProjectV2 {
   const now = Date.now();
   const base = params.existing;
   return {
-    version: 1,
+    version: 2,
     id: base?.id ?? createProjectId(),
+    name: base?.name,
     createdAt: base?.createdAt ?? now,
     updatedAt: now,
     canvas: {
       presetId: params.canvas.presetId,
       width: params.canvas.width,
       height: params.canvas.height,
+      spacing: params.canvas.spacing ? { ...params.canvas.spacing } : undefined,
+      mask: cloneCanvasMask(params.canvas.mask),
+      background: params.canvas.background ? { ...params.canvas.background } : undefined,
+      ordering: params.canvas.ordering ? { ...params.canvas.ordering } : undefined,
+      frame: params.canvas.frame ? { ...params.canvas.frame } : undefined,
     },
     export: {
       format: params.export.format,
       quality: params.export.quality,
       resolution: params.export.resolution,
+      pdf: params.export.pdf ? { ...params.export.pdf } : undefined,
+      poster: params.export.poster ? { ...params.export.poster } : undefined,
     },
     photos: serializePhotos(params.photos),
     assets: params.assets,
+    texts: serializeTextLayers(params.texts ?? []),
+    fonts: params.fonts?.length ? params.fonts.map(font => ({ ...font })) : undefined,
+    layout: params.layout,
+    history: params.history,
+    book: params.book,
   };
 }
-
-export function isProjectV1(input: unknown): input is ProjectV1 {
-  if (!input || typeof input !== "object") return false;
-  const any = input as any;
-  return (
-    any.version === 1 && typeof any.id === "string" && Array.isArray(any.photos)
-  );
-}
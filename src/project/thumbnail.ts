@@ -0,0 +1,63 @@
+import type { PhotoEntity } from '@/types'
+import { buildCanvasFilter } from '@/utils/filters'
+import { traceTileRect } from '@/export/renderComposition'
+
+const THUMBNAIL_MAX_EDGE = 240
+
+/**
+ * 生成项目库缩略图：用内存中的预览图按当前布局缩小绘制。
+ * 不支持 canvas 的环境（如测试）返回 null。
+ */
+export function renderProjectThumbnail(params: {
+  canvasWidth: number
+  canvasHeight: number
+  photos: PhotoEntity[]
+  maxEdge?: number
+}): string | null {
+  if (typeof document === 'undefined') return null
+  const { canvasWidth, canvasHeight } = params
+  if (canvasWidth <= 0 || canvasHeight <= 0) return null
+
+  const maxEdge = params.maxEdge ?? THUMBNAIL_MAX_EDGE
+  const scale = maxEdge / Math.max(canvasWidth, canvasHeight)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(canvasWidth * scale))
+  canvas.height = Math.max(1, Math.round(canvasHeight * scale))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.scale(scale, scale)
+
+  const sorted = [...params.photos].sort((a, b) => a.zIndex - b.zIndex)
+  for (const photo of sorted) {
+    if (!photo.image) continue
+    const crop = photo.layoutCrop ?? photo.crop
+    if (crop.width <= 0 || crop.height <= 0) continue
+
+    ctx.save()
+    if (photo.tileRect) {
+      ctx.beginPath()
+      traceTileRect(ctx, photo.tileRect)
+      ctx.clip()
+    }
+    ctx.translate(photo.cx, photo.cy)
+    ctx.rotate(photo.rotation)
+    ctx.filter = buildCanvasFilter(photo.adjustments)
+    const w = crop.width * photo.scale
+    const h = crop.height * photo.scale
+    try {
+      ctx.drawImage(photo.image, crop.x, crop.y, crop.width, crop.height, -w / 2, -h / 2, w, h)
+    } catch {
+      // ignore: 图片已释放时跳过
+    }
+    ctx.restore()
+  }
+
+  try {
+    return canvas.toDataURL('image/jpeg', 0.72)
+  } catch {
+    return null
+  }
+}
@@ -1,7 +1,8 @@
 import { defineStore } from "pinia";
-import { ref, computed } from "vue";
+import { ref, computed, shallowRef } from "vue";
 import type {
   PhotoEntity,
+  PhotoFrameStyle,
   CanvasPreset,
   ExportFormat,
   ExportResolutionPreset,
@@ -15,18 +16,117 @@ import type {
   LayoutSearchIntent,
   LayoutSearchMode,
   LayoutSearchOptions,
+  PosterExportSettings,
+  TileRect,
+  LayoutSpacing,
+  PhotoMosaicSettings,
+  CanvasBackground,
+  CanvasMask,
+  PhotoBookPage,
+  PhotoExif,
+  LayoutOrdering,
+  LayoutOrderMode,
+  PhotoSignature,
+  PhotoQuality,
+  DuplicateCluster,
+  DuplicateKeepCriterion,
+  RulerGuide,
+  TextLayer,
+  CustomFont,
 } from "@/types";
 import { fillArrangePhotos } from "@/composables/useLayout";
-import { clampPhotoToCanvas, clampCrop, clamp, generateId } from "@/utils/math";
+import {
+  DEFAULT_LAYOUT_ORDERING,
+  DEFAULT_LAYOUT_SPACING,
+  DEFAULT_PHOTO_PRIORITY,
+  LAYOUT_ORDER_MODES,
+  MAX_LAYOUT_SPACING,
+  MAX_ORDERING_WEIGHT,
+  MAX_TITLE_BAND_HEIGHT,
+  clampPhotoPriority,
+  qualityTieBucket,
+  resolvePinnedInput,
+  type FillArrangeMask,
+} from "@/utils/fillArrangeShared";
+import { canvasMaskKey } from "@/utils/canvasMask";
+import {
+  canvasBackgroundAssetId,
+  needsBackgroundSource,
+  type CanvasBackgroundImage,
+} from "@/utils/canvasBackground";
+import {
+  loadCanvasBackgroundSource,
+  releaseCanvasBackgroundSource,
+  renderBlurredPhotoBackground,
+} from "@/utils/canvasBackgroundImage";
+import { cloneTextLayer, createTextLayer, fontFamilyFromFileName } from "@/utils/textLayer";
+import { registerFontFace } from "@/export/renderText";
+import {
+  clusterNearDuplicates,
+  measurePhotoSignature,
+  pickClusterKeeper,
+} from "@/utils/duplicates";
+import { measurePhotoQuality } from "@/utils/photoQuality";
+import { normalizePhotoAdjustments } from "@/utils/pixelAdjust";
+import {
+  DEFAULT_PHOTO_FRAME,
+  normalizePhotoCaption,
+  normalizePhotoFrame,
+} from "@/utils/photoFrame";
+import type { ExportStore } from "@/composables/useExport";
+import {
+  MAX_BOOK_PAGES,
+  distributePhotosToPages,
+  resolvePageCanvasSize,
+  type PhotoBookDistribution,
+} from "@/utils/photoBook";
+import {
+  loadCanvasMaskSource,
+  rasterizeCanvasMask,
+  type CanvasMaskRender,
+  type CanvasMaskSource,
+} from "@/utils/canvasMaskImage";
+import {
+  DEFAULT_PHOTO_MOSAIC_SETTINGS,
+  buildPhotoMosaic,
+  normalizePhotoMosaicSettings,
+  resolvePhotoMosaicGrid,
+  resolvePhotoMosaicSampleSize,
+  type PhotoMosaicResult,
+  type PhotoMosaicSwatch,
+  type PhotoMosaicTarget,
+} from "@/utils/photoMosaic";
+import {
+  blendMosaicTile,
+  renderMosaicTileImage,
+  resolveMosaicTileEdge,
+  sampleMosaicTarget,
+} from "@/utils/photoMosaicImage";
+import {
+  clampPhotoToCanvas,
+  clampCrop,
+  clamp,
+  generateId,
+  getDrawHalfSize,
+  rotatedAABBHalf,
+} from "@/utils/math";
+import {
+  alignPhotoPositions,
+  distributePhotoPositions,
+  matchPhotoScales,
+  type PhotoAlignEdge,
+  type PhotoDistributeAxis,
+  type PhotoMatchDimension,
+} from "@/utils/photoAlign";
 import {
   centerCropToAspect,
   createPreviewUrlFromImageSource,
   createPhotoFromFile,
   isHeicFile,
   normalizeImageFileForImport,
+  type NormalizedImageImport,
 } from "@/utils/image";
-import { createAssetId, putAsset } from "@/project/assets";
-import type { ProjectAssetMeta } from "@/project/schema";
+import { getAssetBlob, storeAsset } from "@/project/assets";
 import {
   getSmartDetections,
   invalidateSmartDetections,
@@ -36,6 +136,8 @@ import {
 } from "@/utils/smartCrop";
 import { getVisionClient } from "@/vision/visionClient";
 import { translate } from "@/locales";
+import { DEFAULT_PDF_EXPORT, MAX_PDF_BLEED_MM } from "@/export/pdf";
+import { DEFAULT_POSTER_EXPORT, MAX_POSTER_OVERLAP_MM } from "@/export/poster";
 
 type LayoutWorkerFillArrangeOptions = {
   seed?: number;
@@ -44,6 +146,12 @@ type LayoutWorkerFillArrangeOptions = {
   searchOptions?: Partial<LayoutSearchOptions>;
   qualityThresholds?: Partial<LayoutQualityThresholds>;
   allowCanvasResize?: boolean;
+  gutter?: number;
+  outerMargin?: number;
+  cornerRadius?: number;
+  mask?: FillArrangeMask;
+  ordering?: LayoutOrderMode;
+  orderingWeight?: number;
 };
 
 type LayoutWorkerFillArrangePhotoInput = {
@@ -52,6 +160,11 @@ type LayoutWorkerFillArrangePhotoInput = {
   imageWidth: number;
   imageHeight: number;
   detections?: ReturnType<typeof getSmartDetections>;
+  priority?: number;
+  name?: string;
+  takenAt?: number;
+  quality?: number;
+  pinned?: ReturnType<typeof resolvePinnedInput>;
 };
 
 type LayoutWorkerFillArrangeRequest = {
@@ -63,10 +176,35 @@ type LayoutWorkerFillArrangeRequest = {
   options?: LayoutWorkerFillArrangeOptions;
 };
 
-type LayoutWorkerFillArrangeResponse =
-  | { id: number; ok: true; result: FillArrangeResult }
+type LayoutWorkerPhotoMosaicRequest = {
+  id: number;
+  type: "photoMosaic";
+  target: PhotoMosaicTarget;
+  swatches: PhotoMosaicSwatch[];
+  canvasW: number;
+  canvasH: number;
+  settings: PhotoMosaicSettings;
+  seed?: number;
+};
+
+type LayoutWorkerResponse =
+  | { id: number; ok: true; type: "fillArrange"; result: FillArrangeResult }
+  | { id: number; ok: true; type: "photoMosaic"; result: PhotoMosaicResult }
   | { id: number; ok: false; error: string };
 
+/** 等待中的请求按类型记录，回复类型不符时直接拒绝 */
+type LayoutWorkerPending =
+  | {
+      type: "fillArrange";
+      resolve: (result: FillArrangeResult) => void;
+      reject: (err: Error) => void;
+    }
+  | {
+      type: "photoMosaic";
+      resolve: (result: PhotoMosaicResult) => void;
+      reject: (err: Error) => void;
+    };
+
 type LayoutRunMeta = {
   intent: LayoutSearchIntent;
   mode: LayoutSearchMode;
@@ -94,23 +232,46 @@ const DEFAULT_LAYOUT_QUALITY_THRESHOLDS: LayoutQualityThresholds = {
 };
 
 const PRESETS: CanvasPreset[] = [
-  { id: "40x50", label: "preset.40x50", width: 4724, height: 5906 },
-  { id: "40x60", label: "preset.40x60", width: 4724, height: 7087 },
-  { id: "50x70", label: "preset.50x70", width: 5906, height: 8268 },
-  { id: "60x80", label: "preset.60x80", width: 7087, height: 9449 },
-  { id: "60x90", label: "preset.60x90", width: 7087, height: 10630 },
-  { id: "50x40", label: "preset.50x40", width: 5906, height: 4724 },
-  { id: "60x40", label: "preset.60x40", width: 7087, height: 4724 },
-  { id: "70x50", label: "preset.70x50", width: 8268, height: 5906 },
-  { id: "80x60", label: "preset.80x60", width: 9449, height: 7087 },
-  { id: "90x60", label: "preset.90x60", width: 10630, height: 7087 },
-  { id: "100x70", label: "preset.100x70", width: 11811, height: 8268 },
-  { id: "100x80", label: "preset.100x80", width: 11811, height: 9449 },
+  { id: "40x50", label: "preset.40x50", width: 4724, height: 5906, widthCm: 40, heightCm: 50 },
+  { id: "40x60", label: "preset.40x60", width: 4724, height: 7087, widthCm: 40, heightCm: 60 },
+  { id: "50x70", label: "preset.50x70", width: 5906, height: 8268, widthCm: 50, heightCm: 70 },
+  { id: "60x80", label: "preset.60x80", width: 7087, height: 9449, widthCm: 60, heightCm: 80 },
+  { id: "60x90", label: "preset.60x90", width: 7087, height: 10630, widthCm: 60, heightCm: 90 },
+  { id: "50x40", label: "preset.50x40", width: 5906, height: 4724, widthCm: 50, heightCm: 40 },
+  { id: "60x40", label: "preset.60x40", width: 7087, height: 4724, widthCm: 60, heightCm: 40 },
+  { id: "70x50", label: "preset.70x50", width: 8268, height: 5906, widthCm: 70, heightCm: 50 },
+  { id: "80x60", label: "preset.80x60", width: 9449, height: 7087, widthCm: 80, heightCm: 60 },
+  { id: "90x60", label: "preset.90x60", width: 10630, height: 7087, widthCm: 90, heightCm: 60 },
+  { id: "100x70", label: "preset.100x70", width: 11811, height: 8268, widthCm: 100, heightCm: 70 },
+  { id: "100x80", label: "preset.100x80", width: 11811, height: 9449, widthCm: 100, heightCm: 80 },
   { id: "custom", label: "preset.custom", width: 4000, height: 4000 },
 ];
 
+function createEmptyPage(id: string): PhotoBookPage {
+  const preset = PRESETS[0];
+  return {
+    id,
+    spread: false,
+    presetId: preset.id,
+    canvasWidth: preset.width,
+    canvasHeight: preset.height,
+    layoutSpacing: { ...DEFAULT_LAYOUT_SPACING },
+    canvasMask: null,
+    canvasBackground: null,
+    photos: [],
+    texts: [],
+  };
+}
+
 const MAX_IMPORT_PHOTO_COUNT = 150;
-type ImportPhotosResult = { added: number; failed: number; truncated: number };
+type ImportPhotosResult = {
+  added: number;
+  failed: number;
+  truncated: number;
+  /** 本次导入涉及的相似照片组数，以及每组只留一张时可跳过的张数 */
+  duplicateClusters: number;
+  duplicates: number;
+};
 
 export const useMosaicStore = defineStore("mosaic", () => {
   type PhotoCoreSnapshot = {
@@ -122,8 +283,12 @@ export const useMosaicStore = defineStore("mosaic", () => {
     zIndex: number;
     crop: CropRect;
     layoutCrop?: CropRect;
-    tileRect?: { x: number; y: number; w: number; h: number };
+    tileRect?: TileRect;
+    locked?: boolean;
+    priority?: number;
     adjustments: PhotoAdjustments;
+    frame?: PhotoFrameStyle;
+    caption?: string;
   };
 
   type PhotoFullSnapshot = PhotoCoreSnapshot & {
@@ -135,11 +300,26 @@ export const useMosaicStore = defineStore("mosaic", () => {
     sourceHeight?: number;
     imageWidth: number;
     imageHeight: number;
+    takenAt?: number;
+    exif?: PhotoExif;
+    signature?: PhotoSignature;
+    duplicateClusterId?: string;
+    quality?: PhotoQuality;
   };
 
   type CanvasSnapshot = PhotoCoreSnapshot[];
 
-  type HistoryEntry =
+  type BookPageSnapshot = Omit<PhotoBookPage, "photos"> & {
+    photos: PhotoFullSnapshot[];
+  };
+
+  /** 相册结构（页面增删、排序、分配照片）的快照 */
+  type BookSnapshot = {
+    activePageId: string;
+    pages: BookPageSnapshot[];
+  };
+
+  type HistoryEntry = (
     | {
         id: string;
         at: number;
@@ -185,7 +365,47 @@ export const useMosaicStore = defineStore("mosaic", () => {
         photos: Array<{ index: number; photo: PhotoFullSnapshot }>;
         selectedBefore: string | null;
         cropModeBefore: string | null;
-      };
+      }
+    | {
+        id: string;
+        at: number;
+        label: string;
+        kind: "book";
+        before: BookSnapshot;
+        after: BookSnapshot;
+      }
+    | {
+        id: string;
+        at: number;
+        label: string;
+        kind: "removePhotos";
+        /** 按原下标升序 */
+        photos: Array<{ index: number; photo: PhotoFullSnapshot }>;
+        selectedBefore: string | null;
+        cropModeBefore: string | null;
+      }
+    | {
+        id: string;
+        at: number;
+        label: string;
+        kind: "reorder";
+        /** 照片列表顺序（id） */
+        before: string[];
+        after: string[];
+      }
+    | {
+        id: string;
+        at: number;
+        label: string;
+        kind: "texts";
+        /** 当前页全部文字图层 */
+        before: TextLayer[];
+        after: TextLayer[];
+      }
+  ) & {
+    /** 操作所在的相册页；撤销/重做前先切换到该页 */
+    pageId?: string;
+  };
 
   const HISTORY_LIMIT = 80;
   const DEFAULT_ADJUSTMENTS: PhotoAdjustments = {
@@ -204,13 +424,31 @@ export const useMosaicStore = defineStore("mosaic", () => {
   const canvasOffsetY = ref<number>(0);
   const photos = ref<PhotoEntity[]>([]);
   const selectedPhotoId = ref<string | null>(null);
+  /** 多选时的完整选区（含 selectedPhotoId）；主选中照片不在其中时视为单选 */
+  const multiSelection = ref<string[]>([]);
   const cropModePhotoId = ref<string | null>(null);
   const allowPhotoMove = ref<boolean>(false);
+  /** 自由移动时是否吸附到画布、其他照片与参考线 */
+  const snapEnabled = ref<boolean>(true);
+  /** 用户参考线，只在编辑时使用，不随项目保存 */
+  const rulerGuides = ref<RulerGuide[]>([]);
+  /** 当前页的文字图层，按绘制顺序排列（后面的在上层） */
+  const textLayers = ref<TextLayer[]>([]);
+  const selectedTextId = ref<string | null>(null);
+  /** 用户上传的字体，整个项目共用 */
+  const customFonts = ref<CustomFont[]>([]);
   const exportFormat = ref<ExportFormat>("png");
   const exportQuality = ref<number>(0.95);
   const exportResolution = ref<ExportResolutionPreset>("original");
+  const exportPdfBleedMm = ref<number>(DEFAULT_PDF_EXPORT.bleedMm);
+  const exportPdfPrintMarks = ref<boolean>(DEFAULT_PDF_EXPORT.printMarks);
+  const exportPoster = ref<PosterExportSettings>({ ...DEFAULT_POSTER_EXPORT });
   const isExporting = ref<boolean>(false);
   const mode = ref<AppMode>({ kind: "idle" });
+  // 相册：当前页的内容就是上面的画布 state，bookPages 中当前页的条目只占位，离开该页时写回
+  const activePageId = ref<string>(generateId());
+  const pageSpread = ref<boolean>(false);
+  const bookPages = shallowRef<PhotoBookPage[]>([createEmptyPage(activePageId.value)]);
 
   function cropAreaLoss(source: CropRect, target: CropRect): number {
     const sourceArea = Math.max(1, source.width * source.height);
@@ -218,6 +456,21 @@ export const useMosaicStore = defineStore("mosaic", () => {
     return Math.max(0, 1 - targetArea / sourceArea);
   }
 
+  // 主线程导入的照片没有人脸指标，检测结果到达后补算一次画质
+  onSmartDetectionsChanged(photoId => {
+    const photo = photos.value.find(p => p.id === photoId);
+    if (!photo || photo.quality?.faceSharpness !== undefined) return;
+    const faces = (getSmartDetections(photoId) ?? []).filter(d => d.kind === "face");
+    if (faces.length === 0) return;
+    photo.quality =
+      measurePhotoQuality(
+        photo.image,
+        photo.imageWidth,
+        photo.imageHeight,
+        faces.map(face => face.box),
+      ) ?? photo.quality;
+  });
+
   // 智能裁剪检测结果到达后，尽可能只更新 layoutCrop（不改变位置/缩放），避免“跳动”
   onSmartDetectionsChanged(photoId => {
     if (mode.value.kind !== "idle") return;
@@ -257,16 +510,30 @@ export const useMosaicStore = defineStore("mosaic", () => {
   // Layout worker (best-effort): used by async layout APIs only.
   let layoutWorker: Worker | null = null;
   let layoutWorkerReqId = 0;
-  const layoutWorkerPending = new Map<
-    number,
-    {
-      resolve: (result: FillArrangeResult) => void;
-      reject: (err: Error) => void;
-    }
-  >();
+  const layoutWorkerPending = new Map<number, LayoutWorkerPending>();
   const lastLayoutResult = ref<FillArrangeResult | null>(null);
   const lastLayoutSignature = ref("");
   const lastLayoutSeed = ref<number | null>(null);
+  const layoutSpacing = ref<LayoutSpacing>({ ...DEFAULT_LAYOUT_SPACING });
+  // 排列顺序对所有页面生效
+  const layoutOrdering = ref<LayoutOrdering>({ ...DEFAULT_LAYOUT_ORDERING });
+  // 全局相框样式对所有页面生效，照片自身的 frame 优先
+  const photoFrame = ref<PhotoFrameStyle>({ ...DEFAULT_PHOTO_FRAME });
+  // 经典照片马赛克：格子实例与库内照片分开保存，生成后取代照片参与渲染与导出
+  const photoMosaicSettings = ref<PhotoMosaicSettings>({
+    ...DEFAULT_PHOTO_MOSAIC_SETTINGS,
+  });
+  const photoMosaicTiles = shallowRef<PhotoEntity[]>([]);
+  const lastPhotoMosaicResult = shallowRef<PhotoMosaicResult | null>(null);
+  // 形状遮罩：canvasMask 随项目保存，canvasMaskRender 为按当前画布栅格化的结果
+  const canvasMask = ref<CanvasMask | null>(null);
+  const canvasMaskRender = shallowRef<CanvasMaskRender | null>(null);
+  let canvasMaskSource: CanvasMaskSource | null = null;
+  let canvasMaskRequestId = 0;
+  // 画布背景：canvasBackground 随页面保存，canvasBackgroundSource 为解码 / 模糊好的位图
+  const canvasBackground = ref<CanvasBackground | null>(null);
+  const canvasBackgroundSource = shallowRef<CanvasBackgroundImage | null>(null);
+  let canvasBackgroundRequestId = 0;
   const lastAppliedLayoutFingerprint = ref("");
 
   function rejectAllLayoutWorkerPending(err: Error) {
@@ -286,13 +553,15 @@ export const useMosaicStore = defineStore("mosaic", () => {
       new URL("../workers/layoutWorker.ts", import.meta.url),
       { type: "module" },
     );
-    w.onmessage = (e: MessageEvent<LayoutWorkerFillArrangeResponse>) => {
+    w.onmessage = (e: MessageEvent<LayoutWorkerResponse>) => {
       const msg = e.data;
       const pending = layoutWorkerPending.get(msg.id);
       if (!pending) return;
       layoutWorkerPending.delete(msg.id);
-      if (msg.ok) pending.resolve(msg.result);
-      else pending.reject(new Error(msg.error));
+      if (!msg.ok) pending.reject(new Error(msg.error));
+      else if (msg.type === "fillArrange" && pending.type === "fillArrange") pending.resolve(msg.result);
+      else if (msg.type === "photoMosaic" && pending.type === "photoMosaic") pending.resolve(msg.result);
+      else pending.reject(new Error(`Unexpected layout worker response: ${msg.type}`));
     };
     w.onerror = () => {
       rejectAllLayoutWorkerPending(new Error(translate("vision.errors.workerCrashed")));
@@ -307,6 +576,28 @@ export const useMosaicStore = defineStore("mosaic", () => {
     return w;
   }
 
+  function requestFillArrangeWorker(
+    req: LayoutWorkerFillArrangeRequest,
+  ): Promise<FillArrangeResult> {
+    const w = getLayoutWorker();
+    const p = new Promise<FillArrangeResult>((resolve, reject) => {
+      layoutWorkerPending.set(req.id, { type: "fillArrange", resolve, reject });
+    });
+    w.postMessage(req);
+    return p;
+  }
+
+  function requestPhotoMosaicWorker(
+    req: LayoutWorkerPhotoMosaicRequest,
+  ): Promise<PhotoMosaicResult> {
+    const w = getLayoutWorker();
+    const p = new Promise<PhotoMosaicResult>((resolve, reject) => {
+      layoutWorkerPending.set(req.id, { type: "photoMosaic", resolve, reject });
+    });
+    w.postMessage(req);
+    return p;
+  }
+
   function buildInitialLayoutSearchOptions(
     photoCount: number,
   ): Partial<LayoutSearchOptions> {
@@ -421,6 +712,10 @@ export const useMosaicStore = defineStore("mosaic", () => {
       searchOptions,
       qualityThresholds: DEFAULT_LAYOUT_QUALITY_THRESHOLDS,
       allowCanvasResize: true,
+      ...layoutSpacing.value,
+      mask: canvasMaskRender.value?.grid,
+      ordering: layoutOrdering.value.mode,
+      orderingWeight: layoutOrdering.value.weight,
     };
   }
 
@@ -439,6 +734,10 @@ export const useMosaicStore = defineStore("mosaic", () => {
       },
       qualityThresholds: DEFAULT_LAYOUT_QUALITY_THRESHOLDS,
       allowCanvasResize: false,
+      ...layoutSpacing.value,
+      mask: canvasMaskRender.value?.grid,
+      ordering: layoutOrdering.value.mode,
+      orderingWeight: layoutOrdering.value.weight,
     };
   }
 
@@ -506,24 +805,21 @@ export const useMosaicStore = defineStore("mosaic", () => {
       imageWidth: p.imageWidth,
       imageHeight: p.imageHeight,
       detections: getSmartDetections(p.id),
+      priority: p.priority,
+      name: p.name,
+      takenAt: p.takenAt,
+      quality: p.quality?.score,
+      pinned: resolvePinnedInput(p),
     }));
 
-    const reqId = ++layoutWorkerReqId;
-    const w = getLayoutWorker();
-    const p = new Promise<FillArrangeResult>((resolve, reject) => {
-      layoutWorkerPending.set(reqId, { resolve, reject });
-    });
-
-    const req: LayoutWorkerFillArrangeRequest = {
-      id: reqId,
+    const result = await requestFillArrangeWorker({
+      id: ++layoutWorkerReqId,
       type: "fillArrange",
       photos: inputs,
       canvasW: canvasWidth.value,
       canvasH: canvasHeight.value,
       options,
-    };
-    w.postMessage(req);
-    const result = await p;
+    });
 
     // If photo list changed while worker was running, ignore the stale result.
     const currentIds = photos.value.map(p => p.id).join("|");
@@ -546,9 +842,50 @@ export const useMosaicStore = defineStore("mosaic", () => {
     photos.value.find(p => p.id === cropModePhotoId.value),
   );
 
+  // 当前选中的全部照片 id（按选中顺序，最后一个为主选中照片）
+  const selectedPhotoIds = computed<string[]>(() => {
+    const primary = selectedPhotoId.value;
+    if (!primary || !photos.value.some(p => p.id === primary)) return [];
+    if (!multiSelection.value.includes(primary)) return [primary];
+    const existing = new Set(photos.value.map(p => p.id));
+    return multiSelection.value.filter(id => existing.has(id));
+  });
+
+  const selectedPhotos = computed(() => {
+    const byId = new Map(photos.value.map(photo => [photo.id, photo]));
+    return selectedPhotoIds.value
+      .map(id => byId.get(id))
+      .filter((photo): photo is PhotoEntity => !!photo);
+  });
+
   const photoCount = computed(() => photos.value.length);
+  // 当前页的相似照片组（两张及以上），按照片列表顺序
+  const duplicateClusters = computed<DuplicateCluster[]>(() => {
+    const groups = new Map<string, string[]>();
+    for (const photo of photos.value) {
+      if (!photo.duplicateClusterId) continue;
+      const group = groups.get(photo.duplicateClusterId);
+      if (group) group.push(photo.id);
+      else groups.set(photo.duplicateClusterId, [photo.id]);
+    }
+    return [...groups]
+      .filter(([, photoIds]) => photoIds.length > 1)
+      .map(([id, photoIds]) => ({ id, photoIds }));
+  });
+
+  const isPhotoMosaicActive = computed(() => photoMosaicTiles.value.length > 0);
+
+  /** 绘制在照片之上的遮罩覆盖层；照片马赛克模式下不使用遮罩 */
+  const maskOverlay = computed(() =>
+    isPhotoMosaicActive.value ? null : (canvasMaskRender.value?.overlay ?? null),
+  );
+
+  const selectedText = computed(
+    () => textLayers.value.find(layer => layer.id === selectedTextId.value) ?? null,
+  );
 
   const sortedPhotos = computed(() => {
+    if (photoMosaicTiles.value.length > 0) return photoMosaicTiles.value;
     // Track zIndex changes so ordering stays reactive.
     // (Without this, mutating photo.zIndex would not invalidate this computed.)
     void photos.value.map(p => p.zIndex);
@@ -566,6 +903,16 @@ export const useMosaicStore = defineStore("mosaic", () => {
     return sorted;
   });
 
+  /** 全部页面（当前页为实时状态） */
+  const pages = computed(() => listBookPages());
+  const pageCount = computed(() => bookPages.value.length);
+  const activePageIndex = computed(() =>
+    bookPages.value.findIndex(p => p.id === activePageId.value),
+  );
+  const bookPhotoCount = computed(() =>
+    pages.value.reduce((sum, page) => sum + page.photos.length, 0),
+  );
+
   const canUndo = computed(() => historyUndoStack.value.length > 0);
   const canRedo = computed(() => historyRedoStack.value.length > 0);
   const history = computed(() => historyUndoStack.value);
@@ -609,12 +956,7 @@ export const useMosaicStore = defineStore("mosaic", () => {
   }
 
   function snapshotAdjustments(a: PhotoAdjustments): PhotoAdjustments {
-    return {
-      brightness: a.brightness,
-      contrast: a.contrast,
-      saturation: a.saturation,
-      preset: a.preset,
-    };
+    return normalizePhotoAdjustments(a);
   }
 
   function snapshotPhotoCore(photo: PhotoEntity): PhotoCoreSnapshot {
@@ -630,7 +972,11 @@ export const useMosaicStore = defineStore("mosaic", () => {
         ? snapshotCropRect(photo.layoutCrop)
         : undefined,
       tileRect: photo.tileRect ? { ...photo.tileRect } : undefined,
+      locked: photo.locked,
+      priority: photo.priority,
       adjustments: snapshotAdjustments(photo.adjustments),
+      frame: photo.frame ? { ...photo.frame } : undefined,
+      caption: photo.caption,
     };
   }
 
@@ -645,6 +991,11 @@ export const useMosaicStore = defineStore("mosaic", () => {
       sourceHeight: photo.sourceHeight,
       imageWidth: photo.imageWidth,
       imageHeight: photo.imageHeight,
+      takenAt: photo.takenAt,
+      exif: photo.exif,
+      signature: photo.signature,
+      duplicateClusterId: photo.duplicateClusterId,
+      quality: photo.quality,
     };
   }
 
@@ -675,16 +1026,26 @@ export const useMosaicStore = defineStore("mosaic", () => {
     ].join(",");
   }
 
-  function tileRectFingerprint(rect?: { x: number; y: number; w: number; h: number }): string {
+  function tileRectFingerprint(rect?: TileRect): string {
     if (!rect) return "-";
     return [
       formatLayoutNumber(rect.x),
       formatLayoutNumber(rect.y),
       formatLayoutNumber(rect.w),
       formatLayoutNumber(rect.h),
+      formatLayoutNumber(rect.r ?? 0),
     ].join(",");
   }
 
+  /** 当前排列顺序依赖的照片字段；manual 由照片列表顺序体现 */
+  function orderingKey(photo: PhotoEntity): string {
+    const { mode, weight } = layoutOrdering.value;
+    if (weight <= 0) return "";
+    if (mode === "capture-date") return String(photo.takenAt ?? "");
+    if (mode === "filename") return photo.name;
+    return "";
+  }
+
   function buildLayoutInputSignature(
     currentCanvasW: number = canvasWidth.value,
     currentCanvasH: number = canvasHeight.value,
@@ -696,10 +1057,19 @@ export const useMosaicStore = defineStore("mosaic", () => {
           photo.imageWidth,
           photo.imageHeight,
           cropRectFingerprint(photo.crop),
+          photo.locked ? `locked:${tileRectFingerprint(photo.tileRect)}` : "",
+          photo.priority ?? "",
+          orderingKey(photo),
+          photo.quality ? qualityTieBucket(photo.quality.score) : "",
         ].join(":"),
       )
       .join("|");
-    return `${currentCanvasW}x${currentCanvasH}|${photoKey}`;
+    const { gutter, outerMargin, cornerRadius, titleBandHeight, titleBandEdge } = layoutSpacing.value;
+    const spacingKey = [gutter, outerMargin, cornerRadius, titleBandHeight ?? 0]
+      .map(v => formatLayoutNumber(v))
+      .join(",") + (titleBandHeight ? `:${titleBandEdge ?? "top"}` : "");
+    const { mode, weight } = layoutOrdering.value;
+    return `${currentCanvasW}x${currentCanvasH}|${spacingKey}|${canvasMaskKey(canvasMask.value)}|${mode}:${formatLayoutNumber(weight)}|${photoKey}`;
   }
 
   function buildCurrentPlacementFingerprint(): string {
@@ -798,7 +1168,11 @@ export const useMosaicStore = defineStore("mosaic", () => {
         )
       : undefined;
     photo.tileRect = snap.tileRect ? { ...snap.tileRect } : undefined;
+    photo.locked = snap.locked;
+    photo.priority = snap.priority;
     photo.adjustments = snapshotAdjustments(snap.adjustments);
+    photo.frame = snap.frame ? { ...snap.frame } : undefined;
+    photo.caption = snap.caption;
   }
 
   function applyPhotoFullSnapshot(photo: PhotoEntity, snap: PhotoFullSnapshot) {
@@ -810,12 +1184,41 @@ export const useMosaicStore = defineStore("mosaic", () => {
     photo.sourceHeight = snap.sourceHeight;
     photo.imageWidth = snap.imageWidth;
     photo.imageHeight = snap.imageHeight;
+    photo.takenAt = snap.takenAt;
+    photo.exif = snap.exif;
+    photo.signature = snap.signature;
+    photo.duplicateClusterId = snap.duplicateClusterId;
+    photo.quality = snap.quality;
     applyPhotoCoreSnapshot(photo, snap);
   }
 
+  function photoFromFullSnapshot(snap: PhotoFullSnapshot): PhotoEntity {
+    const photo: PhotoEntity = {
+      id: snap.id,
+      name: snap.name,
+      srcUrl: snap.srcUrl,
+      image: snap.image,
+      imageWidth: snap.imageWidth,
+      imageHeight: snap.imageHeight,
+      crop: snapshotCropRect(snap.crop),
+      adjustments: snapshotAdjustments(snap.adjustments),
+      cx: snap.cx,
+      cy: snap.cy,
+      scale: snap.scale,
+      rotation: snap.rotation,
+      zIndex: snap.zIndex,
+    };
+    applyPhotoFullSnapshot(photo, snap);
+    return photo;
+  }
+
   function collectInUseSrcUrls(): Set<string> {
     const urls = new Set<string>();
     for (const p of photos.value) urls.add(p.srcUrl);
+    for (const page of bookPages.value) {
+      if (page.id === activePageId.value) continue;
+      for (const p of page.photos) urls.add(p.srcUrl);
+    }
     return urls;
   }
 
@@ -836,7 +1239,7 @@ export const useMosaicStore = defineStore("mosaic", () => {
       // Do not revoke entry.after.srcUrl blindly: it may be current.
     } else if (entry.kind === "removePhoto") {
       maybeRevokeUrl(entry.photo.srcUrl, inUse);
-    } else if (entry.kind === "clearAll") {
+    } else if (entry.kind === "clearAll" || entry.kind === "removePhotos") {
       for (const item of entry.photos) {
         maybeRevokeUrl(item.photo.srcUrl, inUse);
       }
@@ -852,6 +1255,7 @@ export const useMosaicStore = defineStore("mosaic", () => {
   }
 
   function pushHistory(entry: HistoryEntry) {
+    entry.pageId ??= activePageId.value;
     historyUndoStack.value.push(entry);
     historyRedoStack.value = [];
     if (historyUndoStack.value.length > HISTORY_LIMIT) {
@@ -874,6 +1278,8 @@ export const useMosaicStore = defineStore("mosaic", () => {
       | "crop"
       | "layoutCrop"
       | "adjustments"
+      | "frame"
+      | "caption"
     >
   >;
 
@@ -914,6 +1320,11 @@ export const useMosaicStore = defineStore("mosaic", () => {
       adjustments:
         toSnapshotAdjustmentsMaybe(beforePartial.adjustments) ??
         base.adjustments,
+      // frame / caption 为 undefined 表示清除，因此按字段是否存在判断
+      frame: "frame" in beforePartial
+        ? beforePartial.frame && { ...beforePartial.frame }
+        : base.frame,
+      caption: "caption" in beforePartial ? beforePartial.caption : base.caption,
     };
 
     const after: PhotoCoreSnapshot = {
@@ -930,6 +1341,10 @@ export const useMosaicStore = defineStore("mosaic", () => {
       adjustments:
         toSnapshotAdjustmentsMaybe(afterPartial.adjustments) ??
         base.adjustments,
+      frame: "frame" in afterPartial
+        ? afterPartial.frame && { ...afterPartial.frame }
+        : base.frame,
+      caption: "caption" in afterPartial ? afterPartial.caption : base.caption,
     };
 
     pushHistory({
@@ -943,9 +1358,46 @@ export const useMosaicStore = defineStore("mosaic", () => {
     });
   }
 
+  /** 按 id 顺序重排照片列表，不在列表中的照片保持原相对顺序排在最后 */
+  function applyPhotoOrder(ids: string[]) {
+    const rank = new Map(ids.map((id, idx) => [id, idx]));
+    photos.value = [...photos.value].sort(
+      (a, b) => (rank.get(a.id) ?? ids.length) - (rank.get(b.id) ?? ids.length),
+    );
+  }
+
+  /**
+   * 调整照片在列表中的位置（手动排列顺序），不改变画布上的叠放层级。
+   */
+  function movePhotoInList(id: string, toIndex: number) {
+    const from = photos.value.findIndex(p => p.id === id);
+    const to = clamp(Math.round(toIndex), 0, photos.value.length - 1);
+    if (from === -1 || from === to) return;
+    const before = photos.value.map(p => p.id);
+    const after = [...before];
+    after.splice(from, 1);
+    after.splice(to, 0, id);
+    applyPhotoOrder(after);
+    pushHistory({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      at: Date.now(),
+      label: translate("history.action.reorderPhoto"),
+      kind: "reorder",
+      before,
+      after,
+    });
+  }
+
+  /** 历史记录属于其他页时先切换过去，撤销/重做的效果才看得见 */
+  function focusHistoryPage(entry: HistoryEntry) {
+    if (entry.kind === "book" || !entry.pageId) return;
+    setActivePage(entry.pageId);
+  }
+
   function undo() {
     const entry = historyUndoStack.value.pop();
     if (!entry) return;
+    focusHistoryPage(entry);
 
     if (entry.kind === "photo") {
       const photo = photos.value.find(p => p.id === entry.photoId);
@@ -957,55 +1409,21 @@ export const useMosaicStore = defineStore("mosaic", () => {
       applyCanvasSnapshot(entry.before);
     } else if (entry.kind === "removePhoto") {
       // Re-insert the removed photo
-      photos.value.splice(entry.index, 0, {
-        id: entry.photo.id,
-        assetId: entry.photo.assetId,
-        name: entry.photo.name,
-        srcUrl: entry.photo.srcUrl,
-        image: entry.photo.image,
-        sourceWidth: entry.photo.sourceWidth,
-        sourceHeight: entry.photo.sourceHeight,
-        imageWidth: entry.photo.imageWidth,
-        imageHeight: entry.photo.imageHeight,
-        crop: snapshotCropRect(entry.photo.crop),
-        layoutCrop: entry.photo.layoutCrop
-          ? snapshotCropRect(entry.photo.layoutCrop)
-          : undefined,
-        adjustments: snapshotAdjustments(entry.photo.adjustments),
-        cx: entry.photo.cx,
-        cy: entry.photo.cy,
-        scale: entry.photo.scale,
-        rotation: entry.photo.rotation,
-        zIndex: entry.photo.zIndex,
-      });
+      photos.value.splice(entry.index, 0, photoFromFullSnapshot(entry.photo));
       selectedPhotoId.value = entry.selectedBefore;
       cropModePhotoId.value = entry.cropModeBefore;
-    } else if (entry.kind === "clearAll") {
+    } else if (entry.kind === "clearAll" || entry.kind === "removePhotos") {
       for (const item of entry.photos) {
-        photos.value.splice(item.index, 0, {
-          id: item.photo.id,
-          assetId: item.photo.assetId,
-          name: item.photo.name,
-          srcUrl: item.photo.srcUrl,
-          image: item.photo.image,
-          sourceWidth: item.photo.sourceWidth,
-          sourceHeight: item.photo.sourceHeight,
-          imageWidth: item.photo.imageWidth,
-          imageHeight: item.photo.imageHeight,
-          crop: snapshotCropRect(item.photo.crop),
-          layoutCrop: item.photo.layoutCrop
-            ? snapshotCropRect(item.photo.layoutCrop)
-            : undefined,
-          adjustments: snapshotAdjustments(item.photo.adjustments),
-          cx: item.photo.cx,
-          cy: item.photo.cy,
-          scale: item.photo.scale,
-          rotation: item.photo.rotation,
-          zIndex: item.photo.zIndex,
-        });
+        photos.value.splice(item.index, 0, photoFromFullSnapshot(item.photo));
       }
       selectedPhotoId.value = entry.selectedBefore;
       cropModePhotoId.value = entry.cropModeBefore;
+    } else if (entry.kind === "book") {
+      applyBookSnapshot(entry.before);
+    } else if (entry.kind === "reorder") {
+      applyPhotoOrder(entry.before);
+    } else if (entry.kind === "texts") {
+      applyTextLayers(entry.before);
     }
 
     historyRedoStack.value.push(entry);
@@ -1014,6 +1432,7 @@ export const useMosaicStore = defineStore("mosaic", () => {
   function redo() {
     const entry = historyRedoStack.value.pop();
     if (!entry) return;
+    focusHistoryPage(entry);
 
     if (entry.kind === "photo") {
       const photo = photos.value.find(p => p.id === entry.photoId);
@@ -1029,11 +1448,52 @@ export const useMosaicStore = defineStore("mosaic", () => {
       cropModePhotoId.value = null;
     } else if (entry.kind === "clearAll") {
       clearAllPhotosInternal({ revokeUrls: false, clearHistoryStacks: false });
+    } else if (entry.kind === "removePhotos") {
+      for (const item of entry.photos) removePhotoInternal(item.photo.id, { revokeUrl: false });
+    } else if (entry.kind === "book") {
+      applyBookSnapshot(entry.after);
+    } else if (entry.kind === "reorder") {
+      applyPhotoOrder(entry.after);
+    } else if (entry.kind === "texts") {
+      applyTextLayers(entry.after);
     }
 
     historyUndoStack.value.push(entry);
   }
 
+  /**
+   * 当前会话仍在使用的资源 id（画布照片 + 撤销/重做历史中的快照），供资源 GC 保留。
+   */
+  function getReferencedAssetIds(): string[] {
+    const ids = new Set<string>();
+    const add = (id?: string) => {
+      if (id) ids.add(id);
+    };
+    photos.value.forEach(p => add(p.assetId));
+    customFonts.value.forEach(font => add(font.assetId));
+    add(canvasBackgroundAssetId(canvasBackground.value));
+    for (const page of bookPages.value) {
+      if (page.id === activePageId.value) continue;
+      page.photos.forEach(p => add(p.assetId));
+      add(canvasBackgroundAssetId(page.canvasBackground));
+    }
+    for (const e of [...historyUndoStack.value, ...historyRedoStack.value]) {
+      if (e.kind === "photoFull") {
+        add(e.before.assetId);
+        add(e.after.assetId);
+      } else if (e.kind === "removePhoto") {
+        add(e.photo.assetId);
+      } else if (e.kind === "clearAll" || e.kind === "removePhotos") {
+        e.photos.forEach(item => add(item.photo.assetId));
+      } else if (e.kind === "book") {
+        for (const page of [...e.before.pages, ...e.after.pages]) {
+          page.photos.forEach(photo => add(photo.assetId));
+        }
+      }
+    }
+    return Array.from(ids);
+  }
+
   function clearHistory() {
     for (const e of historyUndoStack.value) cleanupHistoryEntry(e);
     for (const e of historyRedoStack.value) cleanupHistoryEntry(e);
@@ -1106,6 +1566,29 @@ export const useMosaicStore = defineStore("mosaic", () => {
     });
   }
 
+  /** 一次删除多张照片，作为一条历史记录撤销/重做 */
+  function removePhotosWithHistory(ids: string[], label: string) {
+    const targets = new Set(ids);
+    const snaps = photos.value
+      .map((photo, index) => ({ index, photo }))
+      .filter(item => targets.has(item.photo.id))
+      .map(item => ({ index: item.index, photo: snapshotPhotoFull(item.photo) }));
+    if (snaps.length === 0) return 0;
+    const selectedBefore = selectedPhotoId.value;
+    const cropModeBefore = cropModePhotoId.value;
+    for (const item of snaps) removePhotoInternal(item.photo.id, { revokeUrl: false });
+    pushHistory({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      at: Date.now(),
+      label,
+      kind: "removePhotos",
+      photos: snaps,
+      selectedBefore,
+      cropModeBefore,
+    });
+    return snaps.length;
+  }
+
   function updatePhoto(
     id: string,
     patch: Partial<
@@ -1148,6 +1631,24 @@ export const useMosaicStore = defineStore("mosaic", () => {
     if (patch.zIndex !== undefined) {
       photo.zIndex = patch.zIndex;
     }
+
+    if (patch.locked !== undefined) {
+      photo.locked = patch.locked || undefined;
+    }
+
+    if (patch.priority !== undefined) {
+      const priority = clampPhotoPriority(patch.priority);
+      photo.priority = priority === DEFAULT_PHOTO_PRIORITY ? undefined : priority;
+    }
+
+    // frame / caption 传 undefined 时清除（恢复全局相框、去掉题字）
+    if ("frame" in patch) {
+      photo.frame = normalizePhotoFrame(patch.frame);
+    }
+
+    if ("caption" in patch) {
+      photo.caption = normalizePhotoCaption(patch.caption);
+    }
   }
 
   function updatePhotoWithHistory(
@@ -1256,8 +1757,15 @@ export const useMosaicStore = defineStore("mosaic", () => {
     ) {
       canvasWidth.value = result.canvasW;
       canvasHeight.value = result.canvasH;
+      refreshCanvasMaskRender();
+      refreshCanvasBackgroundSource();
     }
     applyPlacements(result.placements);
+    // 没能保留的锁定已被重新排版：解除锁定，避免锁定标记留在移动过的照片上
+    for (const id of result.droppedPinIds ?? []) {
+      const photo = photos.value.find(p => p.id === id);
+      if (photo) photo.locked = undefined;
+    }
     const signature = buildLayoutInputSignature();
     const mode = meta?.mode ?? "deep";
     const intent = meta?.intent ?? "manual-assess";
@@ -1469,7 +1977,9 @@ export const useMosaicStore = defineStore("mosaic", () => {
       );
     }
     const total = queue.length;
-    if (total === 0) return { added: 0, failed: 0, truncated };
+    if (total === 0) {
+      return { added: 0, failed: 0, truncated, duplicateClusters: 0, duplicates: 0 };
+    }
 
     const vision = getVisionClient();
     const expectedTotalAfterImport = photos.value.length + total;
@@ -1487,40 +1997,42 @@ export const useMosaicStore = defineStore("mosaic", () => {
     let added = 0;
     let failed = 0;
     let firstError: unknown = null;
+    const importedIds: string[] = [];
 
     const runOne = async (file: File) => {
       const photoId = generateId();
 
-      // 先把原图落盘（用于工程导出/高清导出）
-      let assetId: string | null = null;
-      try {
-        assetId = createAssetId();
-        const assetMeta: ProjectAssetMeta = {
-          id: assetId,
-          name: file.name,
-          type: file.type || "application/octet-stream",
-          size: file.size,
-          lastModified: file.lastModified || Date.now(),
-        };
-        await putAsset(assetMeta, file);
-      } catch {
-        assetId = null;
-      }
-
       let photo: PhotoEntity | null = null;
-      let normalizedFile = file;
+      let normalized: NormalizedImageImport;
 
       try {
-        normalizedFile = (await normalizeImageFileForImport(file)).file;
+        normalized = await normalizeImageFileForImport(file);
       } catch (e) {
         if (!firstError) firstError = e;
         failed++;
         console.warn("Import normalization failed:", file.name, e);
         return;
       }
+      const normalizedFile = normalized.file;
+      const exif = normalized.exif ?? undefined;
+
+      // 把原图落盘（用于工程导出/高清导出）；按内容哈希去重
+      let assetId: string | null = null;
+      try {
+        const assetMeta = await storeAsset(file, {
+          name: file.name,
+          type: file.type || "application/octet-stream",
+          lastModified: file.lastModified || Date.now(),
+          exif,
+        });
+        assetId = assetMeta.id;
+      } catch {
+        assetId = null;
+      }
 
       // 优先走 vision worker；失败则自动降级到主线程导入（native face + saliency）
-      if (vision.isEnabled()) {
+      // 需要手动校正 EXIF 方向的图片（如 HEIC 转码结果）只能在主线程绘制
+      if (vision.isEnabled() && !(normalized.orientation > 1)) {
         try {
           console.log("[FaceDebug] Using vision worker for photo:", photoId);
           const res = await vision.processFile({
@@ -1581,6 +2093,12 @@ export const useMosaicStore = defineStore("mosaic", () => {
             scale,
             rotation: 0,
             zIndex: 0,
+            takenAt: exif?.takenAt ?? (file.lastModified || undefined),
+            exif,
+            signature:
+              measurePhotoSignature(res.previewBitmap, res.previewWidth, res.previewHeight) ??
+              undefined,
+            quality: res.quality ?? undefined,
           };
         } catch (e) {
           console.warn(
@@ -1607,6 +2125,8 @@ export const useMosaicStore = defineStore("mosaic", () => {
               id: photoId,
               prefetchSmartCrop: true,
               maxImageEdge: previewMaxEdge,
+              exif: normalized.exif,
+              orientation: normalized.orientation,
             },
           );
           fallback.name = file.name;
@@ -1621,6 +2141,7 @@ export const useMosaicStore = defineStore("mosaic", () => {
       }
 
       addPhoto(photo);
+      importedIds.push(photo.id);
       added++;
     };
 
@@ -1643,9 +2164,11 @@ export const useMosaicStore = defineStore("mosaic", () => {
       throw firstError;
     }
 
+    const duplicates = assignDuplicateClusters(importedIds);
+
     // 导入完成后统一自动排版（全量重排，避免重叠/集中/空白）
     await autoLayoutAsync();
-    return { added, failed, truncated };
+    return { added, failed, truncated, ...duplicates };
   }
 
   async function importFiles(
@@ -1658,6 +2181,62 @@ export const useMosaicStore = defineStore("mosaic", () => {
     return addPhotos(files, opts);
   }
 
+  /**
+   * 对当前页所有照片重新聚类相似照片，只标记与本次导入照片相关的组；
+   * 已有组的 id 保持不变。返回组数与每组只留一张时可跳过的张数。
+   */
+  function assignDuplicateClusters(importedIds: string[]) {
+    const imported = new Set(importedIds);
+    const byId = new Map(photos.value.map(photo => [photo.id, photo]));
+    const groups = clusterNearDuplicates(
+      photos.value
+        .filter(photo => photo.signature)
+        .map(photo => ({ id: photo.id, hash: photo.signature!.hash, takenAt: photo.takenAt })),
+    ).filter(group => group.some(id => imported.has(id)));
+
+    let duplicates = 0;
+    for (const group of groups) {
+      const members = group.map(id => byId.get(id)!);
+      const clusterId =
+        members.find(photo => photo.duplicateClusterId)?.duplicateClusterId ?? `dup-${generateId()}`;
+      members.forEach(photo => (photo.duplicateClusterId = clusterId));
+      duplicates += group.length - 1;
+    }
+    return { duplicateClusters: groups.length, duplicates };
+  }
+
+  function getDuplicateCluster(photoId: string): DuplicateCluster | null {
+    const clusterId = photos.value.find(p => p.id === photoId)?.duplicateClusterId;
+    return duplicateClusters.value.find(cluster => cluster.id === clusterId) ?? null;
+  }
+
+  /** 每组只保留最清晰或曝光最好的一张（可撤销），返回删除的张数 */
+  function resolveDuplicateClusters(criterion: DuplicateKeepCriterion, clusterIds?: string[]) {
+    const byId = new Map(photos.value.map(photo => [photo.id, photo]));
+    const removeIds: string[] = [];
+    for (const cluster of duplicateClusters.value) {
+      if (clusterIds && !clusterIds.includes(cluster.id)) continue;
+      const members = cluster.photoIds.map(id => byId.get(id)!);
+      const keeper = pickClusterKeeper(members, criterion);
+      removeIds.push(...cluster.photoIds.filter(id => id !== keeper));
+    }
+    const removed = removePhotosWithHistory(
+      removeIds,
+      translate("history.action.resolveDuplicates", { count: removeIds.length }),
+    );
+    if (removed > 0) autoLayout();
+    return removed;
+  }
+
+  /** 保留组内全部照片，不再标记为相似照片 */
+  function dismissDuplicateClusters(clusterIds?: string[]) {
+    for (const photo of photos.value) {
+      if (!photo.duplicateClusterId) continue;
+      if (clusterIds && !clusterIds.includes(photo.duplicateClusterId)) continue;
+      photo.duplicateClusterId = undefined;
+    }
+  }
+
   async function replacePhotoFromFile(id: string, file: File) {
     const photo = photos.value.find(p => p.id === id);
     if (!photo) return;
@@ -1665,30 +2244,27 @@ export const useMosaicStore = defineStore("mosaic", () => {
     const before = snapshotPhotoFull(photo);
     invalidateSmartDetections(id);
 
+    const normalized = await normalizeImageFileForImport(file);
+
     // Persist original file for restore/high-quality export
     try {
-      const assetId = createAssetId();
-      const assetMeta: ProjectAssetMeta = {
-        id: assetId,
+      const assetMeta = await storeAsset(file, {
         name: file.name,
         type: file.type || "application/octet-stream",
-        size: file.size,
         lastModified: file.lastModified || Date.now(),
-      };
-      await putAsset(assetMeta, file);
-      photo.assetId = assetId;
+        exif: normalized.exif ?? undefined,
+      });
+      photo.assetId = assetMeta.id;
     } catch (e) {
       // If persistence fails, continue with in-memory replace.
       console.warn("Failed to persist replacement asset:", e);
     }
 
-    const normalizedFile = (await normalizeImageFileForImport(file)).file;
-
     const loaded = await createPhotoFromFile(
-      normalizedFile,
+      normalized.file,
       canvasWidth.value,
       canvasHeight.value,
-      { id },
+      { id, exif: normalized.exif, orientation: normalized.orientation },
     );
 
     const effectiveCrop = photo.layoutCrop ?? photo.crop;
@@ -1721,6 +2297,12 @@ export const useMosaicStore = defineStore("mosaic", () => {
     photo.sourceHeight = loaded.sourceHeight;
     photo.imageWidth = loaded.imageWidth;
     photo.imageHeight = loaded.imageHeight;
+    photo.takenAt = loaded.takenAt;
+    photo.exif = loaded.exif;
+    photo.signature = loaded.signature;
+    photo.quality = loaded.quality;
+    // 换了图片后不再属于原来的相似照片组
+    photo.duplicateClusterId = undefined;
 
     if (photo.layoutCrop) {
       photo.crop = fullCrop;
@@ -1763,9 +2345,13 @@ export const useMosaicStore = defineStore("mosaic", () => {
   function setPreset(presetId: string) {
     const preset = presets.value.find(p => p.id === presetId);
     if (!preset) return;
+    const size = resolvePageCanvasSize(preset, pageSpread.value);
     currentPresetId.value = presetId;
-    canvasWidth.value = preset.width;
-    canvasHeight.value = preset.height;
+    canvasWidth.value = size.width;
+    canvasHeight.value = size.height;
+    clearPhotoMosaic();
+    refreshCanvasMaskRender();
+    refreshCanvasBackgroundSource();
     // 画布尺寸变化后自动排版（即使当前有选中照片也需要重排）
     autoLayout();
   }
@@ -1774,6 +2360,9 @@ export const useMosaicStore = defineStore("mosaic", () => {
     canvasWidth.value = width;
     canvasHeight.value = height;
     currentPresetId.value = "custom";
+    clearPhotoMosaic();
+    refreshCanvasMaskRender();
+    refreshCanvasBackgroundSource();
     autoLayout();
   }
 
@@ -1792,8 +2381,282 @@ export const useMosaicStore = defineStore("mosaic", () => {
     canvasOffsetY.value = 0;
   }
 
+  /** 新建参考线，默认放在画布中线上 */
+  function addRulerGuide(axis: RulerGuide["axis"], position?: number): RulerGuide {
+    const guide: RulerGuide = {
+      id: generateId(),
+      axis,
+      position: position ?? (axis === "x" ? canvasWidth.value : canvasHeight.value) / 2,
+    };
+    rulerGuides.value = [...rulerGuides.value, guide];
+    return guide;
+  }
+
+  function moveRulerGuide(id: string, position: number) {
+    rulerGuides.value = rulerGuides.value.map(guide =>
+      guide.id === id ? { ...guide, position } : guide,
+    );
+  }
+
+  function removeRulerGuide(id: string) {
+    rulerGuides.value = rulerGuides.value.filter(guide => guide.id !== id);
+  }
+
+  function clearRulerGuides() {
+    rulerGuides.value = [];
+  }
+
+  function snapshotTextLayers(): TextLayer[] {
+    return textLayers.value.map(cloneTextLayer);
+  }
+
+  function applyTextLayers(layers: TextLayer[]) {
+    textLayers.value = layers.map(cloneTextLayer);
+    if (!textLayers.value.some(layer => layer.id === selectedTextId.value)) {
+      selectedTextId.value = null;
+    }
+  }
+
+  /** 文字图层的修改统一记为整页文字的前后快照 */
+  function pushTextHistory(label: string, before: TextLayer[]) {
+    pushHistory({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      at: Date.now(),
+      label,
+      kind: "texts",
+      before,
+      after: snapshotTextLayers(),
+    });
+  }
+
+  /** 选中文字时取消照片选中，两者互斥 */
+  function selectText(id: string | null) {
+    selectedTextId.value = id;
+    if (id) {
+      selectedPhotoId.value = null;
+      multiSelection.value = [];
+    }
+  }
+
+  /** 在画布中央新建文字图层，字号按画布短边换算 */
+  function addTextLayer(patch: Partial<TextLayer> = {}): TextLayer {
+    const before = snapshotTextLayers();
+    const layer = createTextLayer({
+      text: translate("canvas.text.default"),
+      cx: canvasWidth.value / 2,
+      cy: canvasHeight.value / 2,
+      fontSize: Math.round(Math.min(canvasWidth.value, canvasHeight.value) * 0.06),
+      ...patch,
+    });
+    textLayers.value.push(layer);
+    selectText(layer.id);
+    pushTextHistory(translate("history.action.addText"), before);
+    return layer;
+  }
+
+  /** 实时修改（拖动、滑块），结束时由调用方 pushTextHistory */
+  function updateTextLayer(id: string, patch: Partial<Omit<TextLayer, "id">>) {
+    const layer = textLayers.value.find(l => l.id === id);
+    if (!layer) return;
+    Object.assign(layer, patch);
+  }
+
+  function updateTextLayerWithHistory(
+    id: string,
+    patch: Partial<Omit<TextLayer, "id">>,
+    label: string = translate("history.action.editText"),
+  ) {
+    if (!textLayers.value.some(l => l.id === id)) return;
+    const before = snapshotTextLayers();
+    updateTextLayer(id, patch);
+    pushTextHistory(label, before);
+  }
+
+  function removeTextLayer(id: string, label: string = translate("history.action.removeText")) {
+    if (!textLayers.value.some(l => l.id === id)) return;
+    const before = snapshotTextLayers();
+    textLayers.value = textLayers.value.filter(l => l.id !== id);
+    if (selectedTextId.value === id) selectedTextId.value = null;
+    pushTextHistory(label, before);
+  }
+
+  /** 打开项目时写入当前页的文字图层 */
+  function setTextLayers(layers: TextLayer[]) {
+    textLayers.value = layers.map(cloneTextLayer);
+    selectedTextId.value = null;
+  }
+
+  /** 上传字体：存入资源库并注册到 document.fonts；同名字体直接复用 */
+  async function addCustomFont(file: File): Promise<CustomFont | null> {
+    const family = fontFamilyFromFileName(file.name);
+    const existing = customFonts.value.find(font => font.family === family);
+    if (existing) return existing;
+    if (!(await registerFontFace(family, await file.arrayBuffer()))) return null;
+    const meta = await storeAsset(file, {
+      name: file.name,
+      type: file.type || "font/ttf",
+      lastModified: file.lastModified,
+    });
+    const font: CustomFont = { family, assetId: meta.id, name: file.name };
+    customFonts.value.push(font);
+    return font;
+  }
+
+  /** 打开项目时从资源库恢复上传的字体 */
+  async function restoreCustomFonts(fonts: CustomFont[]) {
+    customFonts.value = fonts.map(font => ({ ...font }));
+    await Promise.all(
+      fonts.map(async font => {
+        const blob = await getAssetBlob(font.assetId);
+        if (blob) await registerFontFace(font.family, await blob.arrayBuffer());
+      }),
+    );
+  }
+
   function selectPhoto(id: string | null) {
     selectedPhotoId.value = id;
+    multiSelection.value = [];
+    if (id) selectedTextId.value = null;
+  }
+
+  /** 设置多选选区，primaryId 缺省时取最后一张 */
+  function setPhotoSelection(ids: string[], primaryId?: string | null) {
+    const existing = new Set(photos.value.map(p => p.id));
+    const next = [...new Set(ids)].filter(id => existing.has(id));
+    const primary = primaryId && next.includes(primaryId) ? primaryId : next[next.length - 1];
+    if (primary) {
+      // 主选中照片放在最后，作为统一尺寸等操作的参考
+      multiSelection.value = [...next.filter(id => id !== primary), primary];
+    } else {
+      multiSelection.value = [];
+    }
+    selectedPhotoId.value = primary ?? null;
+    if (primary) selectedTextId.value = null;
+  }
+
+  /** Shift / Ctrl 点击：加入或移出选区 */
+  function togglePhotoSelection(id: string) {
+    const current = selectedPhotoIds.value;
+    if (current.includes(id)) {
+      const rest = current.filter(item => item !== id);
+      setPhotoSelection(rest, rest[rest.length - 1] ?? null);
+    } else {
+      setPhotoSelection([...current, id], id);
+    }
+  }
+
+  /** 对选中的多张照片做一次整体修改，记为一条画布历史 */
+  function applyGroupChange(label: string, mutate: (targets: PhotoEntity[]) => void): boolean {
+    const targets = selectedPhotos.value;
+    if (targets.length === 0) return false;
+    const before = snapshotCanvas();
+    mutate(targets);
+    const after = snapshotCanvas();
+    if (JSON.stringify(before) === JSON.stringify(after)) return false;
+    pushHistory({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      at: Date.now(),
+      label,
+      kind: "canvas",
+      before,
+      after,
+    });
+    return true;
+  }
+
+  /**
+   * 整组拖动：以拖动开始时的位置加同一位移，位移按整组限制在画布内，
+   * 保持照片之间的相对位置。
+   */
+  function moveSelectedPhotosBy(
+    starts: Array<{ id: string; cx: number; cy: number }>,
+    dx: number,
+    dy: number,
+  ) {
+    const byId = new Map(photos.value.map(photo => [photo.id, photo]));
+    let minDx = -Infinity;
+    let maxDx = Infinity;
+    let minDy = -Infinity;
+    let maxDy = Infinity;
+    for (const start of starts) {
+      const photo = byId.get(start.id);
+      if (!photo) continue;
+      const { hw, hh } = getDrawHalfSize(photo);
+      const { ex, ey } = rotatedAABBHalf(hw, hh, photo.rotation);
+      minDx = Math.max(minDx, ex - start.cx);
+      maxDx = Math.min(maxDx, canvasWidth.value - ex - start.cx);
+      minDy = Math.max(minDy, ey - start.cy);
+      maxDy = Math.min(maxDy, canvasHeight.value - ey - start.cy);
+    }
+    const safeDx = minDx <= maxDx ? clamp(dx, minDx, maxDx) : dx;
+    const safeDy = minDy <= maxDy ? clamp(dy, minDy, maxDy) : dy;
+    for (const start of starts) {
+      updatePhoto(start.id, { cx: start.cx + safeDx, cy: start.cy + safeDy });
+    }
+  }
+
+  /** 整组拖动结束后按拖动前的位置补记一条画布历史 */
+  function pushGroupMoveHistory(starts: Array<{ id: string; cx: number; cy: number }>) {
+    const after = snapshotCanvas();
+    const startById = new Map(starts.map(start => [start.id, start]));
+    const before = after.map(snap => {
+      const start = startById.get(snap.id);
+      return start ? { ...snap, cx: start.cx, cy: start.cy } : snap;
+    });
+    if (before.every((snap, idx) => snap.cx === after[idx].cx && snap.cy === after[idx].cy)) {
+      return;
+    }
+    pushHistory({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      at: Date.now(),
+      label: translate("history.action.groupMove", { count: starts.length }),
+      kind: "canvas",
+      before: before.map(snap => ({ ...snap })),
+      after,
+    });
+  }
+
+  /** 对齐选中照片：多张时对齐到选区边界，只有一张时对齐到画布 */
+  function alignSelectedPhotos(edge: PhotoAlignEdge) {
+    return applyGroupChange(translate(`history.action.align.${edge}`), targets => {
+      const frame = { left: 0, top: 0, right: canvasWidth.value, bottom: canvasHeight.value };
+      for (const [id, pos] of alignPhotoPositions(targets, edge, frame)) {
+        updatePhoto(id, pos);
+      }
+    });
+  }
+
+  /** 等距分布选中照片（至少 3 张） */
+  function distributeSelectedPhotos(axis: PhotoDistributeAxis) {
+    if (selectedPhotos.value.length < 3) return false;
+    return applyGroupChange(translate(`history.action.distribute.${axis}`), targets => {
+      for (const [id, pos] of distributePhotoPositions(targets, axis)) {
+        updatePhoto(id, pos);
+      }
+    });
+  }
+
+  /** 把选中照片的可见宽 / 高统一为主选中照片的尺寸 */
+  function matchSelectedPhotoSize(dimension: PhotoMatchDimension) {
+    const reference = selectedPhoto.value;
+    if (!reference || selectedPhotos.value.length < 2) return false;
+    return applyGroupChange(translate(`history.action.matchSize.${dimension}`), targets => {
+      for (const [id, scale] of matchPhotoScales(targets, reference, dimension)) {
+        updatePhoto(id, { scale: clamp(scale, 0.05, 3) });
+      }
+    });
+  }
+
+  /** 删除选中的全部照片（一条历史记录） */
+  function removeSelectedPhotosWithHistory() {
+    const ids = selectedPhotoIds.value;
+    if (ids.length === 0) return 0;
+    const removed = removePhotosWithHistory(
+      ids,
+      translate("history.action.removePhotos", { count: ids.length }),
+    );
+    multiSelection.value = [];
+    return removed;
   }
 
   function bringToFront(id: string) {
@@ -1851,6 +2714,29 @@ export const useMosaicStore = defineStore("mosaic", () => {
     });
   }
 
+  /** 锁定/解锁照片：锁定后重新排版时保留其 tile，只重排其余照片 */
+  function setPhotoLockedWithHistory(id: string, locked: boolean) {
+    const photo = photos.value.find(p => p.id === id);
+    if (!photo || !!photo.locked === locked) return;
+    updatePhotoWithHistory(
+      id,
+      { locked },
+      translate(locked ? "history.action.lockPhoto" : "history.action.unlockPhoto"),
+    );
+  }
+
+  /** 设置照片星级：重新排版时星级越高分到的 tile 越大 */
+  function setPhotoPriorityWithHistory(id: string, priority: number) {
+    const photo = photos.value.find(p => p.id === id);
+    if (!photo) return;
+    if ((photo.priority ?? DEFAULT_PHOTO_PRIORITY) === clampPhotoPriority(priority)) return;
+    updatePhotoWithHistory(
+      id,
+      { priority },
+      translate("history.action.priority", { priority: clampPhotoPriority(priority) }),
+    );
+  }
+
   /**
    * 进入裁剪模式时保留当前 crop / layoutCrop，仅记录快照与参考框。
    * 这样铺满布局下的 tile 窗口不会跳变，裁剪移动始终围绕当前 tile 进行。
@@ -1920,42 +2806,603 @@ export const useMosaicStore = defineStore("mosaic", () => {
     exportResolution.value = value;
   }
 
+  function setExportPdfBleed(mm: number) {
+    if (!Number.isFinite(mm)) return;
+    exportPdfBleedMm.value = clamp(mm, 0, MAX_PDF_BLEED_MM);
+  }
+
+  function setExportPdfPrintMarks(value: boolean) {
+    exportPdfPrintMarks.value = value;
+  }
+
+  function setLayoutOrdering(patch: Partial<LayoutOrdering>) {
+    const next = { ...layoutOrdering.value };
+    if (patch.mode && LAYOUT_ORDER_MODES.includes(patch.mode)) next.mode = patch.mode;
+    if (patch.weight !== undefined && Number.isFinite(patch.weight)) {
+      next.weight = clamp(patch.weight, 0, MAX_ORDERING_WEIGHT);
+    }
+    layoutOrdering.value = next;
+  }
+
+  function setPhotoFrame(patch: Partial<PhotoFrameStyle>) {
+    photoFrame.value =
+      normalizePhotoFrame({ ...photoFrame.value, ...patch }) ?? { ...photoFrame.value };
+  }
+
+  function setLayoutSpacing(patch: Partial<LayoutSpacing>) {
+    const next = { ...layoutSpacing.value };
+    for (const key of ["gutter", "outerMargin", "cornerRadius"] as const) {
+      const value = patch[key];
+      if (value !== undefined && Number.isFinite(value)) {
+        next[key] = clamp(value, 0, MAX_LAYOUT_SPACING);
+      }
+    }
+    if (patch.titleBandHeight !== undefined && Number.isFinite(patch.titleBandHeight)) {
+      next.titleBandHeight = Math.round(clamp(patch.titleBandHeight, 0, MAX_TITLE_BAND_HEIGHT));
+    }
+    if (patch.titleBandEdge === "top" || patch.titleBandEdge === "bottom") {
+      next.titleBandEdge = patch.titleBandEdge;
+    }
+    layoutSpacing.value = next;
+  }
+
+  function setPhotoMosaicSettings(patch: Partial<PhotoMosaicSettings>) {
+    photoMosaicSettings.value = normalizePhotoMosaicSettings(
+      patch,
+      photoMosaicSettings.value,
+    );
+  }
+
+  function releaseCanvasMaskSource() {
+    try {
+      canvasMaskSource?.image?.close();
+    } catch {
+      // ignore
+    }
+    canvasMaskSource = null;
+  }
+
+  /**
+   * 设置形状遮罩并按当前画布栅格化（图片遮罩需先解码，文字遮罩等待字体加载）。
+   * 不触发重新排版，由调用方决定是否重排。
+   */
+  async function setCanvasMask(mask: CanvasMask | null) {
+    const requestId = ++canvasMaskRequestId;
+    if (!mask) {
+      releaseCanvasMaskSource();
+      canvasMask.value = null;
+      canvasMaskRender.value = null;
+      return;
+    }
+    const source = await loadCanvasMaskSource(mask);
+    if (requestId !== canvasMaskRequestId) {
+      source.image?.close();
+      return;
+    }
+    const render = rasterizeCanvasMask(source, canvasWidth.value, canvasHeight.value);
+    releaseCanvasMaskSource();
+    canvasMaskSource = source;
+    canvasMask.value = mask;
+    canvasMaskRender.value = render;
+  }
+
+  /** 画布尺寸变化后按新比例重新栅格化遮罩 */
+  function refreshCanvasMaskRender() {
+    if (!canvasMaskSource) return;
+    canvasMaskRender.value = rasterizeCanvasMask(
+      canvasMaskSource,
+      canvasWidth.value,
+      canvasHeight.value,
+    );
+  }
+
+  /**
+   * 设置画布背景；上传图片需先解码，照片背景按当前画布比例渲染模糊小图。
+   * 加载失败时保留设置但不绘制（资源缺失、照片已删除）。
+   */
+  async function setCanvasBackground(background: CanvasBackground | null) {
+    const requestId = ++canvasBackgroundRequestId;
+    let source: CanvasBackgroundImage | null = null;
+    try {
+      source = await loadCanvasBackgroundSource(
+        background,
+        listBackgroundPhotos(),
+        canvasWidth.value,
+        canvasHeight.value,
+      );
+    } catch (err) {
+      console.warn("[background] failed to load source", err);
+    }
+    if (requestId !== canvasBackgroundRequestId) {
+      releaseCanvasBackgroundSource(source);
+      return;
+    }
+    releaseCanvasBackgroundSource(canvasBackgroundSource.value);
+    canvasBackground.value = background;
+    canvasBackgroundSource.value = source;
+  }
+
+  /** 照片背景可以选用其他页的照片 */
+  function listBackgroundPhotos(): PhotoEntity[] {
+    const others = bookPages.value.filter(page => page.id !== activePageId.value);
+    return [...photos.value, ...others.flatMap(page => page.photos)];
+  }
+
+  /** 切换页面时先同步写入背景设置，位图加载完成后才绘制 */
+  function restorePageBackground(background: CanvasBackground | null) {
+    canvasBackgroundRequestId++;
+    releaseCanvasBackgroundSource(canvasBackgroundSource.value);
+    canvasBackground.value = background;
+    canvasBackgroundSource.value = null;
+    if (needsBackgroundSource(background)) void setCanvasBackground(background);
+  }
+
+  /** 上传背景图片：存入资源库后铺满画布 */
+  async function uploadCanvasBackgroundImage(file: File) {
+    const meta = await storeAsset(file, {
+      name: file.name,
+      type: file.type || "image/png",
+      lastModified: file.lastModified,
+    });
+    await setCanvasBackground({ kind: "image", assetId: meta.id, fit: "cover", tileSize: 600 });
+  }
+
+  /** 画布尺寸变化后按新比例重新渲染照片背景 */
+  function refreshCanvasBackgroundSource() {
+    const background = canvasBackground.value;
+    if (background?.kind !== "photo") return;
+    const photo = listBackgroundPhotos().find(p => p.id === background.photoId);
+    if (!photo) return;
+    canvasBackgroundSource.value = renderBlurredPhotoBackground(
+      photo,
+      background.blur,
+      canvasWidth.value,
+      canvasHeight.value,
+    );
+  }
+
+  function clearPhotoMosaic() {
+    photoMosaicTiles.value = [];
+    lastPhotoMosaicResult.value = null;
+  }
+
+  function captureActivePage(): PhotoBookPage {
+    return {
+      id: activePageId.value,
+      spread: pageSpread.value,
+      presetId: currentPresetId.value,
+      canvasWidth: canvasWidth.value,
+      canvasHeight: canvasHeight.value,
+      layoutSpacing: { ...layoutSpacing.value },
+      canvasMask: canvasMask.value,
+      canvasBackground: canvasBackground.value,
+      photos: [...photos.value],
+      texts: textLayers.value.map(cloneTextLayer),
+    };
+  }
+
+  function listBookPages(): PhotoBookPage[] {
+    return bookPages.value.map(page =>
+      page.id === activePageId.value ? captureActivePage() : page,
+    );
+  }
+
+  /** 把当前页的画布 state 写回 bookPages */
+  function storeActivePage() {
+    bookPages.value = listBookPages();
+  }
+
+  /** 切换页面时恢复遮罩：先同步写入遮罩设置，栅格化完成后才参与排版与预览 */
+  async function restorePageMask(mask: CanvasMask | null) {
+    const pageId = activePageId.value;
+    releaseCanvasMaskSource();
+    canvasMaskRequestId++;
+    canvasMask.value = mask;
+    canvasMaskRender.value = null;
+    if (!mask) return;
+    try {
+      await setCanvasMask(mask);
+    } catch {
+      if (activePageId.value === pageId && canvasMask.value === mask) canvasMask.value = null;
+    }
+  }
+
+  function loadPageState(page: PhotoBookPage): Promise<void> {
+    activePageId.value = page.id;
+    pageSpread.value = page.spread;
+    currentPresetId.value = page.presetId;
+    canvasWidth.value = page.canvasWidth;
+    canvasHeight.value = page.canvasHeight;
+    layoutSpacing.value = { ...page.layoutSpacing };
+    photos.value = [...page.photos];
+    textLayers.value = page.texts.map(cloneTextLayer);
+    selectedPhotoId.value = null;
+    selectedTextId.value = null;
+    cancelCropMode();
+    clearPhotoMosaic();
+    // 排版缓存只对应一页
+    lastLayoutResult.value = null;
+    lastLayoutSignature.value = "";
+    lastLayoutSeed.value = null;
+    lastAppliedLayoutFingerprint.value = "";
+    restorePageBackground(page.canvasBackground);
+    return restorePageMask(page.canvasMask);
+  }
+
+  function switchToPage(id: string): Promise<void> {
+    if (id === activePageId.value) return Promise.resolve();
+    const target = bookPages.value.find(p => p.id === id);
+    if (!target) return Promise.resolve();
+    storeActivePage();
+    return loadPageState(target);
+  }
+
+  function setActivePage(id: string) {
+    void switchToPage(id);
+  }
+
+  /** 当前页的单页尺寸：跨页时为画布的一半，新建页面与切换跨页时按它换算 */
+  function resolveSinglePageSize(): { width: number; height: number } {
+    const preset = presets.value.find(p => p.id === currentPresetId.value);
+    if (preset && preset.id !== "custom") return preset;
+    return {
+      width: Math.round(canvasWidth.value / (pageSpread.value ? 2 : 1)),
+      height: canvasHeight.value,
+    };
+  }
+
+  function snapshotBook(): BookSnapshot {
+    return {
+      activePageId: activePageId.value,
+      pages: listBookPages().map(page => ({
+        ...page,
+        layoutSpacing: { ...page.layoutSpacing },
+        photos: page.photos.map(snapshotPhotoFull),
+        texts: page.texts.map(cloneTextLayer),
+      })),
+    };
+  }
+
+  function applyBookSnapshot(snap: BookSnapshot) {
+    const restored = snap.pages.map(page => ({
+      ...page,
+      layoutSpacing: { ...page.layoutSpacing },
+      photos: page.photos.map(photoFromFullSnapshot),
+      texts: page.texts.map(cloneTextLayer),
+    }));
+    bookPages.value = restored;
+    const active = restored.find(p => p.id === snap.activePageId) ?? restored[0];
+    void loadPageState(active);
+  }
+
+  function pushBookHistory(label: string, before: BookSnapshot) {
+    pushHistory({
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+      at: Date.now(),
+      label,
+      kind: "book",
+      before,
+      after: snapshotBook(),
+    });
+  }
+
+  /** 在当前页之后插入空白页（或跨页）并切换过去；沿用当前页的尺寸与留白 */
+  function addPage(
+    options?: { spread?: boolean },
+    label: string = translate("history.action.addPage"),
+  ) {
+    if (bookPages.value.length >= MAX_BOOK_PAGES) return;
+    const before = snapshotBook();
+    storeActivePage();
+    const spread = options?.spread ?? pageSpread.value;
+    const size = resolvePageCanvasSize(resolveSinglePageSize(), spread);
+    const page: PhotoBookPage = {
+      id: generateId(),
+      spread,
+      presetId: currentPresetId.value,
+      canvasWidth: size.width,
+      canvasHeight: size.height,
+      layoutSpacing: { ...layoutSpacing.value },
+      canvasMask: null,
+      canvasBackground: canvasBackground.value,
+      photos: [],
+      texts: [],
+    };
+    const next = [...bookPages.value];
+    next.splice(next.findIndex(p => p.id === activePageId.value) + 1, 0, page);
+    bookPages.value = next;
+    void loadPageState(page);
+    pushBookHistory(label, before);
+  }
+
+  function removePage(id: string, label: string = translate("history.action.removePage")) {
+    const index = bookPages.value.findIndex(p => p.id === id);
+    if (index === -1 || bookPages.value.length <= 1) return;
+    const before = snapshotBook();
+    storeActivePage();
+    const next = bookPages.value.filter(p => p.id !== id);
+    bookPages.value = next;
+    if (id === activePageId.value) {
+      void loadPageState(next[Math.min(index, next.length - 1)]);
+    }
+    pushBookHistory(label, before);
+  }
+
+  function movePage(id: string, toIndex: number, label: string = translate("history.action.movePage")) {
+    const from = bookPages.value.findIndex(p => p.id === id);
+    const to = clamp(Math.round(toIndex), 0, bookPages.value.length - 1);
+    if (from === -1 || from === to) return;
+    const before = snapshotBook();
+    const next = [...bookPages.value];
+    const [page] = next.splice(from, 1);
+    next.splice(to, 0, page);
+    bookPages.value = next;
+    pushBookHistory(label, before);
+  }
+
+  /** 切换当前页是否为跨页：画布宽度加倍或减半后重新排版 */
+  function setPageSpread(spread: boolean) {
+    if (pageSpread.value === spread) return;
+    const size = resolvePageCanvasSize(resolveSinglePageSize(), spread);
+    pageSpread.value = spread;
+    canvasWidth.value = size.width;
+    canvasHeight.value = size.height;
+    clearPhotoMosaic();
+    refreshCanvasMaskRender();
+    refreshCanvasBackgroundSource();
+    autoLayout();
+  }
+
+  /**
+   * 把所有页面的照片重新分配到各页并逐页排版。已有页面保留尺寸与遮罩，
+   * 页数不够时按最后一页的设置追加，多余的空页删除。换页的照片解除锁定。
+   */
+  async function distributePhotosAcrossPages(
+    options: { mode: PhotoBookDistribution; perPage: number },
+    label: string = translate("history.action.distributePages"),
+  ): Promise<boolean> {
+    storeActivePage();
+    const current = bookPages.value;
+    const all = current.flatMap(page => page.photos);
+    if (all.length === 0) return false;
+
+    const before = snapshotBook();
+    const ownerById = new Map<string, string>();
+    for (const page of current) {
+      for (const photo of page.photos) ownerById.set(photo.id, page.id);
+    }
+    const template = current[current.length - 1];
+    const nextPages = distributePhotosToPages(all, options).map((group, index): PhotoBookPage => {
+      const base = current[index] ?? {
+        ...template,
+        id: generateId(),
+        layoutSpacing: { ...template.layoutSpacing },
+        texts: [],
+      };
+      for (const photo of group) {
+        if (ownerById.get(photo.id) !== base.id) photo.locked = undefined;
+      }
+      return { ...base, photos: group };
+    });
+
+    bookPages.value = nextPages;
+    await loadPageState(nextPages[0]);
+    try {
+      for (const page of nextPages) {
+        await switchToPage(page.id);
+        await autoLayoutAsync();
+      }
+    } finally {
+      await switchToPage(nextPages[0].id);
+      pushBookHistory(label, before);
+    }
+    return true;
+  }
+
+  /** 打开项目时恢复相册页面；当前页的内容已由调用方写入画布 state */
+  function setBookPages(pages: PhotoBookPage[], id: string) {
+    const active = pages.find(p => p.id === id);
+    if (!active) return;
+    activePageId.value = id;
+    pageSpread.value = active.spread;
+    bookPages.value = pages.map(page => ({ ...page, photos: [...page.photos] }));
+  }
+
+  /** 整本相册的导出参数：每页一份，其他页的遮罩临时栅格化 */
+  async function resolveBookExportPages(): Promise<ExportStore[]> {
+    const settings = {
+      presets: presets.value,
+      exportFormat: exportFormat.value,
+      exportQuality: exportQuality.value,
+      exportResolution: exportResolution.value,
+      exportPdfBleedMm: exportPdfBleedMm.value,
+      exportPdfPrintMarks: exportPdfPrintMarks.value,
+      exportPoster: exportPoster.value,
+      customFonts: customFonts.value,
+      photoFrame: photoFrame.value,
+    };
+    const result: ExportStore[] = [];
+    const pages = listBookPages();
+    const allPhotos = pages.flatMap(page => page.photos);
+    for (const page of pages) {
+      const active = page.id === activePageId.value;
+      let overlay = active ? maskOverlay.value : null;
+      const backgroundSource = active
+        ? canvasBackgroundSource.value
+        : await loadCanvasBackgroundSource(
+            page.canvasBackground,
+            allPhotos,
+            page.canvasWidth,
+            page.canvasHeight,
+          );
+      if (!active && page.canvasMask) {
+        const source = await loadCanvasMaskSource(page.canvasMask);
+        try {
+          overlay = rasterizeCanvasMask(source, page.canvasWidth, page.canvasHeight).overlay;
+        } finally {
+          source.image?.close();
+        }
+      }
+      result.push({
+        ...settings,
+        currentPresetId: page.presetId,
+        canvasWidth: page.canvasWidth,
+        canvasHeight: page.canvasHeight,
+        sortedPhotos: active
+          ? sortedPhotos.value
+          : [...page.photos].sort((a, b) => a.zIndex - b.zIndex),
+        maskOverlay: overlay,
+        textLayers: page.texts,
+        canvasBackground: page.canvasBackground,
+        canvasBackgroundSource: backgroundSource,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * 用库内照片拼出目标图：主线程采样目标图、生成每张照片的图块图像，
+   * layoutWorker 负责划分格子与颜色匹配。结果为独立的格子实例，库内照片保持不变。
+   */
+  async function buildPhotoMosaicAsync(
+    targetFile: File,
+  ): Promise<PhotoMosaicResult | null> {
+    const library = photos.value.slice();
+    if (library.length === 0) return null;
+    const settings = { ...photoMosaicSettings.value };
+    const canvasW = canvasWidth.value;
+    const canvasH = canvasHeight.value;
+    const grid = resolvePhotoMosaicGrid(canvasW, canvasH, settings);
+
+    const normalized = (await normalizeImageFileForImport(targetFile)).file;
+    const target = await sampleMosaicTarget(
+      normalized,
+      canvasW,
+      canvasH,
+      resolvePhotoMosaicSampleSize(grid),
+    );
+
+    // 图块图像按最大的格子（adaptive 的粗格子）取分辨率
+    const coarse = 2 ** grid.levels;
+    const tileEdge = resolveMosaicTileEdge(grid.cellW * coarse, grid.cellH * coarse);
+    const tileImages = new Map<string, HTMLCanvasElement>();
+    const swatches: PhotoMosaicSwatch[] = library.map(p => {
+      const { canvas, color } = renderMosaicTileImage(
+        p,
+        grid.cellW / grid.cellH,
+        tileEdge,
+        getSmartDetections(p.id),
+      );
+      tileImages.set(p.id, canvas);
+      return { id: p.id, color, width: canvas.width, height: canvas.height };
+    });
+
+    const seed = hashStringToSeed(
+      `${targetFile.name}|${library.map(p => p.id).join("|")}`,
+    );
+    const result =
+      typeof Worker === "undefined"
+        ? buildPhotoMosaic(target, swatches, canvasW, canvasH, settings, seed)
+        : await requestPhotoMosaicWorker({
+            id: ++layoutWorkerReqId,
+            type: "photoMosaic",
+            target,
+            swatches,
+            canvasW,
+            canvasH,
+            settings,
+            seed,
+          });
+
+    const sources = new Map(library.map(p => [p.id, p]));
+    photoMosaicTiles.value = result.placements.map((placement, i) => {
+      const cell = result.cells[i];
+      const source = sources.get(cell.photoId)!;
+      const tile = tileImages.get(cell.photoId)!;
+      const image =
+        settings.blend > 0
+          ? blendMosaicTile(
+              tile,
+              cell.color,
+              settings.blend,
+              resolveMosaicTileEdge(cell.tileRect.w, cell.tileRect.h),
+            )
+          : tile;
+      return {
+        id: placement.id,
+        name: source.name,
+        srcUrl: source.srcUrl,
+        image,
+        imageWidth: image.width,
+        imageHeight: image.height,
+        crop: { x: 0, y: 0, width: image.width, height: image.height },
+        adjustments: snapshotAdjustments(source.adjustments),
+        cx: placement.cx,
+        cy: placement.cy,
+        scale: placement.scale * (tile.width / image.width),
+        rotation: placement.rotation,
+        zIndex: i,
+        tileRect: placement.tileRect,
+      };
+    });
+    lastPhotoMosaicResult.value = result;
+    // 图块 id 与照片不对应，清空单选与多选
+    setPhotoSelection([]);
+    return result;
+  }
+
+  function setExportPoster(patch: Partial<PosterExportSettings>) {
+    const next = { ...exportPoster.value, ...patch };
+    next.overlapMm = Number.isFinite(next.overlapMm)
+      ? clamp(next.overlapMm, 0, MAX_POSTER_OVERLAP_MM)
+      : exportPoster.value.overlapMm;
+    exportPoster.value = next;
+  }
+
   function setMode(newMode: AppMode) {
     mode.value = newMode;
   }
 
+  function releasePhotoSource(photo: PhotoEntity) {
+    try {
+      URL.revokeObjectURL(photo.srcUrl);
+    } catch {
+      // ignore
+    }
+    const img = photo.image as CloseableImageSource;
+    if (img && typeof img.close === "function") {
+      try {
+        img.close();
+      } catch {
+        // ignore
+      }
+    }
+  }
+
   function clearAllPhotosInternal(opts?: {
     revokeUrls?: boolean;
     clearHistoryStacks?: boolean;
   }) {
     const revokeUrls = opts?.revokeUrls !== false;
     const clearHistoryStacks = opts?.clearHistoryStacks !== false;
-    if (revokeUrls) {
-      photos.value.forEach(p => {
-        try {
-          URL.revokeObjectURL(p.srcUrl);
-        } catch {
-          // ignore
-        }
-        const img = p.image as CloseableImageSource;
-        if (img && typeof img.close === "function") {
-          try {
-            img.close();
-          } catch {
-            // ignore
-          }
-        }
-      });
-    }
+    if (revokeUrls) photos.value.forEach(releasePhotoSource);
     photos.value = [];
     selectedPhotoId.value = null;
     cropModePhotoId.value = null;
     cropModeSnapshot.value = null;
+    clearPhotoMosaic();
     if (clearHistoryStacks) clearHistory();
   }
 
+  /** 清空画布并重置为单页（新建/切换项目时使用） */
   function clearAllPhotos() {
     clearAllPhotosInternal({ revokeUrls: true, clearHistoryStacks: true });
+    for (const page of bookPages.value) {
+      if (page.id !== activePageId.value) page.photos.forEach(releasePhotoSource);
+    }
+    activePageId.value = generateId();
+    pageSpread.value = false;
+    bookPages.value = [createEmptyPage(activePageId.value)];
   }
 
   function clearAllPhotosWithHistory(label: string = translate("history.action.clearAll")) {
@@ -2011,22 +3458,53 @@ export const useMosaicStore = defineStore("mosaic", () => {
     cropModePhotoId,
     cropHasZoomedIn,
     allowPhotoMove,
+    snapEnabled,
+    rulerGuides,
+    textLayers,
+    selectedTextId,
+    customFonts,
     exportFormat,
     exportQuality,
     exportResolution,
+    exportPdfBleedMm,
+    exportPdfPrintMarks,
+    exportPoster,
     isExporting,
     mode,
     history,
     lastLayoutResult,
     lastLayoutSignature,
     lastLayoutSeed,
+    layoutSpacing,
+    layoutOrdering,
+    photoFrame,
+    photoMosaicSettings,
+    photoMosaicTiles,
+    lastPhotoMosaicResult,
+    canvasMask,
+    canvasMaskRender,
+    canvasBackground,
+    canvasBackgroundSource,
+    activePageId,
+    pageSpread,
+    bookPages,
 
     // Computed
     currentPreset,
     selectedPhoto,
+    selectedPhotoIds,
+    selectedPhotos,
+    selectedText,
     cropModePhoto,
     photoCount,
+    duplicateClusters,
     sortedPhotos,
+    isPhotoMosaicActive,
+    maskOverlay,
+    pages,
+    pageCount,
+    activePageIndex,
+    bookPhotoCount,
     canUndo,
     canRedo,
     hasCanvasOffset,
@@ -2035,6 +3513,7 @@ export const useMosaicStore = defineStore("mosaic", () => {
     addPhoto,
     removePhoto,
     removePhotoWithHistory,
+    removePhotosWithHistory,
     updatePhoto,
     updatePhotoWithHistory,
     replacePhotoImage,
@@ -2051,20 +3530,47 @@ export const useMosaicStore = defineStore("mosaic", () => {
     undo,
     redo,
     clearHistory,
+    getReferencedAssetIds,
     pushPhotoHistoryFromPartials,
     replacePhotoFromFile,
     addPhotos,
     importFiles,
+    getDuplicateCluster,
+    resolveDuplicateClusters,
+    dismissDuplicateClusters,
     setPhotoAdjustments,
     setPreset,
     setCustomSize,
     setCanvasOffset,
     nudgeCanvasOffset,
     resetCanvasOffset,
+    addRulerGuide,
+    moveRulerGuide,
+    removeRulerGuide,
+    clearRulerGuides,
+    selectText,
+    addTextLayer,
+    updateTextLayer,
+    updateTextLayerWithHistory,
+    pushTextHistory,
+    removeTextLayer,
+    setTextLayers,
+    addCustomFont,
+    restoreCustomFonts,
     selectPhoto,
+    setPhotoSelection,
+    togglePhotoSelection,
+    moveSelectedPhotosBy,
+    pushGroupMoveHistory,
+    alignSelectedPhotos,
+    distributeSelectedPhotos,
+    matchSelectedPhotoSize,
+    removeSelectedPhotosWithHistory,
     bringToFront,
     sendToBack,
     bringToFrontWithHistory,
+    setPhotoLockedWithHistory,
+    setPhotoPriorityWithHistory,
     sendToBackWithHistory,
     enterCropMode,
     commitCropMode,
@@ -2075,6 +3581,27 @@ export const useMosaicStore = defineStore("mosaic", () => {
     setExportFormat,
     setExportQuality,
     setExportResolution,
+    setExportPdfBleed,
+    setExportPdfPrintMarks,
+    setExportPoster,
+    setLayoutSpacing,
+    setLayoutOrdering,
+    setPhotoFrame,
+    movePhotoInList,
+    setPhotoMosaicSettings,
+    buildPhotoMosaicAsync,
+    clearPhotoMosaic,
+    setCanvasMask,
+    setCanvasBackground,
+    uploadCanvasBackgroundImage,
+    setActivePage,
+    addPage,
+    removePage,
+    movePage,
+    setPageSpread,
+    distributePhotosAcrossPages,
+    setBookPages,
+    resolveBookExportPages,
     setMode,
     clearAllPhotos,
     clearAllPhotosWithHistory,
@@ -0,0 +1,194 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { useMosaicStore } from '@/stores/mosaic'
+import type { ProjectV2 } from '@/project/schema'
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  getProject,
+  listProjects,
+  putProject,
+  renameProject,
+  type ProjectSummary,
+} from '@/project/projects'
+import {
+  autosaveNow,
+  getActiveProjectId,
+  loadLastOpenedProject,
+  onProjectSaved,
+  setActiveProjectId,
+  withAutosaveSuspended,
+} from '@/project/persistence'
+import { applyProjectToStore } from '@/project/applyProject'
+import { collectUnusedAssets, type AssetGcResult } from '@/project/assetGc'
+import { getStorageEstimate } from '@/project/assets'
+import { buildCanvasSettings, buildExportSettings, createProjectId } from '@/project/serialize'
+import { translate } from '@/locales'
+
+export const useProjectLibraryStore = defineStore('projectLibrary', () => {
+  const mosaic = useMosaicStore()
+  const projects = ref<ProjectSummary[]>([])
+  const activeProjectId = ref<string | null>(getActiveProjectId())
+  const isBusy = ref(false)
+  const storageUsage = ref<{ usage: number; quota: number } | null>(null)
+
+  let refreshing: Promise<void> | null = null
+
+  async function refresh() {
+    if (refreshing) return await refreshing
+    refreshing = (async () => {
+      try {
+        projects.value = await listProjects()
+      } finally {
+        refreshing = null
+      }
+    })()
+    await refreshing
+  }
+
+  async function refreshStorageUsage() {
+    storageUsage.value = await getStorageEstimate()
+  }
+
+  /**
+   * 清理没有任何项目引用的原图资源；先落盘当前项目，确保引用计数是最新的。
+   */
+  async function sweepUnusedAssets(): Promise<AssetGcResult> {
+    await withAutosaveSuspended(async () => {
+      await flushActive()
+    })
+    const result = await collectUnusedAssets({ keep: mosaic.getReferencedAssetIds() })
+    await refreshStorageUsage()
+    return result
+  }
+
+  onProjectSaved(() => {
+    activeProjectId.value = getActiveProjectId()
+    void refresh()
+  })
+
+  function setActive(id: string | null) {
+    setActiveProjectId(id)
+    activeProjectId.value = id
+  }
+
+  async function applyProject(project: ProjectV2) {
+    await applyProjectToStore({ project, store: mosaic })
+    setActive(project.id)
+  }
+
+  /**
+   * 启动时恢复上次打开的项目（best-effort）。
+   */
+  async function restoreLastOpened(): Promise<boolean> {
+    return await withAutosaveSuspended(async () => {
+      const project = await loadLastOpenedProject()
+      activeProjectId.value = getActiveProjectId()
+      if (!project) return false
+      await applyProject(project)
+      return true
+    })
+  }
+
+  // 切换前先把当前项目落盘，避免丢失尚未触发的自动保存。
+  async function flushActive() {
+    if (!activeProjectId.value && mosaic.photos.length === 0) return
+    await autosaveNow(mosaic)
+  }
+
+  async function runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    isBusy.value = true
+    try {
+      return await withAutosaveSuspended(fn)
+    } finally {
+      isBusy.value = false
+      void refresh()
+    }
+  }
+
+  async function open(id: string) {
+    if (id === activeProjectId.value) return
+    await runExclusive(async () => {
+      await flushActive()
+      const project = await getProject(id)
+      if (!project) throw new Error(translate('project.errors.notFound'))
+      await applyProject(project)
+    })
+  }
+
+  async function createNew(name?: string) {
+    await runExclusive(async () => {
+      await flushActive()
+      const project = await createProject({
+        name,
+        canvas: buildCanvasSettings(mosaic),
+        export: buildExportSettings(mosaic),
+      })
+      mosaic.clearAllPhotos()
+      setActive(project.id)
+    })
+  }
+
+  async function rename(id: string, name: string) {
+    await runExclusive(async () => {
+      // 先落盘未保存的改动，之后的自动保存会读到新名称
+      if (id === activeProjectId.value) await flushActive()
+      await renameProject(id, name)
+    })
+  }
+
+  async function duplicate(id: string, name?: string) {
+    await runExclusive(async () => {
+      if (id === activeProjectId.value) await flushActive()
+      await duplicateProject(id, name)
+    })
+  }
+
+  async function remove(id: string): Promise<AssetGcResult> {
+    await runExclusive(async () => {
+      await deleteProject(id)
+      if (id !== activeProjectId.value) return
+      // 删除的是当前项目：切到下一个最近项目，没有则保留空画布。
+      mosaic.clearAllPhotos()
+      setActive(null)
+      const [next] = await listProjects()
+      const project = next ? await getProject(next.id) : null
+      if (project) await applyProject(project)
+    })
+    return await sweepUnusedAssets()
+  }
+
+  /**
+   * 导入的项目作为新项目加入项目库（重新生成 id，避免覆盖已有项目）。
+   */
+  async function importFile(file: File) {
+    await runExclusive(async () => {
+      await flushActive()
+      const { importProjectFile } = await import('@/project/projectFile')
+      const imported = await importProjectFile({ file, store: mosaic })
+      const now = Date.now()
+      const project: ProjectV2 = { ...imported, id: createProjectId(), createdAt: now, updatedAt: now }
+      await putProject(project, null)
+      setActive(project.id)
+      await autosaveNow(mosaic)
+    })
+  }
+
+  return {
+    projects,
+    activeProjectId,
+    isBusy,
+    storageUsage,
+    refresh,
+    refreshStorageUsage,
+    sweepUnusedAssets,
+    restoreLastOpened,
+    open,
+    createNew,
+    rename,
+    duplicate,
+    remove,
+    importFile,
+  }
+})
@@ -1,14 +1,115 @@
 // 类型定义
 
-export type ExportFormat = "png" | "jpeg" | "webp";
+export type ExportFormat = "png" | "jpeg" | "webp" | "pdf";
+
+/** 可由画布直接编码的位图格式（PDF 内嵌 JPEG） */
+export type RasterExportFormat = Exclude<ExportFormat, "pdf">;
 
 export type ExportResolutionPreset = "original" | "1080p" | "2k" | "4k";
 
+export type PosterPaperSize = "a4" | "a3";
+export type PosterOrientation = "portrait" | "landscape";
+/** 海报分页输出：多页 PDF，或每页一张图片打包为 ZIP */
+export type PosterOutput = "pdf" | "zip";
+
+export interface PosterExportSettings {
+  enabled: boolean;
+  paper: PosterPaperSize;
+  orientation: PosterOrientation;
+  /** 相邻两页的重叠宽度（毫米），便于拼贴时对齐粘合 */
+  overlapMm: number;
+  output: PosterOutput;
+}
+
 export interface CanvasPreset {
   id: string;
   label: string;
   width: number; // px (300DPI)
   height: number; // px (300DPI)
+  /** 成品物理尺寸（厘米），自定义尺寸缺省时按 300DPI 换算 */
+  widthCm?: number;
+  heightCm?: number;
+}
+
+/** 铺满布局中照片的可见区域（画布坐标） */
+export interface TileRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** 圆角半径（画布像素），缺省为直角 */
+  r?: number;
+}
+
+/** 标题横条贴画布的哪一边 */
+export type TitleBandEdge = "top" | "bottom";
+
+/** 铺满布局的留白与圆角设置（画布像素） */
+export interface LayoutSpacing {
+  gutter: number;
+  outerMargin: number;
+  cornerRadius: number;
+  /** 为标题文字预留的横条高度，缺省或 0 为不预留 */
+  titleBandHeight?: number;
+  titleBandEdge?: TitleBandEdge;
+}
+
+/**
+ * 铺满布局的照片顺序：free 只按裁剪质量分配；其余按切分树的阅读顺序
+ * （先左后右、先上后下）排列：拍摄时间、文件名或照片列表中的手动顺序。
+ */
+export type LayoutOrderMode = "free" | "capture-date" | "filename" | "manual";
+
+export interface LayoutOrdering {
+  mode: LayoutOrderMode;
+  /** 顺序相对裁剪质量的权重，0 等同于 free */
+  weight: number;
+}
+
+export type CanvasMaskShape = "heart" | "circle" | "star";
+
+/**
+ * 形状遮罩：铺满布局只在遮罩内切分 tile，遮罩外保留为底色。
+ * 遮罩按原比例居中缩放到画布内；path 为 SVG path 的 d 属性，viewBox 为 [x, y, w, h]。
+ */
+export type CanvasMask =
+  | { kind: "shape"; shape: CanvasMaskShape }
+  | { kind: "text"; text: string; fontFamily: string; fontWeight: number }
+  | { kind: "path"; path: string; viewBox: [number, number, number, number] }
+  /** PNG 的 alpha 通道作为遮罩，长边已缩小到 512px 以内 */
+  | { kind: "image"; dataUrl: string };
+
+export type CanvasTexturePattern = "dots" | "stripes" | "grid" | "checker";
+export type CanvasBackgroundImageFit = "cover" | "tile";
+
+/**
+ * 画布背景（画布坐标）：纯色、线性 / 径向渐变、内置纹理平铺、
+ * 上传图片（资源库 assetId），或当前页某张照片放大并模糊后铺满。
+ * angle 为度数，0 为从左到右。
+ */
+export type CanvasBackground =
+  | { kind: "solid"; color: string }
+  | { kind: "linear"; from: string; to: string; angle: number }
+  | { kind: "radial"; inner: string; outer: string }
+  | { kind: "texture"; pattern: CanvasTexturePattern; color: string; base: string; size: number }
+  | { kind: "image"; assetId: string; fit: CanvasBackgroundImageFit; tileSize: number }
+  | { kind: "photo"; photoId: string; blur: number };
+
+/** 经典照片马赛克：uniform 为等大格子，adaptive 在目标图细节多的区域细分格子 */
+export type PhotoMosaicGrid = "uniform" | "adaptive";
+export type PhotoMosaicColorSpace = "rgb" | "lab";
+
+export interface PhotoMosaicSettings {
+  grid: PhotoMosaicGrid;
+  /** 最细一级格子的列数，行数按画布比例推算 */
+  columns: number;
+  colorSpace: PhotoMosaicColorSpace;
+  /** 同一照片最多使用次数，0 表示不限 */
+  repeatLimit: number;
+  /** 同一照片两次使用之间至少相隔的格子数，0 表示不限制 */
+  minRepeatDistance: number;
+  /** 格子颜色叠加到照片上的不透明度（0–1） */
+  blend: number;
 }
 
 export interface CropRect {
@@ -20,6 +121,21 @@ export interface CropRect {
 
 export type FilterPreset = "none" | "blackWhite" | "sepia" | "vintage";
 
+export type PhotoFrameKind = "none" | "border" | "polaroid";
+export type PhotoFrameSticker = "none" | "tape" | "corners";
+
+/**
+ * 照片相框：描边或拍立得（底部留出题字区），可叠加柔和投影与胶带 / 相角装饰。
+ * width 为边框占照片短边的比例（铺满布局按 tile 短边），照片缩放时相框等比变化。
+ */
+export interface PhotoFrameStyle {
+  kind: PhotoFrameKind;
+  color: string;
+  width: number;
+  shadow: boolean;
+  sticker: PhotoFrameSticker;
+}
+
 export interface PhotoAdjustments {
   /**
    * 亮度：1 为原始
@@ -37,6 +153,26 @@ export interface PhotoAdjustments {
    * 滤镜预设（会叠加在三项数值之上）
    */
   preset: FilterPreset;
+  /**
+   * 以下为像素级调整（在 ImageData 上计算，先于上面的 CSS 滤镜），缺省或 0 为不调整。
+   * 曝光：EV，-3 ~ 3
+   */
+  exposure?: number;
+  /** 色温：-100（偏冷）~ 100（偏暖） */
+  temperature?: number;
+  /** 色调：-100（偏绿）~ 100（偏洋红） */
+  tint?: number;
+  /** 高光 / 阴影：-100 ~ 100 */
+  highlights?: number;
+  shadows?: number;
+  /** 自然饱和度：-100 ~ 100，低饱和区域变化更大 */
+  vibrance?: number;
+  /** 清晰度（中间调局部对比）：-100 ~ 100 */
+  clarity?: number;
+  /** 锐化（USM）：0 ~ 100 */
+  sharpen?: number;
+  /** 暗角：-100（压暗边角）~ 100（提亮边角） */
+  vignette?: number;
 }
 
 export interface PhotoEntity {
@@ -76,7 +212,108 @@ export interface PhotoEntity {
   rotation: number;
   zIndex: number;
   /** 铺满布局时照片所属 tile 的画布坐标矩形，用于渲染时 clip 防止溢出 */
-  tileRect?: { x: number; y: number; w: number; h: number };
+  tileRect?: TileRect;
+  /** 锁定后重新排版时保留 tileRect，只重排其余照片 */
+  locked?: boolean;
+  /** 重要程度（1–5 星），铺满布局按星级分配 tile 面积；缺省为 3 星 */
+  priority?: number;
+  /** 拍摄时间（毫秒时间戳，优先取 EXIF，缺省取文件修改时间），相册按时间分页使用 */
+  takenAt?: number;
+  /** 导入时从原图读取的 EXIF 信息；没有 EXIF 的图片缺省 */
+  exif?: PhotoExif;
+  /** 导入时在预览图上计算的感知哈希与画质指标 */
+  signature?: PhotoSignature;
+  /** 所属相似照片组（近似重复或连拍）；不属于任何组时缺省 */
+  duplicateClusterId?: string;
+  /** 画质分析结果（清晰度、曝光、噪点、人脸清晰度与闭眼判断）；分析失败时缺省 */
+  quality?: PhotoQuality;
+  /** 单张照片的相框，缺省时使用全局相框样式 */
+  frame?: PhotoFrameStyle;
+  /** 拍立得相框底部的题字 */
+  caption?: string;
+}
+
+/** 相似照片识别用的签名 */
+export interface PhotoSignature {
+  /** 64 位 dHash（16 位十六进制） */
+  hash: string;
+  /** 拉普拉斯方差，越大越清晰 */
+  sharpness: number;
+  /** 曝光评分 0–1，越大曝光越好 */
+  exposure: number;
+}
+
+/** 照片画质分析结果，分数均为 0–1，越大越好 */
+export interface PhotoQuality {
+  /** 综合评分，人脸照片优先看人脸清晰度，疑似闭眼会扣分 */
+  score: number;
+  /** 清晰度评分（由拉普拉斯方差换算） */
+  sharpness: number;
+  /** 分析尺寸下的拉普拉斯方差 */
+  laplacianVariance: number;
+  /** 曝光评分：平均亮度接近中灰且少有死黑/死白 */
+  exposure: number;
+  /** 平均亮度 0–1 */
+  brightness: number;
+  /** 接近纯黑 / 纯白的像素占比 */
+  shadowClipping: number;
+  highlightClipping: number;
+  /** 16 档亮度直方图，每档为像素占比 */
+  histogram: number[];
+  /** 噪点强度（灰度标准差估计，0–255） */
+  noise: number;
+  /** 人脸区域清晰度评分，多张人脸取最低；没有人脸时缺省 */
+  faceSharpness?: number;
+  /** 疑似闭眼的人脸数；没有人脸时缺省 */
+  closedEyeFaces?: number;
+}
+
+/** 相似照片组内保留哪一张 */
+export type DuplicateKeepCriterion = "sharpest" | "best-exposed";
+
+/** 相似照片组 */
+export interface DuplicateCluster {
+  id: string;
+  photoIds: string[];
+}
+
+/**
+ * 原图 EXIF 中用到的字段。orientation 为 EXIF 方向标签（1–8），
+ * takenAt 为 DateTimeOriginal 换算的毫秒时间戳（没有时区偏移时按本地时间）。
+ */
+export interface PhotoExif {
+  orientation?: number;
+  takenAt?: number;
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  /** 曝光时间（秒） */
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  /** 焦距（毫米） */
+  focalLength?: number;
+  /** 原图像素尺寸（方向校正前） */
+  pixelWidth?: number;
+  pixelHeight?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+/**
+ * 相册中的一页：各自的画布尺寸、留白、遮罩与照片。
+ * spread 为跨页（左右两页合成一张画布，宽度为预设的两倍）。
+ */
+export interface PhotoBookPage {
+  id: string;
+  spread: boolean;
+  presetId: string;
+  canvasWidth: number;
+  canvasHeight: number;
+  layoutSpacing: LayoutSpacing;
+  canvasMask: CanvasMask | null;
+  canvasBackground: CanvasBackground | null;
+  photos: PhotoEntity[];
+  texts: TextLayer[];
 }
 
 export interface AppMode {
@@ -108,8 +345,62 @@ export interface OBB {
   rotation: number;
 }
 
+export type TextAlign = "left" | "center" | "right";
+
+export interface TextOutline {
+  color: string;
+  /** 描边宽度（画布像素） */
+  width: number;
+}
+
+export interface TextShadow {
+  color: string;
+  blur: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+/**
+ * 画布上的文字图层（画布坐标）。cx / cy 为文字块中心，
+ * 多行文字按 "\n" 分行，rotation 为弧度。
+ */
+export interface TextLayer {
+  id: string;
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  color: string;
+  align: TextAlign;
+  /** 字间距（画布像素） */
+  letterSpacing: number;
+  /** 行高倍数 */
+  lineHeight: number;
+  outline?: TextOutline;
+  shadow?: TextShadow;
+  cx: number;
+  cy: number;
+  rotation: number;
+}
+
+/** 用户上传的字体，字体文件存于资源库 */
+export interface CustomFont {
+  family: string;
+  assetId: string;
+  name: string;
+}
+
+/** 用户放置的参考线（画布坐标），x 轴为竖线、y 轴为横线 */
+export interface RulerGuide {
+  id: string;
+  axis: "x" | "y";
+  position: number;
+}
+
 export interface ArrangeOptions {
   paddingPx?: number;
+  /** 全局相框样式；碰撞检测按加上相框后的外框计算 */
+  frame?: PhotoFrameStyle | null;
   maxGlobalRetries?: number;
   maxCandidates?: number;
   randomScaleMin?: number;
@@ -125,7 +416,7 @@ export interface Placement {
   rotation: number;
   crop?: CropRect;
   /** 铺满布局时照片所属 tile 的画布坐标矩形，用于渲染时 clip 防止溢出 */
-  tileRect?: { x: number; y: number; w: number; h: number };
+  tileRect?: TileRect;
 }
 
 export type CropStrategyMode =
@@ -213,6 +504,13 @@ export interface LayoutQualitySummary {
   softCropThreshold: number;
   worstCropPhotoId?: string;
   worstCropTileAspect?: number;
+  /** 设置了星级时：各照片实际面积占比相对期望占比的平均误差 |实际/期望 − 1| */
+  priorityAreaError?: number;
+  /** 设置了星级时：误差最大的照片及其误差 */
+  worstPriorityAreaError?: number;
+  worstPriorityPhotoId?: string;
+  /** 设置了排列顺序时：照片实际位置与期望顺序的平均偏差（按照片数归一化，0 为完全一致） */
+  orderingError?: number;
   accepted: boolean;
   reason?: string;
 }
@@ -235,6 +533,8 @@ export interface FillArrangeResult {
   canvasH: number;
   metrics: LayoutMetrics;
   quality?: LayoutQualitySummary;
+  /** 无法保留、已按普通照片重排的锁定照片 id（超出画布、与其他锁定重叠或剩余区域无法铺满） */
+  droppedPinIds?: string[];
 }
 
 // Toast 类型
@@ -0,0 +1,146 @@
+import type {
+  CanvasBackground,
+  CanvasBackgroundImageFit,
+  CanvasTexturePattern,
+} from "@/types";
+
+/**
+ * 画布背景的纯数据部分：默认值、项目数据校验、渐变几何。
+ * 加载图片 / 模糊照片见 utils/canvasBackgroundImage，绘制见 export/renderBackground。
+ */
+
+export type CanvasBackgroundKind = CanvasBackground["kind"];
+
+/** 上传图片解码后的位图，或模糊照片预先渲染好的小图（已是画布比例） */
+export type CanvasBackgroundImage = ImageBitmap | HTMLCanvasElement | OffscreenCanvas;
+
+export const CANVAS_BACKGROUND_KINDS: CanvasBackgroundKind[] = [
+  "solid",
+  "linear",
+  "radial",
+  "texture",
+  "image",
+  "photo",
+];
+export const CANVAS_TEXTURE_PATTERNS: CanvasTexturePattern[] = ["dots", "stripes", "grid", "checker"];
+const IMAGE_FITS: CanvasBackgroundImageFit[] = ["cover", "tile"];
+
+export const MAX_BACKGROUND_BLUR = 200;
+export const MIN_TEXTURE_SIZE = 8;
+export const MAX_TEXTURE_SIZE = 2000;
+
+/** 切换背景类型时的初始值；image / photo 需要另外指定资源或照片 */
+export function createDefaultBackground(
+  kind: Exclude<CanvasBackgroundKind, "image" | "photo">,
+): CanvasBackground {
+  switch (kind) {
+    case "solid":
+      return { kind, color: "#ffffff" };
+    case "linear":
+      return { kind, from: "#fdfbfb", to: "#ebedee", angle: 90 };
+    case "radial":
+      return { kind, inner: "#ffffff", outer: "#d7dde8" };
+    case "texture":
+      return { kind, pattern: "dots", color: "#d9d9d9", base: "#ffffff", size: 80 };
+  }
+}
+
+function finite(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function color(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.trim() ? value.trim() : fallback;
+}
+
+/**
+ * 校验并复制项目数据中的背景；字段缺失或非法时返回 null（按无背景处理）。
+ */
+export function normalizeCanvasBackground(value: unknown): CanvasBackground | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  switch (raw.kind) {
+    case "solid":
+      return { kind: "solid", color: color(raw.color, "#ffffff") };
+    case "linear":
+      return {
+        kind: "linear",
+        from: color(raw.from, "#ffffff"),
+        to: color(raw.to, "#000000"),
+        angle: ((finite(raw.angle, 90) % 360) + 360) % 360,
+      };
+    case "radial":
+      return { kind: "radial", inner: color(raw.inner, "#ffffff"), outer: color(raw.outer, "#000000") };
+    case "texture":
+      return {
+        kind: "texture",
+        pattern: CANVAS_TEXTURE_PATTERNS.includes(raw.pattern as CanvasTexturePattern)
+          ? (raw.pattern as CanvasTexturePattern)
+          : "dots",
+        color: color(raw.color, "#d9d9d9"),
+        base: color(raw.base, "#ffffff"),
+        size: Math.min(MAX_TEXTURE_SIZE, Math.max(MIN_TEXTURE_SIZE, finite(raw.size, 80))),
+      };
+    case "image":
+      if (typeof raw.assetId !== "string" || !raw.assetId) return null;
+      return {
+        kind: "image",
+        assetId: raw.assetId,
+        fit: IMAGE_FITS.includes(raw.fit as CanvasBackgroundImageFit)
+          ? (raw.fit as CanvasBackgroundImageFit)
+          : "cover",
+        tileSize: Math.min(MAX_TEXTURE_SIZE, Math.max(MIN_TEXTURE_SIZE, finite(raw.tileSize, 600))),
+      };
+    case "photo":
+      if (typeof raw.photoId !== "string" || !raw.photoId) return null;
+      return {
+        kind: "photo",
+        photoId: raw.photoId,
+        blur: Math.min(MAX_BACKGROUND_BLUR, Math.max(0, finite(raw.blur, 40))),
+      };
+    default:
+      return null;
+  }
+}
+
+/** 背景引用的资源 id（只有上传图片有） */
+export function canvasBackgroundAssetId(background: CanvasBackground | null): string | undefined {
+  return background?.kind === "image" ? background.assetId : undefined;
+}
+
+/** 是否需要先加载位图（上传图片、模糊照片） */
+export function needsBackgroundSource(background: CanvasBackground | null): boolean {
+  return background?.kind === "image" || background?.kind === "photo";
+}
+
+/**
+ * 线性渐变的起止点：经过画布中心、沿 angle 方向，
+ * 长度取画布在该方向上的投影，让两端颜色恰好落在画布角上。
+ */
+export function linearGradientPoints(
+  width: number,
+  height: number,
+  angleDeg: number,
+): { x0: number; y0: number; x1: number; y1: number } {
+  const rad = (angleDeg * Math.PI) / 180;
+  const dx = Math.cos(rad);
+  const dy = Math.sin(rad);
+  const half = Math.abs((width / 2) * dx) + Math.abs((height / 2) * dy);
+  const cx = width / 2;
+  const cy = height / 2;
+  return { x0: cx - dx * half, y0: cy - dy * half, x1: cx + dx * half, y1: cy + dy * half };
+}
+
+/** 铺满（cover）时图片在画布中的绘制矩形，居中裁掉多余部分 */
+export function coverRect(
+  srcW: number,
+  srcH: number,
+  width: number,
+  height: number,
+): { x: number; y: number; w: number; h: number } {
+  const scale = Math.max(width / Math.max(1, srcW), height / Math.max(1, srcH));
+  const w = srcW * scale;
+  const h = srcH * scale;
+  return { x: (width - w) / 2, y: (height - h) / 2, w, h };
+}
@@ -0,0 +1,69 @@
+import type { CanvasBackground, PhotoEntity } from "@/types";
+import { getAssetBlob } from "@/project/assets";
+import { coverRect, type CanvasBackgroundImage } from "@/utils/canvasBackground";
+
+/**
+ * 画布背景的主线程准备：解码上传图片，或把照片放大、模糊后渲染成小图。
+ */
+
+/** 模糊照片背景的长边：模糊后细节有限，拉伸到输出尺寸看不出差别 */
+const BLUR_MAX_EDGE = 512;
+/** 照片先放大再模糊，避免边缘模糊出透明的渐隐 */
+const BLUR_OVERSCAN = 1.15;
+
+/**
+ * 按画布比例渲染模糊照片；blur 为画布坐标下的半径，按小图比例换算。
+ * 预览与导出都拉伸这一张小图，两边效果一致。
+ */
+export function renderBlurredPhotoBackground(
+  photo: Pick<PhotoEntity, "image" | "imageWidth" | "imageHeight">,
+  blur: number,
+  canvasWidth: number,
+  canvasHeight: number,
+): HTMLCanvasElement {
+  const ratio = BLUR_MAX_EDGE / Math.max(1, canvasWidth, canvasHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(canvasWidth * ratio));
+  canvas.height = Math.max(1, Math.round(canvasHeight * ratio));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Failed to create canvas context");
+  const r = coverRect(photo.imageWidth, photo.imageHeight, canvas.width, canvas.height);
+  const w = r.w * BLUR_OVERSCAN;
+  const h = r.h * BLUR_OVERSCAN;
+  ctx.filter = blur > 0 ? `blur(${(blur * ratio).toFixed(2)}px)` : "none";
+  ctx.drawImage(photo.image, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+  return canvas;
+}
+
+/**
+ * 加载背景需要的位图；纯色、渐变、纹理不需要，返回 null。
+ * 照片背景找不到对应照片、或图片资源缺失时也返回 null（不绘制）。
+ */
+export async function loadCanvasBackgroundSource(
+  background: CanvasBackground | null,
+  photos: PhotoEntity[],
+  canvasWidth: number,
+  canvasHeight: number,
+): Promise<CanvasBackgroundImage | null> {
+  if (background?.kind === "image") {
+    const blob = await getAssetBlob(background.assetId);
+    return blob ? await createImageBitmap(blob) : null;
+  }
+  if (background?.kind === "photo") {
+    const photo = photos.find(p => p.id === background.photoId);
+    return photo
+      ? renderBlurredPhotoBackground(photo, background.blur, canvasWidth, canvasHeight)
+      : null;
+  }
+  return null;
+}
+
+export function releaseCanvasBackgroundSource(source: CanvasBackgroundImage | null) {
+  if (typeof ImageBitmap !== "undefined" && source instanceof ImageBitmap) {
+    try {
+      source.close();
+    } catch {
+      // ignore
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import type { CanvasMask, CanvasMaskShape } from "@/types";
+
+/**
+ * 形状遮罩的纯数据部分：内置形状的路径、项目数据校验。
+ * 栅格化见 utils/canvasMaskImage，遮罩内切分 tile 见 fillArrangeShared。
+ */
+
+export type CanvasMaskPath = {
+  path: string;
+  viewBox: [number, number, number, number];
+};
+
+export const CANVAS_MASK_SHAPES: CanvasMaskShape[] = ["heart", "circle", "star"];
+
+/** 上传 PNG 遮罩的长边上限（像素），dataUrl 随项目保存 */
+export const MAX_MASK_IMAGE_EDGE = 512;
+export const MAX_MASK_TEXT_LENGTH = 24;
+export const DEFAULT_MASK_FONT_FAMILY = "sans-serif";
+export const DEFAULT_MASK_FONT_WEIGHT = 900;
+
+function starPath(points: number, outer: number, inner: number): string {
+  const coords: string[] = [];
+  for (let i = 0; i < points * 2; i++) {
+    const r = i % 2 === 0 ? outer : inner;
+    const angle = -Math.PI / 2 + (i * Math.PI) / points;
+    const x = 50 + r * Math.cos(angle);
+    const y = 50 + r * Math.sin(angle);
+    coords.push(`${i === 0 ? "M" : "L"}${x.toFixed(2)} ${y.toFixed(2)}`);
+  }
+  return `${coords.join(" ")} Z`;
+}
+
+// viewBox 取形状的包围盒，缩放到画布时形状本身居中
+const SHAPE_PATHS: Record<CanvasMaskShape, CanvasMaskPath> = {
+  heart: {
+    path: "M50 92 L12 52 A22 22 0 0 1 50 18 A22 22 0 0 1 88 52 Z",
+    viewBox: [5, 9, 90, 84],
+  },
+  circle: {
+    path: "M50 0 A50 50 0 1 1 50 100 A50 50 0 1 1 50 0 Z",
+    viewBox: [0, 0, 100, 100],
+  },
+  star: {
+    path: starPath(5, 50, 20),
+    viewBox: [2, 0, 96, 91],
+  },
+};
+
+/** 内置形状与自定义 SVG path 统一为路径；文字与图片遮罩返回 null */
+export function resolveCanvasMaskPath(mask: CanvasMask): CanvasMaskPath | null {
+  if (mask.kind === "shape") return SHAPE_PATHS[mask.shape];
+  if (mask.kind === "path") return { path: mask.path, viewBox: mask.viewBox };
+  return null;
+}
+
+/** 按原比例缩放到 width × height 内并居中（contain） */
+export function fitMaskBox(
+  boxW: number,
+  boxH: number,
+  width: number,
+  height: number,
+): { x: number; y: number; scale: number } {
+  const scale = Math.min(width / Math.max(1e-6, boxW), height / Math.max(1e-6, boxH));
+  return {
+    x: (width - boxW * scale) / 2,
+    y: (height - boxH * scale) / 2,
+    scale,
+  };
+}
+
+/**
+ * 校验并复制项目数据中的遮罩；字段缺失或非法时返回 null（按无遮罩处理）。
+ */
+export function normalizeCanvasMask(value: unknown): CanvasMask | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  switch (raw.kind) {
+    case "shape":
+      return CANVAS_MASK_SHAPES.includes(raw.shape as CanvasMaskShape)
+        ? { kind: "shape", shape: raw.shape as CanvasMaskShape }
+        : null;
+    case "text": {
+      const text = typeof raw.text === "string" ? raw.text.trim().slice(0, MAX_MASK_TEXT_LENGTH) : "";
+      if (!text) return null;
+      const weight = Number(raw.fontWeight);
+      return {
+        kind: "text",
+        text,
+        fontFamily:
+          typeof raw.fontFamily === "string" && raw.fontFamily.trim()
+            ? raw.fontFamily.trim()
+            : DEFAULT_MASK_FONT_FAMILY,
+        fontWeight: Number.isFinite(weight)
+          ? Math.round(Math.min(900, Math.max(100, weight)) / 100) * 100
+          : DEFAULT_MASK_FONT_WEIGHT,
+      };
+    }
+    case "path": {
+      const box = Array.isArray(raw.viewBox) ? raw.viewBox.map(Number) : [];
+      if (typeof raw.path !== "string" || !raw.path.trim()) return null;
+      if (box.length !== 4 || !box.every(Number.isFinite) || box[2] <= 0 || box[3] <= 0) {
+        return null;
+      }
+      return {
+        kind: "path",
+        path: raw.path.trim(),
+        viewBox: [box[0], box[1], box[2], box[3]],
+      };
+    }
+    case "image":
+      return typeof raw.dataUrl === "string" && raw.dataUrl.startsWith("data:image/")
+        ? { kind: "image", dataUrl: raw.dataUrl }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/** 用于排版缓存签名：内容相同的遮罩得到相同的键 */
+export function canvasMaskKey(mask: CanvasMask | null): string {
+  if (!mask) return "";
+  switch (mask.kind) {
+    case "shape":
+      return `shape:${mask.shape}`;
+    case "text":
+      return `text:${mask.fontWeight}:${mask.fontFamily}:${mask.text}`;
+    case "path":
+      return `path:${mask.viewBox.join(",")}:${mask.path}`;
+    case "image":
+      return `image:${mask.dataUrl.length}:${mask.dataUrl.slice(-64)}`;
+  }
+}
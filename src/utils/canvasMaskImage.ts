@@ -0,0 +1,162 @@
+import type { CanvasMask } from "@/types";
+import type { FillArrangeMask } from "@/utils/fillArrangeShared";
+import {
+  MAX_MASK_IMAGE_EDGE,
+  fitMaskBox,
+  resolveCanvasMaskPath,
+} from "@/utils/canvasMask";
+
+/**
+ * 形状遮罩的主线程栅格化：画布预览/导出用的覆盖层，以及求解器用的覆盖率网格。
+ */
+
+/** 覆盖层长边上限：导出时按输出尺寸拉伸，边缘有轻微模糊但不影响照片本身 */
+const OVERLAY_MAX_EDGE = 2048;
+/** 覆盖率网格长边：求解器按格子划分区域，格子越多越贴合形状但越慢 */
+const GRID_MAX_EDGE = 128;
+
+export type CanvasMaskSource = {
+  mask: CanvasMask;
+  /** 图片遮罩解码后的位图；切换画布尺寸时可同步重新栅格化 */
+  image: ImageBitmap | null;
+};
+
+export type CanvasMaskRender = {
+  /** 遮罩外为白色、遮罩内透明，绘制在照片之上 */
+  overlay: HTMLCanvasElement;
+  grid: FillArrangeMask;
+};
+
+function create2dCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Failed to create canvas context");
+  return { canvas, ctx };
+}
+
+function maskFont(mask: Extract<CanvasMask, { kind: "text" }>, size: number): string {
+  return `${mask.fontWeight} ${size}px ${mask.fontFamily}`;
+}
+
+export async function loadCanvasMaskSource(mask: CanvasMask): Promise<CanvasMaskSource> {
+  if (mask.kind === "image") {
+    const blob = await (await fetch(mask.dataUrl)).blob();
+    return { mask, image: await createImageBitmap(blob) };
+  }
+  if (mask.kind === "text" && typeof document !== "undefined" && document.fonts) {
+    try {
+      await document.fonts.load(maskFont(mask, 100), mask.text);
+    } catch {
+      // 字体加载失败时按浏览器回退字体绘制
+    }
+  }
+  return { mask, image: null };
+}
+
+/** 以不透明黑色绘制遮罩形状，alpha 即覆盖率 */
+function drawMaskShape(
+  ctx: CanvasRenderingContext2D,
+  source: CanvasMaskSource,
+  width: number,
+  height: number,
+) {
+  const { mask } = source;
+  ctx.save();
+  ctx.fillStyle = "#000000";
+  const path = resolveCanvasMaskPath(mask);
+  if (path) {
+    const [bx, by, bw, bh] = path.viewBox;
+    const fit = fitMaskBox(bw, bh, width, height);
+    ctx.translate(fit.x, fit.y);
+    ctx.scale(fit.scale, fit.scale);
+    ctx.translate(-bx, -by);
+    ctx.fill(new Path2D(path.path));
+  } else if (mask.kind === "text") {
+    ctx.font = maskFont(mask, 100);
+    ctx.textAlign = "left";
+    ctx.textBaseline = "alphabetic";
+    const m = ctx.measureText(mask.text);
+    const boxW = m.actualBoundingBoxLeft + m.actualBoundingBoxRight;
+    const boxH = m.actualBoundingBoxAscent + m.actualBoundingBoxDescent;
+    const fit = fitMaskBox(boxW, boxH, width, height);
+    ctx.translate(fit.x, fit.y);
+    ctx.scale(fit.scale, fit.scale);
+    ctx.fillText(mask.text, m.actualBoundingBoxLeft, m.actualBoundingBoxAscent);
+  } else if (source.image) {
+    const { width: iw, height: ih } = source.image;
+    const fit = fitMaskBox(iw, ih, width, height);
+    ctx.drawImage(source.image, fit.x, fit.y, iw * fit.scale, ih * fit.scale);
+  }
+  ctx.restore();
+}
+
+export function rasterizeCanvasMask(
+  source: CanvasMaskSource,
+  canvasW: number,
+  canvasH: number,
+): CanvasMaskRender {
+  const longEdge = Math.max(1, canvasW, canvasH);
+
+  const overlayScale = Math.min(1, OVERLAY_MAX_EDGE / longEdge);
+  const shape = create2dCanvas(canvasW * overlayScale, canvasH * overlayScale);
+  drawMaskShape(shape.ctx, source, shape.canvas.width, shape.canvas.height);
+  const overlay = create2dCanvas(shape.canvas.width, shape.canvas.height);
+  overlay.ctx.fillStyle = "#ffffff";
+  overlay.ctx.fillRect(0, 0, overlay.canvas.width, overlay.canvas.height);
+  overlay.ctx.globalCompositeOperation = "destination-out";
+  overlay.ctx.drawImage(shape.canvas, 0, 0);
+
+  // 网格直接按小尺寸绘制，抗锯齿边缘即格子的覆盖率
+  const gridScale = Math.min(1, GRID_MAX_EDGE / longEdge);
+  const grid = create2dCanvas(canvasW * gridScale, canvasH * gridScale);
+  drawMaskShape(grid.ctx, source, grid.canvas.width, grid.canvas.height);
+  const { data } = grid.ctx.getImageData(0, 0, grid.canvas.width, grid.canvas.height);
+  const coverage = new Uint8Array(grid.canvas.width * grid.canvas.height);
+  for (let i = 0; i < coverage.length; i++) coverage[i] = data[i * 4 + 3];
+
+  return {
+    overlay: overlay.canvas,
+    grid: { width: grid.canvas.width, height: grid.canvas.height, data: coverage },
+  };
+}
+
+/** PNG 遮罩缩小到长边 512px 以内并转为 dataUrl，随项目保存 */
+export async function readMaskImageFile(file: Blob): Promise<CanvasMask> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const fit = Math.min(1, MAX_MASK_IMAGE_EDGE / Math.max(bitmap.width, bitmap.height));
+    const { canvas, ctx } = create2dCanvas(bitmap.width * fit, bitmap.height * fit);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return { kind: "image", dataUrl: canvas.toDataURL("image/png") };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * 读取 SVG 中全部 path 元素的 d 属性合并为一条路径；
+ * viewBox 缺省时取 width/height。其他图元（circle、text 等）不支持。
+ */
+export async function readMaskSvgFile(file: Blob): Promise<CanvasMask> {
+  const doc = new DOMParser().parseFromString(await file.text(), "image/svg+xml");
+  const svg = doc.querySelector("svg");
+  const path = Array.from(doc.querySelectorAll("path"))
+    .map(el => el.getAttribute("d")?.trim() ?? "")
+    .filter(Boolean)
+    .join(" ");
+  if (!svg || !path) throw new Error("SVG has no path element");
+
+  const box = (svg.getAttribute("viewBox") ?? "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  if (box.length === 4 && box.every(Number.isFinite) && box[2] > 0 && box[3] > 0) {
+    return { kind: "path", path, viewBox: [box[0], box[1], box[2], box[3]] };
+  }
+  const width = parseFloat(svg.getAttribute("width") ?? "");
+  const height = parseFloat(svg.getAttribute("height") ?? "");
+  if (!(width > 0) || !(height > 0)) throw new Error("SVG has no viewBox");
+  return { kind: "path", path, viewBox: [0, 0, width, height] };
+}
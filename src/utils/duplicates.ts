@@ -0,0 +1,232 @@
+import type { DuplicateKeepCriterion, PhotoSignature } from "@/types";
+
+/**
+ * 相似照片 / 连拍识别：导入时在预览图上计算 dHash 与清晰度、曝光指标，
+ * 汉明距离足够小的照片归为一组，由用户选择每组保留哪一张。
+ */
+
+/** 计算指标用的灰度图最长边 */
+const SIGNATURE_EDGE = 128;
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** 汉明距离不超过该值视为近似重复 */
+export const NEAR_DUPLICATE_DISTANCE = 10;
+/** 拍摄时间相差不超过 BURST_WINDOW_MS 的照片放宽到该距离（连拍会有轻微位移） */
+export const BURST_DISTANCE = 18;
+export const BURST_WINDOW_MS = 3000;
+
+/** RGBA 像素转灰度（Rec.601 亮度，0–255） */
+export function toGrayscale(data: ArrayLike<number>, width: number, height: number): Float32Array {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const o = i * 4;
+    gray[i] = data[o] * 0.299 + data[o + 1] * 0.587 + data[o + 2] * 0.114;
+  }
+  return gray;
+}
+
+/** 按面积平均缩放灰度图 */
+export function resampleGray(
+  gray: ArrayLike<number>,
+  width: number,
+  height: number,
+  targetWidth: number,
+  targetHeight: number,
+): Float32Array {
+  const out = new Float32Array(targetWidth * targetHeight);
+  for (let ty = 0; ty < targetHeight; ty++) {
+    const y0 = Math.floor((ty * height) / targetHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight));
+    for (let tx = 0; tx < targetWidth; tx++) {
+      const x0 = Math.floor((tx * width) / targetWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth));
+      let sum = 0;
+      let count = 0;
+      for (let y = y0; y < Math.min(y1, height); y++) {
+        for (let x = x0; x < Math.min(x1, width); x++) {
+          sum += gray[y * width + x];
+          count++;
+        }
+      }
+      out[ty * targetWidth + tx] = count > 0 ? sum / count : 0;
+    }
+  }
+  return out;
+}
+
+/** 64 位 dHash：缩到 9×8 后比较每行相邻像素的亮度，输出 16 位十六进制 */
+export function differenceHash(gray: ArrayLike<number>, width: number, height: number): string {
+  const small = resampleGray(gray, width, height, HASH_WIDTH, HASH_HEIGHT);
+  let hex = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const row = y * HASH_WIDTH;
+      byte = (byte << 1) | (small[row + x] < small[row + x + 1] ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/** 拉普拉斯响应的方差，越大越清晰 */
+export function laplacianVariance(gray: ArrayLike<number>, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += v;
+      sumSq += v * v;
+      count++;
+    }
+  }
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+}
+
+/** 曝光评分 0–1：平均亮度越接近中灰、过曝/欠曝像素越少分数越高 */
+export function exposureScore(gray: ArrayLike<number>): number {
+  if (gray.length === 0) return 0;
+  let sum = 0;
+  let clipped = 0;
+  for (let i = 0; i < gray.length; i++) {
+    sum += gray[i];
+    if (gray[i] <= 8 || gray[i] >= 247) clipped++;
+  }
+  const mean = sum / gray.length / 255;
+  return Math.max(0, (1 - Math.abs(mean - 0.5) * 2) * (1 - clipped / gray.length));
+}
+
+export function computeSignatureFromPixels(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+): PhotoSignature {
+  const gray = toGrayscale(data, width, height);
+  return {
+    hash: differenceHash(gray, width, height),
+    sharpness: laplacianVariance(gray, width, height),
+    exposure: exposureScore(gray),
+  };
+}
+
+/** 在预览图上计算签名；无法读取像素（如跨域图片）时返回 null */
+export function measurePhotoSignature(
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+): PhotoSignature | null {
+  if (typeof document === "undefined" || width <= 0 || height <= 0) return null;
+  const ratio = Math.min(1, SIGNATURE_EDGE / Math.max(width, height));
+  const w = Math.max(HASH_WIDTH, Math.round(width * ratio));
+  const h = Math.max(HASH_HEIGHT, Math.round(height * ratio));
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, w, h);
+    return computeSignatureFromPixels(ctx.getImageData(0, 0, w, h).data, w, h);
+  } catch {
+    return null;
+  }
+}
+
+export type DuplicateCandidate = {
+  id: string;
+  hash: string;
+  takenAt?: number;
+};
+
+/**
+ * 把近似重复的照片聚成组（并查集，组内任意两张可经由相似对连通）。
+ * 只返回两张及以上的组，组与组内顺序都按输入顺序。
+ */
+export function clusterNearDuplicates(
+  items: DuplicateCandidate[],
+  options: { maxDistance?: number; burstDistance?: number; burstWindowMs?: number } = {},
+): string[][] {
+  const maxDistance = options.maxDistance ?? NEAR_DUPLICATE_DISTANCE;
+  const burstDistance = options.burstDistance ?? BURST_DISTANCE;
+  const burstWindowMs = options.burstWindowMs ?? BURST_WINDOW_MS;
+  const parent = items.map((_, idx) => idx);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const a = items[i];
+      const b = items[j];
+      const isBurst =
+        a.takenAt !== undefined &&
+        b.takenAt !== undefined &&
+        Math.abs(a.takenAt - b.takenAt) <= burstWindowMs;
+      const distance = hammingDistance(a.hash, b.hash);
+      if (distance <= (isBurst ? burstDistance : maxDistance)) {
+        const ra = find(i);
+        const rb = find(j);
+        if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  items.forEach((item, idx) => {
+    const root = find(idx);
+    const group = groups.get(root);
+    if (group) group.push(item.id);
+    else groups.set(root, [item.id]);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+/** 每组保留的照片：最清晰（并列时比曝光）或曝光最好（并列时比清晰度） */
+export function pickClusterKeeper(
+  items: Array<{ id: string; signature?: PhotoSignature }>,
+  criterion: DuplicateKeepCriterion,
+): string | null {
+  let best: (typeof items)[number] | null = null;
+  for (const item of items) {
+    if (!best) {
+      best = item;
+      continue;
+    }
+    const a = item.signature;
+    const b = best.signature;
+    if (!a) continue;
+    if (!b) {
+      best = item;
+      continue;
+    }
+    const [primary, secondary] =
+      criterion === "sharpest"
+        ? [a.sharpness - b.sharpness, a.exposure - b.exposure]
+        : [a.exposure - b.exposure, a.sharpness - b.sharpness];
+    if (primary > 0 || (primary === 0 && secondary > 0)) best = item;
+  }
+  return best?.id ?? null;
+}
@@ -0,0 +1,375 @@
+import type { PhotoExif } from "@/types";
+
+/**
+ * EXIF / TIFF 解析：支持 JPEG（APP1）、WebP（EXIF chunk）、HEIC/HEIF（Exif item）与裸 TIFF。
+ * 只读取导入与展示用到的少量标签，任何越界或格式错误的条目都直接忽略。
+ */
+
+/** JPEG 的 APP1 位于文件头部；只有 WebP 的 EXIF chunk 可能在图像数据之后 */
+const EXIF_READ_LIMIT = 512 * 1024;
+const MAX_WEBP_READ = 64 * 1024 * 1024;
+
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920a,
+  pixelWidth: 0xa002,
+  pixelHeight: 0xa003,
+  lensModel: 0xa434,
+} as const;
+
+const GPS_TAG = {
+  latitudeRef: 1,
+  latitude: 2,
+  longitudeRef: 3,
+  longitude: 4,
+  altitudeRef: 5,
+  altitude: 6,
+} as const;
+
+type IfdEntry = { type: number; count: number; offset: number };
+type Ifd = Map<number, IfdEntry>;
+
+class TiffReader {
+  private readonly view: DataView;
+  readonly little: boolean;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.little = bytes[0] === 0x49;
+  }
+
+  get length() {
+    return this.bytes.length;
+  }
+
+  u16(pos: number) {
+    return this.view.getUint16(pos, this.little);
+  }
+
+  u32(pos: number) {
+    return this.view.getUint32(pos, this.little);
+  }
+
+  readIfd(offset: number): Ifd | null {
+    if (offset < 8 || offset + 2 > this.length) return null;
+    const count = this.u16(offset);
+    if (offset + 2 + count * 12 > this.length) return null;
+    const ifd: Ifd = new Map();
+    for (let i = 0; i < count; i++) {
+      const pos = offset + 2 + i * 12;
+      const type = this.u16(pos + 2);
+      const size = TYPE_SIZES[type];
+      if (!size) continue;
+      const valueCount = this.u32(pos + 4);
+      const byteLength = size * valueCount;
+      // 4 字节以内的值直接存在条目里，否则为相对 TIFF 头的偏移
+      const valueOffset = byteLength <= 4 ? pos + 8 : this.u32(pos + 8);
+      if (valueOffset + byteLength > this.length) continue;
+      ifd.set(this.u16(pos), { type, count: valueCount, offset: valueOffset });
+    }
+    return ifd;
+  }
+
+  number(entry: IfdEntry | undefined, index = 0): number | undefined {
+    if (!entry || index >= entry.count) return undefined;
+    const pos = entry.offset + index * TYPE_SIZES[entry.type];
+    switch (entry.type) {
+      case 1:
+      case 7:
+        return this.bytes[pos];
+      case 3:
+        return this.u16(pos);
+      case 4:
+        return this.u32(pos);
+      case 9:
+        return this.view.getInt32(pos, this.little);
+      case 5:
+      case 10: {
+        const signed = entry.type === 10;
+        const num = signed ? this.view.getInt32(pos, this.little) : this.u32(pos);
+        const den = signed ? this.view.getInt32(pos + 4, this.little) : this.u32(pos + 4);
+        return den === 0 ? undefined : num / den;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  text(entry: IfdEntry | undefined): string | undefined {
+    if (!entry || (entry.type !== 2 && entry.type !== 7)) return undefined;
+    let out = "";
+    for (let i = 0; i < entry.count; i++) {
+      const code = this.bytes[entry.offset + i];
+      if (code === 0) break;
+      out += String.fromCharCode(code);
+    }
+    const trimmed = out.trim();
+    return trimmed || undefined;
+  }
+}
+
+function positive(value: number | undefined): number | undefined {
+  return value !== undefined && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/** "YYYY:MM:DD HH:MM:SS"，带 OffsetTimeOriginal（如 "+08:00"）时按该时区换算 */
+export function parseExifDateTime(value: string | undefined, offset?: string): number | undefined {
+  const m = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!m) return undefined;
+  const [year, month, day, hour, minute, second] = m.slice(1).map(Number);
+  if (year < 1900 || month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  if (hour > 23 || minute > 59 || second > 60) return undefined;
+
+  const tz = offset?.match(/^([+-])(\d{2}):(\d{2})$/);
+  const time = tz
+    ? Date.UTC(year, month - 1, day, hour, minute, second) -
+      (tz[1] === "-" ? -1 : 1) * (Number(tz[2]) * 60 + Number(tz[3])) * 60_000
+    : new Date(year, month - 1, day, hour, minute, second).getTime();
+  return Number.isFinite(time) ? time : undefined;
+}
+
+function readGpsCoordinate(
+  reader: TiffReader,
+  entry: IfdEntry | undefined,
+  ref: string | undefined,
+  negativeRef: string,
+  limit: number,
+): number | undefined {
+  if (!entry || entry.count < 3) return undefined;
+  const [deg, min, sec] = [0, 1, 2].map(i => reader.number(entry, i));
+  if (deg === undefined || min === undefined || sec === undefined) return undefined;
+  const value = (deg + min / 60 + sec / 3600) * (ref?.toUpperCase() === negativeRef ? -1 : 1);
+  return Number.isFinite(value) && Math.abs(value) <= limit ? value : undefined;
+}
+
+function readGps(reader: TiffReader, ifd: Ifd): PhotoExif["gps"] {
+  const latitude = readGpsCoordinate(
+    reader,
+    ifd.get(GPS_TAG.latitude),
+    reader.text(ifd.get(GPS_TAG.latitudeRef)),
+    "S",
+    90,
+  );
+  const longitude = readGpsCoordinate(
+    reader,
+    ifd.get(GPS_TAG.longitude),
+    reader.text(ifd.get(GPS_TAG.longitudeRef)),
+    "W",
+    180,
+  );
+  if (latitude === undefined || longitude === undefined) return undefined;
+  const altitude = reader.number(ifd.get(GPS_TAG.altitude));
+  const gps: NonNullable<PhotoExif["gps"]> = { latitude, longitude };
+  if (altitude !== undefined && Number.isFinite(altitude)) {
+    gps.altitude = reader.number(ifd.get(GPS_TAG.altitudeRef)) === 1 ? -altitude : altitude;
+  }
+  return gps;
+}
+
+/** 解析 TIFF 结构（"II*\0" / "MM\0*" 开头）；没有任何可用字段时返回 null */
+export function parseTiffExif(bytes: Uint8Array): PhotoExif | null {
+  if (bytes.length < 8) return null;
+  const order = bytes[0] === bytes[1] ? bytes[0] : 0;
+  if (order !== 0x49 && order !== 0x4d) return null;
+  const reader = new TiffReader(bytes);
+  if (reader.u16(2) !== 42) return null;
+
+  const ifd0 = reader.readIfd(reader.u32(4));
+  if (!ifd0) return null;
+  const exifOffset = reader.number(ifd0.get(TAG.exifIfd));
+  const gpsOffset = reader.number(ifd0.get(TAG.gpsIfd));
+  const exifIfd: Ifd = (exifOffset !== undefined && reader.readIfd(exifOffset)) || new Map();
+  const gpsIfd = gpsOffset !== undefined ? reader.readIfd(gpsOffset) : null;
+
+  const exif: PhotoExif = {};
+  const orientation = reader.number(ifd0.get(TAG.orientation));
+  if (orientation !== undefined && orientation >= 1 && orientation <= 8) {
+    exif.orientation = orientation;
+  }
+  const takenAt =
+    parseExifDateTime(
+      reader.text(exifIfd.get(TAG.dateTimeOriginal)),
+      reader.text(exifIfd.get(TAG.offsetTimeOriginal)),
+    ) ?? parseExifDateTime(reader.text(ifd0.get(TAG.dateTime)));
+  if (takenAt !== undefined) exif.takenAt = takenAt;
+
+  const make = reader.text(ifd0.get(TAG.make));
+  const model = reader.text(ifd0.get(TAG.model));
+  const lensModel = reader.text(exifIfd.get(TAG.lensModel));
+  if (make) exif.make = make;
+  if (model) exif.model = model;
+  if (lensModel) exif.lensModel = lensModel;
+
+  const numbers = {
+    exposureTime: positive(reader.number(exifIfd.get(TAG.exposureTime))),
+    fNumber: positive(reader.number(exifIfd.get(TAG.fNumber))),
+    iso: positive(reader.number(exifIfd.get(TAG.iso))),
+    focalLength: positive(reader.number(exifIfd.get(TAG.focalLength))),
+    pixelWidth: positive(reader.number(exifIfd.get(TAG.pixelWidth))),
+    pixelHeight: positive(reader.number(exifIfd.get(TAG.pixelHeight))),
+  };
+  for (const [key, value] of Object.entries(numbers) as Array<[keyof typeof numbers, number | undefined]>) {
+    if (value !== undefined) exif[key] = value;
+  }
+
+  const gps = gpsIfd ? readGps(reader, gpsIfd) : undefined;
+  if (gps) exif.gps = gps;
+
+  return Object.keys(exif).length > 0 ? exif : null;
+}
+
+function ascii(bytes: Uint8Array, pos: number, text: string): boolean {
+  if (pos + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[pos + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/** "Exif\0\0" 前缀之后才是 TIFF 头 */
+function stripExifHeader(bytes: Uint8Array): Uint8Array {
+  return ascii(bytes, 0, "Exif\0\0") ? bytes.subarray(6) : bytes;
+}
+
+function findJpegExif(bytes: Uint8Array): Uint8Array | null {
+  let pos = 2;
+  while (pos + 4 <= bytes.length) {
+    if (bytes[pos] !== 0xff) return null;
+    const marker = bytes[pos + 1];
+    // 填充字节
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    // SOS / EOI 之后不再有元数据段
+    if (marker === 0xda || marker === 0xd9) return null;
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    if (length < 2) return null;
+    const data = bytes.subarray(pos + 4, Math.min(bytes.length, pos + 2 + length));
+    if (marker === 0xe1 && ascii(data, 0, "Exif\0\0")) return data.subarray(6);
+    pos += 2 + length;
+  }
+  return null;
+}
+
+function findWebpExif(bytes: Uint8Array): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 12;
+  while (pos + 8 <= bytes.length) {
+    const size = view.getUint32(pos + 4, true);
+    if (ascii(bytes, pos, "EXIF")) {
+      return stripExifHeader(bytes.subarray(pos + 8, Math.min(bytes.length, pos + 8 + size)));
+    }
+    pos += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/**
+ * HEIC/HEIF 的 Exif item 内容为 4 字节偏移 + "Exif\0\0" + TIFF。
+ * 完整解析 iinf/iloc 代价较高，这里直接查找带合法 TIFF 头的 "Exif\0\0" 标记。
+ */
+function findIsoBmffExif(bytes: Uint8Array): Uint8Array | null {
+  for (let pos = 0; pos + 14 <= bytes.length; pos++) {
+    if (bytes[pos] !== 0x45 || !ascii(bytes, pos, "Exif\0\0")) continue;
+    const tiff = bytes.subarray(pos + 6);
+    if (ascii(tiff, 0, "II*\0") || ascii(tiff, 0, "MM\0*")) return tiff;
+  }
+  return null;
+}
+
+/** 按文件头识别容器并解析 EXIF；不支持的格式或没有 EXIF 时返回 null */
+export function parseExif(bytes: Uint8Array): PhotoExif | null {
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+      const tiff = findJpegExif(bytes);
+      return tiff ? parseTiffExif(tiff) : null;
+    }
+    if (ascii(bytes, 0, "RIFF") && ascii(bytes, 8, "WEBP")) {
+      const tiff = findWebpExif(bytes);
+      return tiff ? parseTiffExif(tiff) : null;
+    }
+    if (ascii(bytes, 4, "ftyp")) {
+      const tiff = findIsoBmffExif(bytes);
+      return tiff ? parseTiffExif(tiff) : null;
+    }
+    return parseTiffExif(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/** 读取图片文件的 EXIF；读取失败按没有 EXIF 处理 */
+export async function readImageExif(file: Blob): Promise<PhotoExif | null> {
+  try {
+    const head = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+    const isWebp = ascii(head, 0, "RIFF") && ascii(head, 8, "WEBP");
+    const limit = isWebp ? MAX_WEBP_READ : EXIF_READ_LIMIT;
+    return parseExif(new Uint8Array(await file.slice(0, limit).arrayBuffer()));
+  } catch {
+    return null;
+  }
+}
+
+/** 方向 5–8 需要交换宽高 */
+export function isExifOrientationTransposed(orientation: number | undefined): boolean {
+  return orientation !== undefined && orientation >= 5 && orientation <= 8;
+}
+
+/**
+ * 为按 EXIF 方向绘制设置变换：之后以 drawImage(img, 0, 0, width, height) 绘制原始像素，
+ * width/height 为未旋转的绘制尺寸，画布尺寸需已按方向交换。
+ */
+export function applyExifOrientationTransform(
+  ctx: CanvasRenderingContext2D,
+  orientation: number,
+  width: number,
+  height: number,
+): void {
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7:
+      ctx.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, width);
+      break;
+    default:
+      break;
+  }
+}
@@ -20,6 +20,8 @@ export type FillArrangeAssignmentTile = {
   aspect: number;
   dist: number;
   area: number;
+  /** tile 在切分树阅读顺序中的位置（0 起） */
+  reading?: number;
 };
 
 export type FillArrangeAssignmentOptions = {
@@ -11,6 +11,11 @@ import type {
   Placement,
   CropRect,
   PhotoLayoutConstraint,
+  LayoutSpacing,
+  TitleBandEdge,
+  LayoutOrderMode,
+  LayoutOrdering,
+  TileRect,
 } from "@/types";
 import type { KeepRegion } from "@/types/vision";
 import { centerCropToAspect } from "@/utils/image";
@@ -36,18 +41,153 @@ export type FillArrangeOptions = {
   searchOptions?: Partial<LayoutSearchOptions>;
   qualityThresholds?: Partial<LayoutQualityThresholds>;
   allowCanvasResize?: boolean;
+  /** 相邻照片之间的留白（画布像素） */
+  gutter?: number;
+  /** 画布四周的留白（画布像素） */
+  outerMargin?: number;
+  /** 照片圆角半径（画布像素），写入 placement.tileRect.r */
+  cornerRadius?: number;
+  /** 为标题等文字预留的横条高度（画布像素），照片不进入该区域；缺省不预留 */
+  titleBandHeight?: number;
+  /** 预留横条贴画布上边还是下边，缺省为上边 */
+  titleBandEdge?: TitleBandEdge;
+  /** 形状遮罩：只在遮罩内切分 tile，画布尺寸不做调整 */
+  mask?: FillArrangeMask;
+  /** 照片排列顺序；缺省为 free */
+  ordering?: LayoutOrderMode;
+  /** 顺序相对裁剪质量的权重（0–MAX_ORDERING_WEIGHT），缺省为 1 */
+  orderingWeight?: number;
 };
 
+/**
+ * 遮罩覆盖率网格，拉伸覆盖整张画布；data[y * width + x] 为 0–255 的覆盖率。
+ */
+export type FillArrangeMask = {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+};
+
+export const DEFAULT_LAYOUT_SPACING: LayoutSpacing = { gutter: 0, outerMargin: 0, cornerRadius: 0 };
+export const MAX_LAYOUT_SPACING = 600;
+/** 标题横条高度上限；排版时还会限制在画布高度的一半以内 */
+export const MAX_TITLE_BAND_HEIGHT = 3000;
+
+/** 照片重要程度（星级），3 星为不偏好 */
+export const MIN_PHOTO_PRIORITY = 1;
+export const MAX_PHOTO_PRIORITY = 5;
+export const DEFAULT_PHOTO_PRIORITY = 3;
+
+export function clampPhotoPriority(priority?: number): number {
+  if (!Number.isFinite(priority)) return DEFAULT_PHOTO_PRIORITY;
+  return Math.round(clamp(priority as number, MIN_PHOTO_PRIORITY, MAX_PHOTO_PRIORITY));
+}
+
+/** 画质评分按 0.1 分档，差距小于一档的照片不区分；未分析的照片按中等画质处理 */
+export function qualityTieBucket(quality?: number): number {
+  if (!Number.isFinite(quality)) return 5;
+  return Math.round(clamp(quality as number, 0, 1) * 10);
+}
+
+/** 各照片画质分档相对平均值的偏差（以档为单位）；画质都相同时返回 null */
+function resolveQualityOffsets(photos: FillArrangePhotoInput[]): Map<string, number> | null {
+  const buckets = photos.map(photo => qualityTieBucket(photo.quality));
+  if (buckets.every(bucket => bucket === buckets[0])) return null;
+  const mean = buckets.reduce((sum, bucket) => sum + bucket, 0) / buckets.length;
+  return new Map(photos.map((photo, idx) => [photo.id, buckets[idx] - mean]));
+}
+
+/** 每高一星期望面积 ×√2：5 星是 3 星的 2 倍、1 星的 4 倍 */
+export function priorityAreaWeight(priority?: number): number {
+  return 2 ** ((clampPhotoPriority(priority) - DEFAULT_PHOTO_PRIORITY) / 2);
+}
+
 export type FillArrangePhotoInput = {
   id: string;
   crop: CropRect;
   imageWidth: number;
   imageHeight: number;
   detections?: KeepRegion[];
+  /** 重要程度（1–5 星），星级越高分到的 tile 越大；缺省为 3 星 */
+  priority?: number;
+  /** 按文件名 / 拍摄时间排列时使用；手动顺序即输入顺序 */
+  name?: string;
+  takenAt?: number;
+  /** 画质综合评分 0–1；星级相同时画质高的照片优先分到大 tile */
+  quality?: number;
+  /**
+   * 已锁定的照片：tileRect 与 crop 原样保留，重排时其 tile 作为固定障碍，
+   * 只切分剩余区域。
+   */
+  pinned?: { tileRect: TileRect; crop: CropRect };
 };
 
+export const LAYOUT_ORDER_MODES: LayoutOrderMode[] = ["free", "capture-date", "filename", "manual"];
+export const DEFAULT_LAYOUT_ORDERING: LayoutOrdering = { mode: "free", weight: 1 };
+export const MAX_ORDERING_WEIGHT = 4;
+
+/**
+ * 照片的期望阅读位置（0 起）。free 或照片少于 2 张时返回 null。
+ * 没有拍摄时间的照片排在最后，同值保持输入顺序。
+ */
+export function resolvePhotoSequence(
+  photos: Array<Pick<FillArrangePhotoInput, "id" | "name" | "takenAt">>,
+  mode: LayoutOrderMode = "free",
+): Map<string, number> | null {
+  if (mode === "free" || photos.length < 2) return null;
+  const indexed = photos.map((photo, index) => ({ photo, index }));
+  if (mode === "capture-date") {
+    indexed.sort((a, b) => {
+      const ta = a.photo.takenAt ?? Number.POSITIVE_INFINITY;
+      const tb = b.photo.takenAt ?? Number.POSITIVE_INFINITY;
+      return ta !== tb ? (ta < tb ? -1 : 1) : a.index - b.index;
+    });
+  } else if (mode === "filename") {
+    indexed.sort(
+      (a, b) =>
+        (a.photo.name ?? "").localeCompare(b.photo.name ?? "", undefined, {
+          numeric: true,
+          sensitivity: "base",
+        }) || a.index - b.index,
+    );
+  }
+  return new Map(indexed.map((item, rank) => [item.photo.id, rank]));
+}
+
+/** 锁定且已排版过（有 tileRect）的照片转为求解器的 pinned 输入 */
+export function resolvePinnedInput(photo: {
+  locked?: boolean;
+  tileRect?: TileRect;
+  crop: CropRect;
+  layoutCrop?: CropRect;
+}): FillArrangePhotoInput["pinned"] {
+  if (!photo.locked || !photo.tileRect) return undefined;
+  const crop = photo.layoutCrop ?? photo.crop;
+  return {
+    tileRect: { ...photo.tileRect },
+    crop: { x: crop.x, y: crop.y, width: crop.width, height: crop.height },
+  };
+}
+
 type FillRect = { x: number; y: number; w: number; h: number };
-type OrderedTile = { tile: FillRect; dist: number; leafId: string };
+type FillSpacing = LayoutSpacing & {
+  /** 分区求解时各边贴画布外的留白（贴锁定照片的一侧为半个间距）；缺省四边均为外边距 */
+  edges?: { left: number; top: number; right: number; bottom: number };
+  /** 有遮罩时把可见区域收缩到其中被遮罩覆盖的部分（分区求解的局部坐标） */
+  maskClip?: (rect: FillRect) => FillRect;
+};
+/**
+ * tile 为切分树的叶子（相邻 tile 共边、铺满画布）；
+ * visible 为扣除留白后照片实际可见的区域，裁剪评分与 placement 都以它为准。
+ */
+/** reading 为 tile 在切分树中的阅读顺序（先左后右、先上后下），用于按顺序排列照片 */
+type OrderedTile = {
+  tile: FillRect;
+  visible: FillRect;
+  dist: number;
+  leafId: string;
+  reading: number;
+};
 type SearchStage = "strict" | "relaxed" | "last_resort";
 type OrientationClass = PhotoLayoutConstraint["orientationClass"];
 type SplitAxis = "vertical" | "horizontal";
@@ -128,6 +268,8 @@ type Candidate = {
   quality: LayoutQualitySummary;
   diagnostics: CandidateDiagnostics;
   stage: SearchStage;
+  /** 顺序偏差按权重分档，比较候选时与星级面积误差同级 */
+  orderingBucket: number;
 };
 
 type PhotoFeature = {
@@ -135,6 +277,8 @@ type PhotoFeature = {
   strategy: ReturnType<typeof buildFillArrangePhotoStrategy>;
   constraint: PhotoLayoutConstraint;
   sourceArea: number;
+  /** 用户设置了星级时的期望面积权重；全部为默认星级时为 undefined，沿用自动估算 */
+  requestedWeight?: number;
 };
 
 type SolverContext = {
@@ -146,6 +290,14 @@ type SolverContext = {
   qualityThresholds: LayoutQualityThresholds;
   baseCanvasW: number;
   baseCanvasH: number;
+  spacing: FillSpacing;
+  /** 期望面积占比（仅在设置了星级时存在） */
+  requestedShareById: Map<string, number> | null;
+  /** 期望阅读位置（仅在设置了排列顺序时存在） */
+  sequenceById: Map<string, number> | null;
+  orderingWeight: number;
+  /** 画质分档相对平均值的偏差（仅在照片画质有差异时存在） */
+  qualityOffsetById: Map<string, number> | null;
   decisionCache: Map<string, CropDecision>;
 };
 
@@ -159,6 +311,14 @@ const CENTER_WEIGHT = 8;
 const CROP_AREA_EPSILON = 1e-6;
 const SOFT_CROP_THRESHOLD = 0.08;
 const TREE_ID_PREFIX = "layout";
+const PRIORITY_AREA_WEIGHT = 90;
+// 星级面积误差按档比较，避免微小差异压过裁剪质量
+const PRIORITY_AREA_ERROR_BUCKET = 0.15;
+/** 照片偏离期望位置每一格的代价（权重为 1 时） */
+const ORDERING_SLOT_WEIGHT = 40;
+const ORDERING_ERROR_BUCKET = 0.05;
+/** 画质偏离平均一档（0.1 分）时大/小 tile 的代价，远小于裁剪代价，只在其余条件相近时起作用 */
+const QUALITY_AREA_WEIGHT = 30;
 
 const DEFAULT_SEARCH_OPTIONS: LayoutSearchOptions = {
   mode: "standard",
@@ -298,6 +458,21 @@ function emptyMetrics(canvasAdjustmentsTried: number): LayoutMetrics {
   };
 }
 
+function emptyQualitySummary(): LayoutQualitySummary {
+  return {
+    worstCropLoss: 0,
+    averageCropLoss: 0,
+    sizeWeightedAverageCropLoss: 0,
+    photosOverSoftCropThreshold: 0,
+    photosOverCropThreshold: 0,
+    photosCutRequiredRegions: 0,
+    orientationViolations: 0,
+    canvasDeltaRatio: 0,
+    softCropThreshold: SOFT_CROP_THRESHOLD,
+    accepted: true,
+  };
+}
+
 function rectKey(rect: FillRect): string {
   return `${rect.x},${rect.y},${rect.w},${rect.h}`;
 }
@@ -557,6 +732,55 @@ function safeAspect(w: number, h: number): number {
   return Math.max(1e-6, w / Math.max(1e-6, h));
 }
 
+/** 标题横条的画布矩形；高度限制在画布高度的一半以内 */
+function resolveTitleBand(
+  options: FillArrangeOptions,
+  canvasW: number,
+  canvasH: number,
+): FillRect | null {
+  const raw = Number.isFinite(options.titleBandHeight) ? (options.titleBandHeight as number) : 0;
+  const h = Math.round(clamp(raw, 0, canvasH / 2));
+  if (h < 1) return null;
+  return { x: 0, y: options.titleBandEdge === "bottom" ? canvasH - h : 0, w: canvasW, h };
+}
+
+function resolveSpacing(
+  options: FillArrangeOptions,
+  canvasW: number,
+  canvasH: number,
+): FillSpacing {
+  // 留白过大时 tile 会被挤没：限制在短边的 1/4 以内
+  const limit = Math.min(canvasW, canvasH) / 4;
+  const value = (v?: number) => clamp(Number.isFinite(v) ? (v as number) : 0, 0, limit);
+  return {
+    gutter: value(options.gutter),
+    outerMargin: value(options.outerMargin),
+    cornerRadius: Math.max(0, Number.isFinite(options.cornerRadius) ? (options.cornerRadius as number) : 0),
+  };
+}
+
+/** 贴画布边的一侧扣外边距，与其他 tile 相邻的一侧扣半个间距 */
+function insetTileForSpacing(
+  tile: FillRect,
+  canvasW: number,
+  canvasH: number,
+  spacing: FillSpacing,
+): FillRect {
+  if (spacing.gutter <= 0 && spacing.outerMargin <= 0) return tile;
+  const edgeEpsilon = 0.5;
+  const half = spacing.gutter / 2;
+  const edges = spacing.edges;
+  const left = tile.x <= edgeEpsilon ? (edges?.left ?? spacing.outerMargin) : half;
+  const top = tile.y <= edgeEpsilon ? (edges?.top ?? spacing.outerMargin) : half;
+  const right =
+    tile.x + tile.w >= canvasW - edgeEpsilon ? (edges?.right ?? spacing.outerMargin) : half;
+  const bottom =
+    tile.y + tile.h >= canvasH - edgeEpsilon ? (edges?.bottom ?? spacing.outerMargin) : half;
+  const w = Math.max(1, tile.w - left - right);
+  const h = Math.max(1, tile.h - top - bottom);
+  return { x: tile.x + Math.min(left, tile.w - w), y: tile.y + Math.min(top, tile.h - h), w, h };
+}
+
 function orientationFromAspect(aspect: number): OrientationClass {
   if (aspect > 1.08) return "landscape";
   if (aspect < 0.92) return "portrait";
@@ -685,6 +909,15 @@ function partitionRectToTiles(
   return splitRec(root, count);
 }
 
+/** tile 面积权重的自动估算：原图越大、越靠前、越难裁，分到的 tile 越大 */
+function estimateTargetWeight(item: PhotoFeature, averageArea: number): number {
+  return (
+    clamp(item.sourceArea / Math.max(1, averageArea), 0.65, 2.8) +
+    item.constraint.sizeRankWeight * 0.55 +
+    (item.constraint.isHighRisk ? 0.25 : 0)
+  );
+}
+
 function buildTileProfileFromPhotos(
   photoFeatures: PhotoFeature[],
   priorityPhotoIds: string[] = [],
@@ -694,6 +927,9 @@ function buildTileProfileFromPhotos(
     const aPriority = prioritySet.has(a.photo.id) ? 1 : 0;
     const bPriority = prioritySet.has(b.photo.id) ? 1 : 0;
     if (aPriority !== bPriority) return bPriority - aPriority;
+    if ((a.requestedWeight ?? 1) !== (b.requestedWeight ?? 1)) {
+      return (b.requestedWeight ?? 1) - (a.requestedWeight ?? 1);
+    }
     if (a.constraint.isHighRisk !== b.constraint.isHighRisk) {
       return a.constraint.isHighRisk ? -1 : 1;
     }
@@ -797,13 +1033,10 @@ function buildTileProfileFromPhotos(
   for (const item of sorted) {
     const orientation = item.constraint.orientationClass;
     if (remaining[orientation] > 0) {
-      const areaWeight = clamp(item.sourceArea / Math.max(1, averageArea), 0.65, 2.8);
       const priorityWeight = prioritySet.has(item.photo.id) ? 0.45 : 0;
-      const riskWeight = item.constraint.isHighRisk ? 0.25 : 0;
-      const sizeWeight = item.constraint.sizeRankWeight * 0.55;
       targets.push({
         orientation,
-        weight: areaWeight + priorityWeight + riskWeight + sizeWeight,
+        weight: item.requestedWeight ?? estimateTargetWeight(item, averageArea) + priorityWeight,
       });
       remaining[orientation]--;
     }
@@ -989,43 +1222,16 @@ function reserveTilesForPriorityPhotos(
   }
 
   const prioritySet = new Set(priorityPhotoIds);
+  const averageArea =
+    photoFeatures.reduce((sum, feature) => sum + feature.sourceArea, 0) /
+    Math.max(1, photoFeatures.length);
+  const toTarget = (item: PhotoFeature) => ({
+    orientation: item.constraint.orientationClass,
+    weight: item.requestedWeight ?? estimateTargetWeight(item, averageArea),
+  });
   const reorderedTargets = [
-    ...photoFeatures
-      .filter(item => prioritySet.has(item.photo.id))
-      .map(item => ({
-        orientation: item.constraint.orientationClass,
-        weight:
-          clamp(
-            item.sourceArea /
-              Math.max(
-                1,
-                photoFeatures.reduce((sum, feature) => sum + feature.sourceArea, 0) /
-                  Math.max(1, photoFeatures.length),
-              ),
-            0.65,
-            2.8,
-          ) +
-          item.constraint.sizeRankWeight * 0.55 +
-          (item.constraint.isHighRisk ? 0.25 : 0),
-      })),
-    ...photoFeatures
-      .filter(item => !prioritySet.has(item.photo.id))
-      .map(item => ({
-        orientation: item.constraint.orientationClass,
-        weight:
-          clamp(
-            item.sourceArea /
-              Math.max(
-                1,
-                photoFeatures.reduce((sum, feature) => sum + feature.sourceArea, 0) /
-                  Math.max(1, photoFeatures.length),
-              ),
-            0.65,
-            2.8,
-          ) +
-          item.constraint.sizeRankWeight * 0.55 +
-          (item.constraint.isHighRisk ? 0.25 : 0),
-      })),
+    ...photoFeatures.filter(item => prioritySet.has(item.photo.id)).map(toTarget),
+    ...photoFeatures.filter(item => !prioritySet.has(item.photo.id)).map(toTarget),
   ];
   return buildTilesFromProfile(
     count,
@@ -1166,6 +1372,7 @@ function scoreCropDecision(
   );
 }
 
+/** tile.aspect 为照片实际可见区域的宽高比（已扣除留白、被遮罩边界裁掉的部分） */
 function buildCropDecision(
   photo: FillArrangePhotoInput,
   tile: FillArrangeAssignmentTile,
@@ -1564,6 +1771,7 @@ function createTileOrder(
   tiles: FillRect[],
   canvasW: number,
   canvasH: number,
+  spacing: FillSpacing,
   leafOrder?: string[],
 ): OrderedTile[] {
   const canvasCx = canvasW / 2;
@@ -1574,10 +1782,13 @@ function createTileOrder(
       const tileCx = tile.x + tile.w / 2;
       const tileCy = tile.y + tile.h / 2;
       const dist = Math.sqrt((tileCx - canvasCx) ** 2 + (tileCy - canvasCy) ** 2);
+      const inset = insetTileForSpacing(tile, canvasW, canvasH, spacing);
       return {
         tile,
+        visible: spacing.maskClip ? spacing.maskClip(inset) : inset,
         dist: dist / maxDist,
         leafId: leafOrder?.[idx] ?? `${TREE_ID_PREFIX}-leaf-${idx}`,
+        reading: idx,
       };
     })
     .sort((a, b) => a.dist - b.dist);
@@ -1587,8 +1798,9 @@ function createTileOrderFromLayout(
   layout: TileLayoutCandidate,
   canvasW: number,
   canvasH: number,
+  spacing: FillSpacing,
 ): OrderedTile[] {
-  return createTileOrder(layout.tiles, canvasW, canvasH, layout.leafOrder);
+  return createTileOrder(layout.tiles, canvasW, canvasH, spacing, layout.leafOrder);
 }
 
 function findSplitPathToLeaf(
@@ -1788,6 +2000,51 @@ function pairCostByStage(
   return decision.totalCost + softPenalty + hardPenalty * 2 + aspectPenalty + mismatchPenalty;
 }
 
+/** 实际面积占比与星级期望占比的偏差（对数），未设置星级时为 0 */
+function priorityAreaPenalty(
+  ctx: SolverContext,
+  photoId: string,
+  tileArea: number,
+  totalArea: number,
+): number {
+  const requested = ctx.requestedShareById?.get(photoId);
+  if (requested === undefined) return 0;
+  const achieved = tileArea / Math.max(1e-6, totalArea);
+  return Math.abs(Math.log(Math.max(1e-6, achieved) / Math.max(1e-6, requested))) * PRIORITY_AREA_WEIGHT;
+}
+
+/** 照片所在 tile 的阅读位置与期望位置相差的格数，未设置排列顺序时为 0 */
+function sequencePenalty(ctx: SolverContext, photoId: string, reading?: number): number {
+  const expected = ctx.sequenceById?.get(photoId);
+  if (expected === undefined || reading === undefined) return 0;
+  return Math.abs(expected - reading) * ORDERING_SLOT_WEIGHT * ctx.orderingWeight;
+}
+
+/** 画质高于平均的照片在大 tile 上得到奖励、低于平均的在大 tile 上受罚 */
+function qualityAreaPenalty(
+  ctx: SolverContext,
+  photoId: string,
+  tileArea: number,
+  totalArea: number,
+): number {
+  const offset = ctx.qualityOffsetById?.get(photoId);
+  if (!offset) return 0;
+  const relativeArea = (tileArea / Math.max(1e-6, totalArea)) * ctx.photos.length;
+  return -offset * Math.log(Math.max(1e-6, relativeArea)) * QUALITY_AREA_WEIGHT;
+}
+
+/** 兜底布局不做匹配：设置了排列顺序时按阅读顺序依次放照片，否则按输入顺序 */
+function fallbackTileAssignment(ctx: SolverContext, tileOrder: OrderedTile[]): number[] {
+  const sequenceById = ctx.sequenceById;
+  if (!sequenceById || ctx.orderingWeight <= 0 || tileOrder.length !== ctx.photos.length) {
+    return tileOrder.map((_, idx) => idx);
+  }
+  const photoIndexByRank = new Map(
+    ctx.photos.map((photo, idx) => [sequenceById.get(photo.id) ?? idx, idx]),
+  );
+  return tileOrder.map((item, idx) => photoIndexByRank.get(item.reading) ?? idx);
+}
+
 function buildCandidateDiagnostics(
   decisions: CropDecision[],
   tileOrder: OrderedTile[],
@@ -1824,6 +2081,8 @@ function summarizeLayoutQuality(
   tileToPhotoIndex: number[],
   photos: FillArrangePhotoInput[],
   constraintById: Map<string, PhotoLayoutConstraint>,
+  requestedShareById: Map<string, number> | null,
+  sequenceById: Map<string, number> | null,
   thresholds: LayoutQualityThresholds,
   baseCanvasW: number,
   baseCanvasH: number,
@@ -1864,6 +2123,12 @@ function summarizeLayoutQuality(
     decision => decision.cutRequiredRegions > 0,
   ).length;
   const canvasDelta = canvasDeltaRatio(baseCanvasW, baseCanvasH, canvasW, canvasH);
+  const priorityMatch = requestedShareById
+    ? summarizePriorityAreaMatch(tileOrder, tileToPhotoIndex, photos, requestedShareById)
+    : null;
+  const orderingError = sequenceById
+    ? summarizeOrderingError(tileOrder, tileToPhotoIndex, photos, sequenceById)
+    : undefined;
   let accepted = true;
   let reason = "";
   if (thresholds.requireKeepRegionsFullyVisible && photosCutRequiredRegions > 0) {
@@ -1894,16 +2159,72 @@ function summarizeLayoutQuality(
       worstEntry != null ? photos[tileToPhotoIndex[worstEntry.idx]]?.id : undefined,
     worstCropTileAspect:
       worstEntry != null
-        ? safeAspect(tileOrder[worstEntry.idx].tile.w, tileOrder[worstEntry.idx].tile.h)
+        ? safeAspect(tileOrder[worstEntry.idx].visible.w, tileOrder[worstEntry.idx].visible.h)
         : undefined,
+    ...priorityMatch,
+    ...(orderingError !== undefined ? { orderingError } : {}),
     accepted,
     reason: reason || undefined,
   };
 }
 
+/** 各照片阅读位置与期望位置之差的平均值，再除以照片数 */
+function summarizeOrderingError(
+  tileOrder: OrderedTile[],
+  tileToPhotoIndex: number[],
+  photos: FillArrangePhotoInput[],
+  sequenceById: Map<string, number>,
+): number {
+  let sum = 0;
+  tileOrder.forEach((item, idx) => {
+    const expected = sequenceById.get(photos[tileToPhotoIndex[idx]]?.id ?? "");
+    if (expected !== undefined) sum += Math.abs(expected - item.reading);
+  });
+  const n = Math.max(1, tileOrder.length);
+  return sum / n / n;
+}
+
+/** 各照片实际面积占比相对星级期望占比的误差 |实际/期望 − 1|：平均值与最大值 */
+function summarizePriorityAreaMatch(
+  tileOrder: OrderedTile[],
+  tileToPhotoIndex: number[],
+  photos: FillArrangePhotoInput[],
+  requestedShareById: Map<string, number>,
+): Pick<LayoutQualitySummary, "priorityAreaError" | "worstPriorityAreaError" | "worstPriorityPhotoId"> {
+  const totalArea = tileOrder.reduce((sum, item) => sum + item.visible.w * item.visible.h, 0);
+  let errorSum = 0;
+  let worst: { error: number; photoId: string } | null = null;
+  tileOrder.forEach((item, idx) => {
+    const photoId = photos[tileToPhotoIndex[idx]]?.id;
+    const requested = photoId ? requestedShareById.get(photoId) : undefined;
+    if (!photoId || requested === undefined) return;
+    const achieved = (item.visible.w * item.visible.h) / Math.max(1e-6, totalArea);
+    const error = Math.abs(achieved / Math.max(1e-6, requested) - 1);
+    errorSum += error;
+    if (!worst || error > worst.error) worst = { error, photoId };
+  });
+  const resolvedWorst = worst as { error: number; photoId: string } | null;
+  return {
+    priorityAreaError: errorSum / Math.max(1, tileOrder.length),
+    worstPriorityAreaError: resolvedWorst?.error ?? 0,
+    worstPriorityPhotoId: resolvedWorst?.photoId,
+  };
+}
+
+function priorityErrorBucket(quality: LayoutQualitySummary): number {
+  return Math.round((quality.priorityAreaError ?? 0) / PRIORITY_AREA_ERROR_BUCKET);
+}
+
 function compareCandidate(a: Candidate, b: Candidate): number {
+  if (a.quality.photosCutRequiredRegions !== b.quality.photosCutRequiredRegions) {
+    return a.quality.photosCutRequiredRegions - b.quality.photosCutRequiredRegions;
+  }
+  // 设置了星级时，面积比例明显更贴近期望的布局优先
+  const priorityDelta = priorityErrorBucket(a.quality) - priorityErrorBucket(b.quality);
+  if (priorityDelta !== 0) return priorityDelta;
+  // 设置了排列顺序时，顺序明显更接近的布局优先；权重越大分档越细
+  if (a.orderingBucket !== b.orderingBucket) return a.orderingBucket - b.orderingBucket;
   const compareFields: Array<keyof LayoutQualitySummary> = [
-    "photosCutRequiredRegions",
     "worstCropLoss",
     "photosOverSoftCropThreshold",
     "photosOverCropThreshold",
@@ -1932,12 +2253,14 @@ function buildPlacements(
   tileOrder: OrderedTile[],
   tileToPhotoIndex: number[],
   cropDecisions: CropDecision[],
+  spacing: FillSpacing,
 ): Placement[] {
-  return tileOrder.map(({ tile }, tileIdx) => {
+  return tileOrder.map(({ visible: tile }, tileIdx) => {
     const photo = photos[tileToPhotoIndex[tileIdx]];
     const decision = cropDecisions[tileIdx];
     const crop = decision?.crop ?? photo.crop;
     const scale = Math.max(tile.w / crop.width, tile.h / crop.height);
+    const radius = Math.min(spacing.cornerRadius, tile.w / 2, tile.h / 2);
     return {
       id: photo.id,
       cx: tile.x + tile.w / 2,
@@ -1945,7 +2268,10 @@ function buildPlacements(
       scale,
       rotation: 0,
       crop,
-      tileRect: { x: tile.x, y: tile.y, w: tile.w, h: tile.h },
+      tileRect:
+        radius > 0
+          ? { x: tile.x, y: tile.y, w: tile.w, h: tile.h, r: radius }
+          : { x: tile.x, y: tile.y, w: tile.w, h: tile.h },
     };
   });
 }
@@ -1957,7 +2283,11 @@ function validatePlacements(
   ch: number,
 ): boolean {
   return validateFillArrangePlacements(
-    tileOrder.map((item, idx) => ({ tile: item.tile, placement: placements[idx] })),
+    tileOrder.map((item, idx) => ({
+      tile: item.tile,
+      visible: item.visible,
+      placement: placements[idx],
+    })),
     cw,
     ch,
     { coverMode: true },
@@ -1980,9 +2310,9 @@ function buildCandidateFromAssignment(
       ctx,
       photo.photo.id,
       {
-        aspect: orderedTile.tile.w / Math.max(1, orderedTile.tile.h),
+        aspect: orderedTile.visible.w / Math.max(1, orderedTile.visible.h),
         dist: orderedTile.dist,
-        area: orderedTile.tile.w * orderedTile.tile.h,
+        area: orderedTile.visible.w * orderedTile.visible.h,
       },
       stage,
     );
@@ -1990,11 +2320,25 @@ function buildCandidateFromAssignment(
   const orientationViolations = cropDecisions.filter(
     decision => decision.losses.orientationViolation,
   ).length;
+  const totalVisibleArea = tileOrder.reduce((sum, item) => sum + item.visible.w * item.visible.h, 0);
   const totalCost = cropDecisions.reduce((sum, decision, idx) => {
     const photo = ctx.photoFeatures[tileToPhotoIndex[idx]];
-    return sum + pairCostByStage(decision, photo.constraint, stage);
+    const visible = tileOrder[idx].visible;
+    return (
+      sum +
+      pairCostByStage(decision, photo.constraint, stage) +
+      priorityAreaPenalty(ctx, photo.photo.id, visible.w * visible.h, totalVisibleArea) +
+      qualityAreaPenalty(ctx, photo.photo.id, visible.w * visible.h, totalVisibleArea) +
+      sequencePenalty(ctx, photo.photo.id, tileOrder[idx].reading)
+    );
   }, 0);
-  const placements = buildPlacements(ctx.photos, tileOrder, tileToPhotoIndex, cropDecisions);
+  const placements = buildPlacements(
+    ctx.photos,
+    tileOrder,
+    tileToPhotoIndex,
+    cropDecisions,
+    ctx.spacing,
+  );
   if (!validatePlacements(tileOrder, placements, cw, ch)) return null;
 
   const quality = summarizeLayoutQuality(
@@ -2003,6 +2347,8 @@ function buildCandidateFromAssignment(
     tileToPhotoIndex,
     ctx.photos,
     ctx.constraintById,
+    ctx.requestedShareById,
+    ctx.sequenceById,
     ctx.qualityThresholds,
     ctx.baseCanvasW,
     ctx.baseCanvasH,
@@ -2030,6 +2376,9 @@ function buildCandidateFromAssignment(
     quality,
     diagnostics,
     stage,
+    orderingBucket: Math.round(
+      ((quality.orderingError ?? 0) * ctx.orderingWeight) / ORDERING_ERROR_BUCKET,
+    ),
   };
 }
 
@@ -2045,7 +2394,7 @@ function solveAssignmentForLayout(
   let evaluatedPairs = 0;
   let cacheHits = 0;
   let cacheMisses = 0;
-  const tileOrder = createTileOrderFromLayout(layout, cw, ch);
+  const tileOrder = createTileOrderFromLayout(layout, cw, ch, ctx.spacing);
   const assignmentPhotos: FillArrangeAssignmentPhoto[] = ctx.photoFeatures.map(item => ({
     id: item.photo.id,
     sourceAspect: item.strategy.sourceAspect,
@@ -2053,11 +2402,13 @@ function solveAssignmentForLayout(
     orientation: item.strategy.orientation,
     isExtreme: item.strategy.isExtreme,
   }));
-  const assignmentTiles: FillArrangeAssignmentTile[] = tileOrder.map(({ tile, dist }) => ({
-    aspect: tile.w / Math.max(1, tile.h),
+  const assignmentTiles: FillArrangeAssignmentTile[] = tileOrder.map(({ visible, dist, reading }) => ({
+    aspect: visible.w / Math.max(1, visible.h),
     dist,
-    area: tile.w * tile.h,
+    area: visible.w * visible.h,
+    reading,
   }));
+  const totalTileArea = assignmentTiles.reduce((sum, tile) => sum + tile.area, 0);
   const trackedDecisionFor = (photoId: string, tile: FillArrangeAssignmentTile) => {
     evaluatedPairs++;
     const key = decisionCacheKey(photoId, tile, stage);
@@ -2084,7 +2435,12 @@ function solveAssignmentForLayout(
       evaluatePair: (photoStrategy, tile) => {
         const decision = trackedDecisionFor(photoStrategy.id, tile);
         const constraint = ctx.constraintById.get(photoStrategy.id)!;
-        return pairCostByStage(decision, constraint, stage);
+        return (
+          pairCostByStage(decision, constraint, stage) +
+          priorityAreaPenalty(ctx, photoStrategy.id, tile.area, totalTileArea) +
+          qualityAreaPenalty(ctx, photoStrategy.id, tile.area, totalTileArea) +
+          sequencePenalty(ctx, photoStrategy.id, tile.reading)
+        );
       },
     });
   } catch {
@@ -2388,12 +2744,19 @@ function buildTileSetsForStage(
   return sets;
 }
 
-export function fillArrangePhotosShared(
+type SolvedFillArrange = {
+  result: FillArrangeResult;
+  /** 与 result.placements 一一对应的切分 tile（未扣除留白） */
+  tiles: FillRect[];
+};
+
+function solveFillArrange(
   photos: FillArrangePhotoInput[],
   canvasW: number,
   canvasH: number,
-  options: FillArrangeOptions = {},
-): FillArrangeResult {
+  options: FillArrangeOptions,
+  spacing: FillSpacing,
+): SolvedFillArrange {
   const n = photos.length;
   const searchOptions = resolveSearchOptions(
     options.searchOptions,
@@ -2403,31 +2766,13 @@ export function fillArrangePhotosShared(
   const qualityThresholds = resolveQualityThresholds(options.qualityThresholds);
   if (n === 0) {
     return {
-      placements: [],
-      canvasW,
-      canvasH,
-      metrics: {
-        evaluatedPairs: 0,
-        cacheHits: 0,
-        cacheMisses: 0,
-        orientationViolations: 0,
-        canvasAdjustmentsTried: 1,
-        elasticTrials: 0,
-        elasticAccepted: 0,
-        localRetileAccepted: 0,
-        continuousRefinements: 0,
-      },
-      quality: {
-        worstCropLoss: 0,
-        averageCropLoss: 0,
-        sizeWeightedAverageCropLoss: 0,
-        photosOverSoftCropThreshold: 0,
-        photosOverCropThreshold: 0,
-        photosCutRequiredRegions: 0,
-        orientationViolations: 0,
-        canvasDeltaRatio: 0,
-        softCropThreshold: SOFT_CROP_THRESHOLD,
-        accepted: true,
+      tiles: [],
+      result: {
+        placements: [],
+        canvasW,
+        canvasH,
+        metrics: emptyMetrics(1),
+        quality: emptyQualitySummary(),
       },
     };
   }
@@ -2444,7 +2789,7 @@ export function fillArrangePhotosShared(
     photos.length,
   );
 
-  const photoFeatures = photos.map(photo => ({
+  const photoFeatures: PhotoFeature[] = photos.map(photo => ({
     photo,
     strategy: buildFillArrangePhotoStrategy(photo.imageWidth, photo.imageHeight),
     constraint: buildPhotoLayoutConstraint({
@@ -2455,8 +2800,23 @@ export function fillArrangePhotosShared(
     }),
     sourceArea: photo.crop.width * photo.crop.height,
   }));
+  const hasPriority = photos.some(
+    photo => clampPhotoPriority(photo.priority) !== DEFAULT_PHOTO_PRIORITY,
+  );
+  if (hasPriority) {
+    for (const item of photoFeatures) {
+      item.requestedWeight = priorityAreaWeight(item.photo.priority);
+    }
+  }
+  const requestedWeightTotal = photoFeatures.reduce(
+    (sum, item) => sum + (item.requestedWeight ?? 0),
+    0,
+  );
   [...photoFeatures]
-    .sort((a, b) => b.sourceArea - a.sourceArea)
+    .sort(
+      (a, b) =>
+        (b.requestedWeight ?? 0) - (a.requestedWeight ?? 0) || b.sourceArea - a.sourceArea,
+    )
     .forEach((item, rank) => {
       item.constraint.sizeRankWeight = 1 - rank / Math.max(1, photoFeatures.length - 1);
       item.constraint.softCropBudget = Math.min(
@@ -2465,6 +2825,13 @@ export function fillArrangePhotosShared(
       );
     });
 
+  const orderingWeight = clamp(
+    Number.isFinite(options.orderingWeight)
+      ? (options.orderingWeight as number)
+      : DEFAULT_LAYOUT_ORDERING.weight,
+    0,
+    MAX_ORDERING_WEIGHT,
+  );
   const ctx: SolverContext = {
     photos,
     photoFeatures,
@@ -2474,6 +2841,19 @@ export function fillArrangePhotosShared(
     qualityThresholds,
     baseCanvasW: canvasW,
     baseCanvasH: canvasH,
+    spacing,
+    requestedShareById: hasPriority
+      ? new Map(
+          photoFeatures.map(item => [
+            item.photo.id,
+            (item.requestedWeight ?? 0) / Math.max(1e-6, requestedWeightTotal),
+          ]),
+        )
+      : null,
+    // 权重为 0 时只统计顺序误差，不影响求解
+    sequenceById: resolvePhotoSequence(photos, options.ordering),
+    orderingWeight,
+    qualityOffsetById: resolveQualityOffsets(photos),
     decisionCache: new Map<string, CropDecision>(),
   };
 
@@ -2652,13 +3032,14 @@ export function fillArrangePhotosShared(
         1,
       ),
     );
+  const fallbackTileOrder = createTileOrderFromLayout(fallbackLayout, canvasW, canvasH, ctx.spacing);
   const resolvedCandidate =
     candidate ??
     buildCandidateFromAssignment(
       ctx,
       fallbackLayout.tree,
-      createTileOrderFromLayout(fallbackLayout, canvasW, canvasH),
-      photos.map((_, idx) => idx),
+      fallbackTileOrder,
+      fallbackTileAssignment(ctx, fallbackTileOrder),
       canvasW,
       canvasH,
       searchOptions.mode === "standard" ? "relaxed" : "last_resort",
@@ -2680,18 +3061,682 @@ export function fillArrangePhotosShared(
   }
 
   return {
-    placements: buildPlacements(
-      photos,
-      resolvedCandidate.tileOrder,
-      resolvedCandidate.tileToPhotoIndex,
-      resolvedCandidate.cropDecisions,
-    ),
-    canvasW: resolvedCandidate.cw,
-    canvasH: resolvedCandidate.ch,
-    metrics: {
-      ...resolvedCandidate.metrics,
-      orientationViolations: resolvedCandidate.orientationViolations,
+    tiles: resolvedCandidate.tileOrder.map(item => item.tile),
+    result: {
+      placements: buildPlacements(
+        photos,
+        resolvedCandidate.tileOrder,
+        resolvedCandidate.tileToPhotoIndex,
+        resolvedCandidate.cropDecisions,
+        ctx.spacing,
+      ),
+      canvasW: resolvedCandidate.cw,
+      canvasH: resolvedCandidate.ch,
+      metrics: {
+        ...resolvedCandidate.metrics,
+        orientationViolations: resolvedCandidate.orientationViolations,
+      },
+      quality: resolvedCandidate.quality,
     },
-    quality: resolvedCandidate.quality,
   };
 }
+
+type PinnedTile = {
+  photo: FillArrangePhotoInput & { pinned: NonNullable<FillArrangePhotoInput["pinned"]> };
+  /** 还原出的切分 tile（含留白），作为固定障碍 */
+  obstacle: FillRect;
+};
+
+/**
+ * tileRect 是扣除留白后的可见区域：贴画布边的一侧补回外边距，其余补回半个间距，
+ * 取整后得到锁定照片占用的 tile。
+ */
+function restorePinnedObstacle(
+  rect: TileRect,
+  canvasW: number,
+  canvasH: number,
+  spacing: FillSpacing,
+): FillRect {
+  const edgeEpsilon = 0.5;
+  const half = spacing.gutter / 2;
+  const right = rect.x + rect.w;
+  const bottom = rect.y + rect.h;
+  const x0 = Math.abs(rect.x - spacing.outerMargin) <= edgeEpsilon ? 0 : rect.x - half;
+  const y0 = Math.abs(rect.y - spacing.outerMargin) <= edgeEpsilon ? 0 : rect.y - half;
+  const x1 =
+    Math.abs(canvasW - spacing.outerMargin - right) <= edgeEpsilon ? canvasW : right + half;
+  const y1 =
+    Math.abs(canvasH - spacing.outerMargin - bottom) <= edgeEpsilon ? canvasH : bottom + half;
+  const x = clamp(Math.round(x0), 0, canvasW);
+  const y = clamp(Math.round(y0), 0, canvasH);
+  return {
+    x,
+    y,
+    w: clamp(Math.round(x1), 0, canvasW) - x,
+    h: clamp(Math.round(y1), 0, canvasH) - y,
+  };
+}
+
+/** 超出画布、过小或与先前锁定照片重叠的锁定无法保留，按普通照片参与重排 */
+function resolvePinnedTiles(
+  photos: FillArrangePhotoInput[],
+  canvasW: number,
+  canvasH: number,
+  spacing: FillSpacing,
+): PinnedTile[] {
+  const pinned: PinnedTile[] = [];
+  for (const photo of photos) {
+    const rect = photo.pinned?.tileRect;
+    if (!photo.pinned || !rect) continue;
+    if (![rect.x, rect.y, rect.w, rect.h].every(Number.isFinite)) continue;
+    if (rect.x < -0.5 || rect.y < -0.5) continue;
+    if (rect.x + rect.w > canvasW + 0.5 || rect.y + rect.h > canvasH + 0.5) continue;
+    const obstacle = restorePinnedObstacle(rect, canvasW, canvasH, spacing);
+    if (obstacle.w < 1 || obstacle.h < 1) continue;
+    if (pinned.some(item => rectsOverlap(item.obstacle, obstacle))) continue;
+    pinned.push({ photo: photo as PinnedTile["photo"], obstacle });
+  }
+  return pinned;
+}
+
+/** 求解器输入中全部锁定照片的 tileRect，用于校验结果 */
+function collectPinnedTiles(photos: FillArrangePhotoInput[]): Map<string, TileRect> {
+  const tiles = new Map<string, TileRect>();
+  for (const photo of photos) {
+    if (photo.pinned?.tileRect) tiles.set(photo.id, photo.pinned.tileRect);
+  }
+  return tiles;
+}
+
+/** 输入中带锁定、但没能作为锁定保留的照片 */
+function collectDroppedPinIds(photos: FillArrangePhotoInput[], pinned: PinnedTile[]): string[] {
+  const kept = new Set(pinned.map(item => item.photo.id));
+  return photos.filter(photo => photo.pinned?.tileRect && !kept.has(photo.id)).map(photo => photo.id);
+}
+
+function rectsOverlap(a: FillRect, b: FillRect): boolean {
+  return a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h;
+}
+
+/**
+ * 沿 x 方向按障碍边界切成竖条，每条内扣除障碍得到空闲区间，
+ * 相邻竖条中完全相同的区间合并为一个矩形。
+ */
+function decomposeFreeAreaByColumns(
+  canvasW: number,
+  canvasH: number,
+  obstacles: FillRect[],
+): FillRect[] {
+  const xs = [
+    ...new Set([0, canvasW, ...obstacles.flatMap(o => [o.x, o.x + o.w])]),
+  ].sort((a, b) => a - b);
+  const done: FillRect[] = [];
+  let open: FillRect[] = [];
+  for (let i = 0; i + 1 < xs.length; i++) {
+    const x0 = xs[i];
+    const x1 = xs[i + 1];
+    const blocked = obstacles
+      .filter(o => o.x < x1 && o.x + o.w > x0)
+      .map(o => [o.y, o.y + o.h] as const)
+      .sort((a, b) => a[0] - b[0]);
+    const free: Array<[number, number]> = [];
+    let cursor = 0;
+    for (const [y0, y1] of blocked) {
+      if (y0 > cursor) free.push([cursor, y0]);
+      cursor = Math.max(cursor, y1);
+    }
+    if (cursor < canvasH) free.push([cursor, canvasH]);
+
+    const next: FillRect[] = [];
+    for (const [y0, y1] of free) {
+      const carried = open.find(r => r.y === y0 && r.y + r.h === y1);
+      if (carried) {
+        carried.w = x1 - carried.x;
+        next.push(carried);
+      } else {
+        next.push({ x: x0, y: y0, w: x1 - x0, h: y1 - y0 });
+      }
+    }
+    done.push(...open.filter(r => !next.includes(r)));
+    open = next;
+  }
+  return [...done, ...open];
+}
+
+function transposeRect(rect: FillRect): FillRect {
+  return { x: rect.y, y: rect.x, w: rect.h, h: rect.w };
+}
+
+/** 锁定 tile 之外的空闲区域拆成互不重叠的矩形，横竖两种拆法取矩形更少的一种 */
+function decomposeFreeArea(canvasW: number, canvasH: number, obstacles: FillRect[]): FillRect[] {
+  const byColumns = decomposeFreeAreaByColumns(canvasW, canvasH, obstacles);
+  const byRows = decomposeFreeAreaByColumns(
+    canvasH,
+    canvasW,
+    obstacles.map(transposeRect),
+  ).map(transposeRect);
+  return byRows.length < byColumns.length ? byRows : byColumns;
+}
+
+/** 按面积最大余数法给每个空闲区域分配照片数（每个区域至少一张） */
+function allocateRegionCounts(regions: FillRect[], photoCount: number): number[] | null {
+  if (photoCount < regions.length) return null;
+  const totalArea = regions.reduce((sum, r) => sum + r.w * r.h, 0);
+  const extra = photoCount - regions.length;
+  const shares = regions.map(r => (extra * r.w * r.h) / Math.max(1, totalArea));
+  const counts = shares.map(share => 1 + Math.floor(share));
+  let remaining = photoCount - counts.reduce((sum, c) => sum + c, 0);
+  const byRemainder = shares
+    .map((share, idx) => ({ idx, rest: share - Math.floor(share) }))
+    .sort((a, b) => b.rest - a.rest);
+  for (let i = 0; remaining > 0; i = (i + 1) % byRemainder.length, remaining--) {
+    counts[byRemainder[i].idx]++;
+  }
+  return counts;
+}
+
+function mergeRegionQuality(
+  parts: Array<{ quality: LayoutQualitySummary; count: number }>,
+): LayoutQualitySummary {
+  const total = parts.reduce((sum, part) => sum + part.count, 0);
+  const worst = parts.reduce<(typeof parts)[number] | null>(
+    (best, part) => (!best || part.quality.worstCropLoss > best.quality.worstCropLoss ? part : best),
+    null,
+  );
+  const sum = (key: keyof LayoutQualitySummary) =>
+    parts.reduce((acc, part) => acc + Number(part.quality[key] ?? 0), 0);
+  const weighted = (key: "averageCropLoss" | "sizeWeightedAverageCropLoss") =>
+    parts.reduce((acc, part) => acc + part.quality[key] * part.count, 0) / Math.max(1, total);
+  const rejected = parts.find(part => !part.quality.accepted);
+  const prioritized = parts.filter(part => part.quality.priorityAreaError !== undefined);
+  const ordered = parts.filter(part => part.quality.orderingError !== undefined);
+  const worstPriority = prioritized.reduce<(typeof parts)[number] | null>(
+    (best, part) =>
+      !best || (part.quality.worstPriorityAreaError ?? 0) > (best.quality.worstPriorityAreaError ?? 0)
+        ? part
+        : best,
+    null,
+  );
+  return {
+    worstCropLoss: worst?.quality.worstCropLoss ?? 0,
+    averageCropLoss: weighted("averageCropLoss"),
+    sizeWeightedAverageCropLoss: weighted("sizeWeightedAverageCropLoss"),
+    photosOverSoftCropThreshold: sum("photosOverSoftCropThreshold"),
+    photosOverCropThreshold: sum("photosOverCropThreshold"),
+    photosCutRequiredRegions: sum("photosCutRequiredRegions"),
+    orientationViolations: sum("orientationViolations"),
+    canvasDeltaRatio: 0,
+    softCropThreshold: SOFT_CROP_THRESHOLD,
+    worstCropPhotoId: worst?.quality.worstCropPhotoId,
+    worstCropTileAspect: worst?.quality.worstCropTileAspect,
+    ...(worstPriority
+      ? {
+          priorityAreaError:
+            prioritized.reduce((acc, part) => acc + part.quality.priorityAreaError! * part.count, 0) /
+            Math.max(1, prioritized.reduce((acc, part) => acc + part.count, 0)),
+          worstPriorityAreaError: worstPriority.quality.worstPriorityAreaError,
+          worstPriorityPhotoId: worstPriority.quality.worstPriorityPhotoId,
+        }
+      : {}),
+    ...(ordered.length > 0
+      ? {
+          orderingError:
+            ordered.reduce((acc, part) => acc + part.quality.orderingError! * part.count, 0) /
+            Math.max(1, ordered.reduce((acc, part) => acc + part.count, 0)),
+        }
+      : {}),
+    accepted: !rejected,
+    reason: rejected?.quality.reason,
+  };
+}
+
+function buildPinnedPlacement(pin: PinnedTile): Placement {
+  const { tileRect, crop } = pin.photo.pinned;
+  return {
+    id: pin.photo.id,
+    cx: tileRect.x + tileRect.w / 2,
+    cy: tileRect.y + tileRect.h / 2,
+    scale: Math.max(tileRect.w / crop.width, tileRect.h / crop.height),
+    rotation: 0,
+    crop: { ...crop },
+    tileRect: { ...tileRect },
+  };
+}
+
+/** 覆盖率达到一半的格子算作遮罩内部，用于划分区域 */
+const MASK_INSIDE_COVERAGE = 128;
+const MAX_MASK_BANDS = 16;
+/** 区域太碎时每张照片都会被挤成细条：优先让每个区域平均分到 3 张以上 */
+const MASK_PHOTOS_PER_REGION = 3;
+/** 拆出的区域至少要覆盖遮罩的这一比例，否则形状会丢掉大半（如照片很少的文字遮罩） */
+const MASK_MIN_REGION_COVERAGE = 0.85;
+
+function isUsableMask(mask?: FillArrangeMask): mask is FillArrangeMask {
+  return (
+    !!mask &&
+    Number.isInteger(mask.width) &&
+    Number.isInteger(mask.height) &&
+    mask.width > 0 &&
+    mask.height > 0 &&
+    mask.data.length >= mask.width * mask.height
+  );
+}
+
+/**
+ * 遮罩按行均分为若干横带，每条横带内平均覆盖率过半的连续列作为一个矩形，
+ * 上下相邻且列范围相同的矩形合并。矩形取整到画布像素。
+ */
+function decomposeMaskByBands(
+  mask: FillArrangeMask,
+  canvasW: number,
+  canvasH: number,
+  bands: number,
+): FillRect[] {
+  const cellW = canvasW / mask.width;
+  const cellH = canvasH / mask.height;
+  type OpenRun = { c0: number; c1: number; rect: FillRect };
+  const done: FillRect[] = [];
+  let open: OpenRun[] = [];
+  for (let band = 0; band < bands; band++) {
+    const r0 = Math.round((band * mask.height) / bands);
+    const r1 = Math.round(((band + 1) * mask.height) / bands);
+    if (r1 <= r0) continue;
+    const y0 = Math.round(r0 * cellH);
+    const y1 = Math.round(r1 * cellH);
+
+    const runs: Array<[number, number]> = [];
+    let start = -1;
+    for (let c = 0; c <= mask.width; c++) {
+      let inside = false;
+      if (c < mask.width) {
+        let sum = 0;
+        for (let r = r0; r < r1; r++) sum += mask.data[r * mask.width + c];
+        inside = sum / (r1 - r0) >= MASK_INSIDE_COVERAGE;
+      }
+      if (inside && start < 0) start = c;
+      if (!inside && start >= 0) {
+        runs.push([start, c]);
+        start = -1;
+      }
+    }
+
+    const next: OpenRun[] = [];
+    for (const [c0, c1] of runs) {
+      const carried = open.find(o => o.c0 === c0 && o.c1 === c1 && o.rect.y + o.rect.h === y0);
+      if (carried) {
+        carried.rect.h = y1 - carried.rect.y;
+        next.push(carried);
+        continue;
+      }
+      const x0 = Math.round(c0 * cellW);
+      next.push({ c0, c1, rect: { x: x0, y: y0, w: Math.round(c1 * cellW) - x0, h: y1 - y0 } });
+    }
+    done.push(...open.filter(o => !next.includes(o)).map(o => o.rect));
+    open = next;
+  }
+  return [...done, ...open.map(o => o.rect)].filter(r => r.w >= 1 && r.h >= 1);
+}
+
+/** 遮罩内覆盖率不为 0 的格子的包围盒（画布坐标） */
+function maskBounds(
+  mask: FillArrangeMask,
+  canvasW: number,
+  canvasH: number,
+  area: FillRect = { x: 0, y: 0, w: canvasW, h: canvasH },
+): FillRect | null {
+  const cellW = canvasW / mask.width;
+  const cellH = canvasH / mask.height;
+  const c0 = clamp(Math.floor(area.x / cellW), 0, mask.width - 1);
+  const c1 = clamp(Math.ceil((area.x + area.w) / cellW), c0 + 1, mask.width);
+  const r0 = clamp(Math.floor(area.y / cellH), 0, mask.height - 1);
+  const r1 = clamp(Math.ceil((area.y + area.h) / cellH), r0 + 1, mask.height);
+  let minC = Infinity;
+  let maxC = -Infinity;
+  let minR = Infinity;
+  let maxR = -Infinity;
+  for (let r = r0; r < r1; r++) {
+    for (let c = c0; c < c1; c++) {
+      if (mask.data[r * mask.width + c] === 0) continue;
+      minC = Math.min(minC, c);
+      maxC = Math.max(maxC, c);
+      minR = Math.min(minR, r);
+      maxR = Math.max(maxR, r);
+    }
+  }
+  if (minC === Infinity) return null;
+  const x0 = Math.max(area.x, minC * cellW);
+  const y0 = Math.max(area.y, minR * cellH);
+  const x1 = Math.min(area.x + area.w, (maxC + 1) * cellW);
+  const y1 = Math.min(area.y + area.h, (maxR + 1) * cellH);
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
+
+/** 落在各区域内的遮罩覆盖率之和占整个遮罩的比例（按格子中心判断） */
+function maskCoverageIn(
+  mask: FillArrangeMask,
+  canvasW: number,
+  canvasH: number,
+  regions: FillRect[],
+): number {
+  const cellW = canvasW / mask.width;
+  const cellH = canvasH / mask.height;
+  let total = 0;
+  let inside = 0;
+  for (let r = 0; r < mask.height; r++) {
+    const y = (r + 0.5) * cellH;
+    for (let c = 0; c < mask.width; c++) {
+      const value = mask.data[r * mask.width + c];
+      if (value === 0) continue;
+      total += value;
+      const x = (c + 0.5) * cellW;
+      if (regions.some(q => x >= q.x && x < q.x + q.w && y >= q.y && y < q.y + q.h)) inside += value;
+    }
+  }
+  return total > 0 ? inside / total : 0;
+}
+
+/**
+ * 遮罩内部拆成互不重叠的矩形区域。横带越多越贴合形状，但区域也越多：
+ * 优先取每个区域平均能分到数张照片的最多横带数，其次取区域最少的拆法；
+ * 漏掉太多遮罩的拆法不用。没有合适的拆法时整个遮罩包围盒作为一个区域，
+ * 各分块共用，分块之间的空隙由遮罩裁掉。
+ */
+function decomposeMaskRegions(
+  mask: FillArrangeMask,
+  canvasW: number,
+  canvasH: number,
+  photoCount: number,
+): FillRect[] {
+  const bounds = maskBounds(mask, canvasW, canvasH);
+  if (!bounds || photoCount <= 0) return [];
+  const preferred = Math.max(1, Math.floor(photoCount / MASK_PHOTOS_PER_REGION));
+  let fewest: FillRect[] | null = null;
+  for (let bands = Math.min(MAX_MASK_BANDS, mask.height); bands >= 1; bands--) {
+    const all = decomposeMaskByBands(mask, canvasW, canvasH, bands);
+    // 面积不到每张照片平均面积 1/4 的碎片区域直接放弃，留给背景
+    const totalArea = all.reduce((sum, r) => sum + r.w * r.h, 0);
+    const minArea = totalArea / (photoCount * 4);
+    const regions = all.filter(r => r.w * r.h >= minArea);
+    if (regions.length === 0) continue;
+    if (regions.length > photoCount) continue;
+    if (maskCoverageIn(mask, canvasW, canvasH, regions) < MASK_MIN_REGION_COVERAGE) continue;
+    if (regions.length <= preferred) return regions;
+    if (!fewest || regions.length < fewest.length) {
+      fewest = regions;
+    }
+  }
+  if (fewest) return fewest;
+  return [maskBoundingRegion(bounds)];
+}
+
+/** 遮罩包围盒取整到画布像素，作为各分块共用的单个区域 */
+function maskBoundingRegion(bounds: FillRect): FillRect {
+  return {
+    x: Math.floor(bounds.x),
+    y: Math.floor(bounds.y),
+    w: Math.ceil(bounds.x + bounds.w) - Math.floor(bounds.x),
+    h: Math.ceil(bounds.y + bounds.h) - Math.floor(bounds.y),
+  };
+}
+
+function isSameRegionSet(a: FillRect[], b: FillRect[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((r, idx) => r.x === b[idx].x && r.y === b[idx].y && r.w === b[idx].w && r.h === b[idx].h)
+  );
+}
+
+/** 遮罩区域再扣除锁定照片占用的 tile */
+function subtractObstacles(regions: FillRect[], obstacles: FillRect[]): FillRect[] {
+  return regions.flatMap(region => {
+    const local = obstacles
+      .filter(o => rectsOverlap(o, region))
+      .map(o => {
+        const x0 = Math.max(o.x, region.x);
+        const y0 = Math.max(o.y, region.y);
+        const x1 = Math.min(o.x + o.w, region.x + region.w);
+        const y1 = Math.min(o.y + o.h, region.y + region.h);
+        return { x: x0 - region.x, y: y0 - region.y, w: x1 - x0, h: y1 - y0 };
+      });
+    if (local.length === 0) return [region];
+    return decomposeFreeArea(region.w, region.h, local).map(r => ({
+      ...r,
+      x: r.x + region.x,
+      y: r.y + region.y,
+    }));
+  });
+}
+
+function touchesNeighbour(
+  region: FillRect,
+  neighbours: FillRect[],
+  side: "left" | "top" | "right" | "bottom",
+): boolean {
+  return neighbours.some(n => {
+    if (n === region) return false;
+    const overlapX = n.x < region.x + region.w && region.x < n.x + n.w;
+    const overlapY = n.y < region.y + region.h && region.y < n.y + n.h;
+    if (side === "left") return overlapY && n.x + n.w === region.x;
+    if (side === "right") return overlapY && n.x === region.x + region.w;
+    if (side === "top") return overlapX && n.y + n.h === region.y;
+    return overlapX && n.y === region.y + region.h;
+  });
+}
+
+/**
+ * 各区域独立切分，区域边界的留白：贴画布边为外边距，与其他区域或锁定照片相邻为半个间距，
+ * 其余（遮罩边界）同样按外边距处理。
+ */
+function resolveRegionEdges(
+  region: FillRect,
+  neighbours: FillRect[],
+  canvasW: number,
+  canvasH: number,
+  spacing: FillSpacing,
+): NonNullable<FillSpacing["edges"]> {
+  const edge = (onCanvasEdge: boolean, side: "left" | "top" | "right" | "bottom") =>
+    !onCanvasEdge && touchesNeighbour(region, neighbours, side) ? spacing.gutter / 2 : spacing.outerMargin;
+  return {
+    left: edge(region.x <= 0, "left"),
+    top: edge(region.y <= 0, "top"),
+    right: edge(region.x + region.w >= canvasW, "right"),
+    bottom: edge(region.y + region.h >= canvasH, "bottom"),
+  };
+}
+
+/**
+ * 锁定照片的 tile 固定不动，空闲区域（有遮罩时为遮罩内部）拆成矩形后各自独立切分、
+ * 分配照片，再把结果平移回画布坐标。画布尺寸不做调整。
+ * 空闲区域多于未锁定照片时无法铺满，返回 null；requireValid 为 false 时不因校验失败而放弃结果。
+ */
+function solveInRegions(
+  photos: FillArrangePhotoInput[],
+  pinned: PinnedTile[],
+  regions: FillRect[],
+  canvasW: number,
+  canvasH: number,
+  options: FillArrangeOptions,
+  spacing: FillSpacing,
+  mask?: FillArrangeMask,
+  requireValid = true,
+): FillArrangeResult | null {
+  const pinnedIds = new Set(pinned.map(item => item.photo.id));
+  const free = photos.filter(photo => !pinnedIds.has(photo.id));
+  const counts = allocateRegionCounts(regions, free.length);
+  if (!counts) return null;
+  const neighbours = [...regions, ...pinned.map(item => item.obstacle)];
+
+  // 设置了排列顺序时区域按阅读顺序依次接收照片，区域内按分好的顺序（manual）求解；
+  // 否则竖长区域分给竖图、横宽区域分给横图
+  const sequence =
+    options.orderingWeight === 0 ? null : resolvePhotoSequence(free, options.ordering);
+  const regionOrder = regions
+    .map((region, idx) => ({ region, count: counts[idx] }))
+    .sort((a, b) =>
+      sequence
+        ? a.region.y - b.region.y || a.region.x - b.region.x
+        : safeAspect(a.region.w, a.region.h) - safeAspect(b.region.w, b.region.h),
+    );
+  const photoQueue = [...free].sort((a, b) =>
+    sequence
+      ? sequence.get(a.id)! - sequence.get(b.id)!
+      : safeAspect(a.crop.width, a.crop.height) - safeAspect(b.crop.width, b.crop.height),
+  );
+
+  const placements: Placement[] = [];
+  const checks: Parameters<typeof validateFillArrangePlacements>[0] = [];
+  const qualityParts: Array<{ quality: LayoutQualitySummary; count: number }> = [];
+  let metrics = emptyMetrics(0);
+  let cursor = 0;
+  regionOrder.forEach(({ region, count }, regionIdx) => {
+    const regionPhotos = photoQueue.slice(cursor, cursor + count);
+    cursor += count;
+    const maskClip = mask
+      ? (rect: FillRect): FillRect => {
+          const clipped = maskBounds(mask, canvasW, canvasH, {
+            ...rect,
+            x: rect.x + region.x,
+            y: rect.y + region.y,
+          });
+          if (!clipped || clipped.w < 1 || clipped.h < 1) return rect;
+          return { ...clipped, x: clipped.x - region.x, y: clipped.y - region.y };
+        }
+      : undefined;
+    const solved = solveFillArrange(
+      regionPhotos,
+      region.w,
+      region.h,
+      {
+        ...options,
+        seed: options.seed === undefined ? undefined : (options.seed + regionIdx * 7919) >>> 0,
+        ordering: sequence ? "manual" : options.ordering,
+        allowCanvasResize: false,
+        searchOptions: { ...options.searchOptions, allowCanvasResize: false },
+      },
+      {
+        ...spacing,
+        edges: resolveRegionEdges(region, neighbours, canvasW, canvasH, spacing),
+        maskClip,
+      },
+    );
+    solved.result.placements.forEach((placement, idx) => {
+      const tile = solved.tiles[idx];
+      const moved: Placement = {
+        ...placement,
+        cx: placement.cx + region.x,
+        cy: placement.cy + region.y,
+        tileRect: placement.tileRect
+          ? { ...placement.tileRect, x: placement.tileRect.x + region.x, y: placement.tileRect.y + region.y }
+          : undefined,
+      };
+      placements.push(moved);
+      checks.push({
+        tile: { x: tile.x + region.x, y: tile.y + region.y, w: tile.w, h: tile.h },
+        visible: moved.tileRect,
+        placement: moved,
+      });
+    });
+    metrics = mergeMetrics(metrics, solved.result.metrics);
+    if (solved.result.quality) {
+      qualityParts.push({ quality: solved.result.quality, count: regionPhotos.length });
+    }
+  });
+
+  for (const pin of pinned) {
+    const placement = buildPinnedPlacement(pin);
+    placements.push(placement);
+    checks.push({
+      tile: pin.obstacle,
+      visible: pin.photo.pinned.tileRect,
+      placement,
+    });
+  }
+
+  const coverageArea = neighbours.reduce((sum, r) => sum + r.w * r.h, 0);
+  const droppedPinIds = collectDroppedPinIds(photos, pinned);
+  const validation = validateFillArrangePlacements(checks, canvasW, canvasH, {
+    coverMode: true,
+    coverageArea,
+    pinnedTiles: collectPinnedTiles(photos),
+    droppedPinIds,
+  });
+  if (!validation.ok && requireValid) return null;
+
+  const order = new Map(photos.map((photo, idx) => [photo.id, idx]));
+  placements.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+  return {
+    placements,
+    canvasW,
+    canvasH,
+    metrics: { ...metrics, canvasAdjustmentsTried: Math.max(1, metrics.canvasAdjustmentsTried) },
+    quality: mergeRegionQuality(qualityParts),
+    ...(droppedPinIds.length > 0 ? { droppedPinIds } : {}),
+  };
+}
+
+export function fillArrangePhotosShared(
+  photos: FillArrangePhotoInput[],
+  canvasW: number,
+  canvasH: number,
+  options: FillArrangeOptions = {},
+): FillArrangeResult {
+  const spacing = resolveSpacing(options, canvasW, canvasH);
+  const pinned = resolvePinnedTiles(photos, canvasW, canvasH, spacing);
+  // 无法围绕全部锁定照片铺满时，依次放弃面积最小的锁定，直至可解；放弃的锁定在结果中报告
+  pinned.sort((a, b) => b.obstacle.w * b.obstacle.h - a.obstacle.w * a.obstacle.h);
+
+  const mask = isUsableMask(options.mask) ? options.mask : undefined;
+  // 标题横条当作不可移动的障碍，照片只在其余区域切分
+  const titleBand = resolveTitleBand(options, canvasW, canvasH);
+  const reserved = titleBand ? [titleBand] : [];
+  // 遮罩按当前画布栅格化、标题横条按当前画布计算，画布尺寸不能再调整
+  const solveOptions: FillArrangeOptions = mask || titleBand
+    ? {
+        ...options,
+        allowCanvasResize: false,
+        searchOptions: { ...options.searchOptions, allowCanvasResize: false },
+      }
+    : options;
+  const bounds = mask ? maskBounds(mask, canvasW, canvasH) : null;
+  // 遮罩为空时没有可铺的区域，按整张画布处理
+  if (mask && bounds) {
+    const whole = [maskBoundingRegion(bounds)];
+    for (;;) {
+      const obstacles = [...pinned.map(item => item.obstacle), ...reserved];
+      // 照片少于分块（或被锁定、标题横条切开后的区域）时，各分块共用遮罩包围盒，空隙由遮罩裁掉
+      const candidates = [
+        subtractObstacles(
+          decomposeMaskRegions(mask, canvasW, canvasH, photos.length - pinned.length),
+          obstacles,
+        ),
+        subtractObstacles(whole, obstacles),
+      ];
+      for (const [idx, regions] of candidates.entries()) {
+        if (regions.length === 0) continue;
+        if (idx > 0 && isSameRegionSet(regions, candidates[0])) continue;
+        const result = solveInRegions(photos, pinned, regions, canvasW, canvasH, solveOptions, spacing, mask);
+        if (result) return result;
+      }
+      if (pinned.length === 0) break;
+      pinned.pop();
+    }
+    // 标题横条挡住遮罩等情况仍只在遮罩包围盒内铺排，不退回整张画布
+    const result = solveInRegions(photos, [], whole, canvasW, canvasH, solveOptions, spacing, mask, false);
+    if (result) return result;
+  }
+
+  while (pinned.length > 0 || reserved.length > 0) {
+    const regions = decomposeFreeArea(
+      canvasW,
+      canvasH,
+      [...pinned.map(item => item.obstacle), ...reserved],
+    ).filter(r => r.w >= 1 && r.h >= 1);
+    const result = solveInRegions(photos, pinned, regions, canvasW, canvasH, solveOptions, spacing);
+    if (result) return result;
+    if (pinned.length === 0) break;
+    pinned.pop();
+  }
+  const result = solveFillArrange(photos, canvasW, canvasH, solveOptions, spacing).result;
+  const droppedPinIds = collectDroppedPinIds(photos, []);
+  return droppedPinIds.length > 0 ? { ...result, droppedPinIds } : result;
+}
@@ -1,9 +1,11 @@
-import type { Placement } from "@/types";
+import type { Placement, TileRect } from "@/types";
 
 export type FillArrangeRect = { x: number; y: number; w: number; h: number };
 
 export type FillArrangePlacementCheckEntry = {
   tile: FillArrangeRect;
+  /** 扣除间距/外边距后的可见区域；缺省与 tile 相同 */
+  visible?: FillArrangeRect;
   placement: Placement;
 };
 
@@ -18,6 +20,12 @@ export type FillArrangeValidationOptions = {
    * matching it exactly. Small tile-level overlaps are expected and tolerated.
    */
   coverMode?: boolean;
+  /** tile 应覆盖的总面积；缺省为整张画布（形状遮罩布局只覆盖遮罩内部） */
+  coverageArea?: number;
+  /** 求解器输入中的锁定 tileRect（按照片 id）：结果中对应照片的 tileRect 必须与之一致 */
+  pinnedTiles?: ReadonlyMap<string, TileRect>;
+  /** 结果已报告放弃的锁定，不要求保持不变 */
+  droppedPinIds?: readonly string[];
 };
 
 function toDrawRect(placement: Placement): FillArrangeRect | null {
@@ -37,6 +45,16 @@ function toDrawRect(placement: Placement): FillArrangeRect | null {
   };
 }
 
+function isSameTileRect(a: TileRect, b: TileRect, epsilon: number): boolean {
+  return (
+    Math.abs(a.x - b.x) <= epsilon &&
+    Math.abs(a.y - b.y) <= epsilon &&
+    Math.abs(a.w - b.w) <= epsilon &&
+    Math.abs(a.h - b.h) <= epsilon &&
+    Math.abs((a.r ?? 0) - (b.r ?? 0)) <= epsilon
+  );
+}
+
 function intersectArea(a: FillArrangeRect, b: FillArrangeRect): number {
   const x1 = Math.max(a.x, b.x);
   const y1 = Math.max(a.y, b.y);
@@ -47,8 +65,9 @@ function intersectArea(a: FillArrangeRect, b: FillArrangeRect): number {
 
 /**
  * 校验铺满布局结果：
- * - 每张 placement 对应的绘制矩形应与 tile 对齐
- * - 总面积覆盖画布
+ * - 每张 placement 对应的绘制矩形应与 tile（有留白时为可见区域）对齐
+ * - 锁定照片的 tileRect 保持不变
+ * - tile 总面积覆盖画布（或 coverageArea 指定的区域）
  * - 无明显重叠
  */
 export function validateFillArrangePlacements(
@@ -76,24 +95,36 @@ export function validateFillArrangePlacements(
   }
   if (entries.length === 0) return { ok: true };
 
+  if (options.pinnedTiles) {
+    const dropped = new Set(options.droppedPinIds ?? []);
+    for (const [id, pinned] of options.pinnedTiles) {
+      if (dropped.has(id)) continue;
+      const tileRect = entries.find(entry => entry.placement.id === id)?.placement.tileRect;
+      if (!tileRect || !isSameTileRect(tileRect, pinned, strictTileMatchEpsilon)) {
+        return { ok: false, reason: `pinned tile moved: ${id}` };
+      }
+    }
+  }
+
   const rects: FillArrangeRect[] = [];
   let tileAreaSum = 0;
 
   for (let i = 0; i < entries.length; i++) {
     const { tile, placement } = entries[i];
+    const target = entries[i].visible ?? tile;
     const rect = toDrawRect(placement);
     if (!rect) return { ok: false, reason: `invalid draw rect at index ${i}` };
 
     if (coverMode) {
       // Cover mode: rect must cover tile (rect >= tile in both dimensions, centered)
       const centerXOk =
-        Math.abs(rect.x + rect.w / 2 - (tile.x + tile.w / 2)) <
+        Math.abs(rect.x + rect.w / 2 - (target.x + target.w / 2)) <
         strictTileMatchEpsilon;
       const centerYOk =
-        Math.abs(rect.y + rect.h / 2 - (tile.y + tile.h / 2)) <
+        Math.abs(rect.y + rect.h / 2 - (target.y + target.h / 2)) <
         strictTileMatchEpsilon;
-      const coversW = rect.w >= tile.w - strictTileMatchEpsilon;
-      const coversH = rect.h >= tile.h - strictTileMatchEpsilon;
+      const coversW = rect.w >= target.w - strictTileMatchEpsilon;
+      const coversH = rect.h >= target.h - strictTileMatchEpsilon;
       if (!centerXOk || !centerYOk) {
         return { ok: false, reason: `center mismatch at index ${i}` };
       }
@@ -103,10 +134,10 @@ export function validateFillArrangePlacements(
     } else {
       // Strict mode: rect must match tile exactly
       if (
-        Math.abs(rect.x - tile.x) > strictTileMatchEpsilon ||
-        Math.abs(rect.y - tile.y) > strictTileMatchEpsilon ||
-        Math.abs(rect.w - tile.w) > strictTileMatchEpsilon ||
-        Math.abs(rect.h - tile.h) > strictTileMatchEpsilon
+        Math.abs(rect.x - target.x) > strictTileMatchEpsilon ||
+        Math.abs(rect.y - target.y) > strictTileMatchEpsilon ||
+        Math.abs(rect.w - target.w) > strictTileMatchEpsilon ||
+        Math.abs(rect.h - target.h) > strictTileMatchEpsilon
       ) {
         return { ok: false, reason: `tile mismatch at index ${i}` };
       }
@@ -127,8 +158,8 @@ export function validateFillArrangePlacements(
     tileAreaSum += tile.w * tile.h;
   }
 
-  const canvasArea = canvasW * canvasH;
-  if (Math.abs(tileAreaSum - canvasArea) > areaEpsilon) {
+  const coverageArea = options.coverageArea ?? canvasW * canvasH;
+  if (Math.abs(tileAreaSum - coverageArea) > areaEpsilon) {
     return { ok: false, reason: "area mismatch" };
   }
 
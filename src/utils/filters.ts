@@ -1,7 +1,15 @@
 import type { PhotoAdjustments } from '@/types'
 import { clamp } from '@/utils/math'
 
-export function buildCanvasFilter(adjustments: PhotoAdjustments): string {
+export type CanvasFilterFunction = 'brightness' | 'contrast' | 'saturate' | 'grayscale' | 'sepia'
+
+export interface CanvasFilterOp {
+  fn: CanvasFilterFunction
+  amount: number
+}
+
+/** 调整对应的滤镜函数序列；没有调整时为空 */
+export function buildFilterChain(adjustments: PhotoAdjustments): CanvasFilterOp[] {
   const preset = adjustments.preset
   const brightness = clamp(adjustments.brightness, 0, 3)
   const contrast = clamp(adjustments.contrast, 0, 3)
@@ -9,26 +17,98 @@ export function buildCanvasFilter(adjustments: PhotoAdjustments): string {
 
   // Skip filter pipeline entirely when no adjustments are applied.
   if (preset === 'none' && brightness === 1 && contrast === 1 && saturation === 1) {
-    return 'none'
+    return []
   }
 
-  const parts: string[] = [
-    `brightness(${brightness})`,
-    `contrast(${contrast})`,
-    `saturate(${saturation})`,
+  const ops: CanvasFilterOp[] = [
+    { fn: 'brightness', amount: brightness },
+    { fn: 'contrast', amount: contrast },
+    { fn: 'saturate', amount: saturation },
   ]
 
   if (preset === 'blackWhite') {
-    parts.push('grayscale(1)')
+    ops.push({ fn: 'grayscale', amount: 1 })
   } else if (preset === 'sepia') {
-    parts.push('sepia(1)')
+    ops.push({ fn: 'sepia', amount: 1 })
   } else if (preset === 'vintage') {
     // 轻量“复古”：偏暖 + 轻微去饱和 + 少量对比提升
-    parts.push('sepia(0.35)')
-    parts.push('saturate(0.9)')
-    parts.push('contrast(1.08)')
+    ops.push({ fn: 'sepia', amount: 0.35 })
+    ops.push({ fn: 'saturate', amount: 0.9 })
+    ops.push({ fn: 'contrast', amount: 1.08 })
   }
 
-  return parts.join(' ')
+  return ops
+}
+
+export function buildCanvasFilter(adjustments: PhotoAdjustments): string {
+  const ops = buildFilterChain(adjustments)
+  if (!ops.length) return 'none'
+  return ops.map(op => `${op.fn}(${op.amount})`).join(' ')
+}
+
+/**
+ * 滤镜函数对应的 3×4 颜色矩阵（按行：r g b 偏移），取值与 Filter Effects 规范一致，
+ * 在 sRGB 空间、0..1 范围内计算。
+ */
+function filterMatrix(op: CanvasFilterOp): number[] {
+  const a = op.amount
+  switch (op.fn) {
+    case 'brightness':
+      return [a, 0, 0, 0, 0, a, 0, 0, 0, 0, a, 0]
+    case 'contrast': {
+      const offset = 0.5 - 0.5 * a
+      return [a, 0, 0, offset, 0, a, 0, offset, 0, 0, a, offset]
+    }
+    case 'saturate':
+      return [
+        0.213 + 0.787 * a, 0.715 - 0.715 * a, 0.072 - 0.072 * a, 0,
+        0.213 - 0.213 * a, 0.715 + 0.285 * a, 0.072 - 0.072 * a, 0,
+        0.213 - 0.213 * a, 0.715 - 0.715 * a, 0.072 + 0.928 * a, 0,
+      ]
+    case 'grayscale': {
+      const g = 1 - clamp(a, 0, 1)
+      return [
+        0.2126 + 0.7874 * g, 0.7152 - 0.7152 * g, 0.0722 - 0.0722 * g, 0,
+        0.2126 - 0.2126 * g, 0.7152 + 0.2848 * g, 0.0722 - 0.0722 * g, 0,
+        0.2126 - 0.2126 * g, 0.7152 - 0.7152 * g, 0.0722 + 0.9278 * g, 0,
+      ]
+    }
+    case 'sepia': {
+      const g = 1 - clamp(a, 0, 1)
+      return [
+        0.393 + 0.607 * g, 0.769 - 0.769 * g, 0.189 - 0.189 * g, 0,
+        0.349 - 0.349 * g, 0.686 + 0.314 * g, 0.168 - 0.168 * g, 0,
+        0.272 - 0.272 * g, 0.534 - 0.534 * g, 0.131 + 0.869 * g, 0,
+      ]
+    }
+  }
 }
 
+/**
+ * 在 ImageData 上按顺序执行滤镜链（原地修改），用于不支持 ctx.filter 的浏览器。
+ * 与浏览器一样每一步都截断到 0..1，结果只取决于输入像素。
+ */
+export function applyFilterChain(
+  pixels: { data: Uint8ClampedArray },
+  ops: CanvasFilterOp[]
+): void {
+  if (!ops.length) return
+  const matrices = ops.map(filterMatrix)
+  const { data } = pixels
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] / 255
+    let g = data[i + 1] / 255
+    let b = data[i + 2] / 255
+    for (const m of matrices) {
+      const nr = m[0] * r + m[1] * g + m[2] * b + m[3]
+      const ng = m[4] * r + m[5] * g + m[6] * b + m[7]
+      const nb = m[8] * r + m[9] * g + m[10] * b + m[11]
+      r = clamp(nr, 0, 1)
+      g = clamp(ng, 0, 1)
+      b = clamp(nb, 0, 1)
+    }
+    data[i] = Math.round(r * 255)
+    data[i + 1] = Math.round(g * 255)
+    data[i + 2] = Math.round(b * 255)
+  }
+}
@@ -0,0 +1,12 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB']
+
+/**
+ * 字节数格式化为可读字符串（1024 进制），如 1536 -> "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  if (!isFinite(bytes) || bytes <= 0) return '0 B'
+  const exp = Math.min(BYTE_UNITS.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)))
+  const value = bytes / Math.pow(1024, exp)
+  const digits = exp === 0 || value >= 100 ? 0 : 1
+  return `${value.toFixed(digits)} ${BYTE_UNITS[exp]}`
+}
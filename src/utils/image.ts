@@ -1,5 +1,12 @@
-import type { PhotoEntity, CropRect, PhotoAdjustments } from "@/types";
+import type { PhotoEntity, CropRect, PhotoAdjustments, PhotoExif } from "@/types";
 import { generateId } from "./math";
+import {
+  applyExifOrientationTransform,
+  isExifOrientationTransposed,
+  readImageExif,
+} from "@/utils/exif";
+import { measurePhotoSignature } from "@/utils/duplicates";
+import { measurePhotoQuality } from "@/utils/photoQuality";
 import type { SmartDetection } from "@/utils/smartCrop";
 import { calculateSmartCrop, prefetchSmartDetections } from "@/utils/smartCrop";
 
@@ -42,6 +49,10 @@ export type NormalizedImageImport = {
   file: File;
   originalFile: File;
   isTranscoded: boolean;
+  /** 从原始文件读取的 EXIF（HEIC 转码后的 JPEG 不再带 EXIF） */
+  exif: PhotoExif | null;
+  /** 解码后仍需手动应用的 EXIF 方向；1 表示浏览器已处理或无需旋转 */
+  orientation: number;
 };
 
 export class ImageImportError extends Error {
@@ -95,11 +106,26 @@ export async function createPhotoFromFile(
   file: File,
   canvasWidth: number,
   canvasHeight: number,
-  options?: { id?: string; prefetchSmartCrop?: boolean; maxImageEdge?: number },
+  options?: {
+    id?: string;
+    prefetchSmartCrop?: boolean;
+    maxImageEdge?: number;
+    /** 调用方已对原始文件做过 normalizeImageFileForImport 时传入其 EXIF 与方向 */
+    exif?: PhotoExif | null;
+    orientation?: number;
+  },
 ): Promise<PhotoEntity> {
   const id = options?.id ?? generateId();
   const normalized = await normalizeImageFileForImport(file);
+  const exif = options?.exif !== undefined ? options.exif : normalized.exif;
   const decoded = await decodeImageFile(normalized.file);
+  const orientation = resolveDecodedOrientation(
+    exif,
+    options?.orientation ?? normalized.orientation,
+    decoded.sourceWidth,
+    decoded.sourceHeight,
+  );
+  const transposed = isExifOrientationTransposed(orientation);
   let width = 0;
   let height = 0;
   let canvas!: HTMLCanvasElement;
@@ -108,7 +134,7 @@ export async function createPhotoFromFile(
       256,
       Math.round(options?.maxImageEdge ?? MAX_IMAGE_EDGE),
     );
-    const resized = resizeImage(decoded.image, maxImageEdge);
+    const resized = resizeImage(decoded.image, maxImageEdge, orientation);
     canvas = resized.canvas;
     width = resized.width;
     height = resized.height;
@@ -127,8 +153,8 @@ export async function createPhotoFromFile(
     name: normalized.originalFile.name,
     srcUrl: decoded.srcUrl,
     image: canvas,
-    sourceWidth: decoded.sourceWidth,
-    sourceHeight: decoded.sourceHeight,
+    sourceWidth: transposed ? decoded.sourceHeight : decoded.sourceWidth,
+    sourceHeight: transposed ? decoded.sourceWidth : decoded.sourceHeight,
     imageWidth: width,
     imageHeight: height,
     crop,
@@ -138,6 +164,11 @@ export async function createPhotoFromFile(
     scale,
     rotation: 0,
     zIndex: 0,
+    takenAt: exif?.takenAt ?? (file.lastModified || undefined),
+    exif: exif ?? undefined,
+    signature: measurePhotoSignature(canvas, width, height) ?? undefined,
+    // 人脸检测在主线程异步完成，人脸相关指标由 store 在检测结果到达后补算
+    quality: measurePhotoQuality(canvas, width, height) ?? undefined,
   };
 
   // 智能裁剪：在导入时预热检测（同步显著性 + 异步人脸）
@@ -148,6 +179,39 @@ export async function createPhotoFromFile(
   return photo;
 }
 
+/**
+ * 解码结果的宽高已与 EXIF 记录的原始像素尺寸互换，说明解码器已按方向旋转过，
+ * 不再重复应用（例如 HEIC 转码器已处理 irot 的情况）。
+ */
+function resolveDecodedOrientation(
+  exif: PhotoExif | null,
+  orientation: number,
+  decodedWidth: number,
+  decodedHeight: number,
+): number {
+  if (orientation <= 1 || orientation > 8) return 1;
+  if (
+    isExifOrientationTransposed(orientation) &&
+    exif?.pixelWidth &&
+    exif.pixelHeight &&
+    exif.pixelWidth !== exif.pixelHeight &&
+    decodedWidth === exif.pixelHeight &&
+    decodedHeight === exif.pixelWidth
+  ) {
+    return 1;
+  }
+  return orientation;
+}
+
+/** 浏览器解码 <img> / createImageBitmap 时是否自动应用 EXIF 方向 */
+function browserAppliesExifOrientation(): boolean {
+  return (
+    typeof CSS !== "undefined" &&
+    typeof CSS.supports === "function" &&
+    CSS.supports("image-orientation", "from-image")
+  );
+}
+
 /**
  * 兼容 HEIC/HEIF 的图片解码：
  * - 优先尝试 createImageBitmap（异步解码，批量导入时更不易阻塞 UI）
@@ -245,11 +309,12 @@ export function loadImage(src: string): Promise<HTMLImageElement> {
 }
 
 /**
- * 调整图片大小
+ * 调整图片大小；orientation 大于 1 时同时按 EXIF 方向旋转/翻转，返回旋转后的尺寸
  */
 export function resizeImage(
   img: CanvasImageSource,
   maxEdge: number,
+  orientation: number = 1,
 ): { canvas: HTMLCanvasElement; width: number; height: number } {
   let { width, height } = resolveImageSize(img);
 
@@ -259,13 +324,15 @@ export function resizeImage(
     height = Math.round(height * ratio);
   }
 
+  const transposed = isExifOrientationTransposed(orientation);
   const canvas = document.createElement("canvas");
-  canvas.width = width;
-  canvas.height = height;
+  canvas.width = transposed ? height : width;
+  canvas.height = transposed ? width : height;
   const ctx = canvas.getContext("2d")!;
+  applyExifOrientationTransform(ctx, orientation, width, height);
   ctx.drawImage(img, 0, 0, width, height);
 
-  return { canvas, width, height };
+  return { canvas, width: canvas.width, height: canvas.height };
 }
 
 function resolveImageSize(img: CanvasImageSource): {
@@ -427,11 +494,14 @@ export function isHeicFile(file: File): boolean {
 export async function normalizeImageFileForImport(
   file: File,
 ): Promise<NormalizedImageImport> {
+  const exif = await readImageExif(file);
   if (!isHeicFile(file)) {
     return {
       file,
       originalFile: file,
       isTranscoded: false,
+      exif,
+      orientation: browserAppliesExifOrientation() ? 1 : (exif?.orientation ?? 1),
     };
   }
 
@@ -463,6 +533,9 @@ export async function normalizeImageFileForImport(
     file: normalizedFile,
     originalFile: file,
     isTranscoded: true,
+    exif,
+    // 转码得到的 JPEG 不带 EXIF，浏览器无从得知方向
+    orientation: exif?.orientation ?? 1,
   };
 }
 
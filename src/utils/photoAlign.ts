@@ -0,0 +1,122 @@
+import type { PhotoEntity } from "@/types";
+import { getVisibleDrawHalfSize, rotatedAABBHalf } from "@/utils/math";
+
+/**
+ * 多选照片的对齐、等距分布与统一尺寸。
+ * 只计算目标位置 / 缩放，由 store 统一写回并记一条画布历史。
+ */
+
+export type PhotoAlignEdge = "left" | "center" | "right" | "top" | "middle" | "bottom";
+export type PhotoDistributeAxis = "horizontal" | "vertical";
+export type PhotoMatchDimension = "width" | "height";
+
+export type PhotoBounds = { left: number; top: number; right: number; bottom: number };
+
+/** 照片可见区域（考虑旋转）的轴对齐包围盒 */
+export function getPhotoBounds(photo: PhotoEntity): PhotoBounds {
+  const { hw, hh } = getVisibleDrawHalfSize(photo);
+  const { ex, ey } = rotatedAABBHalf(hw, hh, photo.rotation);
+  return {
+    left: photo.cx - ex,
+    top: photo.cy - ey,
+    right: photo.cx + ex,
+    bottom: photo.cy + ey,
+  };
+}
+
+export function unionBounds(bounds: PhotoBounds[]): PhotoBounds | null {
+  if (bounds.length === 0) return null;
+  return {
+    left: Math.min(...bounds.map(b => b.left)),
+    top: Math.min(...bounds.map(b => b.top)),
+    right: Math.max(...bounds.map(b => b.right)),
+    bottom: Math.max(...bounds.map(b => b.bottom)),
+  };
+}
+
+export function boundsIntersect(a: PhotoBounds, b: PhotoBounds): boolean {
+  return a.left <= b.right && b.left <= a.right && a.top <= b.bottom && b.top <= a.bottom;
+}
+
+/**
+ * 对齐：多张照片对齐到选区包围盒的对应边 / 中线；只有一张时对齐到 frame（通常是画布）。
+ * 返回每张照片的新中心点。
+ */
+export function alignPhotoPositions(
+  photos: PhotoEntity[],
+  edge: PhotoAlignEdge,
+  frame: PhotoBounds,
+): Map<string, { cx: number; cy: number }> {
+  const bounds = photos.map(getPhotoBounds);
+  const target = photos.length > 1 ? unionBounds(bounds)! : frame;
+  const result = new Map<string, { cx: number; cy: number }>();
+  photos.forEach((photo, idx) => {
+    const b = bounds[idx];
+    let { cx, cy } = photo;
+    if (edge === "left") cx += target.left - b.left;
+    else if (edge === "right") cx += target.right - b.right;
+    else if (edge === "center") cx += (target.left + target.right) / 2 - (b.left + b.right) / 2;
+    else if (edge === "top") cy += target.top - b.top;
+    else if (edge === "bottom") cy += target.bottom - b.bottom;
+    else cy += (target.top + target.bottom) / 2 - (b.top + b.bottom) / 2;
+    result.set(photo.id, { cx, cy });
+  });
+  return result;
+}
+
+/**
+ * 等距分布：首尾两张不动，中间照片按中心排序后让相邻包围盒的间距相等。
+ * 少于 3 张时不做处理。
+ */
+export function distributePhotoPositions(
+  photos: PhotoEntity[],
+  axis: PhotoDistributeAxis,
+): Map<string, { cx: number; cy: number }> {
+  const result = new Map<string, { cx: number; cy: number }>();
+  if (photos.length < 3) return result;
+  const horizontal = axis === "horizontal";
+  const items = photos
+    .map(photo => {
+      const b = getPhotoBounds(photo);
+      return {
+        photo,
+        start: horizontal ? b.left : b.top,
+        size: horizontal ? b.right - b.left : b.bottom - b.top,
+        center: horizontal ? photo.cx : photo.cy,
+      };
+    })
+    .sort((a, b) => a.center - b.center);
+  const first = items[0];
+  const last = items[items.length - 1];
+  const span = last.start + last.size - first.start;
+  const gap = (span - items.reduce((sum, item) => sum + item.size, 0)) / (items.length - 1);
+
+  let cursor = first.start;
+  for (const item of items) {
+    const delta = cursor - item.start;
+    result.set(item.photo.id, {
+      cx: item.photo.cx + (horizontal ? delta : 0),
+      cy: item.photo.cy + (horizontal ? 0 : delta),
+    });
+    cursor += item.size + gap;
+  }
+  return result;
+}
+
+/** 统一尺寸：按参考照片的可见宽 / 高换算其余照片的缩放 */
+export function matchPhotoScales(
+  photos: PhotoEntity[],
+  reference: PhotoEntity,
+  dimension: PhotoMatchDimension,
+): Map<string, number> {
+  const refHalf = getVisibleDrawHalfSize(reference);
+  const target = dimension === "width" ? refHalf.hw : refHalf.hh;
+  const result = new Map<string, number>();
+  for (const photo of photos) {
+    if (photo.id === reference.id) continue;
+    const crop = photo.layoutCrop ?? photo.crop;
+    const size = dimension === "width" ? crop.width : crop.height;
+    result.set(photo.id, (target * 2) / Math.max(1, size));
+  }
+  return result;
+}
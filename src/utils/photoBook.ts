@@ -0,0 +1,109 @@
+import type { CanvasPreset } from "@/types";
+
+/**
+ * 相册分页的纯函数部分：照片分配到各页、跨页画布尺寸。
+ * 页面状态（当前页、撤销/重做）见 stores/mosaic。
+ */
+
+/** count：按每页张数顺序分配；chronological：按拍摄时间排序，同一天的照片尽量放在同一页 */
+export type PhotoBookDistribution = "count" | "chronological";
+
+export type PhotoBookItem = {
+  id: string;
+  takenAt?: number;
+};
+
+export const DEFAULT_PHOTOS_PER_PAGE = 6;
+export const MAX_PHOTOS_PER_PAGE = 60;
+export const MAX_BOOK_PAGES = 100;
+
+export function clampPhotosPerPage(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_PHOTOS_PER_PAGE;
+  return Math.min(MAX_PHOTOS_PER_PAGE, Math.max(1, Math.round(value)));
+}
+
+/** 页面画布尺寸：跨页宽度为预设的两倍 */
+export function resolvePageCanvasSize(
+  preset: Pick<CanvasPreset, "width" | "height">,
+  spread: boolean,
+): { width: number; height: number } {
+  return { width: preset.width * (spread ? 2 : 1), height: preset.height };
+}
+
+/** 分成最少的页数（每页不超过 perPage 张），各页张数相差不超过 1 */
+export function splitEvenly<T>(items: T[], perPage: number): T[][] {
+  const pageCount = Math.max(1, Math.ceil(items.length / Math.max(1, perPage)));
+  const base = Math.floor(items.length / pageCount);
+  const extra = items.length % pageCount;
+  const pages: T[][] = [];
+  let start = 0;
+  for (let i = 0; i < pageCount; i++) {
+    const size = base + (i < extra ? 1 : 0);
+    pages.push(items.slice(start, start + size));
+    start += size;
+  }
+  return pages;
+}
+
+function localDayKey(time: number): string {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+}
+
+/** 按拍摄时间稳定排序；没有时间的照片保持原顺序排在最后 */
+export function sortByTakenAt<T extends PhotoBookItem>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => {
+      const ta = a.item.takenAt ?? Number.POSITIVE_INFINITY;
+      const tb = b.item.takenAt ?? Number.POSITIVE_INFINITY;
+      if (ta !== tb) return ta < tb ? -1 : 1;
+      return a.index - b.index;
+    })
+    .map(entry => entry.item);
+}
+
+/**
+ * 按时间分页：同一天的照片为一组，一组超过 perPage 时均分成多页；
+ * 相邻的小组在不超过 perPage 时合并到同一页，避免一天一页。
+ */
+function distributeChronologically<T extends PhotoBookItem>(items: T[], perPage: number): T[][] {
+  const groups: T[][] = [];
+  let lastKey: string | null = null;
+  for (const item of sortByTakenAt(items)) {
+    const key = item.takenAt === undefined ? "" : localDayKey(item.takenAt);
+    if (key !== lastKey || groups.length === 0) groups.push([]);
+    groups[groups.length - 1].push(item);
+    lastKey = key;
+  }
+
+  const pages: T[][] = [];
+  for (const group of groups) {
+    const last = pages[pages.length - 1];
+    if (last && last.length + group.length <= perPage) {
+      last.push(...group);
+    } else {
+      pages.push(...splitEvenly(group, perPage));
+    }
+  }
+  return pages;
+}
+
+/**
+ * 把照片分配到相册各页，返回每页的照片（至少一页）。
+ * 页数超过 MAX_BOOK_PAGES 时提高每页张数，按顺序均分。
+ */
+export function distributePhotosToPages<T extends PhotoBookItem>(
+  items: T[],
+  options: { mode: PhotoBookDistribution; perPage: number },
+): T[][] {
+  if (items.length === 0) return [[]];
+  const perPage = clampPhotosPerPage(options.perPage);
+  const ordered = options.mode === "chronological" ? sortByTakenAt(items) : items;
+  const pages =
+    options.mode === "chronological"
+      ? distributeChronologically(items, perPage)
+      : splitEvenly(ordered, perPage);
+  if (pages.length <= MAX_BOOK_PAGES) return pages;
+  return splitEvenly(ordered, Math.ceil(ordered.length / MAX_BOOK_PAGES));
+}
@@ -0,0 +1,131 @@
+import type {
+  OBB,
+  PhotoEntity,
+  PhotoFrameKind,
+  PhotoFrameSticker,
+  PhotoFrameStyle,
+} from "@/types";
+import { photoToOBB, rotatePoint } from "@/utils/math";
+
+/**
+ * 相框的纯几何部分：默认样式、项目数据校验、边框宽度与碰撞外框。
+ * 绘制见 export/renderFrame，预览与导出共用。
+ */
+
+export const PHOTO_FRAME_KINDS: PhotoFrameKind[] = ["none", "border", "polaroid"];
+export const PHOTO_FRAME_STICKERS: PhotoFrameSticker[] = ["none", "tape", "corners"];
+
+/** 边框宽度上限（照片短边的比例） */
+export const MAX_FRAME_WIDTH = 0.2;
+export const MAX_CAPTION_LENGTH = 60;
+/** 拍立得底部题字区为边框宽度的倍数 */
+export const POLAROID_BOTTOM_RATIO = 4;
+
+/** 投影半径与偏移（照片短边的比例） */
+export const FRAME_SHADOW_BLUR = 0.04;
+export const FRAME_SHADOW_OFFSET = 0.015;
+/** 胶带伸出相框外的高度（照片短边的比例） */
+export const FRAME_TAPE_HEIGHT = 0.1;
+
+export const DEFAULT_PHOTO_FRAME: PhotoFrameStyle = {
+  kind: "none",
+  color: "#ffffff",
+  width: 0.04,
+  shadow: false,
+  sticker: "none",
+};
+
+/** 切换相框类型时的初始样式 */
+export function createPhotoFrame(kind: PhotoFrameKind, base?: PhotoFrameStyle | null): PhotoFrameStyle {
+  const prev = base ?? DEFAULT_PHOTO_FRAME;
+  if (kind === "polaroid") {
+    return { ...prev, kind, color: "#fbfaf7", width: 0.06, shadow: true };
+  }
+  if (kind === "border") return { ...prev, kind, width: prev.kind === "border" ? prev.width : 0.03 };
+  return { ...prev, kind };
+}
+
+export type FrameInsets = { top: number; right: number; bottom: number; left: number };
+
+export const NO_FRAME_INSETS: FrameInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/** 是否需要绘制（只有投影或装饰时也算） */
+export function isFrameVisible(frame: PhotoFrameStyle | null | undefined): frame is PhotoFrameStyle {
+  return !!frame && (frame.kind !== "none" || frame.shadow || frame.sticker !== "none");
+}
+
+/** 照片的实际相框：单张设置优先，否则使用全局样式；不需要绘制时为 null */
+export function resolvePhotoFrame(
+  photo: { frame?: PhotoFrameStyle },
+  fallback: PhotoFrameStyle | null | undefined,
+): PhotoFrameStyle | null {
+  const frame = photo.frame ?? fallback;
+  return isFrameVisible(frame) ? frame : null;
+}
+
+/** 边框在四边的宽度（画布坐标），shortSide 为照片或 tile 的短边 */
+export function resolveFrameInsets(frame: PhotoFrameStyle | null, shortSide: number): FrameInsets {
+  if (!frame || frame.kind === "none") return NO_FRAME_INSETS;
+  const side = Math.max(0, frame.width) * shortSide;
+  return {
+    top: side,
+    right: side,
+    bottom: frame.kind === "polaroid" ? side * POLAROID_BOTTOM_RATIO : side,
+    left: side,
+  };
+}
+
+/** 投影与胶带可能超出相框外沿的距离，用于导出分带时的包围盒 */
+export function resolveFrameOverflow(frame: PhotoFrameStyle | null, shortSide: number): number {
+  if (!frame) return 0;
+  const shadow = frame.shadow ? (FRAME_SHADOW_BLUR * 2 + FRAME_SHADOW_OFFSET) * shortSide : 0;
+  const tape = frame.sticker === "tape" ? FRAME_TAPE_HEIGHT * shortSide : 0;
+  return Math.max(shadow, tape);
+}
+
+/** 把照片的 OBB 扩展到相框外沿；拍立得上下不对称，中心随旋转偏移 */
+export function expandOBBByInsets(obb: OBB, insets: FrameInsets): OBB {
+  const offset = rotatePoint((insets.right - insets.left) / 2, (insets.bottom - insets.top) / 2, obb.rotation);
+  return {
+    cx: obb.cx + offset.x,
+    cy: obb.cy + offset.y,
+    hw: obb.hw + (insets.left + insets.right) / 2,
+    hh: obb.hh + (insets.top + insets.bottom) / 2,
+    rotation: obb.rotation,
+  };
+}
+
+/** 加上相框后的照片外框，供自由排列的碰撞检测使用 */
+export function photoFrameOBB(photo: PhotoEntity, fallback?: PhotoFrameStyle | null): OBB {
+  const obb = photoToOBB(photo);
+  const frame = resolvePhotoFrame(photo, fallback);
+  if (!frame) return obb;
+  return expandOBBByInsets(obb, resolveFrameInsets(frame, Math.min(obb.hw, obb.hh) * 2));
+}
+
+function finite(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+/** 校验项目数据中的相框；非法时返回 undefined（使用全局样式） */
+export function normalizePhotoFrame(value: unknown): PhotoFrameStyle | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  if (!PHOTO_FRAME_KINDS.includes(raw.kind as PhotoFrameKind)) return undefined;
+  return {
+    kind: raw.kind as PhotoFrameKind,
+    color: typeof raw.color === "string" && raw.color.trim() ? raw.color.trim() : DEFAULT_PHOTO_FRAME.color,
+    width: Math.min(MAX_FRAME_WIDTH, Math.max(0, finite(raw.width, DEFAULT_PHOTO_FRAME.width))),
+    shadow: raw.shadow === true,
+    sticker: PHOTO_FRAME_STICKERS.includes(raw.sticker as PhotoFrameSticker)
+      ? (raw.sticker as PhotoFrameSticker)
+      : "none",
+  };
+}
+
+export function normalizePhotoCaption(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = value.replace(/\s+/g, " ").trim().slice(0, MAX_CAPTION_LENGTH);
+  return text || undefined;
+}
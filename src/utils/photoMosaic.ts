@@ -0,0 +1,414 @@
+import type { Placement, PhotoMosaicSettings, TileRect } from "@/types";
+
+/**
+ * 经典照片马赛克：把目标图切成格子，按平均色为每个格子挑一张库内照片。
+ * 纯计算模块，不依赖 DOM，主线程与 layoutWorker 共用。
+ */
+
+export type MosaicRgb = [number, number, number];
+
+export const DEFAULT_PHOTO_MOSAIC_SETTINGS: PhotoMosaicSettings = {
+  grid: "uniform",
+  columns: 48,
+  colorSpace: "lab",
+  repeatLimit: 0,
+  minRepeatDistance: 2,
+  blend: 0.2,
+};
+
+export const MIN_PHOTO_MOSAIC_COLUMNS = 8;
+export const MAX_PHOTO_MOSAIC_COLUMNS = 120;
+export const MAX_PHOTO_MOSAIC_REPEAT_DISTANCE = 10;
+/** 格子总数上限：每个格子对应一个渲染实体，过多会拖慢预览与导出 */
+export const MAX_PHOTO_MOSAIC_CELLS = 9000;
+
+// adaptive：从 4×4 个最细格子合成的粗格子开始，亮度标准差超过阈值就一分为四
+const ADAPTIVE_LEVELS = 2;
+const ADAPTIVE_DETAIL_THRESHOLD = 22;
+/** 目标图采样时每个最细格子对应的像素数（单边） */
+const TARGET_SAMPLES_PER_CELL = 4;
+const MAX_TARGET_SAMPLE_EDGE = 1024;
+
+/** 库内照片的颜色摘要；width/height 为该照片马赛克图块图像的尺寸 */
+export interface PhotoMosaicSwatch {
+  id: string;
+  color: MosaicRgb;
+  width: number;
+  height: number;
+}
+
+/** 已按画布比例居中裁切的目标图 RGBA 像素 */
+export interface PhotoMosaicTarget {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface PhotoMosaicGridPlan {
+  /** 最细一级格子的行列数 */
+  columns: number;
+  rows: number;
+  cellW: number;
+  cellH: number;
+  /** adaptive 时粗格子由 2^levels 个最细格子组成（单边） */
+  levels: number;
+}
+
+export interface PhotoMosaicCell {
+  photoId: string;
+  tileRect: TileRect;
+  color: MosaicRgb;
+}
+
+export interface PhotoMosaicResult {
+  /** 与 cells 一一对应；id 为格子实例 id，crop 为图块图像的完整区域 */
+  placements: Placement[];
+  cells: PhotoMosaicCell[];
+  columns: number;
+  rows: number;
+  /** 格子颜色与所选照片颜色的平均距离（Lab 时为 ΔE76） */
+  averageColorError: number;
+  usedPhotos: number;
+  /** 因重复次数或相邻距离无法满足而放宽规则的格子数 */
+  relaxedCells: number;
+}
+
+export function normalizePhotoMosaicSettings(
+  patch: Partial<Record<keyof PhotoMosaicSettings, unknown>>,
+  base: PhotoMosaicSettings = DEFAULT_PHOTO_MOSAIC_SETTINGS,
+): PhotoMosaicSettings {
+  const next: Record<keyof PhotoMosaicSettings, unknown> = { ...base, ...patch };
+  const num = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) ? value : fallback;
+  return {
+    grid: next.grid === "adaptive" ? "adaptive" : "uniform",
+    columns: Math.round(
+      Math.min(
+        MAX_PHOTO_MOSAIC_COLUMNS,
+        Math.max(MIN_PHOTO_MOSAIC_COLUMNS, num(next.columns, base.columns)),
+      ),
+    ),
+    colorSpace: next.colorSpace === "rgb" ? "rgb" : "lab",
+    repeatLimit: Math.max(0, Math.round(num(next.repeatLimit, 0))),
+    minRepeatDistance: Math.round(
+      Math.min(
+        MAX_PHOTO_MOSAIC_REPEAT_DISTANCE,
+        Math.max(0, num(next.minRepeatDistance, 0)),
+      ),
+    ),
+    blend: Math.min(1, Math.max(0, num(next.blend, 0))),
+  };
+}
+
+/**
+ * 根据画布与列数推算最细格子网格。adaptive 的列数向上取整到 2^levels 的倍数，
+ * 保证粗格子恰好由整数个最细格子组成；所有格子宽高比一致。
+ */
+export function resolvePhotoMosaicGrid(
+  canvasW: number,
+  canvasH: number,
+  settings: Pick<PhotoMosaicSettings, "grid" | "columns">,
+): PhotoMosaicGridPlan {
+  const levels = settings.grid === "adaptive" ? ADAPTIVE_LEVELS : 0;
+  const unit = 2 ** levels;
+  let columns = Math.max(unit, Math.ceil(settings.columns / unit) * unit);
+  let rows = Math.max(
+    unit,
+    Math.round((canvasH * columns) / Math.max(1, canvasW) / unit) * unit,
+  );
+  while (columns * rows > MAX_PHOTO_MOSAIC_CELLS && columns > unit) {
+    columns -= unit;
+    rows = Math.max(
+      unit,
+      Math.round((canvasH * columns) / Math.max(1, canvasW) / unit) * unit,
+    );
+  }
+  return {
+    columns,
+    rows,
+    cellW: canvasW / columns,
+    cellH: canvasH / rows,
+    levels,
+  };
+}
+
+/** 目标图采样尺寸：每个最细格子约 4×4 像素，单边不超过 1024 */
+export function resolvePhotoMosaicSampleSize(grid: PhotoMosaicGridPlan): {
+  width: number;
+  height: number;
+} {
+  const fit = Math.min(
+    1,
+    MAX_TARGET_SAMPLE_EDGE /
+      (Math.max(grid.columns, grid.rows) * TARGET_SAMPLES_PER_CELL),
+  );
+  return {
+    width: Math.max(1, Math.round(grid.columns * TARGET_SAMPLES_PER_CELL * fit)),
+    height: Math.max(1, Math.round(grid.rows * TARGET_SAMPLES_PER_CELL * fit)),
+  };
+}
+
+function srgbToLinear(c: number): number {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+}
+
+function labPivot(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+/** sRGB（0–255）转 CIE Lab（D65） */
+export function rgbToLab(rgb: MosaicRgb): MosaicRgb {
+  const r = srgbToLinear(rgb[0]);
+  const g = srgbToLinear(rgb[1]);
+  const b = srgbToLinear(rgb[2]);
+  const x = (r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / 0.95047;
+  const y = r * 0.2126729 + g * 0.7151522 + b * 0.072175;
+  const z = (r * 0.0193339 + g * 0.119192 + b * 0.9503041) / 1.08883;
+  const fx = labPivot(x);
+  const fy = labPivot(y);
+  const fz = labPivot(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function colorDistance(a: MosaicRgb, b: MosaicRgb): number {
+  const d0 = a[0] - b[0];
+  const d1 = a[1] - b[1];
+  const d2 = a[2] - b[2];
+  return Math.sqrt(d0 * d0 + d1 * d1 + d2 * d2);
+}
+
+/** RGBA 像素的平均颜色（忽略全透明像素） */
+export function averageRgb(data: Uint8ClampedArray): MosaicRgb {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let n = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0) continue;
+    r += data[i];
+    g += data[i + 1];
+    b += data[i + 2];
+    n++;
+  }
+  if (n === 0) return [0, 0, 0];
+  return [r / n, g / n, b / n];
+}
+
+/** 目标图的积分图：O(1) 求任意矩形的平均色与亮度方差 */
+class TargetIntegral {
+  readonly width: number;
+  readonly height: number;
+  private readonly sums: Float64Array;
+
+  constructor(target: PhotoMosaicTarget) {
+    const { width, height, data } = target;
+    this.width = width;
+    this.height = height;
+    // 每个点 5 个通道：r, g, b, luma, luma²
+    const stride = (width + 1) * 5;
+    const sums = new Float64Array(stride * (height + 1));
+    for (let y = 0; y < height; y++) {
+      const row = new Float64Array(5);
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const luma = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        row[0] += data[i];
+        row[1] += data[i + 1];
+        row[2] += data[i + 2];
+        row[3] += luma;
+        row[4] += luma * luma;
+        const at = (y + 1) * stride + (x + 1) * 5;
+        const above = y * stride + (x + 1) * 5;
+        for (let c = 0; c < 5; c++) sums[at + c] = sums[above + c] + row[c];
+      }
+    }
+    this.sums = sums;
+  }
+
+  /** 画布矩形按比例映射到采样像素后统计；至少覆盖 1 个像素 */
+  stats(rect: TileRect, canvasW: number, canvasH: number) {
+    const x0 = Math.min(this.width - 1, Math.floor((rect.x / canvasW) * this.width));
+    const y0 = Math.min(this.height - 1, Math.floor((rect.y / canvasH) * this.height));
+    const x1 = Math.max(x0 + 1, Math.min(this.width, Math.round(((rect.x + rect.w) / canvasW) * this.width)));
+    const y1 = Math.max(y0 + 1, Math.min(this.height, Math.round(((rect.y + rect.h) / canvasH) * this.height)));
+    const stride = (this.width + 1) * 5;
+    const n = (x1 - x0) * (y1 - y0);
+    const sum = (c: number) =>
+      this.sums[y1 * stride + x1 * 5 + c] -
+      this.sums[y0 * stride + x1 * 5 + c] -
+      this.sums[y1 * stride + x0 * 5 + c] +
+      this.sums[y0 * stride + x0 * 5 + c];
+    const lumaMean = sum(3) / n;
+    return {
+      color: [sum(0) / n, sum(1) / n, sum(2) / n] as MosaicRgb,
+      lumaStd: Math.sqrt(Math.max(0, sum(4) / n - lumaMean * lumaMean)),
+    };
+  }
+}
+
+function buildCells(
+  grid: PhotoMosaicGridPlan,
+  integral: TargetIntegral,
+  canvasW: number,
+  canvasH: number,
+): Array<{ rect: TileRect; color: MosaicRgb }> {
+  const out: Array<{ rect: TileRect; color: MosaicRgb }> = [];
+  const cellRect = (col: number, row: number, span: number): TileRect => ({
+    x: col * grid.cellW,
+    y: row * grid.cellH,
+    w: span * grid.cellW,
+    h: span * grid.cellH,
+  });
+
+  const visit = (col: number, row: number, level: number) => {
+    const span = 2 ** level;
+    const rect = cellRect(col, row, span);
+    const { color, lumaStd } = integral.stats(rect, canvasW, canvasH);
+    if (level === 0 || lumaStd <= ADAPTIVE_DETAIL_THRESHOLD) {
+      out.push({ rect, color });
+      return;
+    }
+    const half = span / 2;
+    visit(col, row, level - 1);
+    visit(col + half, row, level - 1);
+    visit(col, row + half, level - 1);
+    visit(col + half, row + half, level - 1);
+  };
+
+  const unit = 2 ** grid.levels;
+  for (let row = 0; row < grid.rows; row += unit) {
+    for (let col = 0; col < grid.columns; col += unit) {
+      visit(col, row, grid.levels);
+    }
+  }
+  return out;
+}
+
+/** 格子覆盖的最细格子行列范围（右、下为开区间） */
+function cellSpan(rect: TileRect, grid: PhotoMosaicGridPlan) {
+  return {
+    c0: Math.round(rect.x / grid.cellW),
+    r0: Math.round(rect.y / grid.cellH),
+    c1: Math.round((rect.x + rect.w) / grid.cellW),
+    r1: Math.round((rect.y + rect.h) / grid.cellH),
+  };
+}
+
+/** 与 fillArrange 相同的线性同余随机序列，保证同一种子结果可复现 */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+/**
+ * 为每个格子匹配照片：格子按随机顺序处理，避免按行扫描时重复限制把好照片集中用在画面上方。
+ * 依次尝试：满足次数与距离 → 只满足次数 → 颜色最接近。
+ */
+export function buildPhotoMosaic(
+  target: PhotoMosaicTarget,
+  swatches: PhotoMosaicSwatch[],
+  canvasW: number,
+  canvasH: number,
+  settings: PhotoMosaicSettings,
+  seed: number = 1,
+): PhotoMosaicResult {
+  const grid = resolvePhotoMosaicGrid(canvasW, canvasH, settings);
+  if (swatches.length === 0 || target.width <= 0 || target.height <= 0) {
+    return {
+      placements: [],
+      cells: [],
+      columns: grid.columns,
+      rows: grid.rows,
+      averageColorError: 0,
+      usedPhotos: 0,
+      relaxedCells: 0,
+    };
+  }
+
+  const useLab = settings.colorSpace === "lab";
+  const toSpace = (c: MosaicRgb) => (useLab ? rgbToLab(c) : c);
+  const swatchColors = swatches.map(s => toSpace(s.color));
+  const cells = buildCells(grid, new TargetIntegral(target), canvasW, canvasH);
+
+  const order = cells.map((_, i) => i);
+  const random = createRandom(seed);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const assigned = new Array<number>(cells.length).fill(-1);
+  const usage = new Array<number>(swatches.length).fill(0);
+  // 每个最细格子当前使用的照片，用于检查相邻距离
+  const owner = new Int32Array(grid.columns * grid.rows).fill(-1);
+  let relaxedCells = 0;
+  let errorSum = 0;
+
+  for (const cellIdx of order) {
+    const cell = cells[cellIdx];
+    const cellColor = toSpace(cell.color);
+    const ranked = swatchColors
+      .map((color, idx) => ({ idx, dist: colorDistance(cellColor, color) }))
+      .sort((a, b) => a.dist - b.dist || a.idx - b.idx);
+
+    const span = cellSpan(cell.rect, grid);
+    const d = settings.minRepeatDistance;
+
+    const underLimit = (idx: number) =>
+      settings.repeatLimit <= 0 || usage[idx] < settings.repeatLimit;
+    const farEnough = (idx: number) => {
+      if (d <= 0 || usage[idx] === 0) return true;
+      for (let r = Math.max(0, span.r0 - d); r < Math.min(grid.rows, span.r1 + d); r++) {
+        for (let c = Math.max(0, span.c0 - d); c < Math.min(grid.columns, span.c1 + d); c++) {
+          if (owner[r * grid.columns + c] === idx) return false;
+        }
+      }
+      return true;
+    };
+
+    let pick = ranked.find(c => underLimit(c.idx) && farEnough(c.idx));
+    if (!pick) {
+      relaxedCells++;
+      pick = ranked.find(c => underLimit(c.idx)) ?? ranked[0];
+    }
+    assigned[cellIdx] = pick.idx;
+    usage[pick.idx]++;
+    for (let r = span.r0; r < span.r1; r++) {
+      for (let c = span.c0; c < span.c1; c++) owner[r * grid.columns + c] = pick.idx;
+    }
+    errorSum += pick.dist;
+  }
+
+  const placements: Placement[] = [];
+  const outCells: PhotoMosaicCell[] = [];
+  cells.forEach((cell, i) => {
+    const swatch = swatches[assigned[i]];
+    const rect = cell.rect;
+    // 图块图像已按格子宽高比裁好，cover 缩放即可铺满格子
+    const scale = Math.max(rect.w / swatch.width, rect.h / swatch.height);
+    placements.push({
+      id: `mosaic-${i}`,
+      cx: rect.x + rect.w / 2,
+      cy: rect.y + rect.h / 2,
+      scale,
+      rotation: 0,
+      crop: { x: 0, y: 0, width: swatch.width, height: swatch.height },
+      tileRect: { ...rect },
+    });
+    outCells.push({ photoId: swatch.id, tileRect: { ...rect }, color: cell.color });
+  });
+
+  return {
+    placements,
+    cells: outCells,
+    columns: grid.columns,
+    rows: grid.rows,
+    averageColorError: errorSum / cells.length,
+    usedPhotos: usage.filter(n => n > 0).length,
+    relaxedCells,
+  };
+}
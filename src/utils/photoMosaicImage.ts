@@ -0,0 +1,124 @@
+import type { PhotoEntity } from "@/types";
+import type { SmartDetection } from "@/utils/smartCrop";
+import { centerCropToAspect } from "@/utils/image";
+import {
+  averageRgb,
+  type MosaicRgb,
+  type PhotoMosaicTarget,
+} from "@/utils/photoMosaic";
+
+/**
+ * 照片马赛克的主线程图像处理：目标图采样、图块图像生成与颜色叠加。
+ * 格子匹配本身在 layoutWorker 中完成（见 utils/photoMosaic）。
+ */
+
+/** 图块图像单边像素范围：格子在导出原始分辨率下通常只有几十到一两百像素 */
+const MIN_TILE_EDGE = 32;
+const MAX_TILE_EDGE = 256;
+const SWATCH_SAMPLE_EDGE = 16;
+
+function create2dCanvas(width: number, height: number) {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Failed to create canvas context");
+  return { canvas, ctx };
+}
+
+/** 目标图按画布比例居中裁切后缩放到采样尺寸 */
+export async function sampleMosaicTarget(
+  file: Blob,
+  canvasW: number,
+  canvasH: number,
+  size: { width: number; height: number },
+): Promise<PhotoMosaicTarget> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const crop = centerCropToAspect(
+      { x: 0, y: 0, width: bitmap.width, height: bitmap.height },
+      canvasW / Math.max(1, canvasH),
+      bitmap.width,
+      bitmap.height,
+    );
+    const { canvas, ctx } = create2dCanvas(size.width, size.height);
+    ctx.drawImage(
+      bitmap,
+      crop.x,
+      crop.y,
+      crop.width,
+      crop.height,
+      0,
+      0,
+      canvas.width,
+      canvas.height,
+    );
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return { width: canvas.width, height: canvas.height, data };
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function resolveMosaicTileEdge(cellW: number, cellH: number): number {
+  return Math.round(
+    Math.min(MAX_TILE_EDGE, Math.max(MIN_TILE_EDGE, Math.max(cellW, cellH))),
+  );
+}
+
+/**
+ * 把照片（用户裁剪区域）按格子宽高比裁好并缩小为图块图像，同时取平均色。
+ * 同一照片的所有格子共用这一张图块图像。
+ */
+export function renderMosaicTileImage(
+  photo: PhotoEntity,
+  cellAspect: number,
+  edge: number,
+  detections?: SmartDetection[],
+): { canvas: HTMLCanvasElement; color: MosaicRgb } {
+  const crop = centerCropToAspect(
+    photo.crop,
+    cellAspect,
+    photo.imageWidth,
+    photo.imageHeight,
+    { detections },
+  );
+  const width = cellAspect >= 1 ? edge : edge * cellAspect;
+  const height = cellAspect >= 1 ? edge / cellAspect : edge;
+  const { canvas, ctx } = create2dCanvas(width, height);
+  ctx.drawImage(
+    photo.image,
+    crop.x,
+    crop.y,
+    crop.width,
+    crop.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height,
+  );
+
+  const sample = create2dCanvas(SWATCH_SAMPLE_EDGE, SWATCH_SAMPLE_EDGE);
+  sample.ctx.drawImage(canvas, 0, 0, SWATCH_SAMPLE_EDGE, SWATCH_SAMPLE_EDGE);
+  const { data } = sample.ctx.getImageData(0, 0, SWATCH_SAMPLE_EDGE, SWATCH_SAMPLE_EDGE);
+  return { canvas, color: averageRgb(data) };
+}
+
+/**
+ * 在图块图像上叠加格子颜色，得到该格子独用的图像；
+ * 尺寸按格子大小缩小（edge 为长边），避免格子很多时占用过多内存。
+ */
+export function blendMosaicTile(
+  tile: HTMLCanvasElement,
+  color: MosaicRgb,
+  amount: number,
+  edge: number,
+): HTMLCanvasElement {
+  const fit = Math.min(1, edge / Math.max(tile.width, tile.height));
+  const { canvas, ctx } = create2dCanvas(tile.width * fit, tile.height * fit);
+  ctx.drawImage(tile, 0, 0, canvas.width, canvas.height);
+  ctx.globalAlpha = amount;
+  ctx.fillStyle = `rgb(${color.map(c => Math.round(c)).join(",")})`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return canvas;
+}
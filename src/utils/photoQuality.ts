@@ -0,0 +1,256 @@
+import type { PhotoQuality } from "@/types";
+import { exposureScore, laplacianVariance, toGrayscale } from "@/utils/duplicates";
+
+/**
+ * 照片画质分析：在缩小后的整图上算清晰度（拉普拉斯方差）、曝光直方图与噪点，
+ * 有人脸时再单独裁出人脸区域算清晰度，并用眼部暗区粗略判断是否闭眼。
+ * 视觉 Worker 与主线程兜底路径共用同一套计算。
+ */
+
+/** 整图分析尺寸（最长边） */
+const ANALYSIS_EDGE = 256;
+/** 人脸区域分析尺寸（最长边，只缩小不放大） */
+const FACE_EDGE = 128;
+/** 小于该尺寸（像素）的人脸不参与分析 */
+const MIN_FACE_EDGE = 24;
+/** 人脸高度不足该值时不判断闭眼 */
+const MIN_EYE_FACE_EDGE = 40;
+/** 最多分析的人脸数（按面积取最大的几张） */
+const MAX_FACES = 4;
+
+/** 拉普拉斯方差 → 清晰度评分的尺度 */
+const SHARPNESS_SCALE = 250;
+/** 噪点标准差达到该值时噪点评分为 0 */
+const NOISE_LIMIT = 12;
+const HISTOGRAM_BINS = 16;
+const SHADOW_CLIP = 8;
+const HIGHLIGHT_CLIP = 247;
+/** 疑似闭眼时综合评分乘以该系数 */
+const CLOSED_EYES_FACTOR = 0.75;
+
+/** 清晰度评分低于该值视为模糊（照片列表筛选使用） */
+export const BLURRY_THRESHOLD = 0.35;
+/** 曝光评分低于该值视为曝光不佳（照片列表筛选使用） */
+export const POOR_EXPOSURE_THRESHOLD = 0.4;
+
+export type PixelRegion = {
+  /** RGBA 像素 */
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+};
+
+export type FaceRegionQuality = {
+  sharpness: number;
+  /** 无法判断（人脸太小或没有对比度）时为 null */
+  eyesClosed: boolean | null;
+};
+
+type Box = { x: number; y: number; width: number; height: number };
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function sharpnessFromVariance(variance: number): number {
+  return clamp01(1 - Math.exp(-variance / SHARPNESS_SCALE));
+}
+
+/** Immerkær 快速噪声估计：与拉普拉斯差分核卷积后取平均绝对值 */
+export function estimateNoise(gray: ArrayLike<number>, width: number, height: number): number {
+  if (width < 3 || height < 3) return 0;
+  let sum = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v =
+        gray[i - width - 1] - 2 * gray[i - width] + gray[i - width + 1] -
+        2 * gray[i - 1] + 4 * gray[i] - 2 * gray[i + 1] +
+        gray[i + width - 1] - 2 * gray[i + width] + gray[i + width + 1];
+      sum += Math.abs(v);
+    }
+  }
+  return (Math.sqrt(Math.PI / 2) * sum) / (6 * (width - 2) * (height - 2));
+}
+
+/**
+ * 粗略判断闭眼：睁眼时虹膜/瞳孔在眼部横带里形成有一定高度的暗块，
+ * 闭眼时只剩一条细的睫毛线。统计暗像素连续段足够高的列数占比。
+ */
+function detectClosedEyes(gray: Float32Array, width: number, height: number): boolean | null {
+  if (height < MIN_EYE_FACE_EDGE) return null;
+  let mean = 0;
+  for (let i = 0; i < gray.length; i++) mean += gray[i];
+  mean /= Math.max(1, gray.length);
+  if (mean < 24) return null;
+
+  const dark = mean * 0.6;
+  const top = Math.round(height * 0.3);
+  const bottom = Math.round(height * 0.55);
+  const left = Math.round(width * 0.1);
+  const right = Math.round(width * 0.9);
+  const minRun = Math.max(2, Math.round(height * 0.06));
+  let tallColumns = 0;
+  for (let x = left; x < right; x++) {
+    let run = 0;
+    let longest = 0;
+    for (let y = top; y < bottom; y++) {
+      run = gray[y * width + x] < dark ? run + 1 : 0;
+      longest = Math.max(longest, run);
+    }
+    if (longest >= minRun) tallColumns++;
+  }
+  return tallColumns / Math.max(1, right - left) < 0.08;
+}
+
+export function analyzeFaceRegion(face: PixelRegion): FaceRegionQuality {
+  const gray = toGrayscale(face.data, face.width, face.height);
+  return {
+    sharpness: sharpnessFromVariance(laplacianVariance(gray, face.width, face.height)),
+    eyesClosed: detectClosedEyes(gray, face.width, face.height),
+  };
+}
+
+export function analyzePhotoQuality(frame: PixelRegion, faces: PixelRegion[] = []): PhotoQuality {
+  const { width, height } = frame;
+  const gray = toGrayscale(frame.data, width, height);
+  const variance = laplacianVariance(gray, width, height);
+  const sharpness = sharpnessFromVariance(variance);
+
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  let sum = 0;
+  let shadow = 0;
+  let highlight = 0;
+  for (let i = 0; i < gray.length; i++) {
+    const v = gray[i];
+    sum += v;
+    if (v <= SHADOW_CLIP) shadow++;
+    if (v >= HIGHLIGHT_CLIP) highlight++;
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((v / 256) * HISTOGRAM_BINS))]++;
+  }
+  const total = Math.max(1, gray.length);
+  const exposure = exposureScore(gray);
+  const noise = estimateNoise(gray, width, height);
+
+  const quality: PhotoQuality = {
+    score: 0,
+    sharpness,
+    laplacianVariance: variance,
+    exposure,
+    brightness: sum / total / 255,
+    shadowClipping: shadow / total,
+    highlightClipping: highlight / total,
+    histogram: histogram.map(count => count / total),
+    noise,
+  };
+
+  const faceResults = faces.map(analyzeFaceRegion);
+  if (faceResults.length > 0) {
+    quality.faceSharpness = Math.min(...faceResults.map(item => item.sharpness));
+    quality.closedEyeFaces = faceResults.filter(item => item.eyesClosed === true).length;
+  }
+
+  // 人像照片背景虚化很常见，有人脸时以人脸清晰度为主
+  const focus =
+    quality.faceSharpness !== undefined
+      ? quality.faceSharpness * 0.75 + sharpness * 0.25
+      : sharpness;
+  const noiseScore = clamp01(1 - noise / NOISE_LIMIT);
+  let score = focus * 0.55 + exposure * 0.3 + noiseScore * 0.15;
+  if (quality.closedEyeFaces) score *= CLOSED_EYES_FACTOR;
+  quality.score = clamp01(score);
+  return quality;
+}
+
+function createAnalysisContext(
+  width: number,
+  height: number,
+): OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height).getContext("2d", { willReadFrequently: true });
+  }
+  if (typeof document === "undefined") return null;
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext("2d", { willReadFrequently: true });
+}
+
+function readRegion(
+  image: CanvasImageSource,
+  box: Box,
+  maxEdge: number,
+): PixelRegion | null {
+  const ratio = Math.min(1, maxEdge / Math.max(box.width, box.height));
+  const w = Math.max(1, Math.round(box.width * ratio));
+  const h = Math.max(1, Math.round(box.height * ratio));
+  const ctx = createAnalysisContext(w, h);
+  if (!ctx) return null;
+  ctx.drawImage(image, box.x, box.y, box.width, box.height, 0, 0, w, h);
+  return { data: ctx.getImageData(0, 0, w, h).data, width: w, height: h };
+}
+
+/**
+ * 在图片上做画质分析，faces 为同一坐标系下的人脸框。
+ * Worker 与主线程都可调用；无法读取像素（如跨域图片）时返回 null。
+ */
+export function measurePhotoQuality(
+  image: CanvasImageSource,
+  width: number,
+  height: number,
+  faces: Box[] = [],
+): PhotoQuality | null {
+  if (width <= 0 || height <= 0) return null;
+  try {
+    const frame = readRegion(image, { x: 0, y: 0, width, height }, ANALYSIS_EDGE);
+    if (!frame) return null;
+    const faceRegions = faces
+      .map(face => {
+        const x = Math.max(0, Math.floor(face.x));
+        const y = Math.max(0, Math.floor(face.y));
+        return {
+          x,
+          y,
+          width: Math.min(width - x, Math.ceil(face.width)),
+          height: Math.min(height - y, Math.ceil(face.height)),
+        };
+      })
+      .filter(face => Math.min(face.width, face.height) >= MIN_FACE_EDGE)
+      .sort((a, b) => b.width * b.height - a.width * a.height)
+      .slice(0, MAX_FACES)
+      .map(face => readRegion(image, face, FACE_EDGE))
+      .filter((face): face is PixelRegion => !!face);
+    return analyzePhotoQuality(frame, faceRegions);
+  } catch {
+    return null;
+  }
+}
+
+/** 照片列表的画质排序 / 筛选 */
+export type PhotoQualitySort = "list" | "quality" | "sharpness";
+export type PhotoQualityFilter = "all" | "blurry" | "poor-exposure" | "eyes-closed";
+
+export function matchesQualityFilter(
+  quality: PhotoQuality | undefined,
+  filter: PhotoQualityFilter,
+): boolean {
+  if (filter === "all") return true;
+  if (!quality) return false;
+  if (filter === "blurry") return (quality.faceSharpness ?? quality.sharpness) < BLURRY_THRESHOLD;
+  if (filter === "poor-exposure") return quality.exposure < POOR_EXPOSURE_THRESHOLD;
+  return (quality.closedEyeFaces ?? 0) > 0;
+}
+
+/** 按画质从高到低排序，没有分析结果的照片排在最后，同分保持原顺序 */
+export function sortByQuality<T extends { quality?: PhotoQuality }>(
+  items: T[],
+  sort: PhotoQualitySort,
+): T[] {
+  if (sort === "list") return items;
+  const key = (item: T) =>
+    sort === "quality" ? item.quality?.score ?? -1 : item.quality?.sharpness ?? -1;
+  return items
+    .map((item, idx) => ({ item, idx }))
+    .sort((a, b) => key(b.item) - key(a.item) || a.idx - b.idx)
+    .map(entry => entry.item);
+}
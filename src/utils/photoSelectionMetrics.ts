@@ -1,4 +1,4 @@
-import type { CropRect, PhotoEntity } from "@/types";
+import type { CropRect, PhotoEntity, PhotoExif, PhotoQuality } from "@/types";
 
 export type PhotoSelectionInfo = {
   original: {
@@ -16,6 +16,39 @@ export type PhotoSelectionInfo = {
     height: string;
     aspect: string;
   };
+  /** 来自 EXIF 的拍摄信息；没有任何字段时为 null */
+  camera: PhotoCameraInfo | null;
+  /** 画质分析结果；未分析时为 null */
+  quality: PhotoQualityInfo | null;
+};
+
+export type PhotoQualityInfo = {
+  /** 以下评分均为百分制整数 */
+  score: number;
+  sharpness: number;
+  exposure: number;
+  /** 人脸清晰度，没有人脸时缺省 */
+  faceSharpness?: number;
+  /** 死黑 / 过曝像素占比（百分比，1 位小数） */
+  shadowClipping: string;
+  highlightClipping: string;
+  /** 噪点标准差（1 位小数） */
+  noise: string;
+  closedEyeFaces: number;
+  /** 亮度直方图，按最高一档归一化到 0–1 */
+  histogram: number[];
+};
+
+export type PhotoCameraInfo = {
+  /** 机身，如 "Apple iPhone 15 Pro" */
+  body?: string;
+  lens?: string;
+  /** 曝光参数，如 "1/125 s · f/1.8 · ISO 100 · 24 mm" */
+  exposure?: string;
+  /** 拍摄时间戳，按界面语言格式化 */
+  takenAt?: number;
+  /** "纬度, 经度"，保留 5 位小数 */
+  location?: string;
 };
 
 function toSafeSize(value: number, fallback: number): number {
@@ -39,6 +72,59 @@ function formatCrop(crop: CropRect) {
   };
 }
 
+/** 曝光时间：1 秒以内显示为 1/N，否则显示秒数 */
+export function formatExposureTime(seconds: number): string {
+  if (seconds >= 1) return `${Number(seconds.toFixed(1))} s`;
+  return `1/${Math.round(1 / seconds)} s`;
+}
+
+function toPercent(value: number): number {
+  return Math.round(value * 100);
+}
+
+function buildQualityInfo(quality: PhotoQuality | undefined): PhotoQualityInfo | null {
+  if (!quality) return null;
+  const peak = Math.max(1e-6, ...quality.histogram);
+  return {
+    score: toPercent(quality.score),
+    sharpness: toPercent(quality.sharpness),
+    exposure: toPercent(quality.exposure),
+    faceSharpness:
+      quality.faceSharpness !== undefined ? toPercent(quality.faceSharpness) : undefined,
+    shadowClipping: (quality.shadowClipping * 100).toFixed(1),
+    highlightClipping: (quality.highlightClipping * 100).toFixed(1),
+    noise: quality.noise.toFixed(1),
+    closedEyeFaces: quality.closedEyeFaces ?? 0,
+    histogram: quality.histogram.map(value => value / peak),
+  };
+}
+
+function buildCameraInfo(exif: PhotoExif | undefined): PhotoCameraInfo | null {
+  if (!exif) return null;
+  const info: PhotoCameraInfo = {};
+
+  const make = exif.make ?? "";
+  const model = exif.model ?? "";
+  // 多数机型的 Model 已包含厂商名
+  const body = model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`;
+  if (body.trim()) info.body = body.trim();
+  if (exif.lensModel) info.lens = exif.lensModel;
+
+  const exposure = [
+    exif.exposureTime ? formatExposureTime(exif.exposureTime) : "",
+    exif.fNumber ? `f/${Number(exif.fNumber.toFixed(1))}` : "",
+    exif.iso ? `ISO ${exif.iso}` : "",
+    exif.focalLength ? `${Number(exif.focalLength.toFixed(1))} mm` : "",
+  ].filter(Boolean);
+  if (exposure.length > 0) info.exposure = exposure.join(" · ");
+
+  if (exif.takenAt !== undefined) info.takenAt = exif.takenAt;
+  if (exif.gps) {
+    info.location = `${exif.gps.latitude.toFixed(5)}, ${exif.gps.longitude.toFixed(5)}`;
+  }
+  return Object.keys(info).length > 0 ? info : null;
+}
+
 export function buildPhotoSelectionInfo(photo: PhotoEntity): PhotoSelectionInfo {
   const originalWidth = Math.round(
     toSafeSize(photo.sourceWidth ?? photo.imageWidth, photo.imageWidth),
@@ -57,5 +143,7 @@ export function buildPhotoSelectionInfo(photo: PhotoEntity): PhotoSelectionInfo
     },
     userCrop,
     displayCrop,
+    camera: buildCameraInfo(photo.exif),
+    quality: buildQualityInfo(photo.quality),
   };
 }
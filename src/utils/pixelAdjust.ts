@@ -0,0 +1,240 @@
+import type { PhotoAdjustments } from "@/types";
+import { clamp } from "@/utils/math";
+
+/**
+ * 像素级调整：曝光、白平衡、高光 / 阴影、自然饱和度、清晰度、锐化与暗角。
+ * 在 ImageData 上原地计算，预览 worker 与导出共用；
+ * 涉及半径的步骤按图像短边取比例，缩略图与原图的效果一致。
+ */
+
+export type PixelAdjustmentKey =
+  | "exposure"
+  | "temperature"
+  | "tint"
+  | "highlights"
+  | "shadows"
+  | "vibrance"
+  | "clarity"
+  | "sharpen"
+  | "vignette";
+
+export type PixelAdjustments = Partial<Pick<PhotoAdjustments, PixelAdjustmentKey>>;
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export const PIXEL_ADJUSTMENT_RANGES: Record<PixelAdjustmentKey, { min: number; max: number; step: number }> = {
+  exposure: { min: -3, max: 3, step: 0.05 },
+  temperature: { min: -100, max: 100, step: 1 },
+  tint: { min: -100, max: 100, step: 1 },
+  highlights: { min: -100, max: 100, step: 1 },
+  shadows: { min: -100, max: 100, step: 1 },
+  vibrance: { min: -100, max: 100, step: 1 },
+  clarity: { min: -100, max: 100, step: 1 },
+  sharpen: { min: 0, max: 100, step: 1 },
+  vignette: { min: -100, max: 100, step: 1 },
+};
+
+export const PIXEL_ADJUSTMENT_KEYS = Object.keys(PIXEL_ADJUSTMENT_RANGES) as PixelAdjustmentKey[];
+
+/** 清晰度与锐化的模糊半径（图像短边的比例） */
+const CLARITY_RADIUS = 0.02;
+const SHARPEN_RADIUS = 0.001;
+const GAMMA = 2.2;
+
+/** 只保留有效且非 0 的像素调整，超出范围的值截断 */
+export function pickPixelAdjustments(a: PixelAdjustments): PixelAdjustments {
+  const out: PixelAdjustments = {};
+  for (const key of PIXEL_ADJUSTMENT_KEYS) {
+    const value = a[key];
+    if (typeof value !== "number" || !Number.isFinite(value) || value === 0) continue;
+    const { min, max } = PIXEL_ADJUSTMENT_RANGES[key];
+    out[key] = clamp(value, min, max);
+  }
+  return out;
+}
+
+export function hasPixelAdjustments(a: PixelAdjustments): boolean {
+  return Object.keys(pickPixelAdjustments(a)).length > 0;
+}
+
+/** 调整参数的缓存键 */
+export function pixelAdjustmentsKey(a: PixelAdjustments): string {
+  const picked = pickPixelAdjustments(a);
+  return PIXEL_ADJUSTMENT_KEYS.map(key => picked[key] ?? 0).join(",");
+}
+
+/** 复制调整参数，像素调整只保留有效值 */
+export function normalizePhotoAdjustments(a: PhotoAdjustments): PhotoAdjustments {
+  return {
+    brightness: a.brightness,
+    contrast: a.contrast,
+    saturation: a.saturation,
+    preset: a.preset,
+    ...pickPixelAdjustments(a),
+  };
+}
+
+/** 单通道查找表：在线性空间乘以增益（曝光 × 白平衡） */
+function buildChannelLut(gain: number): Uint8Array {
+  const lut = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    const linear = Math.pow(i / 255, GAMMA) * gain;
+    lut[i] = Math.round(Math.pow(Math.min(1, linear), 1 / GAMMA) * 255);
+  }
+  return lut;
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1);
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * 三次盒式模糊近似高斯（σ = radius），边缘按最近像素延伸。
+ * 半径可以是小数：窗口两端各多取一个像素并调整其权重，使每次的方差等于连续盒式核的 radius² / 3，
+ * 这样模糊范围严格随图像尺寸缩放，小图上不足 1 像素的半径也不会被放大。
+ */
+export function blurLuma(src: Float32Array, width: number, height: number, radius: number): Float32Array {
+  if (!(radius > 0)) return new Float32Array(src);
+  const variance = (radius * radius) / 3;
+  // 整数窗口 [-r, r] 的方差为 r(r+1)/3，取不超过目标的最大 r，再由端点权重补足
+  const r = Math.max(0, Math.floor((Math.sqrt(1 + 12 * variance) - 1) / 2));
+  const edge = (variance * (2 * r + 1) - (r * (r + 1) * (2 * r + 1)) / 3) / (2 * (r + 1) * (r + 1) - 2 * variance);
+  const norm = 1 / (2 * r + 1 + 2 * edge);
+  const tmp = new Float32Array(src.length);
+  let current = src;
+  for (let pass = 0; pass < 3; pass++) {
+    const out = new Float32Array(src.length);
+    for (let y = 0; y < height; y++) {
+      const row = y * width;
+      const at = (x: number) => current[row + clamp(x, 0, width - 1)];
+      let sum = 0;
+      for (let k = -r; k <= r; k++) sum += at(k);
+      for (let x = 0; x < width; x++) {
+        tmp[row + x] = (sum + edge * (at(x - r - 1) + at(x + r + 1))) * norm;
+        sum += at(x + r + 1) - at(x - r);
+      }
+    }
+    for (let x = 0; x < width; x++) {
+      const at = (y: number) => tmp[clamp(y, 0, height - 1) * width + x];
+      let sum = 0;
+      for (let k = -r; k <= r; k++) sum += at(k);
+      for (let y = 0; y < height; y++) {
+        out[y * width + x] = (sum + edge * (at(y - r - 1) + at(y + r + 1))) * norm;
+        sum += at(y + r + 1) - at(y - r);
+      }
+    }
+    current = out;
+  }
+  return current;
+}
+
+/** 逐像素：曝光、白平衡、高光 / 阴影、自然饱和度 */
+function applyTone(pixels: PixelBuffer, a: PixelAdjustments): void {
+  const gain = Math.pow(2, a.exposure ?? 0);
+  const temperature = (a.temperature ?? 0) / 100;
+  const tint = (a.tint ?? 0) / 100;
+  const lutR = buildChannelLut(gain * (1 + 0.25 * temperature) * (1 + 0.1 * tint));
+  const lutG = buildChannelLut(gain * (1 - 0.2 * tint));
+  const lutB = buildChannelLut(gain * (1 - 0.25 * temperature) * (1 + 0.1 * tint));
+  const highlights = (a.highlights ?? 0) / 100;
+  const shadows = (a.shadows ?? 0) / 100;
+  const vibrance = (a.vibrance ?? 0) / 100;
+  const { data } = pixels;
+
+  for (let i = 0; i < data.length; i += 4) {
+    let r = lutR[data[i]] / 255;
+    let g = lutG[data[i + 1]] / 255;
+    let b = lutB[data[i + 2]] / 255;
+    if (highlights !== 0 || shadows !== 0) {
+      const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      if (y > 1e-4) {
+        // 阴影曲线峰值在 1/3 亮度处，高光曲线在 2/3 处，两端保持不动
+        const next =
+          y + 1.4 * (shadows * y * (1 - y) * (1 - y) + highlights * y * y * (1 - y));
+        const k = Math.max(0, next) / y;
+        r *= k;
+        g *= k;
+        b *= k;
+      }
+    }
+    if (vibrance !== 0) {
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      const sat = max > 0 ? (max - min) / max : 0;
+      const amount = 1 + vibrance * (1 - sat);
+      const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r = y + (r - y) * amount;
+      g = y + (g - y) * amount;
+      b = y + (b - y) * amount;
+    }
+    data[i] = Math.round(clamp(r, 0, 1) * 255);
+    data[i + 1] = Math.round(clamp(g, 0, 1) * 255);
+    data[i + 2] = Math.round(clamp(b, 0, 1) * 255);
+  }
+}
+
+/** 清晰度与锐化：只作用于亮度，避免彩色镶边 */
+function applyDetail(pixels: PixelBuffer, a: PixelAdjustments): void {
+  const clarity = (a.clarity ?? 0) / 100;
+  const sharpen = (a.sharpen ?? 0) / 100;
+  const { data, width, height } = pixels;
+  const shortSide = Math.min(width, height);
+  const luma = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+    luma[p] = (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+  }
+  const delta = new Float32Array(luma.length);
+  if (clarity !== 0) {
+    const blurred = blurLuma(luma, width, height, shortSide * CLARITY_RADIUS);
+    for (let p = 0; p < luma.length; p++) {
+      const l = luma[p];
+      const midtone = 1 - (2 * l - 1) * (2 * l - 1);
+      delta[p] += clarity * 0.8 * midtone * (l - blurred[p]);
+    }
+  }
+  if (sharpen !== 0) {
+    const blurred = blurLuma(luma, width, height, shortSide * SHARPEN_RADIUS);
+    for (let p = 0; p < luma.length; p++) delta[p] += sharpen * 1.5 * (luma[p] - blurred[p]);
+  }
+  for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+    const d = delta[p] * 255;
+    if (d === 0) continue;
+    data[i] = Math.round(clamp(data[i] + d, 0, 255));
+    data[i + 1] = Math.round(clamp(data[i + 1] + d, 0, 255));
+    data[i + 2] = Math.round(clamp(data[i + 2] + d, 0, 255));
+  }
+}
+
+/** 暗角：以区域中心为圆心的椭圆渐变，负值压暗、正值提亮 */
+function applyVignette(pixels: PixelBuffer, amount: number): void {
+  const { data, width, height } = pixels;
+  for (let y = 0; y < height; y++) {
+    const dy = ((y + 0.5) / height) * 2 - 1;
+    for (let x = 0; x < width; x++) {
+      const dx = ((x + 0.5) / width) * 2 - 1;
+      const f = smoothstep(0.2, 1, (dx * dx + dy * dy) / 2) * amount * 0.8;
+      if (f === 0) continue;
+      const i = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const v = data[i + c];
+        data[i + c] = Math.round(f < 0 ? v * (1 + f) : v + (255 - v) * f);
+      }
+    }
+  }
+}
+
+/** 按固定顺序原地调整：色调 → 细节 → 暗角 */
+export function applyPixelAdjustments(pixels: PixelBuffer, adjustments: PixelAdjustments): void {
+  const a = pickPixelAdjustments(adjustments);
+  if (pixels.width <= 0 || pixels.height <= 0) return;
+  if (a.exposure || a.temperature || a.tint || a.highlights || a.shadows || a.vibrance) {
+    applyTone(pixels, a);
+  }
+  if (a.clarity || a.sharpen) applyDetail(pixels, a);
+  if (a.vignette) applyVignette(pixels, a.vignette / 100);
+}
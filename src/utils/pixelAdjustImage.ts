@@ -0,0 +1,189 @@
+import type { CropRect, PhotoEntity } from "@/types";
+import type { AdjustRequest, AdjustResponse } from "@/workers/adjustWorker";
+import { renderAdjustedRegion, resolveSoftwareFilters } from "@/export/renderAdjust";
+import type { CanvasFilterOp } from "@/utils/filters";
+import {
+  hasPixelAdjustments,
+  pickPixelAdjustments,
+  pixelAdjustmentsKey,
+  type PixelAdjustments,
+} from "@/utils/pixelAdjust";
+
+/**
+ * 画布预览的像素调整缓存：每张照片保留当前裁剪区域的调整结果，
+ * 参数或裁剪变化时在 adjustWorker 中重新计算，算好后通知画布重绘。
+ * 不支持 ctx.filter 的浏览器上，基础滤镜也走这里。
+ */
+
+/** 预览结果的长边上限 */
+const MAX_PREVIEW_EDGE = 1600;
+
+type PreviewJob = {
+  key: string;
+  regionKey: string;
+  source: CanvasImageSource;
+  crop: CropRect;
+  adjustments: PixelAdjustments;
+  filters: CanvasFilterOp[];
+};
+
+type PreviewEntry = {
+  image: CanvasImageSource | null;
+  /** image 对应的源图与裁剪，裁剪不同时旧结果不能再用 */
+  regionKey: string;
+  /** 最近一次请求的键（计算中或排队中），避免重复提交 */
+  requestedKey: string;
+  queued: PreviewJob | null;
+  running: boolean;
+};
+
+const previews = new Map<string, PreviewEntry>();
+const listeners = new Set<() => void>();
+
+let worker: Worker | null = null;
+let workerReqId = 0;
+const workerPending = new Map<
+  number,
+  { resolve: (bitmap: ImageBitmap) => void; reject: (err: Error) => void }
+>();
+
+export function onAdjustedPreviewsChanged(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify() {
+  for (const listener of listeners) listener();
+}
+
+function releaseImage(image: CanvasImageSource | null) {
+  if (typeof ImageBitmap !== "undefined" && image instanceof ImageBitmap) image.close();
+}
+
+function supportsAdjustWorker(): boolean {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap === "function"
+  );
+}
+
+function getAdjustWorker(): Worker {
+  if (worker) return worker;
+  const w = new Worker(new URL("../workers/adjustWorker.ts", import.meta.url), {
+    type: "module",
+  });
+  w.onmessage = (e: MessageEvent<AdjustResponse>) => {
+    const msg = e.data;
+    const pending = workerPending.get(msg.id);
+    if (!pending) return;
+    workerPending.delete(msg.id);
+    if (msg.ok) pending.resolve(msg.bitmap);
+    else pending.reject(new Error(msg.error));
+  };
+  w.onerror = () => {
+    for (const pending of workerPending.values()) pending.reject(new Error("adjustWorker crashed"));
+    workerPending.clear();
+    worker = null;
+    w.terminate();
+  };
+  worker = w;
+  return w;
+}
+
+function requestAdjustWorker(req: Omit<AdjustRequest, "id" | "type">): Promise<ImageBitmap> {
+  const w = getAdjustWorker();
+  const id = ++workerReqId;
+  return new Promise((resolve, reject) => {
+    workerPending.set(id, { resolve, reject });
+    const msg: AdjustRequest = { ...req, id, type: "adjust" };
+    w.postMessage(msg, [req.source]);
+  });
+}
+
+async function computePreview(job: PreviewJob): Promise<CanvasImageSource> {
+  const { crop } = job;
+  const fit = Math.min(1, MAX_PREVIEW_EDGE / Math.max(crop.width, crop.height));
+  const width = Math.max(1, Math.round(crop.width * fit));
+  const height = Math.max(1, Math.round(crop.height * fit));
+  if (!supportsAdjustWorker()) {
+    return renderAdjustedRegion(job.source, crop, width, height, job.adjustments, job.filters);
+  }
+  const source = await createImageBitmap(
+    job.source as ImageBitmapSource,
+    Math.round(crop.x),
+    Math.round(crop.y),
+    Math.max(1, Math.round(crop.width)),
+    Math.max(1, Math.round(crop.height)),
+  );
+  return requestAdjustWorker({
+    source,
+    width,
+    height,
+    adjustments: job.adjustments,
+    filters: job.filters,
+  });
+}
+
+async function runQueue(photoId: string, entry: PreviewEntry) {
+  entry.running = true;
+  while (entry.queued) {
+    const job = entry.queued;
+    entry.queued = null;
+    try {
+      const image = await computePreview(job);
+      // 期间照片被移除时丢弃结果
+      if (previews.get(photoId) !== entry) {
+        releaseImage(image);
+        break;
+      }
+      releaseImage(entry.image);
+      entry.image = image;
+      entry.regionKey = job.regionKey;
+      notify();
+    } catch (err) {
+      console.warn("Pixel adjustment preview failed:", err);
+    }
+  }
+  entry.running = false;
+}
+
+/**
+ * 取照片裁剪区域的像素调整预览。结果未就绪时返回同一裁剪下的旧结果，
+ * 没有可用结果时返回 null（调用方先画未调整的原图），并在后台计算。
+ */
+export function getAdjustedPreview(photo: PhotoEntity, crop: CropRect): CanvasImageSource | null {
+  const filters = resolveSoftwareFilters(photo.adjustments);
+  if (!hasPixelAdjustments(photo.adjustments) && !filters.length) return null;
+  const regionKey = `${photo.srcUrl}|${crop.x},${crop.y},${crop.width},${crop.height}`;
+  const filterKey = filters.map(op => `${op.fn}(${op.amount})`).join(" ");
+  const key = `${regionKey}|${pixelAdjustmentsKey(photo.adjustments)}|${filterKey}`;
+  let entry = previews.get(photo.id);
+  if (!entry) {
+    entry = { image: null, regionKey: "", requestedKey: "", queued: null, running: false };
+    previews.set(photo.id, entry);
+  }
+  if (entry.requestedKey !== key) {
+    entry.requestedKey = key;
+    entry.queued = {
+      key,
+      regionKey,
+      source: photo.image,
+      crop: { ...crop },
+      adjustments: pickPixelAdjustments(photo.adjustments),
+      filters,
+    };
+    if (!entry.running) void runQueue(photo.id, entry);
+  }
+  return entry.regionKey === regionKey ? entry.image : null;
+}
+
+/** 只保留仍需要像素处理的照片的缓存 */
+export function retainAdjustedPreviews(photoIds: Iterable<string>) {
+  const keep = new Set(photoIds);
+  for (const [id, entry] of previews) {
+    if (keep.has(id)) continue;
+    releaseImage(entry.image);
+    previews.delete(id);
+  }
+}
@@ -4,6 +4,7 @@ import type {
   PhotoLayoutConstraint,
 } from "@/types";
 import type { KeepRegion, KeepRegionKind } from "@/types/vision";
+import type { ProjectPhotoDetectionsV2 } from "@/project/schema";
 
 export type SmartDetectionKind = KeepRegionKind;
 export type SmartDetection = KeepRegion;
@@ -166,6 +167,55 @@ export function seedSmartDetections(
   mergeDetections(photoId, detections, flags);
 }
 
+/**
+ * 持久化检测结果的版本标记。检测模型、阈值或坐标约定变化时递增，
+ * 旧项目里保存的结果会因此失效并在打开时重新检测。
+ */
+export const SMART_DETECTOR_VERSION = "keep-regions@1";
+
+/**
+ * 导出可写入项目的检测结果；尚无缓存时返回 undefined。
+ */
+export function exportSmartDetections(
+  photoId: string,
+): ProjectPhotoDetectionsV2 | undefined {
+  const cached = detectionCache.get(photoId);
+  if (!cached) return undefined;
+  return {
+    detectorVersion: SMART_DETECTOR_VERSION,
+    regions: cached.detections.map(d => ({ ...d, box: { ...d.box } })),
+    hasFaces: cached.hasFaces,
+    hasObjects: cached.hasObjects,
+  };
+}
+
+/**
+ * 用项目中保存的检测结果恢复缓存，与新检测的结果一样经 seedSmartDetections 写入。
+ * - 版本不一致时不恢复，返回 false（调用方应重新检测）
+ * - scale：保存时预览图与当前预览图的尺寸比例（坐标需同步缩放）
+ */
+export function restoreSmartDetections(
+  photoId: string,
+  saved: ProjectPhotoDetectionsV2 | undefined,
+  scale: { x: number; y: number } = { x: 1, y: 1 },
+): boolean {
+  if (!saved || saved.detectorVersion !== SMART_DETECTOR_VERSION) return false;
+  const regions = saved.regions.map(r => ({
+    ...r,
+    box: {
+      x: r.box.x * scale.x,
+      y: r.box.y * scale.y,
+      width: r.box.width * scale.x,
+      height: r.box.height * scale.y,
+    },
+  }));
+  seedSmartDetections(photoId, regions, {
+    hasFaces: saved.hasFaces,
+    hasObjects: saved.hasObjects,
+  });
+  return true;
+}
+
 async function ensureFaces(
   photoId: string,
   source: CanvasImageSource,
@@ -0,0 +1,186 @@
+import type { OBB, PhotoEntity, RulerGuide } from "@/types";
+import { photoToOBB, rotatedAABBHalf } from "@/utils/math";
+
+/**
+ * 自由移动时的吸附：被拖动照片的边 / 中线吸到画布边与中线、
+ * 其他照片的边与中线以及用户参考线上，并给出需要绘制的智能参考线。
+ */
+
+export type SnapAxis = "x" | "y";
+export type SnapTargetKind = "canvas" | "photo" | "guide";
+
+/** 吸附用的轴对齐包围盒 */
+export type SnapBox = { left: number; top: number; right: number; bottom: number };
+
+export type SnapTarget = {
+  axis: SnapAxis;
+  /** x 轴为竖线的横坐标，y 轴为横线的纵坐标 */
+  value: number;
+  kind: SnapTargetKind;
+  /** 沿另一条轴的范围，用于绘制参考线 */
+  start: number;
+  end: number;
+};
+
+export type SnapLine = {
+  axis: SnapAxis;
+  value: number;
+  start: number;
+  end: number;
+  kind: SnapTargetKind;
+};
+
+export type SnapMoveResult = { dx: number; dy: number; lines: SnapLine[] };
+export type SnapResizeResult = { factor: number; lines: SnapLine[] };
+
+/** 吸附后视为对齐的误差 */
+const ALIGN_EPSILON = 0.5;
+
+export function obbToSnapBox(obb: OBB): SnapBox {
+  const { ex, ey } = rotatedAABBHalf(obb.hw, obb.hh, obb.rotation);
+  return { left: obb.cx - ex, top: obb.cy - ey, right: obb.cx + ex, bottom: obb.cy + ey };
+}
+
+export function photoSnapBox(photo: PhotoEntity): SnapBox {
+  return obbToSnapBox(photoToOBB(photo));
+}
+
+export function unionSnapBoxes(boxes: SnapBox[]): SnapBox | null {
+  if (boxes.length === 0) return null;
+  return {
+    left: Math.min(...boxes.map(b => b.left)),
+    top: Math.min(...boxes.map(b => b.top)),
+    right: Math.max(...boxes.map(b => b.right)),
+    bottom: Math.max(...boxes.map(b => b.bottom)),
+  };
+}
+
+/** 画布四边与中线、其他照片的边与中线、参考线 */
+export function buildSnapTargets(
+  canvasW: number,
+  canvasH: number,
+  others: SnapBox[],
+  guides: RulerGuide[] = [],
+): SnapTarget[] {
+  const targets: SnapTarget[] = [];
+  for (const value of [0, canvasW / 2, canvasW]) {
+    targets.push({ axis: "x", value, kind: "canvas", start: 0, end: canvasH });
+  }
+  for (const value of [0, canvasH / 2, canvasH]) {
+    targets.push({ axis: "y", value, kind: "canvas", start: 0, end: canvasW });
+  }
+  for (const box of others) {
+    for (const value of [box.left, (box.left + box.right) / 2, box.right]) {
+      targets.push({ axis: "x", value, kind: "photo", start: box.top, end: box.bottom });
+    }
+    for (const value of [box.top, (box.top + box.bottom) / 2, box.bottom]) {
+      targets.push({ axis: "y", value, kind: "photo", start: box.left, end: box.right });
+    }
+  }
+  for (const guide of guides) {
+    targets.push({
+      axis: guide.axis,
+      value: guide.position,
+      kind: "guide",
+      start: 0,
+      end: guide.axis === "x" ? canvasH : canvasW,
+    });
+  }
+  return targets;
+}
+
+function axisPoints(box: SnapBox, axis: SnapAxis): number[] {
+  return axis === "x"
+    ? [box.left, (box.left + box.right) / 2, box.right]
+    : [box.top, (box.top + box.bottom) / 2, box.bottom];
+}
+
+/** 与 box 对齐的目标，按位置去重后转为参考线 */
+function collectLines(box: SnapBox, targets: SnapTarget[], axis: SnapAxis): SnapLine[] {
+  const points = axisPoints(box, axis);
+  const [boxStart, boxEnd] = axis === "x" ? [box.top, box.bottom] : [box.left, box.right];
+  const byValue = new Map<number, SnapLine>();
+  for (const target of targets) {
+    if (target.axis !== axis) continue;
+    if (!points.some(point => Math.abs(point - target.value) <= ALIGN_EPSILON)) continue;
+    const key = Math.round(target.value * 2) / 2;
+    const line = byValue.get(key);
+    if (line) {
+      line.start = Math.min(line.start, target.start);
+      line.end = Math.max(line.end, target.end);
+    } else {
+      byValue.set(key, {
+        axis,
+        value: target.value,
+        start: Math.min(boxStart, target.start),
+        end: Math.max(boxEnd, target.end),
+        kind: target.kind,
+      });
+    }
+  }
+  return [...byValue.values()];
+}
+
+function nearestOffset(points: number[], targets: SnapTarget[], axis: SnapAxis, threshold: number) {
+  let best = 0;
+  let bestDistance = threshold;
+  let found = false;
+  for (const target of targets) {
+    if (target.axis !== axis) continue;
+    for (const point of points) {
+      const diff = target.value - point;
+      if (Math.abs(diff) <= bestDistance && (!found || Math.abs(diff) < Math.abs(best))) {
+        best = diff;
+        bestDistance = Math.abs(diff);
+        found = true;
+      }
+    }
+  }
+  return best;
+}
+
+/** 平移吸附：两条轴各自取阈值内最近的目标 */
+export function snapMove(box: SnapBox, targets: SnapTarget[], threshold: number): SnapMoveResult {
+  const dx = nearestOffset(axisPoints(box, "x"), targets, "x", threshold);
+  const dy = nearestOffset(axisPoints(box, "y"), targets, "y", threshold);
+  const moved = { left: box.left + dx, right: box.right + dx, top: box.top + dy, bottom: box.bottom + dy };
+  return {
+    dx,
+    dy,
+    lines: [...collectLines(moved, targets, "x"), ...collectLines(moved, targets, "y")],
+  };
+}
+
+/**
+ * 缩放吸附（以中心为基准等比缩放）：找阈值内离某条边最近的目标，
+ * 返回让该边恰好落到目标上的缩放系数。
+ */
+export function snapResize(box: SnapBox, targets: SnapTarget[], threshold: number): SnapResizeResult {
+  const cx = (box.left + box.right) / 2;
+  const cy = (box.top + box.bottom) / 2;
+  const ex = (box.right - box.left) / 2;
+  const ey = (box.bottom - box.top) / 2;
+  let factor = 1;
+  let bestDistance = threshold;
+  for (const target of targets) {
+    const [center, half, low, high] =
+      target.axis === "x" ? [cx, ex, box.left, box.right] : [cy, ey, box.top, box.bottom];
+    if (half <= 0 || Math.abs(target.value - center) <= ALIGN_EPSILON) continue;
+    const edge = target.value > center ? high : low;
+    const distance = Math.abs(target.value - edge);
+    if (distance <= bestDistance) {
+      bestDistance = distance;
+      factor = Math.abs(target.value - center) / half;
+    }
+  }
+  const scaled = {
+    left: cx - ex * factor,
+    right: cx + ex * factor,
+    top: cy - ey * factor,
+    bottom: cy + ey * factor,
+  };
+  return {
+    factor,
+    lines: [...collectLines(scaled, targets, "x"), ...collectLines(scaled, targets, "y")],
+  };
+}
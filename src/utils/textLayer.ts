@@ -0,0 +1,141 @@
+import type { CustomFont, TextAlign, TextLayer, TextOutline, TextShadow } from "@/types";
+import { generateId } from "@/utils/math";
+
+/**
+ * 文字图层的纯数据部分：默认值、项目数据校验。
+ * 排版与绘制见 export/renderText（预览与导出共用）。
+ */
+
+export const TEXT_ALIGNS: TextAlign[] = ["left", "center", "right"];
+export const MAX_TEXT_LENGTH = 500;
+export const MIN_TEXT_FONT_SIZE = 8;
+export const MAX_TEXT_FONT_SIZE = 2000;
+export const DEFAULT_TEXT_FONT_FAMILY = "sans-serif";
+
+/** 可选的内置字体（CSS 通用族名与常见系统字体） */
+export const BUILTIN_FONT_FAMILIES = [
+  "sans-serif",
+  "serif",
+  "monospace",
+  "cursive",
+  "Georgia",
+  "Helvetica",
+  "Times New Roman",
+  "Courier New",
+];
+
+export function createTextLayer(patch: Partial<TextLayer> = {}): TextLayer {
+  return {
+    id: generateId(),
+    text: "Text",
+    fontFamily: DEFAULT_TEXT_FONT_FAMILY,
+    fontSize: 120,
+    fontWeight: 700,
+    color: "#222222",
+    align: "center",
+    letterSpacing: 0,
+    lineHeight: 1.2,
+    cx: 0,
+    cy: 0,
+    rotation: 0,
+    ...patch,
+  };
+}
+
+export function cloneTextLayer(layer: TextLayer): TextLayer {
+  return {
+    ...layer,
+    outline: layer.outline ? { ...layer.outline } : undefined,
+    shadow: layer.shadow ? { ...layer.shadow } : undefined,
+  };
+}
+
+function finite(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function color(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.trim() ? value.trim() : fallback;
+}
+
+function normalizeOutline(value: unknown): TextOutline | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  const width = Math.min(200, Math.max(0, finite(raw.width, 0)));
+  return width > 0 ? { color: color(raw.color, "#ffffff"), width } : undefined;
+}
+
+function normalizeShadow(value: unknown): TextShadow | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  return {
+    color: color(raw.color, "rgba(0, 0, 0, 0.5)"),
+    blur: Math.min(500, Math.max(0, finite(raw.blur, 0))),
+    offsetX: finite(raw.offsetX, 0),
+    offsetY: finite(raw.offsetY, 0),
+  };
+}
+
+/**
+ * 校验并复制项目数据中的文字图层；缺少 id 或文字为空时返回 null。
+ */
+export function normalizeTextLayer(value: unknown): TextLayer | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== "string" || !raw.id) return null;
+  const text = typeof raw.text === "string" ? raw.text.slice(0, MAX_TEXT_LENGTH) : "";
+  if (!text.trim()) return null;
+  const weight = finite(raw.fontWeight, 400);
+  const layer: TextLayer = {
+    id: raw.id,
+    text,
+    fontFamily:
+      typeof raw.fontFamily === "string" && raw.fontFamily.trim()
+        ? raw.fontFamily.trim()
+        : DEFAULT_TEXT_FONT_FAMILY,
+    fontSize: Math.min(MAX_TEXT_FONT_SIZE, Math.max(MIN_TEXT_FONT_SIZE, finite(raw.fontSize, 120))),
+    fontWeight: Math.round(Math.min(900, Math.max(100, weight)) / 100) * 100,
+    color: color(raw.color, "#222222"),
+    align: TEXT_ALIGNS.includes(raw.align as TextAlign) ? (raw.align as TextAlign) : "center",
+    letterSpacing: Math.min(500, Math.max(-100, finite(raw.letterSpacing, 0))),
+    lineHeight: Math.min(4, Math.max(0.5, finite(raw.lineHeight, 1.2))),
+    cx: finite(raw.cx, 0),
+    cy: finite(raw.cy, 0),
+    rotation: finite(raw.rotation, 0),
+  };
+  const outline = normalizeOutline(raw.outline);
+  if (outline) layer.outline = outline;
+  const shadow = normalizeShadow(raw.shadow);
+  if (shadow) layer.shadow = shadow;
+  return layer;
+}
+
+export function normalizeTextLayers(value: unknown): TextLayer[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(normalizeTextLayer).filter((layer): layer is TextLayer => layer !== null);
+}
+
+export function normalizeCustomFonts(value: unknown): CustomFont[] {
+  if (!Array.isArray(value)) return [];
+  const fonts: CustomFont[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") continue;
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.family !== "string" || !raw.family.trim()) continue;
+    if (typeof raw.assetId !== "string" || !raw.assetId) continue;
+    if (fonts.some(font => font.family === raw.family)) continue;
+    fonts.push({
+      family: raw.family.trim(),
+      assetId: raw.assetId,
+      name: typeof raw.name === "string" ? raw.name : raw.family.trim(),
+    });
+  }
+  return fonts;
+}
+
+/** 由字体文件名得到字体族名，去掉扩展名与引号等不安全字符 */
+export function fontFamilyFromFileName(fileName: string): string {
+  const base = fileName.replace(/\.[^.]+$/, "").replace(/["'\\;{}]/g, "").trim();
+  return base || "Custom Font";
+}
@@ -1,3 +1,4 @@
+import type { PhotoQuality } from '@/types'
 import type { KeepRegion } from '@/types/vision'
 import { DEFAULT_VISION_ASSETS, type VisionAssets } from '@/vision/assets'
 import { translate } from '@/locales'
@@ -33,6 +34,7 @@ type ProcessFileOk = {
     previewHeight: number
     previewBitmap: ImageBitmap
     detections: KeepRegion[]
+    quality: PhotoQuality | null
   }
 }
 
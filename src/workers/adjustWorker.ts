@@ -0,0 +1,48 @@
+/// <reference lib="webworker" />
+
+import { renderAdjustedRegion } from "@/export/renderAdjust";
+import type { CanvasFilterOp } from "@/utils/filters";
+import type { PixelAdjustments } from "@/utils/pixelAdjust";
+
+export type AdjustRequest = {
+  id: number;
+  type: "adjust";
+  /** 照片当前裁剪区域（预览分辨率），由主线程截好后转移过来 */
+  source: ImageBitmap;
+  width: number;
+  height: number;
+  adjustments: PixelAdjustments;
+  /** 主线程不支持 ctx.filter 时一并在这里处理的滤镜链 */
+  filters: CanvasFilterOp[];
+};
+
+export type AdjustResponse =
+  | { id: number; ok: true; bitmap: ImageBitmap }
+  | { id: number; ok: false; error: string };
+
+self.onmessage = (e: MessageEvent<AdjustRequest>) => {
+  const msg = e.data;
+  if (!msg || msg.type !== "adjust") return;
+  try {
+    const canvas = renderAdjustedRegion(
+      msg.source,
+      { x: 0, y: 0, width: msg.source.width, height: msg.source.height },
+      msg.width,
+      msg.height,
+      msg.adjustments,
+      msg.filters,
+    ) as OffscreenCanvas;
+    const bitmap = canvas.transferToImageBitmap();
+    const res: AdjustResponse = { id: msg.id, ok: true, bitmap };
+    self.postMessage(res, [bitmap]);
+  } catch (err) {
+    const res: AdjustResponse = {
+      id: msg.id,
+      ok: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+    self.postMessage(res);
+  } finally {
+    msg.source.close();
+  }
+};
@@ -0,0 +1,279 @@
+/// <reference lib="webworker" />
+
+import type { CanvasBackground, RasterExportFormat, TextLayer } from "@/types";
+import { extendRowEdges, planExportBands } from "@/export/bands";
+import type { StreamingImageEncoder } from "@/export/encoder";
+import { JpegStreamEncoder } from "@/export/jpegEncoder";
+import { PngStreamEncoder } from "@/export/pngEncoder";
+import {
+  boundsIntersect,
+  drawRenderItem,
+  getRenderItemBounds,
+  type RenderBounds,
+  type RenderPhotoItem,
+} from "@/export/renderComposition";
+import { drawTextLayer, ensureTextLayerFonts, registerFontFace } from "@/export/renderText";
+import { drawCanvasBackground } from "@/export/renderBackground";
+import { needsAdjustedSource, prepareAdjustedItem } from "@/export/renderAdjust";
+
+export type ExportWorkerPhoto = {
+  item: RenderPhotoItem;
+  /** 原图资源（按需解码）或主线程传来的预览位图 */
+  source: Blob | ImageBitmap;
+};
+
+/** 文字图层用到的上传字体，worker 需要自己注册一份 */
+export type ExportWorkerFont = {
+  family: string;
+  data: Blob;
+};
+
+export type ExportRenderRequest = {
+  id: number;
+  type: "render";
+  width: number;
+  height: number;
+  outScale: number;
+  format: RasterExportFormat;
+  quality: number;
+  /** 底色；缺省为透明（JPEG 由调用方传入白色） */
+  background?: string;
+  /** 四周按边缘像素向外延伸的宽度（出血），仅分带编码路径支持 */
+  edgeExtend?: number;
+  /** 画布背景，绘制在底色之上、照片之下；source 为主线程准备好的位图 */
+  canvasBackground?: { background: CanvasBackground; source?: ImageBitmap };
+  photos: ExportWorkerPhoto[];
+  /** 形状遮罩覆盖层，拉伸到整幅输出后绘制在照片之上 */
+  overlay?: ImageBitmap;
+  /** 文字图层，绘制在遮罩之上 */
+  texts?: TextLayer[];
+  fonts?: ExportWorkerFont[];
+};
+
+export type ExportWorkerResponse =
+  | { id: number; type: "progress"; done: number; total: number }
+  | { id: number; type: "done"; blob: Blob }
+  | { id: number; type: "error"; error: string };
+
+type PhotoSlot = ExportWorkerPhoto & {
+  bounds: RenderBounds;
+  bitmap: ImageBitmap | null;
+};
+
+function createEncoder(
+  msg: ExportRenderRequest,
+  width: number,
+  height: number,
+): StreamingImageEncoder {
+  if (msg.format === "jpeg") {
+    return new JpegStreamEncoder(width, height, msg.quality);
+  }
+  return new PngStreamEncoder(width, height);
+}
+
+async function ensureBitmap(slot: PhotoSlot, outScale: number): Promise<ImageBitmap> {
+  if (slot.bitmap) return slot.bitmap;
+  const decoded =
+    slot.source instanceof Blob
+      ? await createImageBitmap(slot.source)
+      : slot.source;
+  if (!needsAdjustedSource(slot.item.adjustments)) {
+    slot.bitmap = decoded;
+    return decoded;
+  }
+  // 像素调整只算一次，各条带共用调整后的裁剪区域
+  const adjusted = prepareAdjustedItem(slot.item, decoded, outScale);
+  if (decoded !== slot.source) decoded.close();
+  slot.item = adjusted.item;
+  slot.bitmap = (adjusted.canvas as OffscreenCanvas).transferToImageBitmap();
+  return slot.bitmap;
+}
+
+function releaseBitmap(slot: PhotoSlot) {
+  if (!slot.bitmap) return;
+  try {
+    slot.bitmap.close();
+  } catch {
+    // ignore
+  }
+  slot.bitmap = null;
+}
+
+/**
+ * WebP 没有可流式写入的编码器：整幅绘制后交给浏览器编码（尺寸受浏览器限制）。
+ */
+async function renderWebp(
+  msg: ExportRenderRequest,
+  slots: PhotoSlot[],
+): Promise<Blob> {
+  const canvas = new OffscreenCanvas(msg.width, msg.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable");
+  if (msg.background) {
+    ctx.fillStyle = msg.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  drawBackground(ctx, msg);
+  for (let i = 0; i < slots.length; i++) {
+    drawRenderItem(ctx, slots[i].item, await ensureBitmap(slots[i], msg.outScale), msg.outScale);
+    releaseBitmap(slots[i]);
+    postProgress(msg.id, i + 1, slots.length + 1);
+  }
+  if (msg.overlay) ctx.drawImage(msg.overlay, 0, 0, msg.width, msg.height);
+  drawTexts(ctx, msg);
+  const blob = await canvas.convertToBlob({
+    type: "image/webp",
+    quality: msg.quality,
+  });
+  postProgress(msg.id, slots.length + 1, slots.length + 1);
+  return blob;
+}
+
+/**
+ * 逐条带绘制并写入流式编码器。照片在第一次进入条带时解码，
+ * 条带越过其底边后立即释放，峰值内存只与同时跨越一个条带的照片数有关。
+ */
+async function renderBands(
+  msg: ExportRenderRequest,
+  slots: PhotoSlot[],
+): Promise<Blob> {
+  const plan = planExportBands(msg.width, msg.height);
+  const pad = Math.max(0, Math.round(msg.edgeExtend ?? 0));
+  const encoder = createEncoder(msg, plan.width + pad * 2, plan.height + pad * 2);
+  const lastBand = plan.bands.length - 1;
+  const writeRows = (
+    rows: Uint8Array | Uint8ClampedArray,
+    count: number,
+    bandIndex: number,
+  ) => {
+    if (pad === 0) {
+      encoder.writeRows(rows, count);
+      return;
+    }
+    const wide = extendRowEdges(rows, plan.width, count, pad);
+    const wideStride = (plan.width + pad * 2) * 4;
+    // 首/末条带额外重复边缘行，形成上下出血
+    if (count > 0 && bandIndex === 0) {
+      for (let i = 0; i < pad; i++) encoder.writeRows(wide.subarray(0, wideStride), 1);
+    }
+    encoder.writeRows(wide, count);
+    if (count > 0 && bandIndex === lastBand) {
+      const last = wide.subarray((count - 1) * wideStride, count * wideStride);
+      for (let i = 0; i < pad; i++) encoder.writeRows(last, 1);
+    }
+  };
+  const tileW = Math.max(...plan.columns.map((c) => c.width));
+  const canvas = new OffscreenCanvas(tileW, plan.bandHeight);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("OffscreenCanvas 2D context unavailable");
+
+  const stride = plan.width * 4;
+  const bandBuffer =
+    plan.columns.length > 1 ? new Uint8Array(stride * plan.bandHeight) : null;
+
+  for (const band of plan.bands) {
+    for (const col of plan.columns) {
+      const region: RenderBounds = {
+        left: col.x,
+        top: band.y,
+        right: col.x + col.width,
+        bottom: band.y + band.height,
+      };
+
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      if (msg.background) {
+        ctx.fillStyle = msg.background;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      ctx.setTransform(1, 0, 0, 1, -col.x, -band.y);
+      drawBackground(ctx, msg);
+
+      for (const slot of slots) {
+        if (!boundsIntersect(slot.bounds, region)) continue;
+        drawRenderItem(ctx, slot.item, await ensureBitmap(slot, msg.outScale), msg.outScale);
+      }
+      if (msg.overlay) ctx.drawImage(msg.overlay, 0, 0, msg.width, msg.height);
+      drawTexts(ctx, msg);
+
+      const pixels = ctx.getImageData(0, 0, col.width, band.height).data;
+      if (!bandBuffer) {
+        writeRows(pixels, band.height, band.index);
+        continue;
+      }
+      const colStride = col.width * 4;
+      for (let r = 0; r < band.height; r++) {
+        bandBuffer.set(
+          pixels.subarray(r * colStride, (r + 1) * colStride),
+          r * stride + col.x * 4,
+        );
+      }
+    }
+    if (bandBuffer) writeRows(bandBuffer, band.height, band.index);
+
+    const bandBottom = band.y + band.height;
+    for (const slot of slots) {
+      if (slot.bitmap && slot.bounds.bottom <= bandBottom) releaseBitmap(slot);
+    }
+    postProgress(msg.id, band.index + 1, plan.bands.length);
+  }
+
+  return encoder.finish();
+}
+
+function drawBackground(ctx: OffscreenCanvasRenderingContext2D, msg: ExportRenderRequest) {
+  const bg = msg.canvasBackground;
+  if (!bg) return;
+  drawCanvasBackground(ctx, bg.background, bg.source ?? null, msg.width, msg.height, msg.outScale);
+}
+
+function drawTexts(ctx: OffscreenCanvasRenderingContext2D, msg: ExportRenderRequest) {
+  for (const layer of msg.texts ?? []) drawTextLayer(ctx, layer, msg.outScale);
+}
+
+async function prepareFonts(msg: ExportRenderRequest) {
+  for (const font of msg.fonts ?? []) {
+    await registerFontFace(font.family, await font.data.arrayBuffer());
+  }
+  await ensureTextLayerFonts(msg.texts ?? []);
+}
+
+function postProgress(id: number, done: number, total: number) {
+  const res: ExportWorkerResponse = { id, type: "progress", done, total };
+  self.postMessage(res);
+}
+
+self.onmessage = async (e: MessageEvent<ExportRenderRequest>) => {
+  const msg = e.data;
+  if (!msg || msg.type !== "render") return;
+
+  const slots: PhotoSlot[] = msg.photos.map((p) => ({
+    ...p,
+    bounds: getRenderItemBounds(p.item, msg.outScale),
+    bitmap: null,
+  }));
+
+  try {
+    await prepareFonts(msg);
+    const blob =
+      msg.format === "webp"
+        ? await renderWebp(msg, slots)
+        : await renderBands(msg, slots);
+    const res: ExportWorkerResponse = { id: msg.id, type: "done", blob };
+    self.postMessage(res);
+  } catch (err) {
+    const res: ExportWorkerResponse = {
+      id: msg.id,
+      type: "error",
+      error: err instanceof Error ? err.message : String(err),
+    };
+    self.postMessage(res);
+  } finally {
+    for (const slot of slots) {
+      releaseBitmap(slot);
+      if (!(slot.source instanceof Blob)) slot.source.close();
+    }
+    msg.overlay?.close();
+    msg.canvasBackground?.source?.close();
+  }
+};
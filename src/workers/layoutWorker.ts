@@ -1,11 +1,22 @@
 /// <reference lib="webworker" />
 
-import type { CropRect, FillArrangeResult } from "@/types";
+import type {
+  CropRect,
+  FillArrangeResult,
+  PhotoMosaicSettings,
+  TileRect,
+} from "@/types";
 import type { SmartDetection } from "@/utils/smartCrop";
 import {
   fillArrangePhotosShared,
   type FillArrangeOptions,
 } from "@/utils/fillArrangeShared";
+import {
+  buildPhotoMosaic,
+  type PhotoMosaicResult,
+  type PhotoMosaicSwatch,
+  type PhotoMosaicTarget,
+} from "@/utils/photoMosaic";
 
 type FillArrangePhotoInput = {
   id: string;
@@ -13,6 +24,11 @@ type FillArrangePhotoInput = {
   imageWidth: number;
   imageHeight: number;
   detections?: SmartDetection[];
+  priority?: number;
+  name?: string;
+  takenAt?: number;
+  quality?: number;
+  pinned?: { tileRect: TileRect; crop: CropRect };
 };
 
 type FillArrangeRequest = {
@@ -24,25 +40,56 @@ type FillArrangeRequest = {
   options?: FillArrangeOptions;
 };
 
-type FillArrangeResponse =
-  | { id: number; ok: true; result: FillArrangeResult }
+type PhotoMosaicRequest = {
+  id: number;
+  type: "photoMosaic";
+  target: PhotoMosaicTarget;
+  swatches: PhotoMosaicSwatch[];
+  canvasW: number;
+  canvasH: number;
+  settings: PhotoMosaicSettings;
+  seed?: number;
+};
+
+type LayoutWorkerResponse =
+  | { id: number; ok: true; type: "fillArrange"; result: FillArrangeResult }
+  | { id: number; ok: true; type: "photoMosaic"; result: PhotoMosaicResult }
   | { id: number; ok: false; error: string };
 
-self.onmessage = (e: MessageEvent<FillArrangeRequest>) => {
+self.onmessage = (e: MessageEvent<FillArrangeRequest | PhotoMosaicRequest>) => {
   const msg = e.data;
-  if (!msg || msg.type !== "fillArrange") return;
+  if (!msg || (msg.type !== "fillArrange" && msg.type !== "photoMosaic")) return;
 
   try {
-    const result = fillArrangePhotosShared(
-      msg.photos,
-      msg.canvasW,
-      msg.canvasH,
-      msg.options,
-    );
-    const res: FillArrangeResponse = { id: msg.id, ok: true, result };
+    const res: LayoutWorkerResponse =
+      msg.type === "photoMosaic"
+        ? {
+            id: msg.id,
+            ok: true,
+            type: "photoMosaic",
+            result: buildPhotoMosaic(
+              msg.target,
+              msg.swatches,
+              msg.canvasW,
+              msg.canvasH,
+              msg.settings,
+              msg.seed,
+            ),
+          }
+        : {
+            id: msg.id,
+            ok: true,
+            type: "fillArrange",
+            result: fillArrangePhotosShared(
+              msg.photos,
+              msg.canvasW,
+              msg.canvasH,
+              msg.options,
+            ),
+          };
     self.postMessage(res);
   } catch (err) {
-    const res: FillArrangeResponse = {
+    const res: LayoutWorkerResponse = {
       id: msg.id,
       ok: false,
       error: err instanceof Error ? err.message : String(err),
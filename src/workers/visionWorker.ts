@@ -45,7 +45,9 @@
   }
 }
 
+import type { PhotoQuality } from "@/types";
 import type { KeepRegion } from "@/types/vision";
+import { measurePhotoQuality } from "@/utils/photoQuality";
 
 type VisionAssets = {
   wasmBaseUrl: string;
@@ -85,6 +87,8 @@ type ProcessFileOk = {
     previewHeight: number;
     previewBitmap: ImageBitmap;
     detections: KeepRegion[];
+    /** 在预览图上做的画质分析，读取像素失败时为 null */
+    quality: PhotoQuality | null;
   };
 };
 
@@ -452,6 +456,13 @@ self.onmessage = async (e: MessageEvent<Request>) => {
         ),
       ];
 
+      const quality = measurePhotoQuality(
+        preview,
+        preview.width,
+        preview.height,
+        mapped.filter(region => region.kind === "face").map(region => region.box),
+      );
+
       const res: ProcessFileOk = {
         id: msg.id,
         ok: true,
@@ -463,6 +474,7 @@ self.onmessage = async (e: MessageEvent<Request>) => {
           previewHeight: preview.height,
           previewBitmap: preview,
           detections: mapped,
+          quality,
         },
       };
 
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { CanvasBackground } from "@/types";
+import { drawCanvasBackground } from "@/export/renderBackground";
+import type { RenderContext2D } from "@/export/renderComposition";
+import {
+  coverRect,
+  linearGradientPoints,
+  normalizeCanvasBackground,
+} from "@/utils/canvasBackground";
+
+type Gradient = { args: number[]; stops: Array<[number, string]> };
+
+/** 记录填充、渐变与贴图调用 */
+function createFakeContext() {
+  const fills: Array<{ style: unknown; rect: number[] }> = [];
+  const gradients: Gradient[] = [];
+  const images: number[][] = [];
+  const createGradient = (...args: number[]) => {
+    const gradient: Gradient = { args, stops: [] };
+    gradients.push(gradient);
+    return {
+      addColorStop: (offset: number, color: string) => gradient.stops.push([offset, color]),
+      gradient,
+    };
+  };
+  const ctx = {
+    fillStyle: "" as unknown,
+    save() {},
+    restore() {},
+    fillRect(...rect: number[]) {
+      fills.push({ style: ctx.fillStyle, rect });
+    },
+    createLinearGradient: createGradient,
+    createRadialGradient: createGradient,
+    drawImage(_source: unknown, ...rect: number[]) {
+      images.push(rect);
+    },
+  };
+  return { ctx: ctx as unknown as RenderContext2D, fills, gradients, images };
+}
+
+describe("canvas background", () => {
+  it("线性渐变两端落在画布角上，角度决定方向", () => {
+    expect(linearGradientPoints(200, 100, 0)).toEqual({ x0: 0, y0: 50, x1: 200, y1: 50 });
+    const vertical = linearGradientPoints(200, 100, 90);
+    expect(vertical.x0).toBeCloseTo(100);
+    expect(vertical.y0).toBeCloseTo(0);
+    expect(vertical.y1).toBeCloseTo(100);
+
+    // 45°：投影长度覆盖整条对角方向，起点在左上角到中心连线的延长线上
+    const diagonal = linearGradientPoints(100, 100, 45);
+    expect(diagonal.x0).toBeCloseTo(0);
+    expect(diagonal.y0).toBeCloseTo(0);
+    expect(diagonal.x1).toBeCloseTo(100);
+    expect(diagonal.y1).toBeCloseTo(100);
+  });
+
+  it("铺满时居中裁掉多余部分", () => {
+    expect(coverRect(400, 100, 200, 200)).toEqual({ x: -300, y: 0, w: 800, h: 200 });
+    expect(coverRect(100, 100, 300, 150)).toEqual({ x: 0, y: -75, w: 300, h: 300 });
+  });
+
+  it("导出按输出尺寸绘制，与预览比例一致", () => {
+    const preview = createFakeContext();
+    const linear: CanvasBackground = { kind: "linear", from: "#fff", to: "#000", angle: 0 };
+    drawCanvasBackground(preview.ctx, linear, null, 300, 200, 1);
+    const exported = createFakeContext();
+    drawCanvasBackground(exported.ctx, linear, null, 900, 600, 3);
+
+    expect(preview.gradients[0].args).toEqual([0, 100, 300, 100]);
+    expect(exported.gradients[0].args).toEqual(preview.gradients[0].args.map(v => v * 3));
+    expect(exported.gradients[0].stops).toEqual([
+      [0, "#fff"],
+      [1, "#000"],
+    ]);
+    expect(exported.fills[0].rect).toEqual([0, 0, 900, 600]);
+
+    const radial = createFakeContext();
+    drawCanvasBackground(radial.ctx, { kind: "radial", inner: "#fff", outer: "#000" }, null, 300, 400, 1);
+    expect(radial.gradients[0].args).toEqual([150, 200, 0, 150, 200, 250]);
+
+    const photo = createFakeContext();
+    const source = { width: 64, height: 48 } as unknown as ImageBitmap;
+    drawCanvasBackground(photo.ctx, { kind: "photo", photoId: "p", blur: 20 }, source, 900, 600, 3);
+    expect(photo.images).toEqual([[0, 0, 900, 600]]);
+    // 位图未加载时不绘制
+    drawCanvasBackground(photo.ctx, { kind: "photo", photoId: "p", blur: 20 }, null, 900, 600, 3);
+    expect(photo.images).toHaveLength(1);
+  });
+
+  it("校验项目中的背景设置", () => {
+    expect(normalizeCanvasBackground(null)).toBeNull();
+    expect(normalizeCanvasBackground({ kind: "video" })).toBeNull();
+    expect(normalizeCanvasBackground({ kind: "image" })).toBeNull();
+    expect(normalizeCanvasBackground({ kind: "linear", from: "#111", angle: -90 })).toEqual({
+      kind: "linear",
+      from: "#111",
+      to: "#000000",
+      angle: 270,
+    });
+    expect(normalizeCanvasBackground({ kind: "texture", pattern: "waves", size: 1 })).toMatchObject({
+      pattern: "dots",
+      size: 8,
+    });
+    expect(normalizeCanvasBackground({ kind: "photo", photoId: "p", blur: 999 })).toEqual({
+      kind: "photo",
+      photoId: "p",
+      blur: 200,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  clusterNearDuplicates,
+  computeSignatureFromPixels,
+  differenceHash,
+  exposureScore,
+  hammingDistance,
+  laplacianVariance,
+  pickClusterKeeper,
+} from "@/utils/duplicates";
+
+const W = 64;
+const H = 48;
+
+/** 生成 RGBA 像素：lum(x, y) 为 0–255 的亮度 */
+function render(lum: (x: number, y: number) => number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(W * H * 4);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const v = lum(x, y);
+      data.set([v, v, v, 255], (y * W + x) * 4);
+    }
+  }
+  return data;
+}
+
+const scene = (x: number, y: number) =>
+  120 + 80 * Math.sin(x / 7) * Math.cos(y / 5) + (x > 40 && y < 20 ? 40 : 0);
+const checker = (x: number, y: number) => ((Math.floor(x / 8) + Math.floor(y / 8)) % 2 ? 200 : 50);
+
+function gray(data: Uint8ClampedArray): Float32Array {
+  const out = new Float32Array(W * H);
+  for (let i = 0; i < out.length; i++) out[i] = data[i * 4];
+  return out;
+}
+
+function blur(data: Uint8ClampedArray): Uint8ClampedArray {
+  const g = gray(data);
+  return render((x, y) => {
+    let sum = 0;
+    let n = 0;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        const sx = Math.min(W - 1, Math.max(0, x + dx));
+        const sy = Math.min(H - 1, Math.max(0, y + dy));
+        sum += g[sy * W + sx];
+        n++;
+      }
+    }
+    return sum / n;
+  });
+}
+
+describe("near-duplicate detection", () => {
+  it("dHash 对亮度变化与轻微模糊稳定，对不同画面差异大", () => {
+    const base = differenceHash(gray(render(scene)), W, H);
+    expect(base).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(base, differenceHash(gray(render((x, y) => scene(x, y) * 0.8 + 20)), W, H))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(base, differenceHash(gray(blur(render(scene))), W, H))).toBeLessThanOrEqual(10);
+    expect(hammingDistance(base, differenceHash(gray(render(checker)), W, H))).toBeGreaterThan(18);
+  });
+
+  it("清晰度与曝光评分", () => {
+    const sharp = render(scene);
+    expect(laplacianVariance(gray(sharp), W, H)).toBeGreaterThan(laplacianVariance(gray(blur(sharp)), W, H));
+    expect(exposureScore(gray(render(() => 128)))).toBeGreaterThan(0.95);
+    expect(exposureScore(gray(render(() => 250)))).toBe(0);
+    expect(exposureScore(gray(render(scene)))).toBeGreaterThan(exposureScore(gray(render(x => (x < 32 ? 4 : 128)))));
+  });
+
+  it("按汉明距离聚类，连拍（拍摄时间接近）放宽阈值", () => {
+    const items = [
+      { id: "a", hash: "0000000000000000" },
+      { id: "b", hash: "0000000000000003" },
+      { id: "c", hash: "ffffffffffffffff" },
+      { id: "d", hash: "00000000000003ff", takenAt: 1000 },
+      { id: "e", hash: "000000000003ffff", takenAt: 2500 },
+      { id: "f", hash: "00000000ffffffff", takenAt: 60_000 },
+    ];
+    // a-b 距离 2，a-d 距离 10；d-e 距离 8 且拍摄时间相差 1.5s；e-f 距离 14 但不是连拍
+    expect(clusterNearDuplicates(items)).toEqual([["a", "b", "d", "e"]]);
+    expect(clusterNearDuplicates(items, { maxDistance: 4, burstDistance: 4 })).toEqual([["a", "b"]]);
+    expect(clusterNearDuplicates(items, { maxDistance: 4, burstDistance: 8 })).toEqual([
+      ["a", "b"],
+      ["d", "e"],
+    ]);
+    expect(clusterNearDuplicates(items, { maxDistance: 14 })).toEqual([["a", "b", "d", "e", "f"]]);
+  });
+
+  it("每组保留最清晰或曝光最好的一张", () => {
+    const sharp = computeSignatureFromPixels(render(scene), W, H);
+    const blurry = computeSignatureFromPixels(blur(render(scene)), W, H);
+    const dark = computeSignatureFromPixels(render((x, y) => scene(x, y) * 0.3), W, H);
+    const items = [
+      { id: "blurry", signature: blurry },
+      { id: "sharp", signature: sharp },
+      { id: "dark", signature: dark },
+      { id: "unknown" },
+    ];
+    expect(pickClusterKeeper(items, "sharpest")).toBe("sharp");
+    expect(pickClusterKeeper(items.filter(i => i.id !== "sharp"), "best-exposed")).toBe("blurry");
+    expect(pickClusterKeeper([{ id: "unknown" }], "sharpest")).toBe("unknown");
+  });
+});
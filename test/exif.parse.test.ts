@@ -0,0 +1,215 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyExifOrientationTransform,
+  isExifOrientationTransposed,
+  parseExif,
+  parseExifDateTime,
+  readImageExif,
+} from "@/utils/exif";
+
+type Entry = { tag: number; type: 2 | 3 | 4 | 5; value: string | number[] };
+
+const TYPE_SIZE = { 2: 1, 3: 2, 4: 4, 5: 8 } as const;
+
+function entryCount(entry: Entry): number {
+  if (typeof entry.value === "string") return entry.value.length + 1;
+  return entry.type === 5 ? entry.value.length / 2 : entry.value.length;
+}
+
+/** 按 IFD0 → Exif IFD → GPS IFD → 数据区的顺序写出 TIFF */
+function buildTiff(ifd0: Entry[], exif: Entry[] = [], gps: Entry[] = [], little = true): Uint8Array {
+  const ifdSize = (n: number) => 2 + n * 12 + 4;
+  const pointers = (exif.length ? 1 : 0) + (gps.length ? 1 : 0);
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0.length + pointers);
+  const gpsOffset = exifOffset + (exif.length ? ifdSize(exif.length) : 0);
+  let dataOffset = gpsOffset + (gps.length ? ifdSize(gps.length) : 0);
+
+  const head: Entry[] = [...ifd0];
+  if (exif.length) head.push({ tag: 0x8769, type: 4, value: [exifOffset] });
+  if (gps.length) head.push({ tag: 0x8825, type: 4, value: [gpsOffset] });
+
+  const bytes = new Uint8Array(4096);
+  const view = new DataView(bytes.buffer);
+  bytes.set(little ? [0x49, 0x49] : [0x4d, 0x4d]);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, ifd0Offset, little);
+
+  const writeValue = (pos: number, entry: Entry) => {
+    if (typeof entry.value === "string") {
+      for (let i = 0; i < entry.value.length; i++) bytes[pos + i] = entry.value.charCodeAt(i);
+      return;
+    }
+    entry.value.forEach((v, i) => {
+      if (entry.type === 3) view.setUint16(pos + i * 2, v, little);
+      else view.setUint32(pos + i * 4, v, little);
+    });
+  };
+
+  const writeIfd = (offset: number, entries: Entry[]) => {
+    view.setUint16(offset, entries.length, little);
+    entries.forEach((entry, i) => {
+      const pos = offset + 2 + i * 12;
+      const count = entryCount(entry);
+      view.setUint16(pos, entry.tag, little);
+      view.setUint16(pos + 2, entry.type, little);
+      view.setUint32(pos + 4, count, little);
+      if (count * TYPE_SIZE[entry.type] <= 4) {
+        writeValue(pos + 8, entry);
+      } else {
+        view.setUint32(pos + 8, dataOffset, little);
+        writeValue(dataOffset, entry);
+        dataOffset += count * TYPE_SIZE[entry.type];
+      }
+    });
+  };
+
+  writeIfd(ifd0Offset, head);
+  if (exif.length) writeIfd(exifOffset, exif);
+  if (gps.length) writeIfd(gpsOffset, gps);
+  return bytes.slice(0, dataOffset);
+}
+
+const sampleTiff = (little = true) =>
+  buildTiff(
+    [
+      { tag: 0x010f, type: 2, value: "Apple" },
+      { tag: 0x0110, type: 2, value: "iPhone 15 Pro" },
+      { tag: 0x0112, type: 3, value: [6] },
+    ],
+    [
+      { tag: 0x829a, type: 5, value: [1, 125] },
+      { tag: 0x829d, type: 5, value: [18, 10] },
+      { tag: 0x8827, type: 3, value: [100] },
+      { tag: 0x9003, type: 2, value: "2024:05:01 09:30:00" },
+      { tag: 0x9011, type: 2, value: "+08:00" },
+      { tag: 0x920a, type: 5, value: [24, 1] },
+      { tag: 0xa002, type: 4, value: [4032] },
+      { tag: 0xa003, type: 4, value: [3024] },
+      { tag: 0xa434, type: 2, value: "iPhone 15 Pro back camera" },
+    ],
+    [
+      { tag: 1, type: 2, value: "N" },
+      { tag: 2, type: 5, value: [31, 1, 13, 1, 5016, 100] },
+      { tag: 3, type: 2, value: "W" },
+      { tag: 4, type: 5, value: [121, 1, 28, 1, 2532, 100] },
+      { tag: 6, type: 5, value: [125, 10] },
+    ],
+    little,
+  );
+
+function concat(...parts: Array<Uint8Array | number[]>): Uint8Array {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+const ascii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+const u32le = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, (n >>> 24) & 0xff];
+
+function wrapJpeg(tiff: Uint8Array): Uint8Array {
+  const app1 = concat(ascii("Exif\0\0"), tiff);
+  const jfif = concat(ascii("JFIF\0"), [1, 1, 0, 0, 1, 0, 1, 0, 0]);
+  return concat(
+    [0xff, 0xd8],
+    [0xff, 0xe0, 0, jfif.length + 2],
+    jfif,
+    [0xff, 0xe1, (app1.length + 2) >> 8, (app1.length + 2) & 0xff],
+    app1,
+    [0xff, 0xda, 0, 2, 0xff, 0xd9],
+  );
+}
+
+function wrapWebp(tiff: Uint8Array): Uint8Array {
+  const vp8x = concat(ascii("VP8X"), u32le(10), new Uint8Array(10));
+  const image = concat(ascii("VP8L"), u32le(5), new Uint8Array(6));
+  const exif = concat(ascii("EXIF"), u32le(tiff.length), tiff, tiff.length % 2 ? [0] : []);
+  const body = concat(ascii("WEBP"), vp8x, image, exif);
+  return concat(ascii("RIFF"), u32le(body.length), body);
+}
+
+function wrapHeic(tiff: Uint8Array): Uint8Array {
+  const ftyp = concat([0, 0, 0, 16], ascii("ftypheic"), [0, 0, 0, 0]);
+  return concat(ftyp, [0, 0, 0, 8], ascii("mdat"), [0, 0, 0, 6], ascii("Exif\0\0"), tiff);
+}
+
+describe("EXIF parser", () => {
+  it("读取方向、拍摄时间、相机、曝光与 GPS", () => {
+    const exif = parseExif(wrapJpeg(sampleTiff()));
+    expect(exif).toMatchObject({
+      orientation: 6,
+      takenAt: Date.UTC(2024, 4, 1, 1, 30, 0),
+      make: "Apple",
+      model: "iPhone 15 Pro",
+      lensModel: "iPhone 15 Pro back camera",
+      exposureTime: 1 / 125,
+      fNumber: 1.8,
+      iso: 100,
+      focalLength: 24,
+      pixelWidth: 4032,
+      pixelHeight: 3024,
+    });
+    expect(exif?.gps?.latitude).toBeCloseTo(31 + 13 / 60 + 50.16 / 3600, 6);
+    expect(exif?.gps?.longitude).toBeCloseTo(-(121 + 28 / 60 + 25.32 / 3600), 6);
+    expect(exif?.gps?.altitude).toBeCloseTo(12.5, 6);
+  });
+
+  it("大端字节序、WebP 与 HEIC 容器结果一致", () => {
+    const expected = parseExif(wrapJpeg(sampleTiff()));
+    expect(parseExif(wrapJpeg(sampleTiff(false)))).toEqual(expected);
+    expect(parseExif(wrapWebp(sampleTiff()))).toEqual(expected);
+    expect(parseExif(wrapHeic(sampleTiff(false)))).toEqual(expected);
+  });
+
+  it("没有 EXIF 或数据损坏时返回 null", async () => {
+    expect(parseExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2]))).toBeNull();
+    expect(parseExif(new Uint8Array(ascii("not an image")))).toBeNull();
+
+    const truncated = wrapJpeg(sampleTiff()).slice(0, 40);
+    expect(parseExif(truncated)).toBeNull();
+
+    const file = new File([wrapJpeg(sampleTiff()) as BlobPart], "a.jpg", { type: "image/jpeg" });
+    expect((await readImageExif(file))?.orientation).toBe(6);
+    expect(await readImageExif(new File(["png"], "a.png"))).toBeNull();
+  });
+
+  it("拍摄时间没有时区偏移时按本地时间解析", () => {
+    expect(parseExifDateTime("2024:05:01 09:30:00")).toBe(new Date(2024, 4, 1, 9, 30, 0).getTime());
+    expect(parseExifDateTime("2024:05:01 09:30:00", "-05:00")).toBe(Date.UTC(2024, 4, 1, 14, 30, 0));
+    expect(parseExifDateTime("0000:00:00 00:00:00")).toBeUndefined();
+    expect(parseExifDateTime(undefined)).toBeUndefined();
+  });
+
+  it("方向变换把原图四角映射到旋转后的画布", () => {
+    const w = 4;
+    const h = 2;
+    const mapCorner = (orientation: number, x: number, y: number) => {
+      let m = [1, 0, 0, 1, 0, 0];
+      const ctx = {
+        transform: (a: number, b: number, c: number, d: number, e: number, f: number) => {
+          m = [a, b, c, d, e, f];
+        },
+      } as unknown as CanvasRenderingContext2D;
+      applyExifOrientationTransform(ctx, orientation, w, h);
+      return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+    };
+
+    // 6：顺时针 90°，原图左上角落到右上角
+    expect(mapCorner(6, 0, 0)).toEqual([h, 0]);
+    expect(mapCorner(6, w, h)).toEqual([0, w]);
+    // 8：逆时针 90°，原图左上角落到左下角
+    expect(mapCorner(8, 0, 0)).toEqual([0, w]);
+    // 3：旋转 180°
+    expect(mapCorner(3, 0, 0)).toEqual([w, h]);
+    // 2：水平翻转
+    expect(mapCorner(2, 0, 0)).toEqual([w, 0]);
+
+    expect(isExifOrientationTransposed(6)).toBe(true);
+    expect(isExifOrientationTransposed(3)).toBe(false);
+  });
+});
@@ -0,0 +1,352 @@
+import { describe, expect, it } from "vitest";
+import { unzlibSync } from "fflate";
+import { extendRowEdges, planExportBands } from "@/export/bands";
+import { crc32 } from "@/export/encoder";
+import { PngStreamEncoder } from "@/export/pngEncoder";
+import { JpegStreamEncoder } from "@/export/jpegEncoder";
+import {
+  getRenderItemBounds,
+  type RenderPhotoItem,
+} from "@/export/renderComposition";
+
+function makeImage(width: number, height: number): Uint8Array {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = Math.round((x / Math.max(1, width - 1)) * 255);
+      data[i + 1] = Math.round((y / Math.max(1, height - 1)) * 255);
+      data[i + 2] = (x * 7 + y * 3) % 256 > 128 ? 200 : 60;
+      data[i + 3] = 255 - ((x + y) % 5) * 20;
+    }
+  }
+  return data;
+}
+
+/** 分多批、不规则行数写入，模拟分带渲染 */
+function encodeInBatches(
+  encoder: { writeRows(rgba: Uint8Array, rows: number): void },
+  data: Uint8Array,
+  width: number,
+  height: number,
+  batches: number[],
+) {
+  let y = 0;
+  for (const rows of batches) {
+    const n = Math.min(rows, height - y);
+    encoder.writeRows(data.subarray(y * width * 4, (y + n) * width * 4), n);
+    y += n;
+  }
+}
+
+async function blobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function decodePng(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  expect(Array.from(bytes.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10]);
+  let pos = 8;
+  let width = 0;
+  let height = 0;
+  const idat: Uint8Array[] = [];
+  const types: string[] = [];
+  while (pos < bytes.length) {
+    const len = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    const data = bytes.subarray(pos + 8, pos + 8 + len);
+    expect(view.getUint32(pos + 8 + len)).toBe(crc32(bytes.subarray(pos + 4, pos + 8 + len)));
+    types.push(type);
+    if (type === "IHDR") {
+      width = view.getUint32(pos + 8);
+      height = view.getUint32(pos + 12);
+    }
+    if (type === "IDAT") idat.push(data);
+    pos += 12 + len;
+  }
+
+  const total = idat.reduce((s, c) => s + c.length, 0);
+  const joined = new Uint8Array(total);
+  let off = 0;
+  for (const c of idat) {
+    joined.set(c, off);
+    off += c.length;
+  }
+  const raw = unzlibSync(joined);
+  const stride = width * 4;
+  const out = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    expect(filter).toBe(4);
+    for (let i = 0; i < stride; i++) {
+      const a = i >= 4 ? out[y * stride + i - 4] : 0;
+      const b = y > 0 ? out[(y - 1) * stride + i] : 0;
+      const c = i >= 4 && y > 0 ? out[(y - 1) * stride + i - 4] : 0;
+      const p = a + b - c;
+      const pa = Math.abs(p - a);
+      const pb = Math.abs(p - b);
+      const pc = Math.abs(p - c);
+      const pred = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      out[y * stride + i] = (raw[y * (stride + 1) + 1 + i] + pred) & 0xff;
+    }
+  }
+  return { width, height, types, pixels: out };
+}
+
+const ZIGZAG = [
+  0, 1, 5, 6, 14, 15, 27, 28, 2, 4, 7, 13, 16, 26, 29, 42, 3, 8, 12, 17, 25, 30, 41, 43, 9, 11, 18,
+  24, 31, 40, 44, 53, 10, 19, 23, 32, 39, 45, 52, 54, 20, 22, 33, 38, 46, 51, 55, 60, 21, 34, 37,
+  47, 50, 56, 59, 61, 35, 36, 48, 49, 57, 58, 62, 63,
+];
+
+/** 仅支持本编码器输出（基线、4:4:4、单扫描）的最小 JPEG 解码器 */
+function decodeJpeg(bytes: Uint8Array) {
+  const qt: number[][] = [];
+  const huff = new Map<number, Map<string, number>>();
+  const comps: Array<{ id: number; q: number; dc: number; ac: number; pred: number }> = [];
+  let width = 0;
+  let height = 0;
+  let pos = 2;
+  expect(bytes[0]).toBe(0xff);
+  expect(bytes[1]).toBe(0xd8);
+
+  while (true) {
+    const marker = (bytes[pos] << 8) | bytes[pos + 1];
+    const len = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    const seg = bytes.subarray(pos + 4, pos + 2 + len);
+    pos += 2 + len;
+    if (marker === 0xffdb) {
+      for (let i = 0; i < seg.length; i += 65) qt[seg[i] & 15] = Array.from(seg.subarray(i + 1, i + 65));
+    } else if (marker === 0xffc0) {
+      height = (seg[1] << 8) | seg[2];
+      width = (seg[3] << 8) | seg[4];
+      for (let i = 0; i < seg[5]; i++) {
+        comps.push({ id: seg[6 + i * 3], q: seg[8 + i * 3], dc: 0, ac: 0, pred: 0 });
+      }
+    } else if (marker === 0xffc4) {
+      let i = 0;
+      while (i < seg.length) {
+        const cls = seg[i];
+        const counts = seg.subarray(i + 1, i + 17);
+        let k = i + 17;
+        let code = 0;
+        const table = new Map<string, number>();
+        for (let l = 1; l <= 16; l++) {
+          for (let n = 0; n < counts[l - 1]; n++) table.set(`${l}:${code++}`, seg[k++]);
+          code <<= 1;
+        }
+        huff.set(cls, table);
+        i = k;
+      }
+    } else if (marker === 0xffda) {
+      for (let i = 0; i < seg[0]; i++) {
+        const c = comps.find((x) => x.id === seg[1 + i * 2])!;
+        c.dc = seg[2 + i * 2] >> 4;
+        c.ac = seg[2 + i * 2] & 15;
+      }
+      break;
+    }
+  }
+
+  let bitPos = 0;
+  let cur = 0;
+  const readBit = () => {
+    if (bitPos === 0) {
+      cur = bytes[pos++];
+      if (cur === 0xff) expect(bytes[pos++]).toBe(0);
+      bitPos = 8;
+    }
+    bitPos--;
+    return (cur >> bitPos) & 1;
+  };
+  const readBits = (n: number) => {
+    let v = 0;
+    for (let i = 0; i < n; i++) v = (v << 1) | readBit();
+    return v;
+  };
+  const extend = (v: number, n: number) => (n === 0 ? 0 : v < 1 << (n - 1) ? v - (1 << n) + 1 : v);
+  const decodeSymbol = (table: Map<string, number>) => {
+    let code = 0;
+    for (let l = 1; l <= 16; l++) {
+      code = (code << 1) | readBit();
+      const s = table.get(`${l}:${code}`);
+      if (s !== undefined) return s;
+    }
+    throw new Error("bad huffman code");
+  };
+
+  const planes = comps.map(() => new Float64Array(width * height));
+  const bw = Math.ceil(width / 8);
+  const bh = Math.ceil(height / 8);
+  for (let by = 0; by < bh; by++) {
+    for (let bx = 0; bx < bw; bx++) {
+      comps.forEach((c, ci) => {
+        const zz = new Array<number>(64).fill(0);
+        const t = decodeSymbol(huff.get(c.dc)!);
+        c.pred += extend(readBits(t), t);
+        zz[0] = c.pred;
+        for (let k = 1; k < 64; ) {
+          const rs = decodeSymbol(huff.get(0x10 | c.ac)!);
+          const r = rs >> 4;
+          const s = rs & 15;
+          if (s === 0) {
+            if (r === 15) {
+              k += 16;
+              continue;
+            }
+            break;
+          }
+          k += r;
+          zz[k++] = extend(readBits(s), s);
+        }
+        const coef = new Array<number>(64);
+        for (let n = 0; n < 64; n++) coef[n] = zz[ZIGZAG[n]] * qt[c.q][ZIGZAG[n]];
+        for (let y = 0; y < 8; y++) {
+          for (let x = 0; x < 8; x++) {
+            let sum = 0;
+            for (let v = 0; v < 8; v++) {
+              for (let u = 0; u < 8; u++) {
+                const cu = u === 0 ? Math.SQRT1_2 : 1;
+                const cv = v === 0 ? Math.SQRT1_2 : 1;
+                sum +=
+                  cu * cv * coef[v * 8 + u] *
+                  Math.cos(((2 * x + 1) * u * Math.PI) / 16) *
+                  Math.cos(((2 * y + 1) * v * Math.PI) / 16);
+              }
+            }
+            const px = bx * 8 + x;
+            const py = by * 8 + y;
+            if (px < width && py < height) planes[ci][py * width + px] = sum / 4;
+          }
+        }
+      });
+    }
+  }
+  expect([bytes[bytes.length - 2], bytes[bytes.length - 1]]).toEqual([0xff, 0xd9]);
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const Y = planes[0][i] + 128;
+    const cb = planes[1][i];
+    const cr = planes[2][i];
+    pixels[i * 4] = Math.max(0, Math.min(255, Math.round(Y + 1.402 * cr)));
+    pixels[i * 4 + 1] = Math.max(0, Math.min(255, Math.round(Y - 0.344136 * cb - 0.714136 * cr)));
+    pixels[i * 4 + 2] = Math.max(0, Math.min(255, Math.round(Y + 1.772 * cb)));
+    pixels[i * 4 + 3] = 255;
+  }
+  return { width, height, pixels };
+}
+
+describe("export band plan", () => {
+  it("条带按顺序无缝覆盖整幅高度，且高度按 16 对齐", () => {
+    const plan = planExportBands(20000, 9000, { pixelBudget: 20000 * 100 });
+    expect(plan.bandHeight % 16).toBe(0);
+    let y = 0;
+    for (const band of plan.bands) {
+      expect(band.y).toBe(y);
+      expect(band.height).toBeLessThanOrEqual(plan.bandHeight);
+      y += band.height;
+    }
+    expect(y).toBe(9000);
+    expect(plan.columns.map((c) => c.width)).toEqual([8192, 8192, 3616]);
+  });
+
+  it("极宽画布仍保留最小条带高度，小图只需一个条带", () => {
+    expect(planExportBands(2_000_000, 40).bandHeight).toBe(16);
+    const small = planExportBands(300, 200);
+    expect(small.bands).toEqual([{ index: 0, y: 0, height: 200 }]);
+    expect(small.columns).toEqual([{ x: 0, width: 300 }]);
+  });
+});
+
+describe("edge extension", () => {
+  it("左右复制边缘像素形成出血", () => {
+    // 2x2：每像素 RGBA 的 R 通道标记位置
+    const rgba = new Uint8Array([1, 0, 0, 255, 2, 0, 0, 255, 3, 0, 0, 255, 4, 0, 0, 255]);
+    const wide = extendRowEdges(rgba, 2, 2, 2);
+    const reds = Array.from({ length: wide.length / 4 }, (_, i) => wide[i * 4]);
+    expect(reds).toEqual([1, 1, 1, 2, 2, 2, 3, 3, 3, 4, 4, 4]);
+    expect(wide[3]).toBe(255);
+  });
+});
+
+describe("render bounds", () => {
+  const item: RenderPhotoItem = {
+    id: "p1",
+    name: "p1",
+    crop: { x: 0, y: 0, width: 100, height: 50 },
+    cx: 200,
+    cy: 100,
+    scale: 1,
+    rotation: Math.PI / 2,
+    adjustments: { brightness: 1, contrast: 1, saturation: 1, preset: "none" },
+    srcScaleX: 1,
+    srcScaleY: 1,
+  };
+
+  it("旋转后的包围盒按输出缩放换算", () => {
+    const b = getRenderItemBounds(item, 2);
+    expect(b.left).toBeCloseTo(350 - 1);
+    expect(b.right).toBeCloseTo(450 + 1);
+    expect(b.top).toBeCloseTo(100 - 1);
+    expect(b.bottom).toBeCloseTo(300 + 1);
+  });
+
+  it("与 tileRect 求交", () => {
+    const b = getRenderItemBounds({ ...item, tileRect: { x: 190, y: 80, w: 20, h: 30 } }, 1);
+    expect(b).toEqual({ left: 189, top: 79, right: 211, bottom: 111 });
+  });
+});
+
+describe("streaming encoders", () => {
+  it("PNG：分批写入后解码得到逐像素一致的 RGBA", async () => {
+    const width = 37;
+    const height = 29;
+    const data = makeImage(width, height);
+    const encoder = new PngStreamEncoder(width, height);
+    encodeInBatches(encoder, data, width, height, [16, 3, 16]);
+    const png = decodePng(await blobBytes(encoder.finish()));
+
+    expect(png.width).toBe(width);
+    expect(png.height).toBe(height);
+    expect(png.types[0]).toBe("IHDR");
+    expect(png.types[png.types.length - 1]).toBe("IEND");
+    expect(Array.from(png.pixels)).toEqual(Array.from(data));
+  });
+
+  it("PNG：行数不足时拒绝结束", () => {
+    const encoder = new PngStreamEncoder(4, 4);
+    encoder.writeRows(new Uint8Array(4 * 4 * 2), 2);
+    expect(() => encoder.finish()).toThrow();
+  });
+
+  it("JPEG：非 8 对齐尺寸分批写入后可解码且误差很小", async () => {
+    const width = 21;
+    const height = 19;
+    const data = makeImage(width, height);
+    const encoder = new JpegStreamEncoder(width, height, 0.95);
+    encodeInBatches(encoder, data, width, height, [5, 11, 16]);
+    const blob = encoder.finish();
+    expect(blob.type).toBe("image/jpeg");
+    const jpeg = decodeJpeg(await blobBytes(blob));
+
+    expect(jpeg.width).toBe(width);
+    expect(jpeg.height).toBe(height);
+    let err = 0;
+    for (let i = 0; i < width * height; i++) {
+      for (let c = 0; c < 3; c++) err += Math.abs(jpeg.pixels[i * 4 + c] - data[i * 4 + c]);
+    }
+    expect(err / (width * height * 3)).toBeLessThan(6);
+  });
+
+  it("JPEG：纯色图像解码后颜色保持不变", async () => {
+    const width = 64;
+    const height = 64;
+    const data = new Uint8Array(width * height * 4).fill(180);
+    const encoder = new JpegStreamEncoder(width, height, 0.9);
+    encoder.writeRows(data, height);
+    const jpeg = decodeJpeg(await blobBytes(encoder.finish()));
+    expect(Math.abs(jpeg.pixels[0] - 180)).toBeLessThanOrEqual(1);
+    expect(Math.abs(jpeg.pixels[(width * height - 1) * 4 + 2] - 180)).toBeLessThanOrEqual(1);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "@/export/encoder";
+import { PngStreamEncoder } from "@/export/pngEncoder";
+import { JpegStreamEncoder } from "@/export/jpegEncoder";
+import {
+  embedExportMetadata,
+  embedJpegMetadata,
+  embedPngMetadata,
+  resolveExportDpi,
+  XMP_NAMESPACE,
+  type ExportImageMetadata,
+} from "@/export/metadata";
+
+const meta: ExportImageMetadata = {
+  dpi: 300,
+  presetId: "40x50",
+  widthMm: 400,
+  heightMm: 500,
+  projectId: "proj-<1>",
+};
+
+async function bytesOf(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function text(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+function readPngChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Array<{ type: string; data: Uint8Array }> = [];
+  let pos = 8;
+  while (pos < bytes.length) {
+    const len = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    expect(view.getUint32(pos + 8 + len)).toBe(crc32(bytes.subarray(pos + 4, pos + 8 + len)));
+    chunks.push({ type, data: bytes.subarray(pos + 8, pos + 8 + len) });
+    pos += 12 + len;
+  }
+  return chunks;
+}
+
+function readJpegSegments(bytes: Uint8Array) {
+  const segments: Array<{ marker: number; data: Uint8Array }> = [];
+  let pos = 2;
+  while (pos < bytes.length) {
+    const marker = bytes[pos + 1];
+    const len = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    segments.push({ marker, data: bytes.subarray(pos + 4, pos + 2 + len) });
+    if (marker === 0xda) break;
+    pos += 2 + len;
+  }
+  return segments;
+}
+
+/** 解析 EXIF APP1 中 IFD0 的 XResolution / ResolutionUnit */
+function readExifResolution(data: Uint8Array) {
+  expect(text(data.subarray(0, 4))).toBe("Exif");
+  const tiff = data.subarray(6);
+  const v = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  expect(text(tiff.subarray(0, 2))).toBe("MM");
+  const ifd = v.getUint32(4);
+  const count = v.getUint16(ifd);
+  let xRes = 0;
+  let unit = 0;
+  for (let i = 0; i < count; i++) {
+    const o = ifd + 2 + i * 12;
+    const tag = v.getUint16(o);
+    if (tag === 0x011a) {
+      const off = v.getUint32(o + 8);
+      xRes = v.getUint32(off) / v.getUint32(off + 4);
+    }
+    if (tag === 0x0128) unit = v.getUint16(o + 8);
+  }
+  return { xRes, unit };
+}
+
+function makePng(width: number, height: number) {
+  const enc = new PngStreamEncoder(width, height);
+  enc.writeRows(new Uint8Array(width * height * 4).fill(128), height);
+  return enc.finish();
+}
+
+function makeJpeg(width: number, height: number) {
+  const enc = new JpegStreamEncoder(width, height, 0.9);
+  enc.writeRows(new Uint8Array(width * height * 4).fill(200), height);
+  return enc.finish();
+}
+
+describe("export metadata", () => {
+  it("按输出宽度与成品宽度计算实际 DPI", () => {
+    expect(Math.round(resolveExportDpi(4724, 400))).toBe(300);
+    expect(resolveExportDpi(3840, 400)).toBeCloseTo(243.84, 2);
+  });
+
+  it("PNG：IHDR 后写入 pHYs、XMP(iTXt) 与 tEXt，图像数据不变", async () => {
+    const original = makePng(8, 6);
+    const out = await embedPngMetadata(original, meta);
+    const chunks = readPngChunks(await bytesOf(out));
+    const before = readPngChunks(await bytesOf(original));
+
+    expect(chunks.map((c) => c.type)).toEqual(["IHDR", "pHYs", "iTXt", "tEXt", ...before.slice(1).map((c) => c.type)]);
+
+    const phys = chunks[1].data;
+    const pv = new DataView(phys.buffer, phys.byteOffset, phys.byteLength);
+    expect(pv.getUint32(0)).toBe(11811); // 300 DPI ≈ 11811 px/m
+    expect(pv.getUint32(4)).toBe(11811);
+    expect(phys[8]).toBe(1);
+
+    const itxt = chunks[2].data;
+    expect(text(itxt.subarray(0, 17))).toBe("XML:com.adobe.xmp");
+    const xmp = text(itxt.subarray(22));
+    expect(xmp).toContain(`xmlns:mosaic="${XMP_NAMESPACE}"`);
+    expect(xmp).toContain('mosaic:PresetId="40x50"');
+    expect(xmp).toContain('mosaic:WidthMm="400"');
+    expect(xmp).toContain('mosaic:HeightMm="500"');
+    expect(xmp).toContain('mosaic:ProjectId="proj-&lt;1&gt;"');
+
+    const idat = (cs: typeof chunks) => cs.filter((c) => c.type === "IDAT").map((c) => Array.from(c.data));
+    expect(idat(chunks)).toEqual(idat(before));
+  });
+
+  it("PNG：重复写入时替换旧的元数据块而不是叠加", async () => {
+    const once = await embedPngMetadata(makePng(4, 4), { ...meta, dpi: 150 });
+    const twice = await embedPngMetadata(once, meta);
+    const chunks = readPngChunks(await bytesOf(twice));
+    expect(chunks.filter((c) => c.type === "pHYs")).toHaveLength(1);
+    expect(chunks.filter((c) => c.type === "iTXt")).toHaveLength(1);
+    expect(chunks.filter((c) => c.type === "tEXt")).toHaveLength(1);
+    const phys = chunks.find((c) => c.type === "pHYs")!.data;
+    expect(new DataView(phys.buffer, phys.byteOffset).getUint32(0)).toBe(11811);
+  });
+
+  it("JPEG：替换编码器的 JFIF，写入 DPI 密度、EXIF 分辨率与 XMP", async () => {
+    const original = makeJpeg(16, 16);
+    const out = await embedExportMetadata(original, "jpeg", meta);
+    expect(out.type).toBe("image/jpeg");
+    const bytes = await bytesOf(out);
+    expect([bytes[0], bytes[1]]).toEqual([0xff, 0xd8]);
+
+    const segs = readJpegSegments(bytes);
+    const jfif = segs.filter((s) => s.marker === 0xe0);
+    expect(jfif).toHaveLength(1);
+    expect(text(jfif[0].data.subarray(0, 4))).toBe("JFIF");
+    expect(jfif[0].data[7]).toBe(1); // units: DPI
+    expect((jfif[0].data[8] << 8) | jfif[0].data[9]).toBe(300);
+    expect((jfif[0].data[10] << 8) | jfif[0].data[11]).toBe(300);
+
+    const app1 = segs.filter((s) => s.marker === 0xe1);
+    expect(app1).toHaveLength(2);
+    expect(readExifResolution(app1[0].data)).toEqual({ xRes: 300, unit: 2 });
+    const xmp = text(app1[1].data);
+    expect(xmp.startsWith("http://ns.adobe.com/xap/1.0/\0")).toBe(true);
+    expect(xmp).toContain('mosaic:PresetId="40x50"');
+    expect(xmp).toContain('mosaic:ProjectId="proj-&lt;1&gt;"');
+
+    // 量化表、帧头之后的数据原样保留
+    const originalBytes = await bytesOf(original);
+    expect(Array.from(bytes.subarray(bytes.length - 64))).toEqual(
+      Array.from(originalBytes.subarray(originalBytes.length - 64)),
+    );
+    expect(segs.map((s) => s.marker)).toContain(0xdb);
+  });
+
+  it("无法识别的数据与 WebP 原样返回", async () => {
+    const junk = new Blob([new Uint8Array([1, 2, 3, 4])]);
+    expect(await embedJpegMetadata(junk, meta)).toBe(junk);
+    expect(await embedPngMetadata(junk, meta)).toBe(junk);
+    expect(await embedExportMetadata(junk, "webp", meta)).toBe(junk);
+  });
+});
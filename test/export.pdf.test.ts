@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { buildPrintPdf, buildPrintPdfPages, formatPdfNumber, PdfDocument } from "@/export/pdf";
+import { mmToPt, resolvePhysicalSize } from "@/export/printSize";
+import type { CanvasPreset } from "@/types";
+
+async function pdfText(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+}
+
+function readBox(text: string, name: string): number[] {
+  const m = text.match(new RegExp(`/${name} \\[([^\\]]+)\\]`));
+  expect(m).not.toBeNull();
+  return m![1].split(" ").map(Number);
+}
+
+/** 校验 xref 表中每个对象偏移都指向 "n 0 obj" */
+function expectValidXref(text: string) {
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF/)![1]);
+  expect(text.slice(startxref, startxref + 4)).toBe("xref");
+  const lines = text.slice(startxref).split("\n");
+  const count = Number(lines[1].split(" ")[1]);
+  for (let id = 1; id < count; id++) {
+    const offset = Number(lines[2 + id].slice(0, 10));
+    expect(text.slice(offset, offset + `${id} 0 obj`.length)).toBe(`${id} 0 obj`);
+  }
+}
+
+const presets: CanvasPreset[] = [
+  { id: "40x50", label: "preset.40x50", width: 4724, height: 5906, widthCm: 40, heightCm: 50 },
+  { id: "custom", label: "preset.custom", width: 4000, height: 4000 },
+];
+
+describe("print size", () => {
+  it("预设像素未改动时使用整厘米尺寸，否则按 300DPI 换算", () => {
+    expect(
+      resolvePhysicalSize({ presets, presetId: "40x50", canvasWidth: 4724, canvasHeight: 5906 }),
+    ).toEqual({ widthMm: 400, heightMm: 500 });
+
+    const resized = resolvePhysicalSize({
+      presets,
+      presetId: "40x50",
+      canvasWidth: 3000,
+      canvasHeight: 6000,
+    });
+    expect(resized.widthMm).toBeCloseTo(254);
+    expect(resized.heightMm).toBeCloseTo(508);
+  });
+});
+
+describe("pdf export", () => {
+  const jpeg = new Blob([new Uint8Array([0xff, 0xd8, 1, 2, 3, 0xff, 0xd9])], { type: "image/jpeg" });
+
+  it("页面为成品尺寸 + 出血，图像覆盖出血框", async () => {
+    const blob = buildPrintPdf({
+      image: { data: jpeg, width: 120, height: 150 },
+      widthMm: 400,
+      heightMm: 500,
+      settings: { bleedMm: 3, printMarks: false },
+    });
+    expect(blob.type).toBe("application/pdf");
+    const text = await pdfText(blob);
+
+    expect(text.startsWith("%PDF-1.4\n")).toBe(true);
+    const trim = readBox(text, "TrimBox");
+    const media = readBox(text, "MediaBox");
+    const bleed = readBox(text, "BleedBox");
+    expect(trim[2] - trim[0]).toBeCloseTo(mmToPt(400), 2);
+    expect(trim[3] - trim[1]).toBeCloseTo(mmToPt(500), 2);
+    expect(media[2]).toBeCloseTo(mmToPt(406), 2);
+    expect(bleed).toEqual(media);
+
+    expect(text).toContain("/Width 120 /Height 150");
+    expect(text).toContain("/Filter /DCTDecode /Length 7 >>");
+    expect(text).toContain("/Im0 Do");
+    expect(text).not.toContain(" K\n");
+    expectValidXref(text);
+  });
+
+  it("开启印刷标记时扩大页面并绘制裁切线与套准标记", async () => {
+    const text = await pdfText(
+      buildPrintPdf({
+        image: { data: jpeg, width: 10, height: 10 },
+        widthMm: 100,
+        heightMm: 100,
+        settings: { bleedMm: 0, printMarks: true },
+      }),
+    );
+    const trim = readBox(text, "TrimBox");
+    const media = readBox(text, "MediaBox");
+    // 标记区：3mm 偏移 + 5mm 线长 + 2mm 空白
+    expect(trim[0]).toBeCloseTo(mmToPt(10), 2);
+    expect(media[2]).toBeCloseTo(mmToPt(120), 2);
+    expect(text).toContain("1 1 1 1 K");
+    // 8 条裁切线 + 4 个套准标记各 2 条十字线
+    expect(text.match(/ l S\n/g)).toHaveLength(16);
+    expect(text.match(/ c S\n/g)).toHaveLength(4);
+    expectValidXref(text);
+  });
+
+  it("多页文档的页面树与 Info 字典", async () => {
+    const doc = new PdfDocument();
+    const img = doc.addJpegImage({ data: jpeg, width: 1, height: 1 });
+    for (let i = 0; i < 3; i++) {
+      doc.addPage({
+        mediaBox: { x: 0, y: 0, width: 100, height: 200 },
+        content: "",
+        images: { Im0: img },
+      });
+    }
+    const text = await pdfText(doc.finish({ title: "拼图" }));
+    expect(text).toMatch(/\/Type \/Pages \/Kids \[(\d+ 0 R ?){3}\] \/Count 3/);
+    expect(text).toContain("/Title <FEFF62FC56FE>");
+    expectValidXref(text);
+  });
+
+  it("相册 PDF 每页使用各自的成品尺寸", async () => {
+    const text = await pdfText(
+      buildPrintPdfPages({
+        pages: [
+          { image: { data: jpeg, width: 10, height: 10 }, widthMm: 200, heightMm: 200 },
+          { image: { data: jpeg, width: 20, height: 10 }, widthMm: 400, heightMm: 200 },
+        ],
+        settings: { bleedMm: 3, printMarks: false },
+      }),
+    );
+    expect(text).toMatch(/\/Type \/Pages \/Kids \[(\d+ 0 R ?){2}\] \/Count 2/);
+    const trims = [...text.matchAll(/\/TrimBox \[([^\]]+)\]/g)].map(m => m[1].split(" ").map(Number));
+    expect(trims).toHaveLength(2);
+    expect(trims[0][2] - trims[0][0]).toBeCloseTo(mmToPt(200), 2);
+    expect(trims[1][2] - trims[1][0]).toBeCloseTo(mmToPt(400), 2);
+    expect(text).toContain("/Width 20 /Height 10");
+    expectValidXref(text);
+  });
+
+  it("数字格式化去掉多余小数位", () => {
+    expect(formatPdfNumber(12)).toBe("12");
+    expect(formatPdfNumber(1.23456)).toBe("1.235");
+    expect(formatPdfNumber(-0.0001)).toBe("0");
+  });
+});
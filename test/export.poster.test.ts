@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPosterPageMarks,
+  buildPosterPdf,
+  planPosterTiles,
+  POSTER_PAGE_MARGIN_MM,
+  resolvePosterPaper,
+} from "@/export/poster";
+import { mmToPt } from "@/export/printSize";
+
+async function pdfText(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+}
+
+// 40×50cm 成品，按 300DPI 输出
+const base = { outWidth: 4724, outHeight: 5906, widthMm: 400, heightMm: 500 };
+
+describe("poster tiling", () => {
+  it("按 A4 可打印区域与重叠切分行列，最后一行列裁短", () => {
+    const plan = planPosterTiles({
+      ...base,
+      settings: { paper: "a4", orientation: "portrait", overlapMm: 10 },
+    });
+    // 可打印 186×273mm，步长 176×263mm
+    expect(plan.cols).toBe(3);
+    expect(plan.rows).toBe(2);
+    expect(plan.tiles).toHaveLength(6);
+
+    const [first, second, third] = plan.tiles;
+    expect(first.label).toBe("R1-C1");
+    expect(first.widthMm).toBe(186);
+    expect(second.xMm).toBe(176);
+    // 相邻页重叠 10mm
+    expect(first.xMm + first.widthMm - second.xMm).toBe(10);
+    expect(third.xMm + third.widthMm).toBe(400);
+    expect(plan.tiles[5].yMm + plan.tiles[5].heightMm).toBe(500);
+
+    const last = plan.tiles[5];
+    expect(last.label).toBe("R2-C3");
+    expect(last.px.x + last.px.width).toBe(4724);
+    expect(last.px.y + last.px.height).toBe(5906);
+    expect(plan.pxPerMm).toBeCloseTo(4724 / 400);
+  });
+
+  it("横向与 A3 纸张减少页数；画面小于纸张时只有一页", () => {
+    expect(resolvePosterPaper({ paper: "a3", orientation: "landscape" })).toEqual({
+      widthMm: 420,
+      heightMm: 297,
+    });
+    const a3 = planPosterTiles({
+      ...base,
+      settings: { paper: "a3", orientation: "portrait", overlapMm: 10 },
+    });
+    expect([a3.cols, a3.rows]).toEqual([2, 2]);
+
+    const small = planPosterTiles({
+      outWidth: 1000,
+      outHeight: 1000,
+      widthMm: 100,
+      heightMm: 100,
+      settings: { paper: "a4", orientation: "portrait", overlapMm: 10 },
+    });
+    expect(small.tiles).toHaveLength(1);
+    expect(small.tiles[0].px).toEqual({ x: 0, y: 0, width: 1000, height: 1000 });
+  });
+
+  it("重叠宽度限制在可打印区域一半以内", () => {
+    const plan = planPosterTiles({
+      ...base,
+      settings: { paper: "a4", orientation: "portrait", overlapMm: 500 },
+    });
+    expect(plan.overlapMm).toBe(30);
+    expect(plan.tiles.every((t) => t.widthMm > 0 && t.heightMm > 0)).toBe(true);
+  });
+
+  it("页面标记：四角裁切线、与相邻页的对齐刻度和行列编号", () => {
+    const plan = planPosterTiles({
+      ...base,
+      settings: { paper: "a4", orientation: "portrait", overlapMm: 10 },
+    });
+    const corner = buildPosterPageMarks(plan, plan.tiles[0]);
+    expect(corner.content).toEqual({
+      x: POSTER_PAGE_MARGIN_MM,
+      y: POSTER_PAGE_MARGIN_MM,
+      width: 186,
+      height: 273,
+    });
+    // 8 条裁切线 + 右侧、下侧各一对刻度
+    expect(corner.lines).toHaveLength(12);
+    expect(corner.label.text).toBe("R1-C1  1/6");
+
+    // 中间列上下都有邻页，左右各一对刻度 + 下方一对
+    const middle = buildPosterPageMarks(plan, plan.tiles[1]);
+    expect(middle.lines).toHaveLength(14);
+    const ticks = middle.lines.slice(8).filter((l) => l.x1 === l.x2).map((l) => l.x1);
+    expect(ticks).toContain(POSTER_PAGE_MARGIN_MM + 10);
+    expect(ticks).toContain(POSTER_PAGE_MARGIN_MM + 186 - 10);
+
+    // 所有标记都在纸张内
+    for (const l of middle.lines) {
+      for (const v of [l.x1, l.x2]) expect(v).toBeGreaterThanOrEqual(0);
+      for (const v of [l.x1, l.x2]) expect(v).toBeLessThanOrEqual(plan.paper.widthMm);
+    }
+  });
+
+  it("多页 PDF：每页纸张尺寸、画面 1:1 放置并带编号文字", async () => {
+    const plan = planPosterTiles({
+      ...base,
+      settings: { paper: "a4", orientation: "portrait", overlapMm: 10 },
+    });
+    const jpeg = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xd9])], { type: "image/jpeg" });
+    const text = await pdfText(
+      buildPosterPdf({
+        plan,
+        images: plan.tiles.map((t) => ({ data: jpeg, width: t.px.width, height: t.px.height })),
+      }),
+    );
+
+    expect(text).toMatch(/\/Type \/Pages \/Kids \[(\d+ 0 R ?){6}\] \/Count 6/);
+    expect(text.match(/\/MediaBox \[0 0 595\.276 841\.89\]/g)).toHaveLength(6);
+    expect(text).toContain("/BaseFont /Helvetica");
+    expect(text).toContain("/Font << /F1 ");
+    expect(text).toContain("(R2-C3  6/6) Tj");
+    const w = mmToPt(186).toFixed(3).replace(/0+$/, "");
+    expect(text).toContain(`q ${w} 0 0 `);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import type { TileRect } from "@/types";
+import {
+  fillArrangePhotosShared,
+  type FillArrangeMask,
+  type FillArrangePhotoInput,
+} from "@/utils/fillArrangeShared";
+import { normalizeCanvasMask } from "@/utils/canvasMask";
+
+function makePhoto(id: string, width: number, height: number): FillArrangePhotoInput {
+  return {
+    id,
+    crop: { x: 0, y: 0, width, height },
+    imageWidth: width,
+    imageHeight: height,
+  };
+}
+
+const photos = [
+  makePhoto("a", 4000, 3000),
+  makePhoto("b", 3000, 4000),
+  makePhoto("c", 3000, 3000),
+  makePhoto("d", 4000, 3000),
+  makePhoto("e", 3000, 4000),
+  makePhoto("f", 3000, 4000),
+  makePhoto("g", 4000, 3000),
+  makePhoto("h", 3000, 3000),
+];
+
+const searchOptions = {
+  mode: "standard" as const,
+  allowCanvasResize: false,
+  allowLocalRepair: false,
+  maxSearchRounds: 2,
+};
+
+/** 居中的圆形遮罩，按格子中心是否在圆内给出 0/255 覆盖率 */
+function circleMask(size: number): FillArrangeMask {
+  const data = new Uint8Array(size * size);
+  const r = size / 2;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = x + 0.5 - r;
+      const dy = y + 0.5 - r;
+      data[y * size + x] = dx * dx + dy * dy <= r * r ? 255 : 0;
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+/** 类似文字遮罩 "IOOO"：一道竖笔加三个细圆环，分块多、笔画细 */
+function glyphsMask(width: number, height: number): FillArrangeMask {
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const letter = Math.floor((x / width) * 4);
+      const dx = x + 0.5 - (letter + 0.5) * (width / 4);
+      const dy = y + 0.5 - height / 2;
+      const inside =
+        letter === 0
+          ? Math.abs(dx) <= height * 0.05 && Math.abs(dy) <= height * 0.4
+          : Math.hypot(dx, dy) >= height * 0.3 && Math.hypot(dx, dy) <= height * 0.4;
+      data[y * width + x] = inside ? 255 : 0;
+    }
+  }
+  return { width, height, data };
+}
+
+function coverageAt(mask: FillArrangeMask, canvas: number, x: number, y: number): number {
+  const col = Math.min(mask.width - 1, Math.floor((x / canvas) * mask.width));
+  const row = Math.min(mask.height - 1, Math.floor((y / canvas) * mask.height));
+  return mask.data[row * mask.width + col];
+}
+
+function overlapArea(a: TileRect, b: TileRect): number {
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return Math.max(0, w) * Math.max(0, h);
+}
+
+describe("fillArrange shape mask", () => {
+  const mask = circleMask(64);
+
+  it("tile 只生成在遮罩内部，遮罩外留给背景", () => {
+    const result = fillArrangePhotosShared(photos, 4000, 4000, { seed: 3, searchOptions, mask });
+    expect(result.placements).toHaveLength(photos.length);
+    expect([result.canvasW, result.canvasH]).toEqual([4000, 4000]);
+
+    const rects = result.placements.map(p => p.tileRect!);
+    for (const rect of rects) {
+      expect(coverageAt(mask, 4000, rect.x + rect.w / 2, rect.y + rect.h / 2)).toBe(255);
+    }
+    for (let i = 0; i < rects.length; i++) {
+      for (let j = i + 1; j < rects.length; j++) {
+        expect(overlapArea(rects[i], rects[j])).toBeLessThan(1);
+      }
+    }
+
+    // 四角在圆外，没有照片覆盖；边界 tile 取可见部分的包围盒，覆盖面积略大于圆面积
+    const corners = [[10, 10], [3990, 10], [10, 3990], [3990, 3990]];
+    for (const [x, y] of corners) {
+      expect(rects.some(r => x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h)).toBe(false);
+    }
+    const covered = rects.reduce((sum, r) => sum + r.w * r.h, 0);
+    const circle = Math.PI * 2000 * 2000;
+    expect(covered / circle).toBeGreaterThan(0.75);
+    expect(covered / circle).toBeLessThan(1.15);
+  });
+
+  it("裁剪按遮罩内的可见区域比例计算", () => {
+    const result = fillArrangePhotosShared(photos, 4000, 4000, { seed: 3, searchOptions, mask });
+    for (const placement of result.placements) {
+      const rect = placement.tileRect!;
+      const crop = placement.crop!;
+      expect(crop.width * placement.scale).toBeGreaterThanOrEqual(rect.w - 0.05);
+      expect(crop.height * placement.scale).toBeGreaterThanOrEqual(rect.h - 0.05);
+      expect(placement.cx).toBeCloseTo(rect.x + rect.w / 2, 3);
+    }
+  });
+
+  it("锁定照片在遮罩布局中保持不动", () => {
+    const first = fillArrangePhotosShared(photos, 4000, 4000, { seed: 3, searchOptions, mask });
+    const locked = first.placements[0];
+    const relocked = photos.map(photo =>
+      photo.id === locked.id
+        ? { ...photo, pinned: { tileRect: locked.tileRect!, crop: locked.crop! } }
+        : photo,
+    );
+    const next = fillArrangePhotosShared(relocked, 4000, 4000, { seed: 11, searchOptions, mask });
+    expect(next.placements.find(p => p.id === locked.id)!.tileRect).toEqual(locked.tileRect);
+  });
+
+  it("照片少于遮罩分块时共用遮罩包围盒，仍保留整个形状", () => {
+    const glyphs = glyphsMask(160, 40);
+    const few = photos.slice(0, 3);
+    const result = fillArrangePhotosShared(few, 4000, 1000, { seed: 3, searchOptions, mask: glyphs });
+    expect(result.placements).toHaveLength(3);
+    const rects = result.placements.map(p => p.tileRect!);
+
+    // 不退回整张画布：四角在遮罩包围盒之外
+    for (const [x, y] of [[10, 10], [3990, 990]]) {
+      expect(rects.some(r => x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h)).toBe(false);
+    }
+    // 每个字都被照片覆盖，而不是只铺竖笔这一块
+    let total = 0;
+    let covered = 0;
+    for (let row = 0; row < glyphs.height; row++) {
+      for (let col = 0; col < glyphs.width; col++) {
+        if (glyphs.data[row * glyphs.width + col] === 0) continue;
+        const x = (col + 0.5) * 25;
+        const y = (row + 0.5) * 25;
+        total++;
+        if (rects.some(r => x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h)) covered++;
+      }
+    }
+    expect(covered / total).toBeGreaterThan(0.95);
+
+    // 锁定一张后剩余区域被切开，照片仍共用区域而不是放弃锁定
+    const locked = result.placements[0];
+    const relocked = few.map(photo =>
+      photo.id === locked.id ? { ...photo, pinned: { tileRect: locked.tileRect!, crop: locked.crop! } } : photo,
+    );
+    const next = fillArrangePhotosShared(relocked, 4000, 1000, { seed: 11, searchOptions, mask: glyphs });
+    expect(next.droppedPinIds).toBeUndefined();
+    expect(next.placements.find(p => p.id === locked.id)!.tileRect).toEqual(locked.tileRect);
+  });
+
+  it("空遮罩退回整张画布铺满", () => {
+    const empty: FillArrangeMask = { width: 8, height: 8, data: new Uint8Array(64) };
+    const result = fillArrangePhotosShared(photos, 4000, 4000, { seed: 3, searchOptions, mask: empty });
+    const covered = result.placements.reduce((sum, p) => sum + p.tileRect!.w * p.tileRect!.h, 0);
+    expect(covered).toBeCloseTo(4000 * 4000, 0);
+  });
+
+  it("项目数据中的遮罩经过校验", () => {
+    expect(normalizeCanvasMask({ kind: "shape", shape: "heart" })).toEqual({ kind: "shape", shape: "heart" });
+    expect(normalizeCanvasMask({ kind: "shape", shape: "cube" })).toBeNull();
+    expect(normalizeCanvasMask({ kind: "text", text: "  LOVE ", fontWeight: 1234 })).toEqual({
+      kind: "text",
+      text: "LOVE",
+      fontFamily: "sans-serif",
+      fontWeight: 900,
+    });
+    expect(normalizeCanvasMask({ kind: "path", path: "M0 0 L1 1 Z", viewBox: [0, 0, 0, 1] })).toBeNull();
+    expect(normalizeCanvasMask({ kind: "image", dataUrl: "javascript:alert(1)" })).toBeNull();
+    expect(normalizeCanvasMask(null)).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  fillArrangePhotosShared,
+  resolvePhotoSequence,
+  type FillArrangePhotoInput,
+} from "@/utils/fillArrangeShared";
+
+function makePhoto(
+  id: string,
+  width: number,
+  height: number,
+  extra: Partial<FillArrangePhotoInput> = {},
+): FillArrangePhotoInput {
+  return {
+    id,
+    crop: { x: 0, y: 0, width, height },
+    imageWidth: width,
+    imageHeight: height,
+    ...extra,
+  };
+}
+
+const searchOptions = {
+  mode: "standard" as const,
+  allowCanvasResize: false,
+  allowLocalRepair: false,
+  maxSearchRounds: 2,
+};
+
+const mixed = [
+  makePhoto("a", 4000, 3000, { name: "IMG_10.jpg", takenAt: 500 }),
+  makePhoto("b", 3000, 4000, { name: "IMG_2.jpg", takenAt: 100 }),
+  makePhoto("c", 3000, 3000, { name: "img_1.jpg" }),
+  makePhoto("d", 4000, 3000, { name: "IMG_3.jpg", takenAt: 300 }),
+  makePhoto("e", 3000, 4000, { name: "IMG_20.jpg", takenAt: 200 }),
+  makePhoto("f", 3000, 4000, { name: "IMG_4.jpg", takenAt: 400 }),
+];
+
+describe("fillArrange ordering", () => {
+  it("按拍摄时间、文件名（数字自然排序）或输入顺序给出期望位置", () => {
+    const rank = (mode: Parameters<typeof resolvePhotoSequence>[1]) => {
+      const seq = resolvePhotoSequence(mixed, mode)!;
+      return [...seq.entries()].sort((x, y) => x[1] - y[1]).map(([id]) => id);
+    };
+    // 没有拍摄时间的照片排在最后
+    expect(rank("capture-date")).toEqual(["b", "e", "d", "f", "a", "c"]);
+    expect(rank("filename")).toEqual(["c", "b", "d", "f", "a", "e"]);
+    expect(rank("manual")).toEqual(["a", "b", "c", "d", "e", "f"]);
+    expect(resolvePhotoSequence(mixed, "free")).toBeNull();
+    expect(resolvePhotoSequence(mixed.slice(0, 1), "manual")).toBeNull();
+  });
+
+  it("同比例照片按阅读顺序（先上后下、先左后右）依次排列", () => {
+    const squares = ["p0", "p1", "p2", "p3", "p4", "p5"].map(id => makePhoto(id, 3000, 3000));
+    const result = fillArrangePhotosShared(squares, 3000, 2000, {
+      seed: 7,
+      ordering: "manual",
+      searchOptions,
+    });
+    expect(result.quality?.orderingError).toBe(0);
+    expect(
+      fillArrangePhotosShared(squares, 3000, 2000, { seed: 7, searchOptions }).quality?.orderingError,
+    ).toBeUndefined();
+    const reading = [...result.placements]
+      .sort((a, b) => a.tileRect!.y - b.tileRect!.y || a.tileRect!.x - b.tileRect!.x)
+      .map(p => p.id);
+    expect(reading).toEqual(["p0", "p1", "p2", "p3", "p4", "p5"]);
+  });
+
+  it("权重越高越守顺序，权重为 0 时只统计顺序误差", () => {
+    const run = (orderingWeight: number) =>
+      fillArrangePhotosShared(mixed, 4000, 5000, {
+        seed: 3,
+        ordering: "capture-date",
+        orderingWeight,
+      }).quality!;
+    const free = run(0);
+    const strict = run(4);
+    expect(free.orderingError).toBeGreaterThan(0.2);
+    expect(strict.orderingError!).toBeLessThan(free.orderingError! / 2);
+    // 守顺序的代价是裁剪变多
+    expect(strict.worstCropLoss).toBeGreaterThanOrEqual(free.worstCropLoss);
+  }, 15000);
+});
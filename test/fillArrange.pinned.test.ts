@@ -0,0 +1,210 @@
+import { describe, expect, it } from "vitest";
+import type { PhotoEntity, Placement, TileRect } from "@/types";
+import { fillArrangePhotos } from "@/composables/useLayout";
+import { validateFillArrangePlacements } from "@/utils/fillArrangeValidation";
+
+function makePhoto(id: string, width: number, height: number): PhotoEntity {
+  return {
+    id,
+    name: id,
+    srcUrl: "",
+    image: {} as unknown as CanvasImageSource,
+    imageWidth: width,
+    imageHeight: height,
+    crop: { x: 0, y: 0, width, height },
+    adjustments: {
+      brightness: 1,
+      contrast: 1,
+      saturation: 1,
+      preset: "none",
+    },
+    cx: 0,
+    cy: 0,
+    scale: 1,
+    rotation: 0,
+    zIndex: 0,
+  };
+}
+
+const searchOptions = {
+  mode: "standard" as const,
+  allowCanvasResize: false,
+  allowLocalRepair: false,
+  maxSearchRounds: 2,
+};
+
+function createPhotos() {
+  return [
+    makePhoto("a", 3000, 2000),
+    makePhoto("b", 2000, 3000),
+    makePhoto("c", 2400, 2400),
+    makePhoto("d", 3200, 1800),
+    makePhoto("e", 1800, 2700),
+    makePhoto("f", 2600, 2000),
+  ];
+}
+
+/** 把布局结果写回照片，模拟 store.applyPlacements */
+function applyResult(photos: PhotoEntity[], placements: Placement[]) {
+  for (const placement of placements) {
+    const photo = photos.find(p => p.id === placement.id)!;
+    photo.cx = placement.cx;
+    photo.cy = placement.cy;
+    photo.scale = placement.scale;
+    photo.layoutCrop = placement.crop;
+    photo.tileRect = placement.tileRect;
+  }
+}
+
+function overlapArea(a: TileRect, b: TileRect): number {
+  const w = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const h = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  return Math.max(0, w) * Math.max(0, h);
+}
+
+describe("fillArrange pinned photos", () => {
+  it("锁定照片的 tileRect 与裁剪在重排后保持不变，其余照片铺满剩余区域", () => {
+    const photos = createPhotos();
+    const first = fillArrangePhotos(photos, 4000, 5000, { seed: 11, searchOptions });
+    applyResult(photos, first.placements);
+
+    const hero = photos.find(p => p.id === "c")!;
+    hero.locked = true;
+    const pinnedRect = { ...hero.tileRect! };
+    const pinnedCrop = { ...hero.layoutCrop! };
+
+    const next = fillArrangePhotos(photos, 4000, 5000, { seed: 97, searchOptions });
+    expect(next.canvasW).toBe(4000);
+    expect(next.canvasH).toBe(5000);
+    expect(next.placements.map(p => p.id)).toEqual(photos.map(p => p.id));
+
+    const heroPlacement = next.placements.find(p => p.id === "c")!;
+    expect(heroPlacement.tileRect).toEqual(pinnedRect);
+    expect(heroPlacement.crop).toEqual(pinnedCrop);
+    expect(heroPlacement.cx).toBeCloseTo(pinnedRect.x + pinnedRect.w / 2, 6);
+    expect(heroPlacement.cy).toBeCloseTo(pinnedRect.y + pinnedRect.h / 2, 6);
+
+    // 其他照片不侵入锁定 tile，且与锁定 tile 一起铺满画布
+    const others = next.placements.filter(p => p.id !== "c");
+    for (const p of others) {
+      expect(overlapArea(p.tileRect!, pinnedRect)).toBeLessThan(1e-6);
+    }
+    const covered = next.placements.reduce((sum, p) => sum + p.tileRect!.w * p.tileRect!.h, 0);
+    expect(covered).toBeCloseTo(4000 * 5000, 0);
+    expect(next.quality).toBeDefined();
+  });
+
+  it("有间距时锁定 tile 周围保持 gutter，其他照片贴边处保留外边距", () => {
+    const photos = createPhotos();
+    const spacing = { gutter: 40, outerMargin: 80, cornerRadius: 24 };
+    const first = fillArrangePhotos(photos, 4000, 5000, { seed: 5, searchOptions, ...spacing });
+    applyResult(photos, first.placements);
+
+    for (const id of ["a", "d"]) photos.find(p => p.id === id)!.locked = true;
+    const pinned = new Map(
+      photos.filter(p => p.locked).map(p => [p.id, { ...p.tileRect! }]),
+    );
+
+    const next = fillArrangePhotos(photos, 4000, 5000, { seed: 123, searchOptions, ...spacing });
+    const rects = next.placements.map(p => p.tileRect!);
+    for (const [id, rect] of pinned) {
+      expect(next.placements.find(p => p.id === id)!.tileRect).toEqual(rect);
+    }
+    expect(Math.min(...rects.map(r => r.x))).toBeCloseTo(80, 3);
+    expect(Math.max(...rects.map(r => r.y + r.h))).toBeCloseTo(5000 - 80, 3);
+    for (let i = 0; i < rects.length; i++) {
+      for (let j = i + 1; j < rects.length; j++) {
+        const a = rects[i];
+        const b = rects[j];
+        const dx = Math.max(b.x - (a.x + a.w), a.x - (b.x + b.w));
+        const dy = Math.max(b.y - (a.y + a.h), a.y - (b.y + b.h));
+        expect(Math.max(dx, dy)).toBeGreaterThanOrEqual(40 - 1e-6);
+      }
+    }
+  });
+
+  it("锁定超出画布时忽略该锁定，照片正常参与重排", () => {
+    const photos = createPhotos();
+    const first = fillArrangePhotos(photos, 4000, 5000, { seed: 11, searchOptions });
+    applyResult(photos, first.placements);
+
+    const stale = photos[0];
+    stale.locked = true;
+    stale.tileRect = { x: 3500, y: 4500, w: 1000, h: 1000 };
+
+    const next = fillArrangePhotos(photos, 4000, 5000, { seed: 11, searchOptions });
+    expect(next.droppedPinIds).toEqual([stale.id]);
+    const placement = next.placements.find(p => p.id === stale.id)!;
+    expect(placement.tileRect).not.toEqual(stale.tileRect);
+    const rect = placement.tileRect!;
+    expect(rect.x + rect.w).toBeLessThanOrEqual(4000 + 1e-6);
+    expect(rect.y + rect.h).toBeLessThanOrEqual(5000 + 1e-6);
+  });
+
+  it("剩余区域无法铺满时放弃较小的锁定，并在结果中报告", () => {
+    const photos = createPhotos().slice(0, 3);
+    // 两个锁定分居对角，剩余区域拆成两块，只剩一张照片无法铺满
+    const pins: Record<string, TileRect> = {
+      a: { x: 0, y: 0, w: 2000, h: 2400 },
+      b: { x: 2000, y: 3000, w: 2000, h: 2000 },
+    };
+    for (const photo of photos) {
+      const rect = pins[photo.id];
+      if (!rect) continue;
+      photo.locked = true;
+      photo.tileRect = { ...rect };
+      photo.layoutCrop = { ...photo.crop };
+    }
+
+    const next = fillArrangePhotos(photos, 4000, 5000, { seed: 7, searchOptions });
+    expect(next.droppedPinIds).toEqual(["b"]);
+    expect(next.placements.find(p => p.id === "a")!.tileRect).toEqual(pins.a);
+    expect(next.placements.find(p => p.id === "b")!.tileRect).not.toEqual(pins.b);
+
+    // 校验按输入中的全部锁定进行：未报告的放弃会被发现
+    const entries = next.placements.map(placement => ({ tile: placement.tileRect!, placement }));
+    const pinnedTiles = new Map(Object.entries(pins));
+    const unreported = validateFillArrangePlacements(entries, 4000, 5000, { coverMode: true, pinnedTiles });
+    expect(unreported).toEqual({ ok: false, reason: "pinned tile moved: b" });
+    expect(
+      validateFillArrangePlacements(entries, 4000, 5000, {
+        coverMode: true,
+        pinnedTiles,
+        droppedPinIds: next.droppedPinIds,
+      }).ok,
+    ).toBe(true);
+  });
+
+  it("validateFillArrangePlacements 检查锁定 tile 未被移动", () => {
+    const tile = { x: 0, y: 0, w: 100, h: 100 };
+    const placement: Placement = {
+      id: "a",
+      cx: 50,
+      cy: 50,
+      scale: 1,
+      rotation: 0,
+      crop: { x: 0, y: 0, width: 100, height: 100 },
+      tileRect: { ...tile },
+    };
+    expect(
+      validateFillArrangePlacements([{ tile, placement }], 100, 100, {
+        coverMode: true,
+        pinnedTiles: new Map([["a", { ...tile }]]),
+      }).ok,
+    ).toBe(true);
+
+    const moved = validateFillArrangePlacements([{ tile, placement }], 100, 100, {
+      coverMode: true,
+      pinnedTiles: new Map([["a", { ...tile, r: 12 }]]),
+    });
+    expect(moved.ok).toBe(false);
+    expect(moved.reason).toBe("pinned tile moved: a");
+
+    // 锁定照片不在结果中同样算作移动
+    const missing = validateFillArrangePlacements([{ tile, placement }], 100, 100, {
+      coverMode: true,
+      pinnedTiles: new Map([["z", { ...tile }]]),
+    });
+    expect(missing.reason).toBe("pinned tile moved: z");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampPhotoPriority,
+  fillArrangePhotosShared,
+  priorityAreaWeight,
+  type FillArrangePhotoInput,
+} from "@/utils/fillArrangeShared";
+
+function makePhoto(
+  id: string,
+  width: number,
+  height: number,
+  priority?: number,
+): FillArrangePhotoInput {
+  return {
+    id,
+    crop: { x: 0, y: 0, width, height },
+    imageWidth: width,
+    imageHeight: height,
+    priority,
+  };
+}
+
+const photos = [
+  makePhoto("a", 4000, 3000, 5),
+  makePhoto("b", 3000, 4000),
+  makePhoto("c", 3000, 3000),
+  makePhoto("d", 4000, 3000),
+  makePhoto("e", 3000, 4000, 1),
+  makePhoto("f", 3000, 4000),
+];
+
+function areaShares(placements: ReturnType<typeof fillArrangePhotosShared>["placements"]) {
+  const total = placements.reduce((sum, p) => sum + p.tileRect!.w * p.tileRect!.h, 0);
+  return new Map(placements.map(p => [p.id, (p.tileRect!.w * p.tileRect!.h) / total]));
+}
+
+describe("fillArrange photo priority", () => {
+  it("星级换算为期望面积权重，越界与缺省按 3 星处理", () => {
+    expect(priorityAreaWeight(3)).toBe(1);
+    expect(priorityAreaWeight(5)).toBeCloseTo(2, 6);
+    expect(priorityAreaWeight(1)).toBeCloseTo(0.5, 6);
+    expect(priorityAreaWeight()).toBe(1);
+    expect(clampPhotoPriority(9)).toBe(5);
+    expect(clampPhotoPriority(0)).toBe(1);
+    expect(clampPhotoPriority(Number.NaN)).toBe(3);
+  });
+
+  it("高星级照片分到更大的 tile，质量摘要报告面积比例误差", () => {
+    const result = fillArrangePhotosShared(photos, 4000, 5000, { seed: 3 });
+    const shares = areaShares(result.placements);
+
+    const defaults = ["b", "c", "d", "f"].map(id => shares.get(id)!);
+    expect(shares.get("a")!).toBeGreaterThan(Math.max(...defaults));
+    expect(shares.get("e")!).toBeLessThan(Math.min(...defaults));
+    expect(shares.get("a")! / shares.get("e")!).toBeGreaterThan(2.5);
+
+    const quality = result.quality!;
+    expect(quality.priorityAreaError).toBeDefined();
+    expect(quality.priorityAreaError!).toBeLessThan(0.25);
+    expect(quality.worstPriorityAreaError!).toBeGreaterThanOrEqual(quality.priorityAreaError!);
+    expect(photos.map(p => p.id)).toContain(quality.worstPriorityPhotoId);
+  });
+
+  it("星级相同时画质高的照片分到更大的 tile", () => {
+    const quality = [0.9, 0.5, 0.5, 0.2, 0.5];
+    const same = ["a", "b", "c", "d", "e"].map((id, idx) => ({
+      ...makePhoto(id, 4000, 3000),
+      quality: quality[idx],
+    }));
+    const shares = areaShares(fillArrangePhotosShared(same, 4000, 5000, { seed: 1 }).placements);
+    const values = [...shares.values()];
+
+    expect(shares.get("a")).toBe(Math.max(...values));
+    expect(shares.get("d")).toBe(Math.min(...values));
+  });
+
+  it("未设置星级时不报告面积比例误差", () => {
+    const plain = photos.map(p => ({ ...p, priority: undefined }));
+    const result = fillArrangePhotosShared(plain, 4000, 5000, { seed: 3 });
+    expect(result.quality?.priorityAreaError).toBeUndefined();
+    expect(result.quality?.worstPriorityPhotoId).toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import type { PhotoEntity, Placement } from "@/types";
+import { fillArrangePhotos } from "@/composables/useLayout";
+import { hasTileGaps } from "@/export/renderComposition";
+
+function makePhoto(id: string, width: number, height: number): PhotoEntity {
+  return {
+    id,
+    name: id,
+    srcUrl: "",
+    image: {} as unknown as CanvasImageSource,
+    imageWidth: width,
+    imageHeight: height,
+    crop: { x: 0, y: 0, width, height },
+    adjustments: {
+      brightness: 1,
+      contrast: 1,
+      saturation: 1,
+      preset: "none",
+    },
+    cx: 0,
+    cy: 0,
+    scale: 1,
+    rotation: 0,
+    zIndex: 0,
+  };
+}
+
+const photos = [
+  makePhoto("a", 3000, 2000),
+  makePhoto("b", 2000, 3000),
+  makePhoto("c", 2400, 2400),
+  makePhoto("d", 3200, 1800),
+  makePhoto("e", 1800, 2700),
+];
+
+const searchOptions = {
+  mode: "standard" as const,
+  allowCanvasResize: false,
+  allowLocalRepair: false,
+  maxSearchRounds: 2,
+};
+
+function gapBetween(a: Placement, b: Placement): number {
+  const ra = a.tileRect!;
+  const rb = b.tileRect!;
+  const dx = Math.max(rb.x - (ra.x + ra.w), ra.x - (rb.x + rb.w));
+  const dy = Math.max(rb.y - (ra.y + ra.h), ra.y - (rb.y + rb.h));
+  return Math.max(dx, dy);
+}
+
+describe("fillArrange spacing", () => {
+  it("默认无间距时 tile 铺满画布", () => {
+    const result = fillArrangePhotos(photos, 4000, 5000, { seed: 7, searchOptions });
+    expect(hasTileGaps(result.placements, result.canvasW, result.canvasH)).toBe(false);
+    expect(result.placements.every(p => p.tileRect?.r === undefined)).toBe(true);
+  });
+
+  it("照片间留出 gutter、四周留出外边距，照片覆盖各自可见区域", () => {
+    const gutter = 60;
+    const outerMargin = 120;
+    const result = fillArrangePhotos(photos, 4000, 5000, {
+      seed: 7,
+      searchOptions,
+      gutter,
+      outerMargin,
+    });
+    const rects = result.placements.map(p => p.tileRect!);
+    expect(hasTileGaps(result.placements, result.canvasW, result.canvasH)).toBe(true);
+
+    // 外边距
+    expect(Math.min(...rects.map(r => r.x))).toBeCloseTo(outerMargin, 3);
+    expect(Math.min(...rects.map(r => r.y))).toBeCloseTo(outerMargin, 3);
+    expect(Math.max(...rects.map(r => r.x + r.w))).toBeCloseTo(4000 - outerMargin, 3);
+    expect(Math.max(...rects.map(r => r.y + r.h))).toBeCloseTo(5000 - outerMargin, 3);
+
+    // 任意两张照片之间至少相隔 gutter，且相邻照片恰好相隔 gutter
+    let adjacentPairs = 0;
+    for (let i = 0; i < result.placements.length; i++) {
+      for (let j = i + 1; j < result.placements.length; j++) {
+        const gap = gapBetween(result.placements[i], result.placements[j]);
+        expect(gap).toBeGreaterThanOrEqual(gutter - 1e-6);
+        if (Math.abs(gap - gutter) < 1e-6) adjacentPairs++;
+      }
+    }
+    expect(adjacentPairs).toBeGreaterThanOrEqual(result.placements.length - 1);
+
+    // 裁剪评分使用扣除留白后的可见区域
+    const worstAspect = result.quality?.worstCropTileAspect;
+    expect(worstAspect).toBeDefined();
+    expect(rects.some(r => Math.abs(r.w / r.h - worstAspect!) < 1e-6)).toBe(true);
+
+    // 照片居中覆盖各自的可见区域
+    for (const p of result.placements) {
+      const r = p.tileRect!;
+      const crop = p.crop!;
+      expect(crop.width * p.scale).toBeGreaterThanOrEqual(r.w - 0.05);
+      expect(crop.height * p.scale).toBeGreaterThanOrEqual(r.h - 0.05);
+      expect(p.cx).toBeCloseTo(r.x + r.w / 2, 6);
+      expect(p.cy).toBeCloseTo(r.y + r.h / 2, 6);
+    }
+  });
+
+  it("圆角写入 tileRect.r，并限制在可见区域短边的一半以内", () => {
+    const result = fillArrangePhotos(photos, 4000, 5000, {
+      seed: 7,
+      searchOptions,
+      gutter: 40,
+      cornerRadius: 80,
+    });
+    expect(result.placements.every(p => p.tileRect?.r === 80)).toBe(true);
+
+    const huge = fillArrangePhotos(photos.slice(0, 2), 1000, 400, {
+      seed: 3,
+      searchOptions,
+      cornerRadius: 10_000,
+    });
+    for (const p of huge.placements) {
+      const r = p.tileRect!;
+      expect(r.r).toBeCloseTo(Math.min(r.w, r.h) / 2, 6);
+    }
+  });
+
+  it("预留标题横条：照片避开横条并铺满其余区域", () => {
+    for (const edge of ["top", "bottom"] as const) {
+      const band = 800;
+      const result = fillArrangePhotos(photos, 4000, 5000, {
+        seed: 7,
+        searchOptions,
+        titleBandHeight: band,
+        titleBandEdge: edge,
+      });
+      expect(result.canvasW).toBe(4000);
+      expect(result.canvasH).toBe(5000);
+      const rects = result.placements.map(p => p.tileRect!);
+      const top = Math.min(...rects.map(r => r.y));
+      const bottom = Math.max(...rects.map(r => r.y + r.h));
+      expect(top).toBeCloseTo(edge === "top" ? band : 0, 3);
+      expect(bottom).toBeCloseTo(edge === "top" ? 5000 : 5000 - band, 3);
+      const area = rects.reduce((sum, r) => sum + r.w * r.h, 0);
+      expect(area).toBeCloseTo(4000 * (5000 - band), -2);
+      expect(hasTileGaps(result.placements, result.canvasW, result.canvasH)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { PhotoAdjustments } from "@/types";
+import { applyFilterChain, buildCanvasFilter, buildFilterChain, type CanvasFilterOp } from "@/utils/filters";
+
+const neutral: PhotoAdjustments = { brightness: 1, contrast: 1, saturation: 1, preset: "none" };
+
+/** 对单个 RGBA 像素执行滤镜链 */
+function run(rgba: number[], ops: CanvasFilterOp[]): number[] {
+  const pixels = { data: new Uint8ClampedArray(rgba) };
+  applyFilterChain(pixels, ops);
+  return Array.from(pixels.data);
+}
+
+describe("software canvas filters", () => {
+  it("滤镜链与 ctx.filter 字符串一一对应", () => {
+    expect(buildFilterChain(neutral)).toEqual([]);
+    expect(buildCanvasFilter(neutral)).toBe("none");
+    expect(buildCanvasFilter({ ...neutral, brightness: 1.2, preset: "vintage" })).toBe(
+      "brightness(1.2) contrast(1) saturate(1) sepia(0.35) saturate(0.9) contrast(1.08)",
+    );
+    expect(buildFilterChain({ ...neutral, saturation: 9, preset: "blackWhite" })).toEqual([
+      { fn: "brightness", amount: 1 },
+      { fn: "contrast", amount: 1 },
+      { fn: "saturate", amount: 5 },
+      { fn: "grayscale", amount: 1 },
+    ]);
+  });
+
+  it("单个滤镜函数与参考像素一致", () => {
+    expect(run([100, 150, 200, 255], [{ fn: "brightness", amount: 1.5 }])).toEqual([150, 225, 255, 255]);
+    expect(run([100, 200, 30, 255], [{ fn: "contrast", amount: 1.5 }])).toEqual([86, 236, 0, 255]);
+    expect(run([255, 0, 0, 255], [{ fn: "saturate", amount: 0 }])).toEqual([54, 54, 54, 255]);
+    expect(run([200, 100, 50, 255], [{ fn: "saturate", amount: 2 }])).toEqual([255, 82, 0, 255]);
+    expect(run([255, 0, 0, 255], [{ fn: "grayscale", amount: 1 }])).toEqual([54, 54, 54, 255]);
+    expect(run([100, 150, 210, 255], [{ fn: "sepia", amount: 1 }])).toEqual([194, 173, 135, 255]);
+  });
+
+  it("每一步都截断，透明度不变", () => {
+    // brightness(2) 先截到 1，再 contrast(0.5) 得 0.75
+    const ops: CanvasFilterOp[] = [
+      { fn: "brightness", amount: 2 },
+      { fn: "contrast", amount: 0.5 },
+    ];
+    expect(run([200, 200, 200, 128], ops)).toEqual([191, 191, 191, 128]);
+
+    const untouched = [12, 34, 56, 78];
+    expect(run(untouched, buildFilterChain(neutral))).toEqual(untouched);
+    expect(run(untouched, [{ fn: "grayscale", amount: 0 }])).toEqual(untouched);
+  });
+
+  it("预设链按顺序作用", () => {
+    const sepia = run([100, 150, 210, 255], buildFilterChain({ ...neutral, preset: "sepia" }));
+    expect(sepia).toEqual([194, 173, 135, 255]);
+    const bw = run([10, 200, 90, 255], buildFilterChain({ ...neutral, brightness: 1.1, preset: "blackWhite" }));
+    expect(bw[0]).toBe(bw[1]);
+    expect(bw[1]).toBe(bw[2]);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * 内存版 @/project/idb：按对象仓库名保存记录，请求同步完成。
+ * 用法：vi.mock("@/project/idb", () => import("./fixtures/fakeIdb"))
+ */
+
+type FakeRequest<T> = { result: T };
+
+const stores = new Map<string, Map<string, unknown>>();
+
+function getStore(name: string): Map<string, unknown> {
+  let store = stores.get(name);
+  if (!store) {
+    store = new Map();
+    stores.set(name, store);
+  }
+  return store;
+}
+
+function createObjectStore(name: string) {
+  const store = getStore(name);
+  return {
+    get: (id: string): FakeRequest<unknown> => ({ result: store.get(id) }),
+    getAll: (): FakeRequest<unknown[]> => ({ result: [...store.values()] }),
+    put: (value: { id: string }) => {
+      store.set(value.id, { ...value });
+      return { result: value.id };
+    },
+    delete: (id: string) => {
+      store.delete(id);
+      return { result: undefined };
+    },
+    clear: () => {
+      store.clear();
+      return { result: undefined };
+    },
+  };
+}
+
+export async function txStore<T>(
+  storeName: string,
+  _mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> {
+  return await fn(createObjectStore(storeName) as unknown as IDBObjectStore);
+}
+
+export function reqToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return Promise.resolve((req as unknown as FakeRequest<T>).result);
+}
+
+/** 测试直接读写仓库内容 */
+export function fakeIdbStore(name: string): Map<string, unknown> {
+  return getStore(name);
+}
+
+export function resetFakeIdb() {
+  stores.clear();
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+
+vi.mock("@/composables/useLayout", () => ({
+  fillArrangePhotos: vi.fn(),
+}));
+
+vi.mock("@/project/assets", () => ({
+  storeAsset: vi.fn(),
+  getAssetBlob: vi.fn(async () => null),
+}));
+
+vi.mock("@/utils/smartCrop", () => ({
+  getSmartDetections: vi.fn(() => undefined),
+  invalidateSmartDetections: vi.fn(),
+  onSmartDetectionsChanged: vi.fn(() => () => undefined),
+  prefetchSmartDetections: vi.fn(),
+  seedSmartDetections: vi.fn(),
+}));
+
+vi.mock("@/vision/visionClient", () => ({
+  getVisionClient: vi.fn(() => ({
+    isEnabled: vi.fn(() => false),
+    processFile: vi.fn(),
+  })),
+}));
+
+const { useMosaicStore } = await import("@/stores/mosaic");
+
+describe("mosaic store canvas background", () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.stubGlobal("URL", { createObjectURL: vi.fn(), revokeObjectURL: vi.fn() });
+  });
+
+  it("背景按页保存，新建页面沿用当前页的背景", async () => {
+    const store = useMosaicStore();
+    await store.setCanvasBackground({ kind: "solid", color: "#ff0000" });
+    const firstPageId = store.activePageId;
+
+    store.addPage();
+    await Promise.resolve();
+    expect(store.canvasBackground).toEqual({ kind: "solid", color: "#ff0000" });
+    await store.setCanvasBackground({ kind: "radial", inner: "#fff", outer: "#000" });
+
+    store.setActivePage(firstPageId);
+    await Promise.resolve();
+    expect(store.canvasBackground).toEqual({ kind: "solid", color: "#ff0000" });
+    expect(store.pages.find(page => page.id !== firstPageId)?.canvasBackground?.kind).toBe("radial");
+  });
+
+  it("上传图片背景的资源保留在引用列表中，资源缺失时不绘制", async () => {
+    const store = useMosaicStore();
+    await store.setCanvasBackground({ kind: "image", assetId: "bg-asset", fit: "cover", tileSize: 600 });
+    expect(store.canvasBackground?.kind).toBe("image");
+    expect(store.canvasBackgroundSource).toBeNull();
+    expect(store.getReferencedAssetIds()).toContain("bg-asset");
+
+    await store.setCanvasBackground(null);
+    expect(store.getReferencedAssetIds()).not.toContain("bg-asset");
+  });
+});
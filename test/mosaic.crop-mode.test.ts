@@ -7,8 +7,11 @@ vi.mock("@/composables/useLayout", () => ({
 }));
 
 vi.mock("@/project/assets", () => ({
-  createAssetId: vi.fn(() => "asset-1"),
-  putAsset: vi.fn(async () => undefined),
+  storeAsset: vi.fn(async (file: Blob, info: { name: string; type: string; lastModified: number }) => ({
+    ...info,
+    id: "asset-1",
+    size: file.size,
+  })),
 }));
 
 vi.mock("@/utils/smartCrop", () => ({
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+import type { PhotoEntity, PhotoSignature } from "@/types";
+
+const { normalizeImageFileForImport, createPhotoFromFile } = vi.hoisted(() => ({
+  normalizeImageFileForImport: vi.fn(),
+  createPhotoFromFile: vi.fn(),
+}));
+
+vi.mock("@/composables/useLayout", () => ({
+  fillArrangePhotos: vi.fn((photos: PhotoEntity[], canvasW: number, canvasH: number) => ({
+    placements: photos.map(photo => ({
+      id: photo.id,
+      cx: 0,
+      cy: 0,
+      scale: photo.scale,
+      rotation: 0,
+      crop: photo.crop,
+      tileRect: { x: 0, y: 0, w: 100, h: 100 },
+    })),
+    canvasW,
+    canvasH,
+  })),
+}));
+
+vi.mock("@/project/assets", () => ({
+  storeAsset: vi.fn(async (file: Blob, info: { name: string; type: string; lastModified: number }) => ({
+    ...info,
+    id: "asset-1",
+    size: file.size,
+  })),
+}));
+
+vi.mock("@/utils/smartCrop", () => ({
+  getSmartDetections: vi.fn(() => undefined),
+  invalidateSmartDetections: vi.fn(),
+  onSmartDetectionsChanged: vi.fn(() => () => undefined),
+  prefetchSmartDetections: vi.fn(),
+  seedSmartDetections: vi.fn(),
+}));
+
+vi.mock("@/vision/visionClient", () => ({
+  getVisionClient: vi.fn(() => ({
+    isEnabled: vi.fn(() => false),
+    processFile: vi.fn(),
+  })),
+}));
+
+vi.mock("@/utils/image", async importOriginal => {
+  const actual = await importOriginal<typeof import("@/utils/image")>();
+  return { ...actual, normalizeImageFileForImport, createPhotoFromFile };
+});
+
+const { useMosaicStore } = await import("@/stores/mosaic");
+
+const SIGNATURES: Record<string, PhotoSignature> = {
+  "burst-1.jpg": { hash: "00000000000000ff", sharpness: 40, exposure: 0.9 },
+  "burst-2.jpg": { hash: "00000000000000fe", sharpness: 90, exposure: 0.5 },
+  "burst-3.jpg": { hash: "00000000000001ff", sharpness: 60, exposure: 0.7 },
+  "other.jpg": { hash: "ffffffff00000000", sharpness: 10, exposure: 0.2 },
+};
+
+function makePhoto(id: string, name: string): PhotoEntity {
+  return {
+    id,
+    name,
+    srcUrl: `blob:${name}`,
+    image: {} as unknown as CanvasImageSource,
+    imageWidth: 1000,
+    imageHeight: 750,
+    crop: { x: 0, y: 0, width: 1000, height: 750 },
+    adjustments: { brightness: 1, contrast: 1, saturation: 1, preset: "none" },
+    cx: 0,
+    cy: 0,
+    scale: 1,
+    rotation: 0,
+    zIndex: 0,
+    signature: SIGNATURES[name],
+  };
+}
+
+async function importAll(store: ReturnType<typeof useMosaicStore>) {
+  const files = Object.keys(SIGNATURES).map(name => new File([name], name, { type: "image/jpeg" }));
+  return store.addPhotos(files, { concurrency: 1 });
+}
+
+describe("mosaic store near-duplicate clusters", () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.stubGlobal("URL", { createObjectURL: vi.fn(() => "blob:generated"), revokeObjectURL: vi.fn() });
+    normalizeImageFileForImport.mockReset();
+    createPhotoFromFile.mockReset();
+    normalizeImageFileForImport.mockImplementation(async (file: File) => ({
+      file,
+      originalFile: file,
+      wasTranscoded: false,
+      exif: null,
+      orientation: 1,
+    }));
+    createPhotoFromFile.mockImplementation(async (file: File, _w: number, _h: number, opts: { id: string }) =>
+      makePhoto(opts.id, file.name),
+    );
+  });
+
+  it("导入后给相似照片分组并在结果中报告可跳过的张数", async () => {
+    const store = useMosaicStore();
+    const res = await importAll(store);
+
+    expect(res).toMatchObject({ added: 4, truncated: 0, duplicateClusters: 1, duplicates: 2 });
+    expect(store.duplicateClusters).toHaveLength(1);
+    const names = store.duplicateClusters[0].photoIds.map(id => store.photos.find(p => p.id === id)!.name);
+    expect(names).toEqual(["burst-1.jpg", "burst-2.jpg", "burst-3.jpg"]);
+
+    const other = store.photos.find(p => p.name === "other.jpg")!;
+    expect(other.duplicateClusterId).toBeUndefined();
+    expect(store.getDuplicateCluster(other.id)).toBeNull();
+  });
+
+  it("每组保留一张可撤销，全部保留后不再标记", async () => {
+    const store = useMosaicStore();
+    await importAll(store);
+
+    expect(store.resolveDuplicateClusters("sharpest")).toBe(2);
+    expect(store.photos.map(p => p.name)).toEqual(["burst-2.jpg", "other.jpg"]);
+    expect(store.duplicateClusters).toHaveLength(0);
+
+    store.undo();
+    expect(store.photos.map(p => p.name)).toEqual(["burst-1.jpg", "burst-2.jpg", "burst-3.jpg", "other.jpg"]);
+    expect(store.duplicateClusters).toHaveLength(1);
+
+    store.redo();
+    store.undo();
+    expect(store.resolveDuplicateClusters("best-exposed")).toBe(2);
+    expect(store.photos.map(p => p.name)).toEqual(["burst-1.jpg", "other.jpg"]);
+
+    store.undo();
+    store.dismissDuplicateClusters();
+    expect(store.duplicateClusters).toHaveLength(0);
+    expect(store.photos).toHaveLength(4);
+  });
+});
@@ -11,8 +11,11 @@ vi.mock("@/composables/useLayout", () => ({
 }));
 
 vi.mock("@/project/assets", () => ({
-  createAssetId: vi.fn(() => "asset-1"),
-  putAsset: vi.fn(async () => undefined),
+  storeAsset: vi.fn(async (file: Blob, info: { name: string; type: string; lastModified: number }) => ({
+    ...info,
+    id: "asset-1",
+    size: file.size,
+  })),
 }));
 
 vi.mock("@/utils/smartCrop", () => ({
@@ -277,6 +280,26 @@ describe("mosaic store layout flow", () => {
     expect(store.lastLayoutResult).toEqual(baseline);
   });
 
+  it("unlocks pins the layout had to drop in the same history entry", async () => {
+    const store = useMosaicStore();
+    const photo = makePhoto("photo-1");
+    photo.locked = true;
+    photo.tileRect = { x: 1400, y: 900, w: 400, h: 300 };
+    const moved = makeResult(photo, { accepted: true });
+    moved.droppedPinIds = [photo.id];
+
+    store.photos.push(photo);
+    fillArrangePhotos.mockReturnValueOnce(moved);
+
+    await store.autoLayoutWithHistoryAsync();
+    expect(store.photos[0].locked).toBeUndefined();
+    expect(store.photos[0].tileRect).toEqual({ x: 0, y: 0, w: 900, h: 600 });
+
+    store.undo();
+    expect(store.photos[0].locked).toBe(true);
+    expect(store.photos[0].tileRect).toEqual({ x: 1400, y: 900, w: 400, h: 300 });
+  });
+
   it("uses the 136-photo quality-first profile with a stable auto-import seed and stronger confirmed relayout options", async () => {
     const store = useMosaicStore();
     const photos = makeMixedBatch(136);
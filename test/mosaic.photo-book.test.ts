@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+import type { PhotoEntity } from "@/types";
+
+const { fillArrangePhotos } = vi.hoisted(() => ({
+  fillArrangePhotos: vi.fn(),
+}));
+
+vi.mock("@/composables/useLayout", () => ({
+  fillArrangePhotos,
+}));
+
+vi.mock("@/project/assets", () => ({
+  storeAsset: vi.fn(async (file: Blob, info: { name: string; type: string; lastModified: number }) => ({
+    ...info,
+    id: "asset-1",
+    size: file.size,
+  })),
+}));
+
+vi.mock("@/utils/smartCrop", () => ({
+  getSmartDetections: vi.fn(() => undefined),
+  invalidateSmartDetections: vi.fn(),
+  onSmartDetectionsChanged: vi.fn(() => () => undefined),
+  prefetchSmartDetections: vi.fn(),
+  seedSmartDetections: vi.fn(),
+}));
+
+vi.mock("@/vision/visionClient", () => ({
+  getVisionClient: vi.fn(() => ({
+    isEnabled: vi.fn(() => false),
+    processFile: vi.fn(),
+  })),
+}));
+
+const { useMosaicStore } = await import("@/stores/mosaic");
+
+function makePhoto(id: string): PhotoEntity {
+  return {
+    id,
+    name: id,
+    srcUrl: "blob:preview",
+    image: {} as unknown as CanvasImageSource,
+    imageWidth: 1800,
+    imageHeight: 1200,
+    crop: { x: 0, y: 0, width: 1800, height: 1200 },
+    adjustments: {
+      brightness: 1,
+      contrast: 1,
+      saturation: 1,
+      preset: "none",
+    },
+    cx: 0,
+    cy: 0,
+    scale: 1,
+    rotation: 0,
+    zIndex: 0,
+  };
+}
+
+describe("mosaic store photo book", () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    fillArrangePhotos.mockReset();
+  });
+
+  it("撤销会先切回操作所在的页面", () => {
+    const store = useMosaicStore();
+    const firstPageId = store.activePageId;
+    store.photos.push(makePhoto("a"));
+    store.setPhotoLockedWithHistory("a", true);
+
+    store.addPage();
+    const secondPageId = store.activePageId;
+    expect(store.pageCount).toBe(2);
+    expect(secondPageId).not.toBe(firstPageId);
+    expect(store.photos).toHaveLength(0);
+
+    store.photos.push(makePhoto("b"));
+    store.setPhotoLockedWithHistory("b", true);
+
+    store.setActivePage(firstPageId);
+    expect(store.photos.map(p => p.id)).toEqual(["a"]);
+    expect(store.bookPhotoCount).toBe(2);
+
+    store.undo();
+    expect(store.activePageId).toBe(secondPageId);
+    expect(store.photos.find(p => p.id === "b")?.locked).toBeFalsy();
+
+    store.undo();
+    expect(store.pageCount).toBe(1);
+    expect(store.activePageId).toBe(firstPageId);
+    expect(store.photos.find(p => p.id === "a")?.locked).toBe(true);
+
+    store.redo();
+    expect(store.pageCount).toBe(2);
+    expect(store.activePageId).toBe(secondPageId);
+  });
+
+  it("移动与删除页面可以撤销", () => {
+    const store = useMosaicStore();
+    const firstPageId = store.activePageId;
+    store.addPage({ spread: true });
+    const spreadPage = store.pages.find(p => p.id === store.activePageId)!;
+    expect(spreadPage.spread).toBe(true);
+    expect(spreadPage.canvasWidth).toBe(store.pages[0].canvasWidth * 2);
+
+    store.movePage(spreadPage.id, 0);
+    expect(store.pages.map(p => p.id)).toEqual([spreadPage.id, firstPageId]);
+
+    store.removePage(spreadPage.id);
+    expect(store.pageCount).toBe(1);
+    expect(store.activePageId).toBe(firstPageId);
+
+    store.undo();
+    expect(store.pages.map(p => p.id)).toEqual([spreadPage.id, firstPageId]);
+    store.undo();
+    expect(store.pages.map(p => p.id)).toEqual([firstPageId, spreadPage.id]);
+  });
+});
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+import type { PhotoEntity } from "@/types";
+
+vi.mock("@/composables/useLayout", () => ({
+  fillArrangePhotos: vi.fn(),
+}));
+
+vi.mock("@/project/assets", () => ({
+  storeAsset: vi.fn(),
+}));
+
+vi.mock("@/utils/smartCrop", () => ({
+  getSmartDetections: vi.fn(() => undefined),
+  invalidateSmartDetections: vi.fn(),
+  onSmartDetectionsChanged: vi.fn(() => () => undefined),
+  prefetchSmartDetections: vi.fn(),
+  seedSmartDetections: vi.fn(),
+}));
+
+vi.mock("@/vision/visionClient", () => ({
+  getVisionClient: vi.fn(() => ({
+    isEnabled: vi.fn(() => false),
+    processFile: vi.fn(),
+  })),
+}));
+
+const { useMosaicStore } = await import("@/stores/mosaic");
+
+function makePhoto(id: string, cx: number, cy: number): PhotoEntity {
+  return {
+    id,
+    name: id,
+    srcUrl: `blob:${id}`,
+    image: {} as unknown as CanvasImageSource,
+    imageWidth: 200,
+    imageHeight: 100,
+    crop: { x: 0, y: 0, width: 200, height: 100 },
+    adjustments: { brightness: 1, contrast: 1, saturation: 1, preset: "none" },
+    cx,
+    cy,
+    scale: 1,
+    rotation: 0,
+    zIndex: 0,
+  };
+}
+
+function setup() {
+  const store = useMosaicStore();
+  store.photos.push(makePhoto("a", 300, 300), makePhoto("b", 700, 500), makePhoto("c", 1200, 900));
+  return store;
+}
+
+describe("mosaic store multi-selection", () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.stubGlobal("URL", { createObjectURL: vi.fn(), revokeObjectURL: vi.fn() });
+  });
+
+  it("Shift 点击加入/移出选区，单选会清空多选", () => {
+    const store = setup();
+    store.selectPhoto("a");
+    store.togglePhotoSelection("b");
+    store.togglePhotoSelection("c");
+    expect(store.selectedPhotoIds).toEqual(["a", "b", "c"]);
+    expect(store.selectedPhotoId).toBe("c");
+
+    store.togglePhotoSelection("c");
+    expect(store.selectedPhotoIds).toEqual(["a", "b"]);
+    expect(store.selectedPhotoId).toBe("b");
+
+    store.selectPhoto("c");
+    expect(store.selectedPhotoIds).toEqual(["c"]);
+    store.selectPhoto(null);
+    expect(store.selectedPhotoIds).toEqual([]);
+  });
+
+  it("对齐、分布、统一尺寸各记一条画布历史并可撤销", () => {
+    const store = setup();
+    store.setPhotoSelection(["a", "b", "c"], "a");
+
+    expect(store.alignSelectedPhotos("top")).toBe(true);
+    expect(store.photos.map(p => p.cy)).toEqual([300, 300, 300]);
+    expect(store.history).toHaveLength(1);
+    expect(store.history[0].kind).toBe("canvas");
+
+    expect(store.distributeSelectedPhotos("horizontal")).toBe(true);
+    expect(store.photos.find(p => p.id === "b")!.cx).toBe(750);
+
+    store.photos[1].scale = 0.5;
+    expect(store.matchSelectedPhotoSize("width")).toBe(true);
+    expect(store.photos.map(p => p.scale)).toEqual([1, 1, 1]);
+    expect(store.history).toHaveLength(3);
+
+    store.undo();
+    store.undo();
+    expect(store.photos.map(p => p.cx)).toEqual([300, 700, 1200]);
+    store.undo();
+    expect(store.photos.map(p => p.cy)).toEqual([300, 500, 900]);
+  });
+
+  it("整组拖动保持相对位置并记为一条历史，组删除可一次撤销", () => {
+    const store = setup();
+    store.setPhotoSelection(["a", "b"]);
+    const starts = store.selectedPhotos.map(p => ({ id: p.id, cx: p.cx, cy: p.cy }));
+
+    store.moveSelectedPhotosBy(starts, 50, 20);
+    store.moveSelectedPhotosBy(starts, 100, 40);
+    store.pushGroupMoveHistory(starts);
+    expect(store.photos.map(p => [p.cx, p.cy])).toEqual([[400, 340], [800, 540], [1200, 900]]);
+    expect(store.history).toHaveLength(1);
+
+    // 整组位移受最靠边的照片限制
+    store.moveSelectedPhotosBy(starts, -1000, 0);
+    expect(store.photos[0].cx).toBe(100);
+    expect(store.photos[1].cx).toBe(500);
+    store.moveSelectedPhotosBy(starts, 100, 40);
+
+    store.undo();
+    expect(store.photos.map(p => [p.cx, p.cy])).toEqual([[300, 300], [700, 500], [1200, 900]]);
+
+    store.setPhotoSelection(["a", "c"]);
+    expect(store.removeSelectedPhotosWithHistory()).toBe(2);
+    expect(store.photos.map(p => p.id)).toEqual(["b"]);
+    expect(store.selectedPhotoIds).toEqual([]);
+    store.undo();
+    expect(store.photos.map(p => p.id)).toEqual(["a", "b", "c"]);
+  });
+});
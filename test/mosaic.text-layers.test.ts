@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+
+vi.mock("@/composables/useLayout", () => ({
+  fillArrangePhotos: vi.fn(),
+}));
+
+vi.mock("@/project/assets", () => ({
+  storeAsset: vi.fn(),
+  getAssetBlob: vi.fn(),
+}));
+
+vi.mock("@/utils/smartCrop", () => ({
+  getSmartDetections: vi.fn(() => undefined),
+  invalidateSmartDetections: vi.fn(),
+  onSmartDetectionsChanged: vi.fn(() => () => undefined),
+  prefetchSmartDetections: vi.fn(),
+  seedSmartDetections: vi.fn(),
+}));
+
+vi.mock("@/vision/visionClient", () => ({
+  getVisionClient: vi.fn(() => ({
+    isEnabled: vi.fn(() => false),
+    processFile: vi.fn(),
+  })),
+}));
+
+const { useMosaicStore } = await import("@/stores/mosaic");
+
+describe("mosaic store text layers", () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.stubGlobal("URL", { createObjectURL: vi.fn(), revokeObjectURL: vi.fn() });
+  });
+
+  it("新建文字放在画布中央并选中，与照片选中互斥", () => {
+    const store = useMosaicStore();
+    store.selectPhoto("p");
+    const layer = store.addTextLayer({ text: "Hello" });
+
+    expect(layer.cx).toBe(store.canvasWidth / 2);
+    expect(layer.cy).toBe(store.canvasHeight / 2);
+    expect(store.selectedText?.id).toBe(layer.id);
+    expect(store.selectedPhotoId).toBeNull();
+
+    store.selectPhoto("p");
+    expect(store.selectedTextId).toBeNull();
+  });
+
+  it("添加、修改、删除都可撤销与重做", () => {
+    const store = useMosaicStore();
+    const layer = store.addTextLayer({ text: "Hello" });
+    store.updateTextLayerWithHistory(layer.id, { color: "#ff0000", fontSize: 300 });
+    store.removeTextLayer(layer.id);
+    expect(store.textLayers).toHaveLength(0);
+    expect(store.selectedTextId).toBeNull();
+
+    store.undo();
+    expect(store.textLayers[0]).toMatchObject({ text: "Hello", color: "#ff0000", fontSize: 300 });
+    store.undo();
+    expect(store.textLayers[0]).toMatchObject({ color: "#222222" });
+    store.undo();
+    expect(store.textLayers).toHaveLength(0);
+
+    store.redo();
+    store.redo();
+    expect(store.textLayers[0]).toMatchObject({ text: "Hello", color: "#ff0000" });
+  });
+
+  it("拖动等实时修改由调用方提交一条历史", () => {
+    const store = useMosaicStore();
+    const layer = store.addTextLayer();
+    const startCx = layer.cx;
+    const before = store.textLayers.map(item => ({ ...item }));
+    store.updateTextLayer(layer.id, { cx: 10 });
+    store.updateTextLayer(layer.id, { cx: 20, cy: 30 });
+    store.pushTextHistory("move", before);
+    expect(store.history.at(-1)?.label).toBe("move");
+
+    store.undo();
+    expect(store.textLayers[0].cx).toBe(startCx);
+    store.redo();
+    expect(store.textLayers[0]).toMatchObject({ cx: 20, cy: 30 });
+  });
+
+  it("每页有各自的文字，新建页面没有文字", async () => {
+    const store = useMosaicStore();
+    store.addTextLayer({ text: "Cover" });
+    const firstPageId = store.activePageId;
+
+    store.addPage();
+    await Promise.resolve();
+    expect(store.textLayers).toHaveLength(0);
+    store.addTextLayer({ text: "Page 2" });
+
+    store.setActivePage(firstPageId);
+    await Promise.resolve();
+    expect(store.textLayers.map(layer => layer.text)).toEqual(["Cover"]);
+    expect(store.pages.find(page => page.id !== firstPageId)?.texts.map(layer => layer.text)).toEqual([
+      "Page 2",
+    ]);
+  });
+
+  it("标题横条高度与位置写入排版留白设置", () => {
+    const store = useMosaicStore();
+    store.setLayoutSpacing({ titleBandHeight: 99999, titleBandEdge: "bottom" });
+    expect(store.layoutSpacing.titleBandHeight).toBe(3000);
+    expect(store.layoutSpacing.titleBandEdge).toBe("bottom");
+    store.setLayoutSpacing({ titleBandHeight: -5 });
+    expect(store.layoutSpacing.titleBandHeight).toBe(0);
+  });
+});
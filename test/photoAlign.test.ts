@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { PhotoEntity } from "@/types";
+import {
+  alignPhotoPositions,
+  distributePhotoPositions,
+  getPhotoBounds,
+  matchPhotoScales,
+} from "@/utils/photoAlign";
+
+function makePhoto(id: string, cx: number, cy: number, width: number, height: number): PhotoEntity {
+  return {
+    id,
+    name: id,
+    srcUrl: "",
+    image: {} as unknown as CanvasImageSource,
+    imageWidth: width,
+    imageHeight: height,
+    crop: { x: 0, y: 0, width, height },
+    adjustments: { brightness: 1, contrast: 1, saturation: 1, preset: "none" },
+    cx,
+    cy,
+    scale: 1,
+    rotation: 0,
+    zIndex: 0,
+  };
+}
+
+describe("photo align", () => {
+  const photos = [
+    makePhoto("a", 100, 100, 100, 50),
+    makePhoto("b", 300, 260, 60, 120),
+    makePhoto("c", 220, 400, 200, 100),
+  ];
+
+  it("包围盒考虑旋转与 tile 可见区域", () => {
+    const rotated = { ...makePhoto("r", 0, 0, 100, 50), rotation: Math.PI / 2 };
+    const bounds = getPhotoBounds(rotated);
+    expect(bounds.left).toBeCloseTo(-25, 6);
+    expect(bounds.bottom).toBeCloseTo(50, 6);
+
+    const tiled = { ...makePhoto("t", 50, 50, 100, 100), tileRect: { x: 20, y: 30, w: 60, h: 40 } };
+    expect(getPhotoBounds(tiled)).toEqual({ left: 20, top: 30, right: 80, bottom: 70 });
+  });
+
+  it("多张照片对齐到选区边界，单张对齐到画布", () => {
+    const frame = { left: 0, top: 0, right: 1000, bottom: 800 };
+    const left = alignPhotoPositions(photos, "left", frame);
+    expect(left.get("a")).toEqual({ cx: 100, cy: 100 });
+    expect(left.get("b")).toEqual({ cx: 80, cy: 260 });
+    expect(left.get("c")).toEqual({ cx: 150, cy: 400 });
+
+    const bottom = alignPhotoPositions(photos, "bottom", frame);
+    expect(bottom.get("a")!.cy).toBe(425);
+    expect(bottom.get("c")!.cy).toBe(400);
+
+    const middle = alignPhotoPositions(photos, "middle", frame);
+    // 选区纵向 75–450，中线 262.5
+    expect(middle.get("b")!.cy).toBe(262.5);
+
+    const single = alignPhotoPositions([photos[0]], "right", frame);
+    expect(single.get("a")).toEqual({ cx: 950, cy: 100 });
+  });
+
+  it("等距分布保持首尾不动、间距相等", () => {
+    const row = [
+      makePhoto("a", 50, 0, 100, 10),
+      makePhoto("b", 180, 0, 40, 10),
+      makePhoto("c", 950, 0, 100, 10),
+    ];
+    const result = distributePhotoPositions(row, "horizontal");
+    expect(result.get("a")!.cx).toBe(50);
+    expect(result.get("c")!.cx).toBe(950);
+    // 总跨度 1000，照片宽 240，两段间距各 380
+    expect(result.get("b")!.cx).toBe(100 + 380 + 20);
+    expect(distributePhotoPositions(row.slice(0, 2), "horizontal").size).toBe(0);
+  });
+
+  it("统一尺寸按参考照片的可见宽高换算缩放", () => {
+    const scales = matchPhotoScales(photos, photos[2], "width");
+    expect(scales.has("c")).toBe(false);
+    expect(scales.get("a")).toBe(2);
+    expect(matchPhotoScales(photos, photos[1], "height").get("a")).toBe(2.4);
+  });
+});
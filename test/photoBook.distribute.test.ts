@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_BOOK_PAGES,
+  distributePhotosToPages,
+  resolvePageCanvasSize,
+  splitEvenly,
+  type PhotoBookItem,
+} from "@/utils/photoBook";
+
+function items(count: number, takenAt?: (i: number) => number | undefined): PhotoBookItem[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `p${i}`, takenAt: takenAt?.(i) }));
+}
+
+function ids(pages: PhotoBookItem[][]): string[][] {
+  return pages.map(page => page.map(item => item.id));
+}
+
+const day = (d: number, h = 12) => new Date(2024, 4, d, h).getTime();
+
+describe("photo book distribution", () => {
+  it("按每页张数分配时页数最少、各页张数尽量平均", () => {
+    expect(splitEvenly(items(13), 6).map(page => page.length)).toEqual([5, 4, 4]);
+    expect(splitEvenly(items(12), 6).map(page => page.length)).toEqual([6, 6]);
+
+    const pages = distributePhotosToPages(items(7), { mode: "count", perPage: 3 });
+    expect(ids(pages)).toEqual([["p0", "p1", "p2"], ["p3", "p4"], ["p5", "p6"]]);
+  });
+
+  it("没有照片时返回一个空页", () => {
+    expect(distributePhotosToPages([], { mode: "count", perPage: 4 })).toEqual([[]]);
+  });
+
+  it("按时间分配：排序后同一天放在一起，小的日期组合并到同一页", () => {
+    const photos: PhotoBookItem[] = [
+      { id: "d3", takenAt: day(3) },
+      { id: "d1a", takenAt: day(1, 9) },
+      { id: "d2", takenAt: day(2) },
+      { id: "d1b", takenAt: day(1, 18) },
+      { id: "none" },
+      { id: "d4a", takenAt: day(4, 8) },
+      { id: "d4b", takenAt: day(4, 9) },
+      { id: "d4c", takenAt: day(4, 10) },
+      { id: "d4d", takenAt: day(4, 11) },
+      { id: "d4e", takenAt: day(4, 12) },
+    ];
+    const pages = distributePhotosToPages(photos, { mode: "chronological", perPage: 4 });
+    expect(ids(pages)).toEqual([
+      ["d1a", "d1b", "d2", "d3"],
+      ["d4a", "d4b", "d4c"],
+      ["d4d", "d4e", "none"],
+    ]);
+  });
+
+  it("页数超过上限时提高每页张数", () => {
+    const pages = distributePhotosToPages(items(MAX_BOOK_PAGES * 2 + 1), { mode: "count", perPage: 1 });
+    expect(pages.length).toBeLessThanOrEqual(MAX_BOOK_PAGES);
+    expect(pages.flat()).toHaveLength(MAX_BOOK_PAGES * 2 + 1);
+  });
+
+  it("跨页宽度为预设的两倍", () => {
+    expect(resolvePageCanvasSize({ width: 3000, height: 2000 }, true)).toEqual({ width: 6000, height: 2000 });
+    expect(resolvePageCanvasSize({ width: 3000, height: 2000 }, false)).toEqual({ width: 3000, height: 2000 });
+  });
+});
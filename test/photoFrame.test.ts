@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import type { PhotoEntity, PhotoFrameStyle } from "@/types";
+import { autoArrangePhotos } from "@/composables/useLayout";
+import {
+  drawRenderItem,
+  getRenderItemBounds,
+  toRenderPhotoItem,
+  type RenderContext2D,
+} from "@/export/renderComposition";
+import { obbIntersects, rotatedAABBHalf } from "@/utils/math";
+import {
+  normalizePhotoCaption,
+  normalizePhotoFrame,
+  photoFrameOBB,
+  resolveFrameInsets,
+  resolvePhotoFrame,
+} from "@/utils/photoFrame";
+
+const polaroid: PhotoFrameStyle = {
+  kind: "polaroid",
+  color: "#ffffff",
+  width: 0.05,
+  shadow: false,
+  sticker: "none",
+};
+
+function makePhoto(id: string, width: number, height: number, patch: Partial<PhotoEntity> = {}): PhotoEntity {
+  return {
+    id,
+    name: id,
+    srcUrl: "",
+    image: {} as unknown as CanvasImageSource,
+    imageWidth: width,
+    imageHeight: height,
+    crop: { x: 0, y: 0, width, height },
+    adjustments: { brightness: 1, contrast: 1, saturation: 1, preset: "none" },
+    cx: 0,
+    cy: 0,
+    scale: 1,
+    rotation: 0,
+    zIndex: 0,
+    ...patch,
+  };
+}
+
+/** 按顺序记录绘制调用 */
+function createFakeContext() {
+  const calls: Array<{ op: string; args: unknown[]; fillStyle?: unknown }> = [];
+  const record =
+    (op: string) =>
+    (...args: unknown[]) => {
+      calls.push({ op, args, fillStyle: ctx.fillStyle });
+    };
+  const ctx = {
+    fillStyle: "" as unknown,
+    filter: "none",
+    font: "",
+    textAlign: "start",
+    textBaseline: "alphabetic",
+    shadowColor: "",
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+    save: record("save"),
+    restore: record("restore"),
+    translate: record("translate"),
+    rotate: record("rotate"),
+    beginPath: record("beginPath"),
+    rect: record("rect"),
+    moveTo: record("moveTo"),
+    lineTo: record("lineTo"),
+    arcTo: record("arcTo"),
+    closePath: record("closePath"),
+    clip: record("clip"),
+    fill: record("fill"),
+    fillRect: record("fillRect"),
+    fillText: record("fillText"),
+    drawImage: record("drawImage"),
+  };
+  return { ctx: ctx as unknown as RenderContext2D, calls };
+}
+
+describe("photo frame", () => {
+  it("拍立得底边更宽，外框中心随旋转偏移", () => {
+    expect(resolveFrameInsets({ ...polaroid, kind: "border" }, 200)).toEqual({
+      top: 10,
+      right: 10,
+      bottom: 10,
+      left: 10,
+    });
+    expect(resolveFrameInsets(polaroid, 200)).toEqual({ top: 10, right: 10, bottom: 40, left: 10 });
+
+    const photo = makePhoto("a", 400, 200, { cx: 500, cy: 500, frame: polaroid });
+    const upright = photoFrameOBB(photo);
+    expect(upright).toMatchObject({ cx: 500, cy: 515, hw: 210, hh: 125 });
+
+    // 旋转 90° 后底边朝左
+    const turned = photoFrameOBB({ ...photo, rotation: Math.PI / 2 });
+    expect(turned.cx).toBeCloseTo(485, 6);
+    expect(turned.cy).toBeCloseTo(500, 6);
+
+    // 单张设置优先；只有 none 且无投影 / 装饰时不绘制
+    const none: PhotoFrameStyle = { ...polaroid, kind: "none" };
+    expect(resolvePhotoFrame(makePhoto("b", 10, 10), polaroid)).toBe(polaroid);
+    expect(resolvePhotoFrame(makePhoto("b", 10, 10, { frame: none }), polaroid)).toBeNull();
+    expect(resolvePhotoFrame(makePhoto("b", 10, 10), { ...none, shadow: true })).not.toBeNull();
+  });
+
+  it("自由排列按相框外框检测碰撞并留在画布内", () => {
+    const photos = [
+      makePhoto("a", 400, 300),
+      makePhoto("b", 300, 400),
+      makePhoto("c", 400, 400, { frame: { ...polaroid, width: 0.1 } }),
+    ];
+    const frame: PhotoFrameStyle = { ...polaroid, width: 0.08 };
+    const placements = autoArrangePhotos(photos, 1600, 1200, {
+      frame,
+      paddingPx: 0,
+      randomScaleMin: 0.5,
+      randomScaleMax: 0.7,
+      rotationDeg: 8,
+    });
+    expect(placements).not.toBeNull();
+
+    const placed = placements!.map(pl => ({ ...photos.find(p => p.id === pl.id)!, ...pl }));
+    const boxes = placed.map(p => photoFrameOBB(p, frame));
+    for (let i = 0; i < boxes.length; i++) {
+      const { ex, ey } = rotatedAABBHalf(boxes[i].hw, boxes[i].hh, boxes[i].rotation);
+      expect(boxes[i].cx - ex).toBeGreaterThanOrEqual(-1e-6);
+      expect(boxes[i].cy - ey).toBeGreaterThanOrEqual(-1e-6);
+      expect(boxes[i].cx + ex).toBeLessThanOrEqual(1600 + 1e-6);
+      expect(boxes[i].cy + ey).toBeLessThanOrEqual(1200 + 1e-6);
+      for (let j = i + 1; j < boxes.length; j++) {
+        expect(obbIntersects(boxes[i], boxes[j], 0)).toBe(false);
+      }
+    }
+  });
+
+  it("导出先画边框再画照片，题字画在底部", () => {
+    const photo = makePhoto("a", 200, 100, { cx: 300, cy: 200, caption: "Summer" });
+    const item = toRenderPhotoItem(photo, 1, 1, { ...polaroid, color: "#fafafa", sticker: "tape" });
+    expect(item.frame?.kind).toBe("polaroid");
+
+    const { ctx, calls } = createFakeContext();
+    drawRenderItem(ctx, item, {} as CanvasImageSource, 2);
+    const ops = calls.map(call => call.op);
+    const frameFill = calls.findIndex(call => call.op === "fill" && call.fillStyle === "#fafafa");
+    expect(frameFill).toBeGreaterThanOrEqual(0);
+    expect(frameFill).toBeLessThan(ops.indexOf("drawImage"));
+
+    // 外框：照片 200×100，边宽 5，底边 20，输出缩放 2
+    expect(calls.find(call => call.op === "rect")?.args).toEqual([-210, -110, 420, 250]);
+    const caption = calls.find(call => call.op === "fillText");
+    expect(caption?.args.slice(0, 3)).toEqual(["Summer", 0, 120]);
+    expect(ops.lastIndexOf("fillRect")).toBeGreaterThan(ops.indexOf("drawImage"));
+
+    // 包围盒包含底部题字区与胶带
+    const bounds = getRenderItemBounds(item, 1);
+    const plain = getRenderItemBounds(toRenderPhotoItem(photo), 1);
+    expect(bounds.bottom).toBeGreaterThanOrEqual(plain.bottom + 20);
+    expect(bounds.top).toBeLessThan(plain.top - 5);
+  });
+
+  it("铺满布局的相框占满 tile，照片缩进到内框", () => {
+    const photo = makePhoto("a", 200, 200, {
+      cx: 100,
+      cy: 100,
+      tileRect: { x: 0, y: 0, w: 200, h: 200 },
+    });
+    const { ctx, calls } = createFakeContext();
+    drawRenderItem(ctx, toRenderPhotoItem(photo, 1, 1, { ...polaroid, kind: "border" }), {} as CanvasImageSource, 1);
+    const rects = calls.filter(call => call.op === "rect").map(call => call.args);
+    expect(rects).toEqual([
+      [-100, -100, 200, 200],
+      [-90, -90, 180, 180],
+    ]);
+    expect(calls.findIndex(call => call.op === "clip")).toBeLessThan(
+      calls.findIndex(call => call.op === "drawImage"),
+    );
+  });
+
+  it("校验项目中的相框与题字", () => {
+    expect(normalizePhotoFrame(null)).toBeUndefined();
+    expect(normalizePhotoFrame({ kind: "film" })).toBeUndefined();
+    expect(normalizePhotoFrame({ kind: "border", width: 5, sticker: "heart", shadow: "yes" })).toEqual({
+      kind: "border",
+      color: "#ffffff",
+      width: 0.2,
+      shadow: false,
+      sticker: "none",
+    });
+    expect(normalizePhotoCaption("  hello   world ")).toBe("hello world");
+    expect(normalizePhotoCaption("   ")).toBeUndefined();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PHOTO_MOSAIC_SETTINGS,
+  buildPhotoMosaic,
+  normalizePhotoMosaicSettings,
+  resolvePhotoMosaicGrid,
+  rgbToLab,
+  type MosaicRgb,
+  type PhotoMosaicSwatch,
+  type PhotoMosaicTarget,
+} from "@/utils/photoMosaic";
+
+/** 左半红、右半蓝的目标图；可选在右上角加一块黑白棋盘格作为细节区域 */
+function makeTarget(width: number, height: number, checker = false): PhotoMosaicTarget {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let color: MosaicRgb = x < width / 2 ? [220, 30, 30] : [30, 40, 210];
+      if (checker && x >= width / 2 && y < height / 2) {
+        color = (x + y) % 2 === 0 ? [0, 0, 0] : [255, 255, 255];
+      }
+      data.set([...color, 255], i);
+    }
+  }
+  return { width, height, data };
+}
+
+function swatch(id: string, color: MosaicRgb): PhotoMosaicSwatch {
+  return { id, color, width: 120, height: 120 };
+}
+
+const library = [
+  swatch("red", [200, 40, 40]),
+  swatch("red-2", [160, 70, 70]),
+  swatch("blue", [40, 50, 200]),
+  swatch("blue-2", [60, 70, 150]),
+  swatch("green", [30, 200, 40]),
+];
+
+const settings = normalizePhotoMosaicSettings({
+  columns: 8,
+  repeatLimit: 0,
+  minRepeatDistance: 0,
+  blend: 0,
+});
+
+describe("photo mosaic", () => {
+  it("设置越界时夹取到合法范围，网格行数按画布比例推算", () => {
+    const normalized = normalizePhotoMosaicSettings({
+      columns: 1000,
+      repeatLimit: -3,
+      minRepeatDistance: 99,
+      blend: 2,
+      grid: "unknown",
+    });
+    expect(normalized.columns).toBe(120);
+    expect(normalized.repeatLimit).toBe(0);
+    expect(normalized.minRepeatDistance).toBe(10);
+    expect(normalized.blend).toBe(1);
+    expect(normalized.grid).toBe("uniform");
+
+    const grid = resolvePhotoMosaicGrid(800, 1000, { grid: "uniform", columns: 8 });
+    expect([grid.columns, grid.rows]).toEqual([8, 10]);
+    expect(grid.cellW).toBe(100);
+
+    // adaptive 的行列数为粗格子边长（4 个最细格子）的整数倍
+    const adaptive = resolvePhotoMosaicGrid(800, 1000, { grid: "adaptive", columns: 10 });
+    expect(adaptive.columns % 4).toBe(0);
+    expect(adaptive.rows % 4).toBe(0);
+  });
+
+  it("Lab 转换符合参考值", () => {
+    const [l, a, b] = rgbToLab([255, 255, 255]);
+    expect(l).toBeCloseTo(100, 1);
+    expect(Math.abs(a)).toBeLessThan(0.01);
+    expect(Math.abs(b)).toBeLessThan(0.01);
+    expect(rgbToLab([255, 0, 0])[0]).toBeCloseTo(53.24, 1);
+  });
+
+  it("格子铺满画布，按颜色匹配最接近的照片并输出 tileRect", () => {
+    const result = buildPhotoMosaic(makeTarget(32, 40), library, 800, 1000, settings);
+    expect(result.cells).toHaveLength(80);
+    expect(result.placements).toHaveLength(80);
+
+    const covered = result.placements.reduce((sum, p) => sum + p.tileRect!.w * p.tileRect!.h, 0);
+    expect(covered).toBeCloseTo(800 * 1000, 3);
+
+    result.cells.forEach((cell, i) => {
+      const placement = result.placements[i];
+      expect(placement.tileRect).toEqual(cell.tileRect);
+      expect(placement.cx).toBeCloseTo(cell.tileRect.x + cell.tileRect.w / 2, 6);
+      expect(placement.crop!.width * placement.scale).toBeGreaterThanOrEqual(cell.tileRect.w - 1e-6);
+      const left = cell.tileRect.x + cell.tileRect.w / 2 < 400;
+      expect(cell.photoId).toBe(left ? "red" : "blue");
+    });
+    expect(result.usedPhotos).toBe(2);
+    expect(result.relaxedCells).toBe(0);
+  });
+
+  it("重复次数与相邻距离限制会换用次优照片，照片不足时放宽规则", () => {
+    // 9 张照片多于一个格子的 8 个邻居，距离规则总能满足
+    const extended = [
+      ...library,
+      swatch("grey", [128, 128, 128]),
+      swatch("white", [250, 250, 250]),
+      swatch("black", [10, 10, 10]),
+      swatch("yellow", [230, 220, 40]),
+    ];
+    const limited = buildPhotoMosaic(
+      makeTarget(32, 40),
+      extended,
+      800,
+      1000,
+      { ...settings, repeatLimit: 30, minRepeatDistance: 1 },
+    );
+    const counts = new Map<string, number>();
+    for (const cell of limited.cells) counts.set(cell.photoId, (counts.get(cell.photoId) ?? 0) + 1);
+    expect(counts.get("red")).toBeLessThanOrEqual(30);
+    expect(counts.get("red-2")).toBeGreaterThan(0);
+    expect(counts.get("blue-2")).toBeGreaterThan(0);
+
+    // 相邻格子（共享边或角）不会使用同一张照片
+    expect(limited.relaxedCells).toBe(0);
+    for (let i = 0; i < limited.cells.length; i++) {
+      for (let j = i + 1; j < limited.cells.length; j++) {
+        const a = limited.cells[i].tileRect;
+        const b = limited.cells[j].tileRect;
+        if (limited.cells[i].photoId !== limited.cells[j].photoId) continue;
+        const dx = Math.max(b.x - (a.x + a.w), a.x - (b.x + b.w));
+        const dy = Math.max(b.y - (a.y + a.h), a.y - (b.y + b.h));
+        expect(Math.max(dx, dy)).toBeGreaterThan(1e-6);
+      }
+    }
+
+    const scarce = buildPhotoMosaic(
+      makeTarget(32, 40),
+      library.slice(0, 2),
+      800,
+      1000,
+      { ...settings, repeatLimit: 10 },
+    );
+    expect(scarce.cells).toHaveLength(80);
+    expect(scarce.relaxedCells).toBe(60);
+  });
+
+  it("adaptive 网格只在细节多的区域细分", () => {
+    const result = buildPhotoMosaic(
+      makeTarget(64, 80, true),
+      library,
+      800,
+      1000,
+      { ...settings, grid: "adaptive", columns: 16 },
+    );
+    const grid = resolvePhotoMosaicGrid(800, 1000, { grid: "adaptive", columns: 16 });
+    const fine = result.cells.filter(c => Math.abs(c.tileRect.w - grid.cellW) < 1e-6);
+    const coarse = result.cells.filter(c => Math.abs(c.tileRect.w - grid.cellW * 4) < 1e-6);
+    expect(fine.length).toBeGreaterThan(0);
+    expect(coarse.length).toBeGreaterThan(0);
+    // 最细格子都在右上角的棋盘格区域
+    expect(fine.every(c => c.tileRect.x >= 400 && c.tileRect.y < 500)).toBe(true);
+
+    const covered = result.cells.reduce((sum, c) => sum + c.tileRect.w * c.tileRect.h, 0);
+    expect(covered).toBeCloseTo(800 * 1000, 3);
+  });
+
+  it("同一种子结果可复现；没有照片时返回空结果", () => {
+    const a = buildPhotoMosaic(makeTarget(32, 40), library, 800, 1000, DEFAULT_PHOTO_MOSAIC_SETTINGS, 7);
+    const b = buildPhotoMosaic(makeTarget(32, 40), library, 800, 1000, DEFAULT_PHOTO_MOSAIC_SETTINGS, 7);
+    expect(a.cells.map(c => c.photoId)).toEqual(b.cells.map(c => c.photoId));
+
+    const empty = buildPhotoMosaic(makeTarget(32, 40), [], 800, 1000, settings);
+    expect(empty.placements).toEqual([]);
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { PhotoQuality } from "@/types";
+import {
+  analyzeFaceRegion,
+  analyzePhotoQuality,
+  estimateNoise,
+  matchesQualityFilter,
+  sortByQuality,
+  type PixelRegion,
+} from "@/utils/photoQuality";
+
+function makeRegion(width: number, height: number, gray: (x: number, y: number) => number): PixelRegion {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const v = gray(x, y);
+      data[o] = v;
+      data[o + 1] = v;
+      data[o + 2] = v;
+      data[o + 3] = 255;
+    }
+  }
+  return { data, width, height };
+}
+
+const checker = (x: number, y: number) => ((Math.floor(x / 4) + Math.floor(y / 4)) % 2 ? 60 : 200);
+const gradient = (x: number) => 80 + x;
+
+/** 浅色脸部，眼部横带里放两个深色圆（睁眼）或两条细线（闭眼） */
+function makeFace(eyesOpen: boolean): PixelRegion {
+  return makeRegion(64, 64, (x, y) => {
+    for (const cx of [20, 44]) {
+      if (eyesOpen && (x - cx) ** 2 + (y - 26) ** 2 <= 25) return 30;
+      if (!eyesOpen && y === 28 && Math.abs(x - cx) <= 5) return 30;
+    }
+    if (y === 48 && x >= 24 && x <= 40) return 90;
+    return 180;
+  });
+}
+
+describe("photo quality", () => {
+  it("清晰图案的清晰度与综合评分高于平滑渐变", () => {
+    const sharp = analyzePhotoQuality(makeRegion(96, 64, checker));
+    const blurred = analyzePhotoQuality(makeRegion(96, 64, gradient));
+
+    expect(sharp.sharpness).toBeGreaterThan(0.9);
+    expect(blurred.sharpness).toBeLessThan(0.05);
+    expect(sharp.score).toBeGreaterThan(blurred.score);
+    expect(blurred.faceSharpness).toBeUndefined();
+  });
+
+  it("统计亮度直方图与死黑/过曝占比", () => {
+    const quality = analyzePhotoQuality(makeRegion(32, 32, x => (x < 8 ? 0 : x < 16 ? 255 : 128)));
+
+    expect(quality.shadowClipping).toBeCloseTo(0.25, 6);
+    expect(quality.highlightClipping).toBeCloseTo(0.25, 6);
+    expect(quality.histogram).toHaveLength(16);
+    expect(quality.histogram[0]).toBeCloseTo(0.25, 6);
+    expect(quality.histogram[8]).toBeCloseTo(0.5, 6);
+    expect(quality.histogram[15]).toBeCloseTo(0.25, 6);
+    expect(quality.histogram.reduce((sum, v) => sum + v, 0)).toBeCloseTo(1, 6);
+
+    const white = analyzePhotoQuality(makeRegion(16, 16, () => 255));
+    expect(white.highlightClipping).toBe(1);
+    expect(white.exposure).toBe(0);
+  });
+
+  it("噪点估计：纯色为 0，加入均匀噪声后接近其标准差", () => {
+    const flat = new Float32Array(64 * 64).fill(128);
+    expect(estimateNoise(flat, 64, 64)).toBe(0);
+
+    let seed = 7;
+    const noisy = flat.map(v => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return v + (seed / 2147483648 - 0.5) * 20;
+    });
+    // 均匀分布 [-10, 10] 的标准差约为 5.77
+    const sigma = estimateNoise(noisy, 64, 64);
+    expect(sigma).toBeGreaterThan(4);
+    expect(sigma).toBeLessThan(8);
+  });
+
+  it("有人脸时按人脸清晰度评分，背景虚化不拖低分数", () => {
+    const background = makeRegion(96, 64, gradient);
+    const sharpFace = analyzePhotoQuality(background, [makeRegion(48, 48, checker)]);
+    const blurredFace = analyzePhotoQuality(background, [makeRegion(48, 48, gradient)]);
+
+    expect(sharpFace.faceSharpness).toBeGreaterThan(0.9);
+    expect(blurredFace.faceSharpness).toBeLessThan(0.05);
+    expect(sharpFace.score).toBeGreaterThan(blurredFace.score + 0.3);
+  });
+
+  it("眼部只有细线时判为闭眼并扣分，人脸太小时不判断", () => {
+    expect(analyzeFaceRegion(makeFace(true)).eyesClosed).toBe(false);
+    expect(analyzeFaceRegion(makeFace(false)).eyesClosed).toBe(true);
+    expect(analyzeFaceRegion(makeRegion(32, 32, () => 180)).eyesClosed).toBeNull();
+
+    const frame = makeRegion(96, 64, checker);
+    const open = analyzePhotoQuality(frame, [makeFace(true)]);
+    const closed = analyzePhotoQuality(frame, [makeFace(false)]);
+    expect(open.closedEyeFaces).toBe(0);
+    expect(closed.closedEyeFaces).toBe(1);
+    expect(closed.score).toBeLessThan(open.score);
+  });
+
+  it("照片列表按画质排序与筛选", () => {
+    const q = (patch: Partial<PhotoQuality>): PhotoQuality => ({
+      score: 0.5,
+      sharpness: 0.5,
+      laplacianVariance: 170,
+      exposure: 0.8,
+      brightness: 0.5,
+      shadowClipping: 0,
+      highlightClipping: 0,
+      histogram: [],
+      noise: 1,
+      ...patch,
+    });
+    const items = [
+      { id: "a", quality: q({ score: 0.4, sharpness: 0.9 }) },
+      { id: "b" },
+      { id: "c", quality: q({ score: 0.8, sharpness: 0.2, closedEyeFaces: 1 }) },
+      { id: "d", quality: q({ score: 0.4, exposure: 0.1 }) },
+    ];
+
+    expect(sortByQuality(items, "list")).toBe(items);
+    expect(sortByQuality(items, "quality").map(item => item.id)).toEqual(["c", "a", "d", "b"]);
+    expect(sortByQuality(items, "sharpness").map(item => item.id)).toEqual(["a", "d", "c", "b"]);
+
+    const ids = (filter: Parameters<typeof matchesQualityFilter>[1]) =>
+      items.filter(item => matchesQualityFilter(item.quality, filter)).map(item => item.id);
+    expect(ids("all")).toEqual(["a", "b", "c", "d"]);
+    expect(ids("blurry")).toEqual(["c"]);
+    expect(ids("poor-exposure")).toEqual(["d"]);
+    expect(ids("eyes-closed")).toEqual(["c"]);
+  });
+});
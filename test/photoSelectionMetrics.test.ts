@@ -1,6 +1,6 @@
 import { describe, expect, it } from "vitest";
 import type { PhotoEntity } from "@/types";
-import { buildPhotoSelectionInfo } from "@/utils/photoSelectionMetrics";
+import { buildPhotoSelectionInfo, formatExposureTime } from "@/utils/photoSelectionMetrics";
 
 function makePhoto(): PhotoEntity {
   return {
@@ -57,4 +57,60 @@ describe("buildPhotoSelectionInfo", () => {
     expect(info.displayCrop.height).toBe(info.userCrop.height);
     expect(info.displayCrop.aspect).toBe(info.userCrop.aspect);
   });
+
+  it("EXIF 拍摄信息合并为机身、曝光参数与位置", () => {
+    const photo = makePhoto();
+    expect(buildPhotoSelectionInfo(photo).camera).toBeNull();
+
+    photo.exif = {
+      make: "Apple",
+      model: "iPhone 15 Pro",
+      exposureTime: 0.008,
+      fNumber: 1.78,
+      iso: 80,
+      focalLength: 6.765,
+      takenAt: 1714555800000,
+      gps: { latitude: 31.230416, longitude: 121.473701 },
+    };
+    expect(buildPhotoSelectionInfo(photo).camera).toEqual({
+      body: "Apple iPhone 15 Pro",
+      exposure: "1/125 s · f/1.8 · ISO 80 · 6.8 mm",
+      takenAt: 1714555800000,
+      location: "31.23042, 121.47370",
+    });
+
+    photo.exif = { make: "Canon", model: "Canon EOS R5" };
+    expect(buildPhotoSelectionInfo(photo).camera).toEqual({ body: "Canon EOS R5" });
+    expect(formatExposureTime(2.5)).toBe("2.5 s");
+  });
+
+  it("画质结果换算为百分制并归一化直方图", () => {
+    const photo = makePhoto();
+    expect(buildPhotoSelectionInfo(photo).quality).toBeNull();
+
+    photo.quality = {
+      score: 0.614,
+      sharpness: 0.8,
+      laplacianVariance: 402,
+      exposure: 0.555,
+      brightness: 0.5,
+      shadowClipping: 0.0123,
+      highlightClipping: 0,
+      histogram: [0.1, 0.4, 0.2],
+      noise: 2.345,
+      faceSharpness: 0.3,
+      closedEyeFaces: 1,
+    };
+    expect(buildPhotoSelectionInfo(photo).quality).toEqual({
+      score: 61,
+      sharpness: 80,
+      exposure: 56,
+      faceSharpness: 30,
+      shadowClipping: "1.2",
+      highlightClipping: "0.0",
+      noise: "2.3",
+      closedEyeFaces: 1,
+      histogram: [0.25, 1, 0.5],
+    });
+  });
 });
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPixelAdjustments,
+  hasPixelAdjustments,
+  normalizePhotoAdjustments,
+  pixelAdjustmentsKey,
+  type PixelAdjustments,
+  type PixelBuffer,
+} from "@/utils/pixelAdjust";
+
+function makeBuffer(width: number, height: number, fill: (x: number, y: number) => number[]): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = fill(x, y);
+      data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+function pixel(buf: PixelBuffer, x: number, y: number): number[] {
+  const i = (y * buf.width + x) * 4;
+  return Array.from(buf.data.slice(i, i + 4));
+}
+
+function adjust(buf: PixelBuffer, a: PixelAdjustments): PixelBuffer {
+  applyPixelAdjustments(buf, a);
+  return buf;
+}
+
+/** 左暗右亮的竖直边缘 */
+const edge = (width: number) => (x: number) => (x < width / 2 ? [64, 64, 64] : [192, 192, 192]);
+
+describe("pixel adjustments", () => {
+  it("曝光在线性空间加倍，白平衡按色温 / 色调偏移通道", () => {
+    const gray = () => makeBuffer(2, 2, () => [128, 128, 128]);
+    const expected = Math.round(Math.pow(Math.pow(128 / 255, 2.2) * 2, 1 / 2.2) * 255);
+    expect(pixel(adjust(gray(), { exposure: 1 }), 0, 0)).toEqual([expected, expected, expected, 255]);
+    expect(pixel(adjust(gray(), { exposure: -1 }), 0, 0)[0]).toBeLessThan(128);
+
+    const [r, g, b] = pixel(adjust(gray(), { temperature: 60 }), 0, 0);
+    expect(r).toBeGreaterThan(128);
+    expect(g).toBe(128);
+    expect(b).toBeLessThan(128);
+
+    const magenta = pixel(adjust(gray(), { tint: 60 }), 0, 0);
+    expect(magenta[1]).toBeLessThan(magenta[0]);
+    expect(magenta[1]).toBeLessThan(magenta[2]);
+  });
+
+  it("阴影提亮暗部而不动纯黑纯白，高光压暗亮部", () => {
+    const tones = () => makeBuffer(4, 1, x => [[0, 60, 200, 255][x], [0, 60, 200, 255][x], [0, 60, 200, 255][x]]);
+    const lifted = adjust(tones(), { shadows: 80 });
+    expect(pixel(lifted, 0, 0)[0]).toBe(0);
+    expect(pixel(lifted, 1, 0)[0]).toBeGreaterThan(60);
+    expect(pixel(lifted, 3, 0)[0]).toBe(255);
+
+    const recovered = adjust(tones(), { highlights: -80 });
+    expect(pixel(recovered, 2, 0)[0]).toBeLessThan(200);
+    expect(pixel(recovered, 3, 0)[0]).toBe(255);
+  });
+
+  it("自然饱和度对低饱和颜色作用更大", () => {
+    const buf = adjust(
+      makeBuffer(2, 1, x => (x === 0 ? [140, 120, 110] : [230, 40, 30])),
+      { vibrance: 60 },
+    );
+    const muted = pixel(buf, 0, 0);
+    const vivid = pixel(buf, 1, 0);
+    expect(muted[0] - muted[2]).toBeGreaterThan(30 * 1.4);
+    expect(vivid[0] - vivid[2]).toBeLessThanOrEqual(255);
+    expect((vivid[0] - vivid[2]) / 200).toBeLessThan((muted[0] - muted[2]) / 30);
+  });
+
+  it("暗角压暗四角而中心不变", () => {
+    const buf = adjust(makeBuffer(41, 41, () => [200, 200, 200]), { vignette: -80 });
+    expect(pixel(buf, 20, 20)[0]).toBe(200);
+    expect(pixel(buf, 0, 0)[0]).toBeLessThan(100);
+    expect(pixel(adjust(makeBuffer(41, 41, () => [100, 100, 100]), { vignette: 80 }), 0, 0)[0]).toBeGreaterThan(
+      150,
+    );
+  });
+
+  it("锐化与清晰度增强边缘两侧反差，平坦区域不变", () => {
+    // 锐化半径为短边的 0.1%，短边 1000 像素时约 1 像素
+    const sharpened = adjust(makeBuffer(1000, 1000, edge(1000)), { sharpen: 100 });
+    expect(pixel(sharpened, 499, 500)[0]).toBeLessThan(64);
+    expect(pixel(sharpened, 500, 500)[0]).toBeGreaterThan(192);
+    expect(pixel(sharpened, 20, 500)[0]).toBe(64);
+
+    const clear = adjust(makeBuffer(400, 100, edge(400)), { clarity: 100 });
+    expect(pixel(clear, 198, 50)[0]).toBeLessThan(64);
+    expect(pixel(clear, 201, 50)[0]).toBeGreaterThan(192);
+    expect(pixel(clear, 20, 50)[0]).toBe(64);
+  });
+
+  it("半径按短边比例，缩小的图与原图效果一致", () => {
+    const a: PixelAdjustments = { clarity: 80, vignette: -50, exposure: 0.5 };
+    const full = adjust(makeBuffer(400, 200, edge(400)), a);
+    const half = adjust(makeBuffer(200, 100, edge(200)), a);
+    for (const [x, y] of [
+      [0, 0],
+      [50, 50],
+      [150, 80],
+      [196, 50],
+      [203, 50],
+    ]) {
+      const big = pixel(full, x * 2, y * 2)[0];
+      const small = pixel(half, x, y)[0];
+      expect(Math.abs(big - small)).toBeLessThanOrEqual(6);
+    }
+  });
+
+  it("锐化半径随分辨率缩放，小图与原图缩小后的效果一致", () => {
+    // 柔和的竖直边缘，过渡宽度按图宽等比；锐化半径不足 1 像素
+    const soft = (size: number) => (x: number) => {
+      const v = Math.round(128 + 100 * Math.tanh(((x + 0.5) / size - 0.5) / 0.002));
+      return [v, v, v];
+    };
+    const size = 400;
+    const small = adjust(makeBuffer(size, size, soft(size)), { sharpen: 100 });
+    const full = adjust(makeBuffer(size * 2, size * 2, soft(size * 2)), { sharpen: 100 });
+    const plain = makeBuffer(size, size, soft(size));
+
+    let maxDiff = 0;
+    let effect = 0;
+    for (let x = 0; x < size; x++) {
+      // 原图结果横向两像素取平均，对应小图的一个像素
+      const big = (pixel(full, 2 * x, size)[0] + pixel(full, 2 * x + 1, size)[0]) / 2;
+      const value = pixel(small, x, size / 2)[0];
+      maxDiff = Math.max(maxDiff, Math.abs(big - value));
+      effect = Math.max(effect, Math.abs(value - pixel(plain, x, size / 2)[0]));
+    }
+    expect(effect).toBeGreaterThanOrEqual(4);
+    expect(maxDiff).toBeLessThanOrEqual(3);
+  });
+
+  it("只保留有效且非 0 的像素调整", () => {
+    const base = { brightness: 1, contrast: 1, saturation: 1, preset: "none" as const };
+    expect(hasPixelAdjustments(base)).toBe(false);
+    expect(
+      normalizePhotoAdjustments({ ...base, exposure: 9, tint: 0, sharpen: Number.NaN, vignette: -20 }),
+    ).toEqual({ ...base, exposure: 3, vignette: -20 });
+    expect(pixelAdjustmentsKey({ exposure: 0.5 })).toBe(pixelAdjustmentsKey({ exposure: 0.5, tint: 0 }));
+    expect(pixelAdjustmentsKey({ exposure: 0.5 })).not.toBe(pixelAdjustmentsKey({ exposure: 0.6 }));
+
+    const untouched = makeBuffer(3, 3, (x, y) => [x * 40, y * 40, 90]);
+    const copy = new Uint8ClampedArray(untouched.data);
+    applyPixelAdjustments(untouched, { tint: 0 });
+    expect(untouched.data).toEqual(copy);
+  });
+});
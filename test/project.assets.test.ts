@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createContentAssetId,
+  getAsset,
+  hashBlobSha256,
+  isContentAssetId,
+  storeAsset,
+  type StoredAsset,
+} from "@/project/assets";
+import { collectUnusedAssets, countAssetReferences } from "@/project/assetGc";
+import { formatBytes } from "@/utils/format";
+import { fakeIdbStore, resetFakeIdb } from "./fixtures/fakeIdb";
+
+vi.mock("@/project/idb", () => import("./fixtures/fakeIdb"));
+
+describe("content-addressed assets", () => {
+  it("相同内容得到相同 id，不同内容得到不同 id", async () => {
+    const a1 = new Blob([new Uint8Array([1, 2, 3, 4])], { type: "image/jpeg" });
+    const a2 = new Blob([new Uint8Array([1, 2, 3, 4])], { type: "image/png" });
+    const b = new Blob([new Uint8Array([1, 2, 3, 5])]);
+
+    const idA1 = await createContentAssetId(a1);
+    const idA2 = await createContentAssetId(a2);
+    const idB = await createContentAssetId(b);
+
+    expect(idA1).toBe(idA2);
+    expect(idA1).not.toBe(idB);
+    expect(isContentAssetId(idA1)).toBe(true);
+    expect(isContentAssetId("3f1c2c1e-uuid")).toBe(false);
+  });
+
+  it("SHA-256 与标准测试向量一致", async () => {
+    const hex = await hashBlobSha256(new Blob(["abc"]));
+    expect(hex).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+  });
+
+  it("formatBytes 输出可读单位", () => {
+    expect(formatBytes(0)).toBe("0 B");
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(250 * 1024 * 1024)).toBe("250 MB");
+  });
+});
+
+describe("asset storage", () => {
+  beforeEach(() => {
+    resetFakeIdb();
+  });
+
+  it("重复内容返回已有的资源元信息，只保存一份", async () => {
+    const first = await storeAsset(new Blob([new Uint8Array([9, 8, 7])]), {
+      name: "a.jpg",
+      type: "image/jpeg",
+      lastModified: 1,
+    });
+    const again = await storeAsset(new Blob([new Uint8Array([9, 8, 7])]), {
+      name: "copy-of-a.jpg",
+      type: "image/jpeg",
+      lastModified: 2,
+    });
+    expect(again).toEqual(first);
+    expect(again.name).toBe("a.jpg");
+    expect(first.size).toBe(3);
+    expect(fakeIdbStore("assets").size).toBe(1);
+    expect((await getAsset(first.id))?.meta).toEqual(first);
+
+    const other = await storeAsset(new Blob([new Uint8Array([1])]), {
+      name: "b.jpg",
+      type: "image/jpeg",
+      lastModified: 3,
+    });
+    expect(other.id).not.toBe(first.id);
+    expect(fakeIdbStore("assets").size).toBe(2);
+  });
+});
+
+describe("asset garbage collection", () => {
+  const now = 1_750_000_000_000;
+
+  function putStoredAsset(id: string, size: number, storedAt?: number) {
+    fakeIdbStore("assets").set(id, {
+      id,
+      meta: { id, name: `${id}.jpg`, type: "image/jpeg", lastModified: 0, size },
+      blob: new Blob([new Uint8Array(size)]),
+      storedAt,
+    } satisfies StoredAsset);
+  }
+
+  function putProjectRecord(id: string, project: unknown) {
+    fakeIdbStore("projects").set(id, { id, project });
+  }
+
+  beforeEach(() => {
+    resetFakeIdb();
+    vi.spyOn(Date, "now").mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("按项目统计引用，同一项目内重复引用只计一次", async () => {
+    putProjectRecord("p1", {
+      photos: [{ assetId: "shared" }, { assetId: "shared" }, { assetId: "only-p1" }],
+      assets: [{ id: "shared" }, { id: "font" }],
+    });
+    putProjectRecord("p2", { photos: [{ assetId: "shared" }], assets: [] });
+    // 无法解析的记录不影响统计
+    putProjectRecord("broken", null);
+
+    const counts = await countAssetReferences();
+    expect(Object.fromEntries(counts)).toEqual({ shared: 2, "only-p1": 1, font: 1 });
+  });
+
+  it("只删除无引用、不在保留集合且超过 60 秒的资源", async () => {
+    putProjectRecord("p1", { photos: [{ assetId: "used" }], assets: [{ id: "used" }] });
+    putStoredAsset("used", 10, now - 3_600_000);
+    putStoredAsset("orphan", 20, now - 61_000);
+    putStoredAsset("legacy", 30);
+    putStoredAsset("fresh", 40, now - 59_000);
+    putStoredAsset("in-session", 50, now - 3_600_000);
+
+    const result = await collectUnusedAssets({ keep: ["in-session"] });
+    expect(result).toEqual({ removedCount: 2, reclaimedBytes: 50 });
+    expect([...fakeIdbStore("assets").keys()].sort()).toEqual(["fresh", "in-session", "used"]);
+
+    // 宽限期过后，刚导入的资源也会被清理
+    vi.spyOn(Date, "now").mockReturnValue(now + 2_000);
+    expect(await collectUnusedAssets({ keep: ["in-session"] })).toEqual({
+      removedCount: 1,
+      reclaimedBytes: 40,
+    });
+    expect(await collectUnusedAssets({ graceMs: 0 })).toEqual({ removedCount: 1, reclaimedBytes: 50 });
+    expect([...fakeIdbStore("assets").keys()]).toEqual(["used"]);
+  });
+});
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ProjectV2 } from "@/project/schema";
+
+const { applyProjectToStore, getAsset } = vi.hoisted(() => ({
+  applyProjectToStore: vi.fn(async () => undefined),
+  getAsset: vi.fn(async (): Promise<unknown> => null),
+}));
+
+vi.mock("@/project/idb", () => import("./fixtures/fakeIdb"));
+
+vi.mock("@/project/applyProject", () => ({
+  applyProjectToStore,
+}));
+
+vi.mock("@/project/assets", () => ({
+  getAsset,
+  storeAsset: vi.fn(),
+  getStorageEstimate: vi.fn(async () => null),
+}));
+
+vi.mock("@/project/assetGc", () => ({
+  collectUnusedAssets: vi.fn(async () => ({ removedCount: 0, reclaimedBytes: 0 })),
+}));
+
+vi.mock("@/project/thumbnail", () => ({
+  renderProjectThumbnail: vi.fn(() => null),
+}));
+
+vi.mock("@/composables/useLayout", () => ({
+  fillArrangePhotos: vi.fn(),
+}));
+
+vi.mock("@/utils/smartCrop", () => ({
+  getSmartDetections: vi.fn(() => undefined),
+  invalidateSmartDetections: vi.fn(),
+  onSmartDetectionsChanged: vi.fn(() => () => undefined),
+  prefetchSmartDetections: vi.fn(),
+  seedSmartDetections: vi.fn(),
+}));
+
+vi.mock("@/vision/visionClient", () => ({
+  getVisionClient: vi.fn(() => ({
+    isEnabled: vi.fn(() => false),
+    processFile: vi.fn(),
+  })),
+}));
+
+function readFixture(name: string): unknown {
+  return JSON.parse(readFileSync(resolve(__dirname, "fixtures/projects", name), "utf8"));
+}
+
+/** 每个用例重新加载模块：旧槽位迁移与活动项目都是模块级状态 */
+async function loadModules() {
+  vi.resetModules();
+  const idb = (await import("@/project/idb")) as unknown as typeof import("./fixtures/fakeIdb");
+  idb.resetFakeIdb();
+  const records = idb.fakeIdbStore("projects");
+  const projects = await import("@/project/projects");
+  const persistence = await import("@/project/persistence");
+  const { createPinia, setActivePinia } = await import("pinia");
+  setActivePinia(createPinia());
+  const { useProjectLibraryStore } = await import("@/stores/projects");
+  const { useMosaicStore } = await import("@/stores/mosaic");
+  return { records, projects, persistence, useProjectLibraryStore, useMosaicStore };
+}
+
+function projectName(store: Map<string, unknown>, id: string): string | undefined {
+  return (store.get(id) as { project: ProjectV2 } | undefined)?.project.name;
+}
+
+describe("project library", () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    });
+    applyProjectToStore.mockClear();
+    getAsset.mockReset();
+    getAsset.mockResolvedValue(null);
+  });
+
+  it("旧版 latest 槽位迁移为普通项目并设为上次打开", async () => {
+    const { records, projects } = await loadModules();
+    records.set("latest", { id: "latest", project: readFixture("v1-legacy-minimal.json") });
+
+    const list = await projects.listProjects();
+    expect(list.map(p => p.id)).toEqual(["legacy-project"]);
+    expect(list[0].photoCount).toBeGreaterThan(0);
+    expect(records.has("latest")).toBe(false);
+    expect((records.get("legacy-project") as { project: ProjectV2 }).project.version).toBe(2);
+    expect(projects.getLastOpenedProjectId()).toBe("legacy-project");
+  });
+
+  it("新建、改名、复制与删除项目", async () => {
+    const { records, projects } = await loadModules();
+    const base = readFixture("v2-current.json") as ProjectV2;
+
+    const created = await projects.createProject({ name: "  Trip  ", canvas: base.canvas, export: base.export });
+    expect(created.name).toBe("Trip");
+    expect(created.photos).toEqual([]);
+
+    await projects.renameProject(created.id, "Holiday");
+    expect(projectName(records, created.id)).toBe("Holiday");
+    // 空名称回退为按创建时间显示
+    const unnamed = await projects.renameProject(created.id, "   ");
+    expect(unnamed?.name).toBeUndefined();
+    await projects.renameProject(created.id, "Holiday");
+
+    const copy = await projects.duplicateProject(created.id, "Holiday copy");
+    expect(copy?.id).not.toBe(created.id);
+    expect(projectName(records, copy!.id)).toBe("Holiday copy");
+    expect((await projects.listProjects()).map(p => p.name).sort()).toEqual(["Holiday", "Holiday copy"]);
+
+    projects.setLastOpenedProjectId(created.id);
+    await projects.deleteProject(created.id);
+    expect(records.has(created.id)).toBe(false);
+    expect(projects.getLastOpenedProjectId()).toBeNull();
+    expect((await projects.listProjects()).map(p => p.id)).toEqual([copy!.id]);
+  });
+
+  it("切换项目前保存当前项目，再打开目标项目", async () => {
+    const { records, projects, persistence, useProjectLibraryStore } = await loadModules();
+    const base = readFixture("v2-current.json") as ProjectV2;
+    const first = await projects.createProject({ name: "First", canvas: base.canvas, export: base.export });
+    const second = await projects.createProject({ name: "Second", canvas: base.canvas, export: base.export });
+    const before = (records.get(first.id) as { project: ProjectV2 }).project.updatedAt;
+
+    const library = useProjectLibraryStore();
+    persistence.setActiveProjectId(first.id);
+    library.activeProjectId = first.id;
+    await library.open(second.id);
+
+    expect(applyProjectToStore).toHaveBeenCalledTimes(1);
+    expect(applyProjectToStore.mock.calls[0]).toEqual([
+      expect.objectContaining({ project: expect.objectContaining({ id: second.id, name: "Second" }) }),
+    ]);
+    expect(library.activeProjectId).toBe(second.id);
+    expect(persistence.getActiveProjectId()).toBe(second.id);
+    expect(projects.getLastOpenedProjectId()).toBe(second.id);
+    expect((records.get(first.id) as { project: ProjectV2 }).project.updatedAt).toBeGreaterThanOrEqual(before);
+    expect(projectName(records, first.id)).toBe("First");
+  });
+
+  it("自动保存进行中改名，新名称不会被覆盖", async () => {
+    const { records, projects, persistence, useProjectLibraryStore, useMosaicStore } = await loadModules();
+    const base = readFixture("v2-current.json") as ProjectV2;
+    const project = await projects.createProject({ name: "Old", canvas: base.canvas, export: base.export });
+
+    const mosaic = useMosaicStore();
+    const library = useProjectLibraryStore();
+    persistence.setActiveProjectId(project.id);
+    library.activeProjectId = project.id;
+    // 字体资源查询卡住，让第一次自动保存停在读取旧记录之后
+    mosaic.customFonts = [{ family: "Hand", name: "hand.ttf", assetId: "font-1" }];
+    let release!: () => void;
+    getAsset.mockImplementationOnce(() => new Promise(done => (release = () => done(null))));
+
+    const saving = persistence.autosaveNow(mosaic);
+    await vi.waitFor(() => expect(getAsset).toHaveBeenCalled());
+    const renaming = library.rename(project.id, "New");
+    // 给改名足够的时间先写入，再放行卡住的自动保存
+    await new Promise(done => setTimeout(done, 20));
+    release();
+    await Promise.all([saving, renaming]);
+
+    expect(projectName(records, project.id)).toBe("New");
+    await persistence.autosaveNow(mosaic);
+    expect(projectName(records, project.id)).toBe("New");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { strToU8, zipSync } from "fflate";
+import {
+  CURRENT_PROJECT_VERSION,
+  PROJECT_MIGRATIONS,
+  migrateProject,
+  type ProjectMigration,
+} from "@/project/migrations";
+import { parseProjectArchiveBlob } from "@/project/fileFormat";
+import type { ProjectV1, ProjectV2 } from "@/project/schema";
+
+function loadFixture(name: string): unknown {
+  const path = resolve(__dirname, "fixtures/projects", name);
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+describe("project migrations", () => {
+  it("迁移链从 v1 连续覆盖到当前版本", () => {
+    let version = 1;
+    for (const step of PROJECT_MIGRATIONS) {
+      expect(step.from).toBe(version);
+      expect(step.to).toBeGreaterThan(step.from);
+      version = step.to;
+    }
+    expect(version).toBe(CURRENT_PROJECT_VERSION);
+  });
+
+  it("v1 完整存档升级到 v2 时保留全部字段", () => {
+    const input = loadFixture("v1-full.json") as ProjectV1;
+    const project = migrateProject(input);
+
+    expect(project.version).toBe(2);
+    expect(project.id).toBe(input.id);
+    expect(project.createdAt).toBe(input.createdAt);
+    expect(project.updatedAt).toBe(input.updatedAt);
+    expect(project.canvas).toEqual(input.canvas);
+    expect(project.export).toEqual(input.export);
+    expect(project.assets).toEqual(input.assets);
+    expect(project.photos).toHaveLength(2);
+    expect(project.photos[0]).toMatchObject(input.photos[0]);
+    expect(project.photos[1]).toMatchObject(input.photos[1]);
+    expect(project.photos[1].layoutCrop).toBeUndefined();
+    expect(project.photos[1].tileRect).toBeUndefined();
+    expect(project.layout).toBeUndefined();
+    expect(project.history).toBeUndefined();
+  });
+
+  it("早期 v1 存档缺失字段时补齐默认值", () => {
+    const project = migrateProject(loadFixture("v1-legacy-minimal.json"));
+
+    expect(project.version).toBe(2);
+    expect(project.updatedAt).toBe(project.createdAt);
+    expect(project.canvas.presetId).toBe("custom");
+    expect(project.export).toEqual({
+      format: "png",
+      quality: 0.95,
+      resolution: "original",
+    });
+
+    const [p1, p2] = project.photos;
+    expect(p1.name).toBe("photo-1");
+    expect(p1.sourceWidth).toBe(1200);
+    expect(p1.sourceHeight).toBe(800);
+    expect(p1.adjustments).toEqual({
+      brightness: 1,
+      contrast: 1,
+      saturation: 1,
+      preset: "none",
+    });
+    expect(p1.rotation).toBe(0);
+    expect(p1.zIndex).toBe(1);
+    expect(p2.zIndex).toBe(2);
+    expect(p2.adjustments.preset).toBe("sepia");
+
+    expect(project.assets[1]).toEqual({
+      id: "asset-2",
+      name: "asset-2",
+      type: "",
+      size: 0,
+      lastModified: project.createdAt,
+    });
+  });
+
+  it("当前版本存档原样通过，包含检测结果、布局树与历史", () => {
+    const input = loadFixture("v2-current.json") as ProjectV2;
+    const project = migrateProject(input);
+    expect(project).toEqual(input);
+    expect(project.photos[0].detections?.regions).toHaveLength(1);
+    expect(project.layout?.root.kind).toBe("leaf");
+    expect(project.history?.entries).toHaveLength(1);
+  });
+
+  it("拒绝高于当前版本或结构损坏的存档", () => {
+    const newer = {
+      ...(loadFixture("v2-current.json") as object),
+      version: CURRENT_PROJECT_VERSION + 1,
+    };
+    expect(() => migrateProject(newer)).toThrow();
+    expect(() => migrateProject({ version: 1, id: 1, photos: [] })).toThrow();
+    expect(() => migrateProject({ id: "x", photos: [] })).toThrow();
+    expect(() => migrateProject(null)).toThrow();
+  });
+
+  it("缺少中间迁移步骤时报错而不是跳过", () => {
+    const broken: ProjectMigration[] = [];
+    expect(() =>
+      migrateProject(loadFixture("v1-full.json"), broken),
+    ).toThrow();
+  });
+
+  it("解析 .mosaicproj 时自动升级旧版本 project.json", async () => {
+    const files = {
+      "project.json": strToU8(JSON.stringify(loadFixture("v1-full.json"))),
+      "assets/asset-a": new Uint8Array([1, 2, 3]),
+      "assets/asset-b": new Uint8Array([4, 5]),
+    };
+    const blob = new Blob([new Uint8Array(zipSync(files))]);
+    const archive = await parseProjectArchiveBlob(blob);
+
+    expect(archive.project.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(archive.assets.map(a => a.id).sort()).toEqual(["asset-a", "asset-b"]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import type { CanvasSettingsSource } from "@/project/serialize";
+import type { ProjectTargetStore } from "@/project/applyProject";
+import type { PhotoFrameStyle } from "@/types";
+import { DEFAULT_POSTER_EXPORT } from "@/export/poster";
+
+vi.mock("@/project/assets", () => ({
+  getAsset: vi.fn(async () => null),
+}));
+
+vi.mock("@/utils/smartCrop", () => ({
+  prefetchSmartDetections: vi.fn(),
+  restoreSmartDetections: vi.fn(() => false),
+}));
+
+const { buildCanvasSettings, buildExportSettings, buildProjectV2 } = await import("@/project/serialize");
+const { applyProjectToStore } = await import("@/project/applyProject");
+
+function createSource(patch: Partial<CanvasSettingsSource> = {}): CanvasSettingsSource {
+  return {
+    currentPresetId: "custom",
+    canvasWidth: 1200,
+    canvasHeight: 800,
+    layoutSpacing: { gutter: 8, outerMargin: 12, cornerRadius: 4 },
+    canvasMask: null,
+    canvasBackground: null,
+    ...patch,
+  };
+}
+
+/** 只记录设置调用的 store */
+function createTarget() {
+  const store = {
+    currentPresetId: "",
+    canvasWidth: 0,
+    canvasHeight: 0,
+    photos: [],
+    clearAllPhotos: vi.fn(),
+    selectPhoto: vi.fn(),
+    setExportFormat: vi.fn(),
+    setExportQuality: vi.fn(),
+    setExportResolution: vi.fn(),
+    setExportPdfBleed: vi.fn(),
+    setExportPdfPrintMarks: vi.fn(),
+    setExportPoster: vi.fn(),
+    setLayoutSpacing: vi.fn(),
+    setLayoutOrdering: vi.fn(),
+    setPhotoFrame: vi.fn(),
+    setCanvasMask: vi.fn(async () => undefined),
+    setCanvasBackground: vi.fn(async () => undefined),
+    setBookPages: vi.fn(),
+    setTextLayers: vi.fn(),
+    restoreCustomFonts: vi.fn(async () => undefined),
+  } satisfies ProjectTargetStore;
+  return store;
+}
+
+const exportSettings = buildExportSettings({
+  exportFormat: "png",
+  exportQuality: 0.92,
+  exportResolution: "original",
+  exportPdfBleedMm: 0,
+  exportPdfPrintMarks: false,
+  exportPoster: DEFAULT_POSTER_EXPORT,
+});
+
+/** 设置 → 项目 → JSON（自动保存 / 导出文件）→ 重新打开 */
+async function roundTrip(source: CanvasSettingsSource) {
+  const project = buildProjectV2({
+    canvas: buildCanvasSettings(source),
+    export: exportSettings,
+    photos: [],
+    assets: [],
+  });
+  const target = createTarget();
+  await applyProjectToStore({ project: JSON.parse(JSON.stringify(project)), store: target });
+  return target;
+}
+
+describe("project canvas settings round trip", () => {
+  it("保存后重新打开保留排列顺序", async () => {
+    const target = await roundTrip(
+      createSource({ layoutOrdering: { mode: "capture-date", weight: 0.6 } }),
+    );
+    expect(target.setLayoutOrdering).toHaveBeenCalledWith({ mode: "capture-date", weight: 0.6 });
+    expect(target.canvasWidth).toBe(1200);
+    expect(target.setLayoutSpacing).toHaveBeenCalledWith(
+      expect.objectContaining({ gutter: 8, outerMargin: 12, cornerRadius: 4 }),
+    );
+  });
+
+  it("保存后重新打开保留全局相框样式", async () => {
+    const frame: PhotoFrameStyle = {
+      kind: "polaroid",
+      color: "#f5efe0",
+      width: 0.08,
+      shadow: true,
+      sticker: "tape",
+    };
+    const target = await roundTrip(createSource({ photoFrame: frame }));
+    expect(target.setPhotoFrame).toHaveBeenCalledWith(frame);
+    expect(target.setPhotoFrame.mock.calls[0][0]).not.toBe(frame);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  SMART_DETECTOR_VERSION,
+  exportSmartDetections,
+  getSmartDetections,
+  getSmartDetectionsState,
+  invalidateSmartDetections,
+  restoreSmartDetections,
+  seedSmartDetections,
+} from "@/utils/smartCrop";
+import type { KeepRegion } from "@/types/vision";
+
+const face: KeepRegion = {
+  kind: "face",
+  score: 0.9,
+  box: { x: 100, y: 50, width: 80, height: 100 },
+};
+
+describe("smart detections persistence", () => {
+  it("导出后再恢复得到相同的检测结果与状态", () => {
+    seedSmartDetections("persist-a", [face], { hasFaces: true, hasObjects: false });
+    const saved = exportSmartDetections("persist-a");
+    expect(saved?.detectorVersion).toBe(SMART_DETECTOR_VERSION);
+    expect(saved?.regions).toEqual([face]);
+
+    invalidateSmartDetections("persist-a");
+    expect(getSmartDetections("persist-a")).toBeUndefined();
+
+    expect(restoreSmartDetections("persist-a", saved)).toBe(true);
+    expect(getSmartDetections("persist-a")).toEqual([face]);
+    expect(getSmartDetectionsState("persist-a").faceDetectionDone).toBe(true);
+  });
+
+  it("检测器版本不一致时不恢复", () => {
+    const restored = restoreSmartDetections("persist-b", {
+      detectorVersion: "keep-regions@0",
+      regions: [face],
+      hasFaces: true,
+      hasObjects: true,
+    });
+    expect(restored).toBe(false);
+    expect(getSmartDetections("persist-b")).toBeUndefined();
+  });
+
+  it("预览尺寸变化时按比例缩放检测框", () => {
+    restoreSmartDetections(
+      "persist-c",
+      {
+        detectorVersion: SMART_DETECTOR_VERSION,
+        regions: [face],
+        hasFaces: true,
+        hasObjects: false,
+      },
+      { x: 0.5, y: 0.5 },
+    );
+    expect(getSmartDetections("persist-c")?.[0].box).toEqual({
+      x: 50,
+      y: 25,
+      width: 40,
+      height: 50,
+    });
+  });
+
+  it("恢复与新检测走同一写入路径：与已有结果合并去重", () => {
+    const object: KeepRegion = {
+      kind: "object",
+      score: 0.7,
+      box: { x: 300, y: 200, width: 120, height: 90 },
+    };
+    seedSmartDetections("persist-d", [object], { hasFaces: false, hasObjects: true });
+    restoreSmartDetections("persist-d", {
+      detectorVersion: SMART_DETECTOR_VERSION,
+      regions: [face, object],
+      hasFaces: true,
+      hasObjects: true,
+    });
+    expect(getSmartDetections("persist-d")).toHaveLength(2);
+    expect(getSmartDetectionsState("persist-d").faceDetectionDone).toBe(true);
+  });
+
+  it("没有缓存时不导出", () => {
+    expect(exportSmartDetections("persist-missing")).toBeUndefined();
+  });
+});
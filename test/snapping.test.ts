@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSnapTargets,
+  obbToSnapBox,
+  snapMove,
+  snapResize,
+  unionSnapBoxes,
+  type SnapBox,
+} from "@/utils/snapping";
+
+const box = (left: number, top: number, w: number, h: number): SnapBox => ({
+  left,
+  top,
+  right: left + w,
+  bottom: top + h,
+});
+
+describe("snapping", () => {
+  it("旋转后的 OBB 转为轴对齐包围盒", () => {
+    const b = obbToSnapBox({ cx: 100, cy: 100, hw: 20, hh: 10, rotation: Math.PI / 2 });
+    expect(b.left).toBeCloseTo(90, 6);
+    expect(b.right).toBeCloseTo(110, 6);
+    expect(b.top).toBeCloseTo(80, 6);
+    expect(b.bottom).toBeCloseTo(120, 6);
+    expect(unionSnapBoxes([])).toBeNull();
+    expect(unionSnapBoxes([box(0, 0, 10, 10), box(20, 5, 10, 10)])).toEqual(box(0, 0, 30, 15));
+  });
+
+  it("阈值内吸附到画布边与中线，阈值外不动", () => {
+    const targets = buildSnapTargets(1000, 800, []);
+
+    const nearEdge = snapMove(box(4, 200, 100, 100), targets, 6);
+    expect(nearEdge.dx).toBe(-4);
+    expect(nearEdge.dy).toBe(0);
+    expect(nearEdge.lines).toEqual([{ axis: "x", value: 0, start: 0, end: 800, kind: "canvas" }]);
+
+    // 中心 503 → 画布中线 500
+    const nearCenter = snapMove(box(453, 200, 100, 100), targets, 6);
+    expect(nearCenter.dx).toBe(-3);
+    expect(nearCenter.lines.map(line => line.value)).toEqual([500]);
+
+    const free = snapMove(box(200, 200, 100, 100), targets, 6);
+    expect(free).toEqual({ dx: 0, dy: 0, lines: [] });
+  });
+
+  it("吸附到其他照片的边与中线，参考线范围覆盖两张照片", () => {
+    const other = box(300, 100, 200, 100);
+    const targets = buildSnapTargets(1200, 800, [other]);
+
+    // 左边 503 → 另一张照片右边 500；上边 98 → 另一张照片上边 100
+    const result = snapMove(box(503, 98, 60, 50), targets, 6);
+    expect(result.dx).toBe(-3);
+    expect(result.dy).toBe(2);
+    const vertical = result.lines.find(line => line.axis === "x");
+    expect(vertical).toMatchObject({ value: 500, start: 100, end: 200, kind: "photo" });
+    const horizontal = result.lines.find(line => line.axis === "y");
+    expect(horizontal).toMatchObject({ value: 100, start: 300, end: 560, kind: "photo" });
+  });
+
+  it("多个目标在阈值内时取最近的一个，并吸附到用户参考线", () => {
+    const targets = buildSnapTargets(1000, 800, [], [{ id: "g", axis: "x", position: 250 }]);
+
+    const result = snapMove(box(245, 100, 10, 10), targets, 8);
+    // 左 245 距参考线 5，中心 250 恰好对齐
+    expect(result.dx).toBe(0);
+    expect(result.lines).toEqual([{ axis: "x", value: 250, start: 0, end: 800, kind: "guide" }]);
+
+    const right = snapMove(box(236, 100, 10, 10), targets, 8);
+    expect(right.dx).toBe(4);
+    expect(right.lines[0]).toMatchObject({ axis: "x", value: 250, kind: "guide" });
+  });
+
+  it("缩放时按中心等比缩放，让最近的边落到目标上", () => {
+    const targets = buildSnapTargets(1000, 800, []);
+
+    // 中心 (500, 400)，半宽 496 → 右边 996 吸到 1000
+    const result = snapResize(box(4, 300, 992, 200), targets, 6);
+    expect(result.factor).toBeCloseTo(500 / 496, 9);
+    expect(result.lines.some(line => line.axis === "x" && line.value === 1000)).toBe(true);
+
+    const free = snapResize(box(300, 300, 100, 100), targets, 6);
+    expect(free.factor).toBe(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import type { TextLayer } from "@/types";
+import { buildTextFont, drawTextLayer, layoutTextLayer } from "@/export/renderText";
+import type { RenderContext2D } from "@/export/renderComposition";
+import { createTextLayer, fontFamilyFromFileName, normalizeTextLayer } from "@/utils/textLayer";
+
+type Call = { op: "fill" | "stroke"; text: string; x: number; y: number; lineWidth: number; shadowBlur: number };
+
+/** 每个字符宽度为当前字号的一半，记录绘制调用 */
+function createFakeContext() {
+  const calls: Call[] = [];
+  const state = {
+    font: "",
+    lineWidth: 1,
+    shadowBlur: 0,
+    shadowColor: "transparent",
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+  };
+  const fontSize = () => Number(/(\d+(?:\.\d+)?)px/.exec(state.font)?.[1] ?? 10);
+  const ctx = {
+    ...state,
+    get font() {
+      return state.font;
+    },
+    set font(value: string) {
+      state.font = value;
+    },
+    measureText: (text: string) => ({ width: Array.from(text).length * fontSize() * 0.5 }),
+    save() {},
+    restore() {},
+    translate() {},
+    rotate() {},
+    fillText(text: string, x: number, y: number) {
+      calls.push({ op: "fill", text, x, y, lineWidth: ctx.lineWidth, shadowBlur: ctx.shadowBlur });
+    },
+    strokeText(text: string, x: number, y: number) {
+      calls.push({ op: "stroke", text, x, y, lineWidth: ctx.lineWidth, shadowBlur: ctx.shadowBlur });
+    },
+  };
+  return { ctx: ctx as unknown as RenderContext2D & typeof ctx, calls };
+}
+
+const layer = (patch: Partial<TextLayer> = {}): TextLayer =>
+  createTextLayer({ id: "t", text: "AB\nABCD", fontSize: 20, fontWeight: 700, lineHeight: 1.5, ...patch });
+
+describe("text layers", () => {
+  it("按行测量文字块大小，字间距计入宽度", () => {
+    const { ctx } = createFakeContext();
+    const layout = layoutTextLayer(ctx, layer());
+    expect(layout.lines.map(line => line.width)).toEqual([20, 40]);
+    expect(layout.width).toBe(40);
+    expect(layout.height).toBe(60);
+
+    const spaced = layoutTextLayer(ctx, layer({ letterSpacing: 5 }));
+    expect(spaced.lines.map(line => line.width)).toEqual([25, 55]);
+
+    expect(buildTextFont(layer())).toBe("700 20px sans-serif");
+    expect(buildTextFont(layer({ fontFamily: "My Font" }), 2)).toBe('700 40px "My Font", sans-serif');
+  });
+
+  it("对齐方式决定每行起点，导出缩放时位置与描边等比放大", () => {
+    const draw = (patch: Partial<TextLayer>, scale: number) => {
+      const { ctx, calls } = createFakeContext();
+      drawTextLayer(ctx, layer(patch), scale);
+      return calls;
+    };
+
+    expect(draw({ align: "left" }, 1).map(c => c.x)).toEqual([-20, -20]);
+    expect(draw({ align: "center" }, 1).map(c => c.x)).toEqual([-10, -20]);
+    expect(draw({ align: "right" }, 1).map(c => c.x)).toEqual([0, -20]);
+    expect(draw({}, 1).map(c => c.y)).toEqual([-15, 15]);
+
+    const outline = { color: "#fff", width: 2 };
+    const base = draw({ outline }, 1);
+    const scaled = draw({ outline }, 3);
+    expect(scaled.map(c => c.x)).toEqual(base.map(c => c.x * 3));
+    expect(scaled.map(c => c.y)).toEqual(base.map(c => c.y * 3));
+    expect(scaled.filter(c => c.op === "stroke").every(c => c.lineWidth === 12)).toBe(true);
+  });
+
+  it("描边先画并带阴影，填充不再重复阴影；有字间距时逐字绘制", () => {
+    const { ctx, calls } = createFakeContext();
+    drawTextLayer(
+      ctx,
+      layer({
+        text: "AB",
+        outline: { color: "#fff", width: 1 },
+        shadow: { color: "#000", blur: 4, offsetX: 1, offsetY: 1 },
+      }),
+      2,
+    );
+    expect(calls.map(c => `${c.op}:${c.shadowBlur}`)).toEqual(["stroke:8", "fill:0"]);
+
+    const spaced = createFakeContext();
+    drawTextLayer(spaced.ctx, layer({ text: "AB", letterSpacing: 4, align: "left" }), 1);
+    expect(spaced.calls.map(c => [c.text, c.x])).toEqual([
+      ["A", -12],
+      ["B", 2],
+    ]);
+  });
+
+  it("校验项目中的文字图层", () => {
+    expect(normalizeTextLayer(null)).toBeNull();
+    expect(normalizeTextLayer({ id: "a", text: "  " })).toBeNull();
+    const normalized = normalizeTextLayer({
+      id: "a",
+      text: "Hi",
+      fontSize: 1,
+      fontWeight: 730,
+      align: "justify",
+      lineHeight: 10,
+      outline: { width: 0 },
+      shadow: { blur: -3, offsetX: "2" },
+    });
+    expect(normalized).toMatchObject({
+      fontFamily: "sans-serif",
+      fontSize: 8,
+      fontWeight: 700,
+      align: "center",
+      lineHeight: 4,
+      shadow: { blur: 0, offsetX: 2, offsetY: 0 },
+    });
+    expect(normalized?.outline).toBeUndefined();
+    expect(fontFamilyFromFileName('My "Font".woff2')).toBe("My Font");
+  });
+});